@@ -0,0 +1,104 @@
+/* global self, caches, fetch, URL, Response */
+/**
+ * Service worker for offline playback (see src/lib/offline-cache.ts).
+ * - /offline/...: audio and manifests downloaded for offline use, served from Cache Storage
+ * - /_astro/...: hashed JS/CSS, cache first
+ * - player pages: network first, falling back to the last cached copy. Only pages of downloaded notebooks
+ *   are cached (by offline-cache.ts); they are authenticated, so offline-cache.ts clears both caches on
+ *   sign-out and when another user signs in.
+ */
+const SHELL_CACHE = "phrase-follower-shell-v1";
+const OFFLINE_CACHE = "phrase-follower-offline-v1";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("phrase-follower-shell-") && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/offline/")) {
+    event.respondWith(serveOffline(request, url.pathname));
+  } else if (url.pathname.startsWith("/_astro/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate" && url.pathname.startsWith("/player/")) {
+    event.respondWith(networkFirst(request, url.pathname));
+  }
+});
+
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, pathname) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && !response.redirected && (await cache.match(pathname))) {
+      await cache.put(pathname, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(pathname, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Audio elements request ranges (Safari requires 206 responses), so ranges are cut from the cached file
+async function serveOffline(request, pathname) {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const cached = await cache.match(pathname);
+  if (!cached) {
+    return new Response("Not available offline", { status: 404 });
+  }
+
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get("range") || "");
+  if (!range) return cached;
+
+  const body = await cached.arrayBuffer();
+  const size = body.byteLength;
+  let start = range[1] ? Number(range[1]) : size - Number(range[2]);
+  let end = range[1] && range[2] ? Number(range[2]) : size - 1;
+  start = Math.max(0, start);
+  end = Math.min(end, size - 1);
+  if (start > end) {
+    return new Response(null, { status: 416, headers: { "Content-Range": `bytes */${size}` } });
+  }
+
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      "Content-Type": cached.headers.get("Content-Type") || "audio/mpeg",
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+      "Accept-Ranges": "bytes",
+    },
+  });
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { useApi } from "../lib/hooks/useApi";
+import type { AudioEncoding, AudioFormatSettingsDTO } from "../types";
+
+const ENCODING_LABELS: Record<AudioEncoding, string> = {
+  MP3: "MP3 (plays everywhere)",
+  OGG_OPUS: "Ogg Opus (smaller files)",
+};
+
+const DEFAULT_SAMPLE_RATES: Record<AudioEncoding, number> = { MP3: 22050, OGG_OPUS: 24000 };
+
+export default function AudioFormatSettings() {
+  const { apiCall } = useApi();
+  const [settings, setSettings] = useState<AudioFormatSettingsDTO | null>(null);
+  const [encoding, setEncoding] = useState<AudioEncoding>("MP3");
+  const [sampleRateHz, setSampleRateHz] = useState(DEFAULT_SAMPLE_RATES.MP3);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    void apiCall<AudioFormatSettingsDTO>("/api/users/me/audio-format")
+      .then((data) => {
+        setSettings(data);
+        setEncoding(data.audio_format);
+        setSampleRateHz(data.audio_sample_rate_hz);
+      })
+      .catch((error) =>
+        setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not load audio format." })
+      );
+  }, [apiCall]);
+
+  const changeEncoding = (value: AudioEncoding) => {
+    setEncoding(value);
+    if (!settings?.supported_sample_rates[value].includes(sampleRateHz)) {
+      setSampleRateHz(DEFAULT_SAMPLE_RATES[value]);
+    }
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await apiCall<AudioFormatSettingsDTO>("/api/users/me/audio-format", {
+        method: "PUT",
+        body: JSON.stringify({ audio_format: encoding, audio_sample_rate_hz: sampleRateHz }),
+      });
+      setSettings(result);
+      setMessage({ type: "success", text: "Audio format saved. Rebuild a notebook to regenerate its audio." });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not save audio format." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const unchanged = settings?.audio_format === encoding && settings.audio_sample_rate_hz === sampleRateHz;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="audio-format" className="mb-2 block text-sm font-medium text-foreground">
+          Format
+        </label>
+        <select
+          id="audio-format"
+          value={encoding}
+          onChange={(event) => changeEncoding(event.target.value as AudioEncoding)}
+          disabled={!settings}
+          className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground"
+        >
+          {(Object.keys(ENCODING_LABELS) as AudioEncoding[]).map((value) => (
+            <option key={value} value={value}>
+              {ENCODING_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        {encoding === "OGG_OPUS" && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            Some older Safari versions cannot play Ogg Opus. ZIP exports are always converted to MP3.
+          </p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="audio-sample-rate" className="mb-2 block text-sm font-medium text-foreground">
+          Sample rate
+        </label>
+        <select
+          id="audio-sample-rate"
+          value={sampleRateHz}
+          onChange={(event) => setSampleRateHz(Number(event.target.value))}
+          disabled={!settings}
+          className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground"
+        >
+          {(settings?.supported_sample_rates[encoding] ?? [sampleRateHz]).map((rate) => (
+            <option key={rate} value={rate}>
+              {rate.toLocaleString()} Hz
+            </option>
+          ))}
+        </select>
+      </div>
+      {message && (
+        <p
+          className={
+            message.type === "success" ? "text-sm text-green-700 dark:text-green-300" : "text-sm text-destructive"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+      <Button onClick={() => void save()} disabled={saving || !settings || unchanged}>
+        {saving ? "Saving..." : "Save audio format"}
+      </Button>
+    </div>
+  );
+}
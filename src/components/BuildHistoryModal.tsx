@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { LoaderCircle, RotateCcw, X } from "lucide-react";
+import { useApi } from "../lib/hooks/useApi";
+import { Button } from "./ui/button";
+import type { BuildListResponse, BuildSummaryDTO, RollbackBuildResponse } from "../types";
+
+interface BuildHistoryModalProps {
+  open: boolean;
+  notebookId: string;
+  onClose: () => void;
+  onRolledBack: (result: RollbackBuildResponse) => void;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function BuildHistoryModal({ open, notebookId, onClose, onRolledBack }: BuildHistoryModalProps) {
+  const { apiCall } = useApi();
+  const [builds, setBuilds] = useState<BuildSummaryDTO[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const loadBuilds = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await apiCall<BuildListResponse>(`/api/notebooks/${notebookId}/builds?limit=25`, {
+        method: "GET",
+      });
+      setBuilds(result.items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load build history.");
+    } finally {
+      setLoading(false);
+    }
+  }, [apiCall, notebookId]);
+
+  useEffect(() => {
+    if (!open) return;
+    void loadBuilds();
+  }, [loadBuilds, open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (event: KeyboardEvent) => event.key === "Escape" && !rollingBackId && onClose();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose, open, rollingBackId]);
+
+  const handleRollback = async (build: BuildSummaryDTO) => {
+    if (!confirm(`Make the build from ${new Date(build.created_at).toLocaleString()} the current audio?`)) return;
+
+    setRollingBackId(build.id);
+    setError(null);
+    try {
+      const result = await apiCall<RollbackBuildResponse>(`/api/builds/${build.id}/rollback`, { method: "POST" });
+      onRolledBack(result);
+      await loadBuilds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not roll back to this build.");
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  if (!open) return null;
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-background/80 px-0 backdrop-blur-sm sm:items-center sm:px-4 sm:py-4">
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Audio build history"
+        className="flex h-[100dvh] w-full flex-col overflow-hidden bg-card shadow-lg sm:h-auto sm:max-h-[80vh] sm:max-w-2xl sm:rounded-lg sm:border sm:border-border"
+      >
+        <header className="flex items-start justify-between gap-4 border-b border-border px-4 py-3">
+          <div>
+            <h2 className="text-base font-semibold">Audio builds</h2>
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              Roll back to a previous build to restore its audio without regenerating it.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={rollingBackId !== null}
+            className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </header>
+        <main className="min-h-0 flex-1 overflow-y-auto px-4 py-4">
+          {loading && builds.length === 0 && (
+            <div className="flex min-h-48 items-center justify-center gap-2 text-sm text-muted-foreground">
+              <LoaderCircle className="size-4 animate-spin" /> Loading builds...
+            </div>
+          )}
+          {error && (
+            <p className="mb-3 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </p>
+          )}
+          {!loading && builds.length === 0 && !error && (
+            <p className="text-sm text-muted-foreground">No audio has been generated for this notebook yet.</p>
+          )}
+          <ul className="space-y-2">
+            {builds.map((build) => (
+              <li key={build.id} className="rounded-md border border-border p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {new Date(build.created_at).toLocaleString()}
+                      {build.is_current && (
+                        <span className="ml-2 rounded bg-green-500/20 px-1.5 py-0.5 text-xs text-green-300">
+                          Current
+                        </span>
+                      )}
+                    </p>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {build.complete_segments} complete
+                      {build.failed_segments > 0 && `, ${build.failed_segments} failed`} ·{" "}
+                      {formatDuration(build.total_duration_ms)}
+                    </p>
+                    <p className="mt-1 truncate text-xs text-muted-foreground">
+                      {build.voices.map((voice) => `${voice.slot}: ${voice.voice_id ?? "unknown voice"}`).join(" · ")}
+                    </p>
+                  </div>
+                  {!build.is_current && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => void handleRollback(build)}
+                      disabled={rollingBackId !== null || build.complete_segments === 0}
+                      title={build.complete_segments === 0 ? "This build has no playable audio" : undefined}
+                    >
+                      {rollingBackId === build.id ? (
+                        <LoaderCircle className="size-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="size-4" />
+                      )}
+                      Roll back
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </main>
+      </section>
+    </div>
+  );
+}
@@ -3,7 +3,14 @@ import { Button } from "./ui/button";
 import { useApi } from "../lib/hooks/useApi";
 import { useToast } from "./ui/toast";
 import { cn, generateUUID } from "../lib/utils";
-import type { TtsCredentialsStateDTO, UserVoicesListResponse, JobDTO } from "../types";
+import RebuildEstimateDialog from "./RebuildEstimateDialog";
+import type {
+  TtsCredentialsStateDTO,
+  UserVoicesListResponse,
+  JobDTO,
+  JobListResponse,
+  RebuildEstimateDTO,
+} from "../types";
 
 interface GenerateAudioButtonProps {
   notebookId: string;
@@ -24,6 +31,11 @@ interface GenerationState {
   isChecking: boolean;
 }
 
+// Rebuilds that stopped part-way can be continued from their last checkpoint
+function isResumable(job: JobDTO): boolean {
+  return job.type === "GENERATE_REBUILD" && (job.state === "failed" || job.state === "timeout");
+}
+
 export default function GenerateAudioButton({
   notebookId,
   onJobCreated,
@@ -47,6 +59,14 @@ export default function GenerateAudioButton({
   const hasCheckedPrerequisites = useRef(false);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [jobId, setJobId] = useState<string | null>(activeJobId ?? null);
+  const [resumableJob, setResumableJob] = useState<JobDTO | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
+  // Failed segments left by the latest finished job; they can be repaired without a full rebuild
+  const [failedSegments, setFailedSegments] = useState(0);
+  const [isRepairing, setIsRepairing] = useState(false);
+  // Dry-run result shown for confirmation before the rebuild is queued
+  const [estimate, setEstimate] = useState<RebuildEstimateDTO | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
 
   // Keep local jobId in sync when parent provides an active job
   useEffect(() => {
@@ -86,6 +106,7 @@ export default function GenerateAudioButton({
         error: null,
       }));
     } catch (err) {
+      // eslint-disable-next-line no-console
       console.error("Failed to check prerequisites:", err);
       setState((prev) => ({
         ...prev,
@@ -101,6 +122,28 @@ export default function GenerateAudioButton({
     checkPrerequisites();
   }, [checkPrerequisites]);
 
+  // Offer to resume when the notebook's latest job stopped part-way
+  useEffect(() => {
+    let cancelled = false;
+    apiCall<JobListResponse>(`/api/notebooks/${notebookId}/jobs?limit=1`, { method: "GET" })
+      .then((response) => {
+        const latest = response.items[0];
+        if (cancelled || !latest) return;
+        if (isResumable(latest)) {
+          setResumableJob(latest);
+        } else if (latest.state === "succeeded") {
+          setFailedSegments(latest.failed_segments);
+        }
+      })
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error("Failed to load latest job:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apiCall, notebookId]);
+
   // Poll job status when there's an active job
   useEffect(() => {
     if (!jobId) {
@@ -132,6 +175,8 @@ export default function GenerateAudioButton({
 
           setState((prev) => ({ ...prev, isGenerating: false }));
           setJobId(null);
+          setResumableJob(isResumable(job) ? job : null);
+          setFailedSegments(job.state === "succeeded" ? job.failed_segments : 0);
 
           if (onJobCompleted) {
             onJobCompleted(job);
@@ -150,6 +195,12 @@ export default function GenerateAudioButton({
               title: "Audio generation failed",
               description: job.error || "An error occurred during audio generation.",
             });
+          } else if (job.state === "timeout") {
+            addToast({
+              type: "error",
+              title: "Audio generation timed out",
+              description: "Generated segments were saved. Resume to finish the rest.",
+            });
           }
         } else {
           // Job is still running, keep button disabled
@@ -161,6 +212,7 @@ export default function GenerateAudioButton({
         }
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : String(err);
+        // eslint-disable-next-line no-console
         console.error("Failed to poll job status:", err);
 
         // If job not found (404), stop polling - job may have been deleted or doesn't exist
@@ -200,6 +252,35 @@ export default function GenerateAudioButton({
   }, [jobId, apiCall, onJobCompleted, onJobUpdated, addToast]);
 
   const handleGenerateAudio = async () => {
+    if (!state.canGenerate || state.isGenerating || state.isChecking || isEstimating) return;
+
+    setIsEstimating(true);
+    setState((prev) => ({ ...prev, error: null }));
+
+    try {
+      const result = await apiCall<RebuildEstimateDTO>(`/api/notebooks/${notebookId}/jobs/generate-rebuild`, {
+        method: "POST",
+        body: JSON.stringify({ dry_run: true }),
+      });
+      setEstimate(result);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to estimate audio generation";
+      setState((prev) => ({ ...prev, error: errorMessage }));
+
+      addToast({
+        type: "error",
+        title: "Generation failed",
+        description: errorMessage,
+      });
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const handleCancelEstimate = useCallback(() => setEstimate(null), []);
+
+  const startRebuild = async () => {
+    setEstimate(null);
     if (!state.canGenerate || state.isGenerating || state.isChecking) return;
 
     setState((prev) => ({ ...prev, isGenerating: true, error: null }));
@@ -221,6 +302,8 @@ export default function GenerateAudioButton({
       // Keep button disabled - polling will handle re-enabling when job completes
       setState((prev) => ({ ...prev, isGenerating: true }));
       setJobId(job.id);
+      setResumableJob(null);
+      setFailedSegments(0);
 
       addToast({
         type: "success",
@@ -249,10 +332,88 @@ export default function GenerateAudioButton({
     }
   };
 
+  const handleResume = async () => {
+    if (!resumableJob || isResuming || state.isGenerating || jobId) return;
+
+    setIsResuming(true);
+    setState((prev) => ({ ...prev, error: null }));
+
+    try {
+      const job = await apiCall<JobDTO>(`/api/jobs/${resumableJob.id}/resume`, {
+        method: "POST",
+      });
+
+      setState((prev) => ({ ...prev, isGenerating: true }));
+      setJobId(job.id);
+      setResumableJob(null);
+
+      addToast({
+        type: "success",
+        title: "Audio generation resumed",
+        description: "Only the segments that are still missing will be generated.",
+      });
+
+      if (onJobCreated) {
+        onJobCreated(job);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to resume audio generation";
+      setState((prev) => ({ ...prev, error: errorMessage }));
+
+      addToast({
+        type: "error",
+        title: "Resume failed",
+        description: errorMessage,
+      });
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    if (failedSegments === 0 || isRepairing || state.isGenerating || jobId) return;
+
+    setIsRepairing(true);
+    setState((prev) => ({ ...prev, error: null }));
+
+    try {
+      const job = await apiCall<JobDTO>(`/api/notebooks/${notebookId}/jobs/repair-segments`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      });
+
+      setState((prev) => ({ ...prev, isGenerating: true }));
+      setJobId(job.id);
+      setFailedSegments(0);
+
+      addToast({
+        type: "success",
+        title: "Repair started",
+        description: "Only failed or missing segments will be regenerated.",
+      });
+
+      if (onJobCreated) {
+        onJobCreated(job);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to start repair";
+      setState((prev) => ({ ...prev, error: errorMessage }));
+
+      addToast({
+        type: "error",
+        title: "Repair failed",
+        description: errorMessage,
+      });
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
   const getButtonText = () => {
     if (state.isChecking) return "Checking configuration...";
     // Treat any tracked job as "generating" to keep UX consistent
     if (state.isGenerating || jobId) return "Generating...";
+    if (isEstimating) return "Estimating...";
     if (!state.ttsConfigured) return "Configure TTS First";
     if (!state.voicesConfigured) return "Configure Voices First";
     return "Generate Audio";
@@ -270,7 +431,7 @@ export default function GenerateAudioButton({
     // - we are tracking a jobId that hasn't reached a terminal state yet
     // - prerequisites are not met
     // - we're still checking prerequisites
-    return state.isGenerating || !!jobId || !state.canGenerate || state.isChecking;
+    return state.isGenerating || !!jobId || !state.canGenerate || state.isChecking || isEstimating;
   };
 
   const getTooltipText = () => {
@@ -293,8 +454,42 @@ export default function GenerateAudioButton({
         {getButtonText()}
       </Button>
 
+      {resumableJob && !state.isGenerating && !jobId && (
+        <Button
+          onClick={handleResume}
+          disabled={isResuming || !state.canGenerate || state.isChecking}
+          variant="outline"
+          size="sm"
+          title="Continue the interrupted generation; segments already generated are kept"
+          className={buttonClassName}
+        >
+          {isResuming ? "Resuming..." : "Resume generation"}
+        </Button>
+      )}
+
+      {failedSegments > 0 && !resumableJob && !state.isGenerating && !jobId && (
+        <Button
+          onClick={handleRepair}
+          disabled={isRepairing || !state.canGenerate || state.isChecking}
+          variant="outline"
+          size="sm"
+          title="Regenerate only the segments that failed in the last build"
+          className={buttonClassName}
+        >
+          {isRepairing
+            ? "Starting repair..."
+            : `Repair ${failedSegments} failed segment${failedSegments === 1 ? "" : "s"}`}
+        </Button>
+      )}
+
       {state.error && <p className="text-xs text-destructive">{state.error}</p>}
 
+      <RebuildEstimateDialog
+        estimate={estimate}
+        onConfirm={() => void startRebuild()}
+        onCancel={handleCancelEstimate}
+      />
+
       {!state.canGenerate && !state.isGenerating && !state.isChecking && (
         <div className="text-xs text-muted-foreground">
           {!state.ttsConfigured && <p>• Configure TTS credentials in Settings</p>}
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { useJobProgress } from "../lib/hooks/useJobProgress";
+import { estimateRemainingMs, formatEta } from "../lib/job-progress";
+
+interface JobProgressBarProps {
+  jobId: string;
+  /** Resolves the worker's current phrase to a label, e.g. "#12 Good morning" */
+  describePhrase?: (phraseId: string) => string | null;
+}
+
+/**
+ * Live progress of a generation job streamed from `/api/jobs/:jobId/events`:
+ * segment counts, failures, the phrase being processed and an ETA.
+ */
+export default function JobProgressBar({ jobId, describePhrase }: JobProgressBarProps) {
+  const progress = useJobProgress(jobId);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render every second so the ETA keeps counting down between events
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (!progress || progress.total_segments === 0) {
+    return null;
+  }
+
+  const processed = progress.completed_segments + progress.failed_segments;
+  const percent = Math.min(100, Math.round((processed / progress.total_segments) * 100));
+  const remainingMs = estimateRemainingMs(progress, now);
+  const currentPhrase = progress.current_phrase_id ? describePhrase?.(progress.current_phrase_id) : null;
+
+  return (
+    <div className="flex flex-col gap-1 w-full">
+      <div
+        className="h-2 w-full rounded-full bg-blue-100 dark:bg-blue-900 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total_segments}
+        aria-valuenow={processed}
+      >
+        <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-blue-800/80 dark:text-blue-200/80">
+        {processed} / {progress.total_segments} segments ({percent}%)
+        {progress.failed_segments > 0 && <span className="text-destructive"> · {progress.failed_segments} failed</span>}
+        {remainingMs !== null && <span> · {formatEta(remainingMs)} left</span>}
+        {currentPhrase && <span className="opacity-80"> · {currentPhrase}</span>}
+      </p>
+    </div>
+  );
+}
@@ -3,11 +3,14 @@ import { Button } from "./ui/button";
 import { useApi } from "../lib/hooks/useApi";
 import { ToastProvider, useToast } from "./ui/toast";
 import GenerateAudioButton from "./GenerateAudioButton";
+import JobProgressBar from "./JobProgressBar";
 import ExportZipButton from "./ExportZipButton";
+import OfflineDownloadButton from "./OfflineDownloadButton";
 import MobileActionMenu from "./MobileActionMenu";
 import PhraseLearningHintModal from "./PhraseLearningHintModal";
 import StoryModal from "./StoryModal";
-import { Info, Trash2, Minimize2, Plus, Layers, Sparkles } from "lucide-react";
+import BuildHistoryModal from "./BuildHistoryModal";
+import { Info, Trash2, Minimize2, Plus, Layers, Sparkles, History } from "lucide-react";
 import DifficultyBadge from "./DifficultyBadge";
 import type {
   PhraseDTO,
@@ -19,6 +22,7 @@ import type {
   BulkUpdatePhrasesCommand,
   CreateSnapshotCommand,
   CreateSnapshotResultDTO,
+  RollbackBuildResponse,
 } from "../types";
 import { parseMarkdownToHtml, isVirtualNotebook, getDifficultyFromVirtualNotebook } from "../lib/utils";
 import { tokenizePhrase } from "../lib/word-bank.service";
@@ -57,6 +61,7 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
   const [isSavingHint, setIsSavingHint] = useState(false);
   const [hintSaveError, setHintSaveError] = useState<string | null>(null);
   const [storyOpen, setStoryOpen] = useState(false);
+  const [buildHistoryOpen, setBuildHistoryOpen] = useState(false);
 
   // Check if this is a virtual notebook (Smart List)
   const isVirtual = isVirtualNotebook(notebookId);
@@ -630,6 +635,19 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
     }));
   };
 
+  // Handle rollback to a previous audio build
+  const handleBuildRolledBack = (result: RollbackBuildResponse) => {
+    setState((prev) => ({
+      ...prev,
+      notebook: prev.notebook ? { ...prev.notebook, current_build_id: result.current_build_id } : prev.notebook,
+    }));
+    addToast({
+      type: "success",
+      title: "Audio rolled back",
+      description: "The selected build is now the current audio.",
+    });
+  };
+
   // Handle job completion
   const handleJobCompleted = (job: JobDTO | null) => {
     setState((prev) => ({
@@ -734,7 +752,7 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
         <div className="p-3 rounded-md bg-blue-50 border border-blue-200 dark:bg-blue-950 dark:border-blue-800">
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse"></div>
-            <div className="flex flex-col">
+            <div className="flex flex-col flex-1 gap-1">
               <p className="text-sm text-blue-700 dark:text-blue-300">
                 Audio generation {state.activeJob.state === "queued" ? "queued" : "in progress"}... This may take a few
                 minutes.
@@ -743,6 +761,13 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
                 Job state: <span className="font-mono">{state.activeJob.state}</span>{" "}
                 <span className="opacity-80">(id: {state.activeJob.id})</span>
               </p>
+              <JobProgressBar
+                jobId={state.activeJob.id}
+                describePhrase={(phraseId) => {
+                  const index = state.phrases.findIndex((phrase) => phrase.id === phraseId);
+                  return index >= 0 ? `phrase #${index + 1}: ${state.phrases[index].en_text}` : null;
+                }}
+              />
             </div>
           </div>
         </div>
@@ -792,6 +817,19 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
                     activeJobId={state.activeJob?.id || null}
                   />
                 )}
+                {!isVirtualNotebook(notebookId) && state.notebook?.current_build_id && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="shrink-0"
+                    onClick={() => setBuildHistoryOpen(true)}
+                    disabled={!!state.activeJob}
+                    title="Audio build history"
+                    aria-label="Audio build history"
+                  >
+                    <History className="size-4" />
+                  </Button>
+                )}
                 {!isVirtualNotebook(notebookId) && (
                   <Button asChild size="sm" variant="default" className="shrink-0" title="Import phrases into notebook">
                     <a href={`/import?notebookId=${encodeURIComponent(notebookId)}`} aria-label="Import phrases">
@@ -821,6 +859,13 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
                         : undefined
                   }
                 />
+                {!isVirtualNotebook(notebookId) && (
+                  <OfflineDownloadButton
+                    notebookId={notebookId}
+                    notebookName={state.notebook?.name || "Notebook"}
+                    buildId={state.notebook?.current_build_id ?? null}
+                  />
+                )}
               </div>
             </div>
 
@@ -889,6 +934,26 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
                           className="w-full justify-start"
                           query={difficultyFilter !== "all" ? { difficulty: difficultyFilter } : undefined}
                         />
+                        <OfflineDownloadButton
+                          notebookId={notebookId}
+                          notebookName={state.notebook?.name || "Notebook"}
+                          buildId={state.notebook?.current_build_id ?? null}
+                          showLabel
+                          size="default"
+                          variant="default"
+                          className="w-full justify-start"
+                        />
+                        {state.notebook?.current_build_id && (
+                          <Button
+                            variant="default"
+                            className="w-full justify-start"
+                            onClick={() => setBuildHistoryOpen(true)}
+                            disabled={!!state.activeJob}
+                          >
+                            <History className="size-4" />
+                            Build history
+                          </Button>
+                        )}
                       </div>
                     )}
                   </MobileActionMenu>
@@ -1345,6 +1410,14 @@ function NotebookViewContent({ notebookId }: NotebookViewProps) {
           onClose={handleCloseHintEditor}
         />
         <StoryModal open={storyOpen} phraseIds={Array.from(selectedPhraseIds)} onClose={() => setStoryOpen(false)} />
+        {!isVirtual && (
+          <BuildHistoryModal
+            open={buildHistoryOpen}
+            notebookId={notebookId}
+            onClose={() => setBuildHistoryOpen(false)}
+            onRolledBack={handleBuildRolledBack}
+          />
+        )}
       </div>
     </div>
   );
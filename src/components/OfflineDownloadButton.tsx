@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from "react";
+import { Check, CloudDownload } from "lucide-react";
+import { Button } from "./ui/button";
+import { useToast } from "./ui/toast";
+import { useApi } from "../lib/hooks/useApi";
+import {
+  downloadNotebookForOffline,
+  formatStorageSize,
+  isOfflineSupported,
+  listOfflineNotebooks,
+  registerServiceWorker,
+  type OfflineNotebook,
+} from "../lib/offline-cache";
+import type { PlaybackManifestDTO } from "../types";
+
+type ButtonVariant = "default" | "destructive" | "outline" | "secondary" | "ghost" | "link";
+type ButtonSize = "default" | "sm" | "lg" | "icon";
+
+interface OfflineDownloadButtonProps {
+  notebookId: string;
+  notebookName: string;
+  /** Current build id; an offline copy of an older build is offered as an update */
+  buildId: string | null;
+  showLabel?: boolean;
+  variant?: ButtonVariant;
+  size?: ButtonSize;
+  className?: string;
+}
+
+/** "Download for offline": caches the notebook's manifest and audio for the player (managed in Settings) */
+export default function OfflineDownloadButton({
+  notebookId,
+  notebookName,
+  buildId,
+  showLabel = false,
+  variant = "outline",
+  size = "sm",
+  className,
+}: OfflineDownloadButtonProps) {
+  const { addToast } = useToast();
+  const { apiCall } = useApi();
+  const [supported, setSupported] = useState(false);
+  const [offlineCopy, setOfflineCopy] = useState<OfflineNotebook | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+    setSupported(true);
+    void listOfflineNotebooks()
+      .then((notebooks) => setOfflineCopy(notebooks.find((item) => item.notebook_id === notebookId) ?? null))
+      .catch(() => setOfflineCopy(null));
+  }, [notebookId]);
+
+  if (!supported) return null;
+
+  const isCurrent = offlineCopy !== null && offlineCopy.build_id === buildId;
+  const title = progress
+    ? `Downloading ${progress.done}/${progress.total}`
+    : isCurrent
+      ? `Available offline (${formatStorageSize(offlineCopy.size_bytes)}); download again to refresh`
+      : offlineCopy
+        ? "Update offline copy to the latest audio"
+        : "Download for offline";
+
+  const handleDownload = async () => {
+    if (progress || !buildId) return;
+
+    setProgress({ done: 0, total: 0 });
+    try {
+      await registerServiceWorker();
+      const manifest = await apiCall<PlaybackManifestDTO>(`/api/notebooks/${notebookId}/playback-manifest`);
+      const saved = await downloadNotebookForOffline(manifest, notebookName, (done, total) =>
+        setProgress({ done, total })
+      );
+      setOfflineCopy(saved);
+      addToast({
+        type: "success",
+        title: "Available offline",
+        description: `${saved.phrase_count} phrases (${formatStorageSize(saved.size_bytes)}) can be played without a connection.`,
+      });
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error("[OfflineDownloadButton] Download error:", err);
+      addToast({
+        type: "error",
+        title: "Offline download failed",
+        description: err instanceof Error ? err.message : "Could not download the notebook",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Button
+      onClick={() => void handleDownload()}
+      disabled={!buildId || progress !== null}
+      variant={variant}
+      size={size}
+      title={buildId ? title : "Generate audio first to download for offline"}
+      aria-label={title}
+      className={`${showLabel ? "gap-2 px-3" : "p-2"} shrink-0 ${className || ""}`}
+    >
+      {isCurrent && !progress ? <Check className="size-4" /> : <CloudDownload className="size-4" />}
+      {showLabel && (
+        <span>
+          {progress
+            ? `Downloading ${progress.done}/${progress.total}`
+            : isCurrent
+              ? "Available offline"
+              : "Download for offline"}
+        </span>
+      )}
+    </Button>
+  );
+}
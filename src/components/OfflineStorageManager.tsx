@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  formatStorageSize,
+  isOfflineSupported,
+  listOfflineNotebooks,
+  removeOfflineNotebook,
+  type OfflineNotebook,
+} from "../lib/offline-cache";
+
+interface StorageState {
+  usageBytes: number | null;
+  quotaBytes: number | null;
+  persisted: boolean;
+}
+
+async function readStorageState(): Promise<StorageState> {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  const persisted = (await navigator.storage?.persisted?.().catch(() => false)) ?? false;
+  return { usageBytes: estimate?.usage ?? null, quotaBytes: estimate?.quota ?? null, persisted };
+}
+
+/** Notebooks downloaded for offline playback in this browser, with their size and the storage quota */
+export default function OfflineStorageManager() {
+  const [supported, setSupported] = useState(true);
+  const [notebooks, setNotebooks] = useState<OfflineNotebook[]>([]);
+  const [storage, setStorage] = useState<StorageState | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [items, state] = await Promise.all([listOfflineNotebooks(), readStorageState()]);
+      setNotebooks(items);
+      setStorage(state);
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not read offline storage." });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOfflineSupported()) {
+      setSupported(false);
+      return;
+    }
+    void refresh();
+  }, [refresh]);
+
+  const remove = async (notebook: OfflineNotebook) => {
+    setMessage(null);
+    try {
+      await removeOfflineNotebook(notebook.notebook_id);
+      setMessage({ type: "success", text: `Removed the offline copy of ${notebook.name}.` });
+      await refresh();
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not remove the download." });
+    }
+  };
+
+  const removeAll = async () => {
+    setMessage(null);
+    try {
+      await Promise.all(notebooks.map((notebook) => removeOfflineNotebook(notebook.notebook_id)));
+      setMessage({ type: "success", text: "Removed all offline copies." });
+      await refresh();
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not remove the downloads." });
+    }
+  };
+
+  // Without persistence the browser may evict downloads when the device runs low on space
+  const persist = async () => {
+    const persisted = (await navigator.storage?.persist?.().catch(() => false)) ?? false;
+    setMessage(
+      persisted
+        ? { type: "success", text: "Downloads will be kept until you remove them." }
+        : { type: "error", text: "The browser did not allow persistent storage." }
+    );
+    await refresh();
+  };
+
+  if (!supported) {
+    return <p className="text-sm text-muted-foreground">This browser does not support offline playback.</p>;
+  }
+
+  const downloadedBytes = notebooks.reduce((sum, notebook) => sum + notebook.size_bytes, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground space-y-1">
+        <p>
+          Downloaded audio: <span className="text-foreground">{formatStorageSize(downloadedBytes)}</span>
+          {storage?.usageBytes != null && storage.quotaBytes != null && (
+            <>
+              {" "}
+              · site storage {formatStorageSize(storage.usageBytes)} of {formatStorageSize(storage.quotaBytes)}
+            </>
+          )}
+        </p>
+        <p>
+          {storage?.persisted
+            ? "Storage is persistent: the browser will not clear downloads on its own."
+            : "The browser may clear downloads when the device runs low on space."}
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {storage && !storage.persisted && (
+          <Button variant="outline" size="sm" onClick={() => void persist()}>
+            Keep downloads
+          </Button>
+        )}
+        {notebooks.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => void removeAll()}>
+            Remove all
+          </Button>
+        )}
+      </div>
+      {message && (
+        <p
+          className={
+            message.type === "success" ? "text-sm text-green-700 dark:text-green-300" : "text-sm text-destructive"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+      {notebooks.length > 0 ? (
+        <ul className="divide-y divide-border text-sm">
+          {notebooks.map((notebook) => (
+            <li key={notebook.notebook_id} className="flex items-center justify-between gap-2 py-2">
+              <div>
+                <a href={`/player/${notebook.notebook_id}`} className="font-medium text-foreground hover:underline">
+                  {notebook.name}
+                </a>
+                <p className="text-xs text-muted-foreground">
+                  {notebook.phrase_count} phrases · {formatStorageSize(notebook.size_bytes)} · downloaded{" "}
+                  {new Date(notebook.downloaded_at).toLocaleString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => void remove(notebook)}
+                className="shrink-0 rounded-md p-1 text-muted-foreground hover:bg-muted"
+                aria-label={`Remove offline copy of ${notebook.name}`}
+              >
+                <Trash2 className="size-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No notebooks downloaded. Use &quot;Download for offline&quot; on a notebook to play it without a connection.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ interface PhraseViewerProps {
   phrase?: PhraseVM;
   activeLang: "en" | "pl" | null;
   highlight: boolean;
+  /** Token currently spoken (from word timings); null highlights the whole active language */
+  activeTokenIndex?: number | null;
   onSeekToToken: (tokenIndex: number, language: "en" | "pl") => void;
   onSwipeLeft?: () => void;
   onSwipeRight?: () => void;
@@ -18,6 +20,7 @@ export default function PhraseViewer({
   phrase,
   activeLang,
   highlight,
+  activeTokenIndex = null,
   onSeekToToken,
   onSwipeLeft,
   onSwipeRight,
@@ -145,7 +148,7 @@ export default function PhraseViewer({
     return (
       <div className="flex flex-wrap items-center gap-1 md:gap-1.5">
         {tokens.map((token, index) => {
-          const isTokenActive = isHighlighted && isActive;
+          const isTokenActive = isHighlighted && (activeTokenIndex === null || activeTokenIndex === index);
 
           // Check if token overlaps with any formatting range
           // Token positions are character indices in the original text
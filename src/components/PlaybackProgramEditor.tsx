@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { useApi } from "../lib/hooks/useApi";
+import {
+  DEFAULT_PAUSE_MS,
+  DEFAULT_PLAYBACK_PROGRAM,
+  describePlaybackProgram,
+  PLAYBACK_PROGRAM_MAX_STEPS,
+  PLAYBACK_STEP_MAX_PAUSE_MS,
+  PLAYBACK_STEP_MAX_REPEAT,
+} from "../lib/playback-program";
+import type {
+  CreatePlaybackProgramCommand,
+  PlaybackProgramDTO,
+  PlaybackProgramStep,
+  PlaybackProgramsResponse,
+  VoiceSlot,
+} from "../types";
+
+interface ProgramForm {
+  id: string | null;
+  name: string;
+  steps: PlaybackProgramStep[];
+}
+
+const SLOTS: VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
+
+const EMPTY_FORM: ProgramForm = { id: null, name: "", steps: [...DEFAULT_PLAYBACK_PROGRAM] };
+
+const inputClassName = "w-full rounded-md border border-border bg-background px-3 py-2 text-foreground";
+
+export default function PlaybackProgramEditor() {
+  const { apiCall } = useApi();
+  const [programs, setPrograms] = useState<PlaybackProgramDTO[]>([]);
+  const [form, setForm] = useState<ProgramForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    void apiCall<PlaybackProgramsResponse>("/api/playback-programs")
+      .then((data) => setPrograms(data.items))
+      .catch((error) =>
+        setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not load programs." })
+      );
+  }, [apiCall]);
+
+  const updateStep = (index: number, changes: Partial<PlaybackProgramStep>) => {
+    setForm({ ...form, steps: form.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) });
+  };
+
+  const save = async () => {
+    if (!form.name.trim()) {
+      setMessage({ type: "error", text: "Give the program a name." });
+      return;
+    }
+
+    const command: CreatePlaybackProgramCommand = { name: form.name, steps: form.steps };
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const saved = await apiCall<PlaybackProgramDTO>(
+        form.id ? `/api/playback-programs/${form.id}` : "/api/playback-programs",
+        { method: form.id ? "PATCH" : "POST", body: JSON.stringify(command) }
+      );
+      setPrograms((current) =>
+        [...current.filter((program) => program.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setForm(EMPTY_FORM);
+      setMessage({ type: "success", text: form.id ? "Program updated." : "Program added." });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not save the program." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (program: PlaybackProgramDTO) => {
+    setMessage(null);
+    try {
+      await apiCall(`/api/playback-programs/${program.id}`, { method: "DELETE" });
+      setPrograms((current) => current.filter((item) => item.id !== program.id));
+      if (form.id === program.id) {
+        setForm(EMPTY_FORM);
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not delete the program." });
+    }
+  };
+
+  const edit = (program: PlaybackProgramDTO) => {
+    setForm({ id: program.id, name: program.name, steps: program.steps });
+    setMessage(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="program-name" className="mb-2 block text-sm font-medium text-foreground">
+          Name
+        </label>
+        <input
+          id="program-name"
+          value={form.name}
+          onChange={(event) => setForm({ ...form, name: event.target.value })}
+          placeholder="Polish first"
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_5rem_7rem_2rem] gap-2 text-xs text-muted-foreground">
+          <span>Segment</span>
+          <span>Repeat</span>
+          <span>Pause after (ms)</span>
+          <span />
+        </div>
+        {form.steps.map((step, index) => (
+          <div key={index} className="grid grid-cols-[1fr_5rem_7rem_2rem] items-center gap-2">
+            <select
+              value={step.slot}
+              onChange={(event) => updateStep(index, { slot: event.target.value as VoiceSlot })}
+              className={inputClassName}
+              aria-label={`Step ${index + 1} segment`}
+            >
+              {SLOTS.map((slot) => (
+                <option key={slot} value={slot}>
+                  {slot}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={1}
+              max={PLAYBACK_STEP_MAX_REPEAT}
+              value={step.repeat}
+              onChange={(event) => updateStep(index, { repeat: Number(event.target.value) })}
+              className={inputClassName}
+              aria-label={`Step ${index + 1} repeat count`}
+            />
+            <input
+              type="number"
+              min={0}
+              max={PLAYBACK_STEP_MAX_PAUSE_MS}
+              step={100}
+              value={step.pause_ms}
+              onChange={(event) => updateStep(index, { pause_ms: Number(event.target.value) })}
+              className={inputClassName}
+              aria-label={`Step ${index + 1} pause`}
+            />
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+              disabled={form.steps.length <= 1}
+              className="rounded-md p-1 text-muted-foreground hover:bg-muted disabled:opacity-50"
+              aria-label={`Remove step ${index + 1}`}
+            >
+              <X className="size-4" />
+            </button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setForm({ ...form, steps: [...form.steps, { slot: "EN1", repeat: 1, pause_ms: DEFAULT_PAUSE_MS }] })
+          }
+          disabled={form.steps.length >= PLAYBACK_PROGRAM_MAX_STEPS}
+        >
+          <Plus className="size-4" />
+          Add step
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Steps whose segment has no audio are skipped. Select a program in the player; the ZIP export uses the same one.
+      </p>
+      <div className="flex gap-2">
+        <Button onClick={() => void save()} disabled={saving}>
+          {saving ? "Saving..." : form.id ? "Update" : "Add"}
+        </Button>
+        {form.id && (
+          <Button variant="outline" onClick={() => setForm(EMPTY_FORM)}>
+            Cancel
+          </Button>
+        )}
+      </div>
+      {message && (
+        <p
+          className={
+            message.type === "success" ? "text-sm text-green-700 dark:text-green-300" : "text-sm text-destructive"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+      {programs.length > 0 ? (
+        <ul className="divide-y divide-border text-sm">
+          {programs.map((program) => (
+            <li key={program.id} className="flex items-center justify-between gap-2 py-2">
+              <div>
+                <p className="font-medium text-foreground">{program.name}</p>
+                <p className="text-xs text-muted-foreground">{describePlaybackProgram(program.steps)}</p>
+              </div>
+              <div className="shrink-0">
+                <button
+                  type="button"
+                  onClick={() => edit(program)}
+                  className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                  aria-label={`Edit ${program.name}`}
+                >
+                  <Pencil className="size-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void remove(program)}
+                  className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                  aria-label={`Delete ${program.name}`}
+                >
+                  <Trash2 className="size-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No programs yet. The player uses EN1 → EN2 → EN3 → PL.</p>
+      )}
+    </div>
+  );
+}
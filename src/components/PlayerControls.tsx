@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { Button } from "./ui/button";
-import { Play, Pause, Square, RotateCcw, Volume2, VolumeX, SkipBack, SkipForward } from "lucide-react";
-import type { PlaybackSpeed } from "../types";
+import { Play, Pause, Square, RotateCcw, Volume2, VolumeX, SkipBack, SkipForward, Mic, Timer } from "lucide-react";
+import type { PlaybackProgramDTO, PlaybackSpeed } from "../types";
+import { DEFAULT_PLAYBACK_PROGRAM, describePlaybackProgram } from "../lib/playback-program";
 
 interface PlayerControlsProps {
   playing: boolean;
@@ -13,6 +14,15 @@ interface PlayerControlsProps {
   onStop: () => void;
   onRestart: () => void;
   onSpeedChange: (speed: PlaybackSpeed) => void;
+  programs: PlaybackProgramDTO[];
+  selectedProgramId: string | null;
+  onProgramChange: (programId: string | null) => void;
+  shadowing: boolean;
+  onToggleShadowing: () => void;
+  /** Record-and-compare; the toggle is hidden when the browser cannot record */
+  recording: boolean;
+  canRecord: boolean;
+  onToggleRecording: () => void;
   onToggleHighlight: () => void;
   onPrevPhrase: () => void;
   onNextPhrase: () => void;
@@ -35,6 +45,14 @@ export default function PlayerControls({
   onStop,
   onRestart,
   onSpeedChange,
+  programs,
+  selectedProgramId,
+  onProgramChange,
+  shadowing,
+  onToggleShadowing,
+  recording,
+  canRecord,
+  onToggleRecording,
   onToggleHighlight,
   onPrevPhrase,
   onNextPhrase,
@@ -155,6 +173,60 @@ export default function PlayerControls({
                 ))}
               </div>
             </div>
+            {programs.length > 0 && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="playback-program" className="text-sm text-muted-foreground hidden md:inline">
+                  Program:
+                </label>
+                <select
+                  id="playback-program"
+                  value={selectedProgramId ?? ""}
+                  onChange={(event) => onProgramChange(event.target.value || null)}
+                  className="h-10 max-w-48 rounded-md border bg-muted/50 px-2 text-sm text-foreground"
+                  aria-label="Playback program"
+                  title={describePlaybackProgram(
+                    programs.find((program) => program.id === selectedProgramId)?.steps ?? DEFAULT_PLAYBACK_PROGRAM
+                  )}
+                >
+                  <option value="">Standard</option>
+                  {programs.map((program) => (
+                    <option key={program.id} value={program.id}>
+                      {program.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={onToggleShadowing}
+                variant={shadowing ? "default" : "ghost"}
+                size="icon"
+                className="h-12 w-12 md:h-10 md:w-10"
+                aria-label={shadowing ? "Disable shadowing pauses" : "Enable shadowing pauses"}
+                aria-pressed={shadowing}
+                title="Shadowing: pause after each segment long enough to repeat it aloud"
+              >
+                <Timer className="h-5 w-5 md:h-4 md:w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground hidden md:inline">Shadowing</span>
+            </div>
+            {canRecord && (
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={onToggleRecording}
+                  variant={recording ? "destructive" : "ghost"}
+                  size="icon"
+                  className="h-12 w-12 md:h-10 md:w-10"
+                  aria-label={recording ? "Disable recording" : "Enable recording"}
+                  aria-pressed={recording}
+                  title="Record and compare: record yourself after each English segment and hear it back"
+                >
+                  <Mic className="h-5 w-5 md:h-4 md:w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground hidden md:inline">Record</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <Button
                 onClick={onToggleHighlight}
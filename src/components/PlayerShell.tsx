@@ -9,6 +9,13 @@ import type {
   PlaybackSpeed,
   PhraseDifficultyOrUnset,
   PhraseDifficulty,
+  PlaybackSequenceItem,
+  PlaybackProgramDTO,
+  PlaybackProgramsResponse,
+  SelectPlaybackProgramCommand,
+  PlaybackGap,
+  PlaybackStateDTO,
+  UpdatePlaybackStateCommand,
 } from "../types";
 import PlayerControls from "./PlayerControls";
 import SegmentSequenceBar from "./SegmentSequenceBar";
@@ -17,7 +24,8 @@ import KeyboardShortcutsHandler from "./KeyboardShortcutsHandler";
 import RefreshManifestButton from "./RefreshManifestButton";
 import { Button } from "./ui/button";
 import { Info } from "lucide-react";
-import { usePlaybackEngine } from "../lib/hooks/usePlaybackEngine";
+import { getPhrasePlan, usePlaybackEngine } from "../lib/hooks/usePlaybackEngine";
+import { DEFAULT_PLAYBACK_PROGRAM } from "../lib/playback-program";
 import { useSignedUrlGuard } from "../lib/hooks/useSignedUrlGuard";
 import { useClickToSeek } from "../lib/hooks/useClickToSeek";
 import { useMediaSession } from "../lib/hooks/useMediaSession";
@@ -26,6 +34,73 @@ import { useApi } from "../lib/hooks/useApi";
 import MobileActionMenu from "./MobileActionMenu";
 import DifficultyBadge from "./DifficultyBadge";
 import PhraseLearningHintModal from "./PhraseLearningHintModal";
+import ShadowTakesPanel from "./ShadowTakesPanel";
+import { playBlob, useShadowRecorder } from "../lib/hooks/useShadowRecorder";
+import { saveShadowTake } from "../lib/shadow-takes";
+import {
+  filterOfflineManifest,
+  loadOfflineManifest,
+  registerServiceWorker,
+  withOfflineAudio,
+} from "../lib/offline-cache";
+import { PLAYBACK_STATE_SAVE_INTERVAL_MS } from "../lib/playback-state";
+import { isVirtualNotebook } from "../lib/utils";
+
+// How often phrases with stale audio are re-checked while playback is paused
+const STALE_AUDIO_POLL_MS = 5000;
+
+// Transform a manifest DTO item to the player's view model
+function toSequenceItem(item: PlaybackManifestItem): PlaybackSequenceItem {
+  return {
+    phrase: {
+      id: item.phrase.id,
+      position: item.phrase.position,
+      en_text: item.phrase.en_text,
+      pl_text: item.phrase.pl_text,
+      learning_hint_markdown: item.phrase.learning_hint_markdown,
+      difficulty: item.phrase.difficulty,
+      tokens: {
+        en:
+          item.phrase.tokens?.en?.map((t) => ({
+            text: t.text,
+            charStart: t.start,
+            charEnd: t.end,
+          })) || [],
+        pl:
+          item.phrase.tokens?.pl?.map((t) => ({
+            text: t.text,
+            charStart: t.start,
+            charEnd: t.end,
+          })) || [],
+      },
+    },
+    segments: item.segments.map((segment: PlaybackManifestSegment) => ({
+      slot: segment.slot,
+      status: segment.status,
+      url: segment.url,
+      durationMs: segment.duration_ms,
+      timings: segment.word_timings
+        ?.filter((wt): wt is WordTiming => wt !== undefined)
+        .map((wt: WordTiming) => ({
+          startMs: wt.start_ms,
+          endMs: wt.end_ms,
+        })),
+      isStale: segment.is_stale ?? false,
+      contentType: segment.content_type,
+    })),
+  };
+}
+
+const SHADOWING_STORAGE_KEY = "player-shadowing";
+
+function loadShadowing(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return localStorage.getItem(SHADOWING_STORAGE_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
 
 interface PlayerShellProps {
   notebookId: string;
@@ -51,13 +126,29 @@ export default function PlayerShell({
   const [playing, setPlaying] = useState(false);
   const [speed, setSpeed] = useState<PlaybackSpeed>(1);
   const [highlight, setHighlight] = useState(true);
-  const [, setClockMs] = useState(0);
+  const [clockMs, setClockMs] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
   const [descriptionOpen, setDescriptionOpen] = useState(false);
   const [isSavingDescription, setIsSavingDescription] = useState(false);
   const [descriptionSaveError, setDescriptionSaveError] = useState<string | null>(null);
+  const [programs, setPrograms] = useState<PlaybackProgramDTO[]>([]);
+  const [selectedProgramId, setSelectedProgramId] = useState<string | null>(null);
+  const [shadowing, setShadowing] = useState(loadShadowing);
+  const [gap, setGap] = useState<PlaybackGap | null>(null);
+  // Set when the manifest could not be fetched and the downloaded copy is played instead
+  const [offlineCopyDate, setOfflineCopyDate] = useState<string | null>(null);
+  // Position saved on this or another device, offered until playback starts
+  const [resumeOffer, setResumeOffer] = useState<{
+    index: number;
+    slot: VoiceSlot | null;
+    speed: PlaybackSpeed;
+  } | null>(null);
+  // Record-and-compare is not persisted: it asks for the microphone
+  const [recording, setRecording] = useState(false);
+  const [takesVersion, setTakesVersion] = useState(0);
+  const { isSupported: canRecord, record, release: releaseMicrophone, error: recordError } = useShadowRecorder();
   // Get difficulty filter from props (URL params) - no localStorage fallback
   const difficultyFilter: PhraseDifficultyOrUnset | "all" =
     initialDifficultyFilter &&
@@ -80,16 +171,40 @@ export default function PlayerShell({
     return () => window.removeEventListener("resize", checkMobile);
   }, []);
 
-  // Find initial phrase index from startPhraseId
+  // Find initial phrase index from startPhraseId (once, so later manifest updates keep the position)
+  const appliedStartPhraseRef = useRef<string | null>(null);
   useEffect(() => {
-    if (manifest && startPhraseId) {
+    if (manifest && startPhraseId && appliedStartPhraseRef.current !== startPhraseId) {
       const index = manifest.sequence.findIndex((item) => item.phrase.id === startPhraseId);
       if (index !== -1) {
         setPhraseIndex(index);
+        appliedStartPhraseRef.current = startPhraseId;
       }
     }
   }, [manifest, startPhraseId]);
 
+  // Smart lists span several notebooks and have no saved position
+  const persistPosition = !isVirtualNotebook(notebookId);
+  const resumeCheckedRef = useRef(false);
+  const resumeSlotRef = useRef<VoiceSlot | null>(null);
+  useEffect(() => {
+    if (!manifest || resumeCheckedRef.current || !persistPosition) return;
+    resumeCheckedRef.current = true;
+    // An explicit start phrase (e.g. from the notebook view) wins over the saved position
+    if (startPhraseId) return;
+
+    void apiCall<PlaybackStateDTO>(`/api/notebooks/${notebookId}/playback-state`)
+      .then((state) => {
+        const index = state.phrase_id ? manifest.sequence.findIndex((item) => item.phrase.id === state.phrase_id) : -1;
+        if (index > 0) {
+          setResumeOffer({ index, slot: state.voice_slot, speed: state.speed });
+        }
+      })
+      .catch(() => {
+        // Nothing saved yet, or offline
+      });
+  }, [manifest, persistPosition, startPhraseId, apiCall, notebookId]);
+
   // Fetch playback manifest
   const fetchManifest = useCallback(async () => {
     if (!isAuthenticated) {
@@ -109,7 +224,22 @@ export default function PlayerShell({
       if (phraseIds && phraseIds.length > 0) {
         manifestUrl += `&phrase_ids=${phraseIds.join(",")}`;
       }
-      const data = await apiCall<PlaybackManifestDTO>(manifestUrl);
+      // A downloaded notebook plays its cached audio, online or not
+      const offlineCopy = await loadOfflineManifest(notebookId).catch(() => null);
+      let data: PlaybackManifestDTO;
+      try {
+        data = await apiCall<PlaybackManifestDTO>(manifestUrl);
+        if (offlineCopy) {
+          data = withOfflineAudio(data, offlineCopy);
+        }
+        setOfflineCopyDate(null);
+      } catch (err) {
+        if (!offlineCopy) throw err;
+        // eslint-disable-next-line no-console
+        console.warn("[PlayerShell] Playback manifest unavailable, using the offline copy:", err);
+        data = filterOfflineManifest(offlineCopy.manifest, { difficulty: difficultyFilter, phraseIds });
+        setOfflineCopyDate(offlineCopy.downloaded_at);
+      }
 
       // eslint-disable-next-line no-console
       console.log("[PlayerShell] Playback manifest loaded:", data);
@@ -118,42 +248,7 @@ export default function PlayerShell({
       const manifestVM: PlaybackManifestVM = {
         notebookId: data.notebook_id,
         buildId: data.build_id,
-        sequence: data.sequence.map((item: PlaybackManifestItem) => ({
-          phrase: {
-            id: item.phrase.id,
-            position: item.phrase.position,
-            en_text: item.phrase.en_text,
-            pl_text: item.phrase.pl_text,
-            learning_hint_markdown: item.phrase.learning_hint_markdown,
-            difficulty: item.phrase.difficulty,
-            tokens: {
-              en:
-                item.phrase.tokens?.en?.map((t) => ({
-                  text: t.text,
-                  charStart: t.start,
-                  charEnd: t.end,
-                })) || [],
-              pl:
-                item.phrase.tokens?.pl?.map((t) => ({
-                  text: t.text,
-                  charStart: t.start,
-                  charEnd: t.end,
-                })) || [],
-            },
-          },
-          segments: item.segments.map((segment: PlaybackManifestSegment) => ({
-            slot: segment.slot,
-            status: segment.status,
-            url: segment.url,
-            durationMs: segment.duration_ms,
-            timings: segment.word_timings
-              ?.filter((wt): wt is WordTiming => wt !== undefined)
-              .map((wt: WordTiming) => ({
-                startMs: wt.start_ms,
-                endMs: wt.end_ms,
-              })),
-          })),
-        })),
+        sequence: data.sequence.map(toSequenceItem),
         expiresAt: data.expires_at,
       };
 
@@ -167,18 +262,114 @@ export default function PlayerShell({
     }
   }, [notebookId, highlight, speed, difficultyFilter, isAuthenticated, apiCall, phraseIds]);
 
+  // Keeps the player page and downloaded notebooks available offline
+  useEffect(() => {
+    registerServiceWorker().catch((err) => {
+      // eslint-disable-next-line no-console
+      console.warn("[PlayerShell] Service worker registration failed:", err);
+    });
+  }, []);
+
   // Initial manifest fetch
   useEffect(() => {
     fetchManifest();
   }, [fetchManifest]);
 
+  // Playback programs; without one the player uses EN1 → EN2 → EN3 → PL
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    void apiCall<PlaybackProgramsResponse>("/api/playback-programs")
+      .then((data) => {
+        setPrograms(data.items);
+        setSelectedProgramId(data.selected_program_id);
+      })
+      .catch((err) => {
+        // eslint-disable-next-line no-console
+        console.warn("[PlayerShell] Failed to load playback programs:", err);
+      });
+  }, [isAuthenticated, apiCall]);
+
+  const program = useMemo(
+    () => programs.find((item) => item.id === selectedProgramId)?.steps ?? DEFAULT_PLAYBACK_PROGRAM,
+    [programs, selectedProgramId]
+  );
+
+  // Phrases edited since their audio was generated; their segments are refreshed until regeneration finishes
+  const stalePhraseIds = useMemo(
+    () =>
+      manifest?.sequence
+        .filter((item) => item.segments.some((segment) => segment.isStale))
+        .map((item) => item.phrase.id) ?? [],
+    [manifest]
+  );
+
+  useEffect(() => {
+    // Swapping segments mid-playback would interrupt the engine; wait until paused
+    if (stalePhraseIds.length === 0 || playing) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const data = await apiCall<PlaybackManifestDTO>(
+          `/api/notebooks/${notebookId}/playback-manifest?phrase_ids=${stalePhraseIds.join(",")}`
+        );
+        const refreshed = new Map(data.sequence.map((item) => [item.phrase.id, toSequenceItem(item)]));
+        setManifest((previous) =>
+          previous
+            ? {
+                ...previous,
+                sequence: previous.sequence.map((item) => refreshed.get(item.phrase.id) ?? item),
+              }
+            : previous
+        );
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn("[PlayerShell] Failed to refresh stale audio:", err);
+      }
+    }, STALE_AUDIO_POLL_MS);
+
+    return () => clearTimeout(timer);
+  }, [stalePhraseIds, playing, apiCall, notebookId]);
+
   // URL expiry guard
-  const { needsRefresh } = useSignedUrlGuard({ expiresAt: manifest?.expiresAt });
+  // The offline copy's URLs do not expire
+  const { needsRefresh } = useSignedUrlGuard({ expiresAt: offlineCopyDate ? undefined : manifest?.expiresAt });
 
   // Current phrase and segments
   const currentPhrase = manifest?.sequence[phraseIndex];
   const currentSegments = useMemo(() => currentPhrase?.segments || [], [currentPhrase?.segments]);
   const hasPlayableSegments = currentSegments.length > 0;
+  // Where the program starts for this phrase (the first step with audio)
+  const firstPlanSegment = useMemo(() => {
+    const firstItem = getPhrasePlan(program, currentSegments)[0];
+    return firstItem ? currentSegments.find((segment) => segment.slot === firstItem.slot) : undefined;
+  }, [program, currentSegments]);
+  const hasStaleAudio = currentSegments.some((segment) => segment.isStale);
+  // Ogg Opus audio does not play in older Safari versions
+  const hasUnsupportedAudio = useMemo(
+    () =>
+      typeof document !== "undefined" &&
+      currentSegments.some(
+        (segment) => segment.contentType && document.createElement("audio").canPlayType(segment.contentType) === ""
+      ),
+    [currentSegments]
+  );
+
+  // Record the learner for the window, keep the take locally and play it back right away
+  const recordTake = useCallback(
+    async (phraseId: string, slot: VoiceSlot, windowMs: number, signal: AbortSignal) => {
+      const take = await record(windowMs, signal);
+      if (!take || signal.aborted) return;
+      try {
+        await saveShadowTake({ phraseId, slot, ...take });
+        setTakesVersion((version) => version + 1);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn("[PlayerShell] Failed to save take:", err);
+      }
+      await playBlob(take.blob, signal);
+    },
+    [record]
+  );
 
   // Playback engine
   const {
@@ -195,22 +386,25 @@ export default function PlayerShell({
     manifest,
     phraseIndex,
     speed,
+    program,
+    shadowing,
     setCurrentSlot,
     setClockMs,
     setPhraseIndex,
+    setGap,
+    interlude: recording ? recordTake : undefined,
   });
 
   // "Smart previous" like music players:
-  // - If we're in EN2/EN3/PL => restart current phrase (start from EN1)
-  // - If we're in EN1 and currentTime > 3s => restart current phrase
-  // - If we're in EN1 and currentTime <= 3s => go to previous phrase (if possible)
-  // Note: Phrase is conceptually 3xEN + PL; the "3s" rule applies only for EN1.
+  // - If we're past the program's first segment => restart current phrase
+  // - If we're in the first segment and currentTime > 3s => restart current phrase
+  // - If we're in the first segment and currentTime <= 3s => go to previous phrase (if possible)
+  // Note: the "3s" rule applies only to the first segment of the program (EN1 by default).
   const handlePrevPhraseSmart = useCallback(() => {
     if (!manifest || !currentPhrase) return;
 
-    const en1Segment = currentSegments.find((s) => s.slot === "EN1" && s.url);
-    if (!en1Segment?.url) {
-      // No EN1 to restart from; fall back to previous phrase navigation.
+    if (!firstPlanSegment?.url) {
+      // No segment to restart from; fall back to previous phrase navigation.
       onAdvancePrev();
       return;
     }
@@ -222,12 +416,12 @@ export default function PlayerShell({
     }
 
     // If we're already past the first segment, always restart the phrase.
-    if (currentSlot !== "EN1") {
-      stopPlayback(); // if playing=true, this will re-trigger EN1 via the existing effect
+    if (currentSlot !== firstPlanSegment.slot) {
+      stopPlayback(); // if playing=true, this will re-trigger the first segment via the existing effect
       return;
     }
 
-    // We're in EN1: apply the 3s threshold.
+    // We're in the first segment: apply the 3s threshold.
     const audio = getAudioElement();
     const t = audio?.currentTime ?? 0;
     const RESTART_THRESHOLD_S = 3;
@@ -247,7 +441,7 @@ export default function PlayerShell({
   }, [
     manifest,
     currentPhrase,
-    currentSegments,
+    firstPlanSegment,
     currentSlot,
     getAudioElement,
     onAdvancePrev,
@@ -258,10 +452,13 @@ export default function PlayerShell({
   // Handle playing state - start audio playback when playing becomes true
   useEffect(() => {
     if (playing && currentSegments.length > 0 && !currentSlot) {
-      // Find the first available segment to start with (EN1)
-      const firstSegment = currentSegments.find((s) => s.slot === "EN1" && s.url);
-      if (firstSegment && firstSegment.url) {
-        playSegment("EN1", firstSegment.url);
+      // A resumed position continues from its saved segment, otherwise start with the program's first
+      const resumeSegment = currentSegments.find((s) => s.slot === resumeSlotRef.current && s.url);
+      resumeSlotRef.current = null;
+      if (resumeSegment) {
+        playSegment(resumeSegment.slot, resumeSegment.url);
+      } else if (firstPlanSegment && firstPlanSegment.url) {
+        playSegment(firstPlanSegment.slot, firstPlanSegment.url, 0);
       } else {
         // Show toast if no playable segments
         if (toastRef.current) {
@@ -270,7 +467,62 @@ export default function PlayerShell({
         setPlaying(false);
       }
     }
-  }, [playing, currentSegments, currentSlot, playSegment]);
+  }, [playing, currentSegments, currentSlot, firstPlanSegment, playSegment]);
+
+  // Save the position while playing, on pause and when the page is hidden (closing the tab or the app)
+  const playbackPositionRef = useRef<UpdatePlaybackStateCommand | null>(null);
+  const lastSavedPositionRef = useRef<string | null>(null);
+  useEffect(() => {
+    playbackPositionRef.current = currentPhrase
+      ? { phrase_id: currentPhrase.phrase.id, voice_slot: currentSlot, speed }
+      : null;
+  }, [currentPhrase, currentSlot, speed]);
+
+  const savePosition = useCallback(
+    (keepalive = false) => {
+      const position = playbackPositionRef.current;
+      if (!position || !persistPosition) return;
+      const body = JSON.stringify(position);
+      if (body === lastSavedPositionRef.current) return;
+
+      lastSavedPositionRef.current = body;
+      apiCall(`/api/notebooks/${notebookId}/playback-state`, { method: "PUT", body, keepalive }).catch((err) => {
+        lastSavedPositionRef.current = null;
+        // eslint-disable-next-line no-console
+        console.warn("[PlayerShell] Failed to save playback position:", err);
+      });
+    },
+    [apiCall, notebookId, persistPosition]
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+    setResumeOffer(null);
+    const timer = setInterval(() => savePosition(), PLAYBACK_STATE_SAVE_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      savePosition(true);
+    };
+  }, [playing, savePosition]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") savePosition(true);
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [savePosition]);
+
+  const handleResume = useCallback(() => {
+    if (!resumeOffer) return;
+    resumeSlotRef.current = resumeOffer.slot;
+    setSpeed(resumeOffer.speed);
+    setClockMs(0);
+    setCurrentSlot(null);
+    setPhraseIndex(resumeOffer.index);
+    setPlaying(true);
+    setResumeOffer(null);
+  }, [resumeOffer]);
 
   // Click-to-seek functionality
   const currentSegmentTimings = currentSegments.find((s) => s.slot === currentSlot)?.timings;
@@ -282,6 +534,12 @@ export default function PlayerShell({
       endMs: t.endMs,
     }));
 
+  // Karaoke highlight: the token whose timing window contains the audio clock
+  const activeTokenIndex =
+    highlight && tokenTimings && tokenTimings.length > 0
+      ? tokenTimings.findIndex((t, i) => clockMs >= t.startMs && (clockMs < t.endMs || i === tokenTimings.length - 1))
+      : null;
+
   const { seekToToken } = useClickToSeek({
     tokens: currentPhrase?.phrase.tokens,
     timings: tokenTimings,
@@ -324,6 +582,39 @@ export default function PlayerShell({
     setSpeed(newSpeed);
   }, []);
 
+  const handleProgramChange = useCallback(
+    async (programId: string | null) => {
+      setSelectedProgramId(programId);
+      try {
+        const command: SelectPlaybackProgramCommand = { program_id: programId };
+        await apiCall("/api/users/me/playback-program", { method: "PUT", body: JSON.stringify(command) });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn("[PlayerShell] Failed to save playback program:", err);
+        toastRef.current?.show("Could not save the playback program");
+      }
+    },
+    [apiCall]
+  );
+
+  const handleToggleShadowing = useCallback(() => {
+    setShadowing((prev) => {
+      try {
+        localStorage.setItem(SHADOWING_STORAGE_KEY, prev ? "0" : "1");
+      } catch {
+        // Ignore storage errors
+      }
+      return !prev;
+    });
+  }, []);
+
+  const handleToggleRecording = useCallback(() => {
+    setRecording((prev) => {
+      if (prev) releaseMicrophone();
+      return !prev;
+    });
+  }, [releaseMicrophone]);
+
   const handleToggleHighlight = useCallback(() => {
     setHighlight((prev) => !prev);
   }, []);
@@ -663,12 +954,32 @@ export default function PlayerShell({
         </div>
       </div>
 
+      {resumeOffer && manifest && (
+        <div
+          className="mb-4 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border bg-card p-3"
+          role="status"
+        >
+          <p className="text-sm text-foreground">
+            You stopped at phrase {resumeOffer.index + 1} of {manifest.sequence.length}.
+          </p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleResume}>
+              Resume from phrase {resumeOffer.index + 1}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setResumeOffer(null)}>
+              Start over
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Phrase viewer - vertical layout: EN on top, PL below */}
       <div className="mb-4">
         <PhraseViewer
           phrase={currentPhrase?.phrase}
           activeLang={currentSlot === "PL" ? "pl" : currentSlot ? "en" : null}
           highlight={highlight}
+          activeTokenIndex={activeTokenIndex}
           onSeekToToken={handleSeekToToken}
           onSwipeLeft={handleSwipeLeft}
           onSwipeRight={handleSwipeRight}
@@ -685,7 +996,29 @@ export default function PlayerShell({
           activeSlot={currentSlot}
           onJumpToSlot={handleJumpToSlot}
           compact={isMobile}
+          gap={gap}
         />
+        {hasStaleAudio && (
+          <p className="mt-2 text-xs text-amber-500 text-center" role="status">
+            This phrase was edited; updated audio is being generated.
+          </p>
+        )}
+        {offlineCopyDate && (
+          <p className="mt-2 text-xs text-muted-foreground text-center" role="status">
+            Offline: playing the copy downloaded on {new Date(offlineCopyDate).toLocaleString()}.
+          </p>
+        )}
+        {hasUnsupportedAudio && (
+          <p className="mt-2 text-xs text-destructive text-center" role="alert">
+            This browser cannot play the audio format of this notebook. Switch to MP3 in Settings and rebuild.
+          </p>
+        )}
+        {recording && recordError && (
+          <p className="mt-2 text-xs text-destructive text-center" role="alert">
+            {recordError}
+          </p>
+        )}
+        {recording && currentPhrase && <ShadowTakesPanel phraseId={currentPhrase.phrase.id} version={takesVersion} />}
       </div>
 
       {/* Controls - sticky on desktop, fixed on mobile */}
@@ -699,6 +1032,14 @@ export default function PlayerShell({
         onStop={handleStop}
         onRestart={handleRestartPhrase}
         onSpeedChange={handleSpeedChange}
+        programs={programs}
+        selectedProgramId={selectedProgramId}
+        onProgramChange={(programId) => void handleProgramChange(programId)}
+        shadowing={shadowing}
+        onToggleShadowing={handleToggleShadowing}
+        recording={recording}
+        canRecord={canRecord}
+        onToggleRecording={handleToggleRecording}
         onToggleHighlight={handleToggleHighlight}
         onPrevPhrase={handlePrevPhraseSmart}
         onNextPhrase={onAdvanceNext}
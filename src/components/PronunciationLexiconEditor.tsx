@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { useApi } from "../lib/hooks/useApi";
+import type {
+  CreatePronunciationEntryCommand,
+  PronunciationEntryDTO,
+  PronunciationLanguage,
+  PronunciationLexiconResponse,
+} from "../types";
+
+type PronunciationKind = "alias" | "phoneme";
+
+interface EntryForm {
+  id: string | null;
+  language: PronunciationLanguage;
+  term: string;
+  kind: PronunciationKind;
+  value: string;
+}
+
+const EMPTY_FORM: EntryForm = { id: null, language: "en", term: "", kind: "alias", value: "" };
+
+const inputClassName = "w-full rounded-md border border-border bg-background px-3 py-2 text-foreground";
+
+function sortEntries(entries: PronunciationEntryDTO[]): PronunciationEntryDTO[] {
+  return [...entries].sort((a, b) => a.language.localeCompare(b.language) || a.term.localeCompare(b.term));
+}
+
+export default function PronunciationLexiconEditor() {
+  const { apiCall } = useApi();
+  const [entries, setEntries] = useState<PronunciationEntryDTO[]>([]);
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    void apiCall<PronunciationLexiconResponse>("/api/pronunciations")
+      .then((data) => setEntries(data.items))
+      .catch((error) =>
+        setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not load the lexicon." })
+      );
+  }, [apiCall]);
+
+  const save = async () => {
+    if (!form.term.trim() || !form.value.trim()) {
+      setMessage({ type: "error", text: "Enter a word and how it should be pronounced." });
+      return;
+    }
+
+    const command: CreatePronunciationEntryCommand = {
+      language: form.language,
+      term: form.term,
+      alias: form.kind === "alias" ? form.value : null,
+      phoneme: form.kind === "phoneme" ? form.value : null,
+    };
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const saved = await apiCall<PronunciationEntryDTO>(
+        form.id ? `/api/pronunciations/${form.id}` : "/api/pronunciations",
+        { method: form.id ? "PATCH" : "POST", body: JSON.stringify(command) }
+      );
+      setEntries((current) => sortEntries([...current.filter((entry) => entry.id !== saved.id), saved]));
+      setForm({ ...EMPTY_FORM, language: form.language });
+      setMessage({ type: "success", text: form.id ? "Pronunciation updated." : "Pronunciation added." });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not save the pronunciation." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (entry: PronunciationEntryDTO) => {
+    setMessage(null);
+    try {
+      await apiCall(`/api/pronunciations/${entry.id}`, { method: "DELETE" });
+      setEntries((current) => current.filter((item) => item.id !== entry.id));
+      if (form.id === entry.id) {
+        setForm(EMPTY_FORM);
+      }
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Could not delete the pronunciation.",
+      });
+    }
+  };
+
+  const edit = (entry: PronunciationEntryDTO) => {
+    setForm({
+      id: entry.id,
+      language: entry.language,
+      term: entry.term,
+      kind: entry.phoneme ? "phoneme" : "alias",
+      value: entry.phoneme ?? entry.alias ?? "",
+    });
+    setMessage(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-[6rem_1fr_8rem_1fr]">
+        <div>
+          <label htmlFor="lexicon-language" className="mb-2 block text-sm font-medium text-foreground">
+            Language
+          </label>
+          <select
+            id="lexicon-language"
+            value={form.language}
+            onChange={(event) => setForm({ ...form, language: event.target.value as PronunciationLanguage })}
+            className={inputClassName}
+          >
+            <option value="en">EN</option>
+            <option value="pl">PL</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="lexicon-term" className="mb-2 block text-sm font-medium text-foreground">
+            Word
+          </label>
+          <input
+            id="lexicon-term"
+            value={form.term}
+            onChange={(event) => setForm({ ...form, term: event.target.value })}
+            placeholder="NATO"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="lexicon-kind" className="mb-2 block text-sm font-medium text-foreground">
+            Say as
+          </label>
+          <select
+            id="lexicon-kind"
+            value={form.kind}
+            onChange={(event) => setForm({ ...form, kind: event.target.value as PronunciationKind })}
+            className={inputClassName}
+          >
+            <option value="alias">Text</option>
+            <option value="phoneme">IPA</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="lexicon-value" className="mb-2 block text-sm font-medium text-foreground">
+            {form.kind === "alias" ? "Spoken as" : "IPA pronunciation"}
+          </label>
+          <input
+            id="lexicon-value"
+            value={form.value}
+            onChange={(event) => setForm({ ...form, value: event.target.value })}
+            placeholder={form.kind === "alias" ? "nay-toe" : "ˈneɪtoʊ"}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Words match whole words regardless of case. Audio that contains a changed word is regenerated on the next build.
+      </p>
+      <div className="flex gap-2">
+        <Button onClick={() => void save()} disabled={saving}>
+          {saving ? "Saving..." : form.id ? "Update" : "Add"}
+        </Button>
+        {form.id && (
+          <Button variant="outline" onClick={() => setForm(EMPTY_FORM)}>
+            Cancel
+          </Button>
+        )}
+      </div>
+      {message && (
+        <p
+          className={
+            message.type === "success" ? "text-sm text-green-700 dark:text-green-300" : "text-sm text-destructive"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+      {entries.length > 0 ? (
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs text-muted-foreground">
+            <tr>
+              <th className="py-1 font-medium">Lang</th>
+              <th className="py-1 font-medium">Word</th>
+              <th className="py-1 font-medium">Pronunciation</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id} className="border-t border-border">
+                <td className="py-1 uppercase text-muted-foreground">{entry.language}</td>
+                <td className="py-1">{entry.term}</td>
+                <td className="py-1">
+                  {entry.phoneme ? <span className="font-mono">/{entry.phoneme}/</span> : entry.alias}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => edit(entry)}
+                    className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                    aria-label={`Edit ${entry.term}`}
+                  >
+                    <Pencil className="size-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void remove(entry)}
+                    className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                    aria-label={`Delete ${entry.term}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-muted-foreground">No pronunciations yet.</p>
+      )}
+    </div>
+  );
+}
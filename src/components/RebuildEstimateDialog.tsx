@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import { X } from "lucide-react";
+import { Button } from "./ui/button";
+import type { RebuildEstimateDTO } from "../types";
+
+interface RebuildEstimateDialogProps {
+  estimate: RebuildEstimateDTO | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+}
+
+export default function RebuildEstimateDialog({ estimate, onConfirm, onCancel }: RebuildEstimateDialogProps) {
+  useEffect(() => {
+    if (!estimate) return;
+    const handleKeyDown = (event: KeyboardEvent) => event.key === "Escape" && onCancel();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [estimate, onCancel]);
+
+  if (!estimate) return null;
+
+  const overLimit = estimate.remaining_characters !== null && estimate.total_characters > estimate.remaining_characters;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end justify-center bg-background/80 px-0 backdrop-blur-sm sm:items-center sm:px-4 sm:py-4">
+      <section
+        role="dialog"
+        aria-modal="true"
+        aria-label="Confirm audio generation"
+        className="flex w-full flex-col overflow-hidden bg-card shadow-lg sm:max-w-lg sm:rounded-lg sm:border sm:border-border"
+      >
+        <header className="flex items-start justify-between gap-4 border-b border-border px-4 py-3">
+          <div>
+            <h2 className="text-base font-semibold">Generate audio?</h2>
+            <p className="mt-0.5 text-xs text-muted-foreground">
+              {estimate.phrase_count} phrases · {estimate.total_segments} segments
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+            aria-label="Close"
+          >
+            <X className="size-4" />
+          </button>
+        </header>
+        <main className="space-y-4 px-4 py-4 text-sm">
+          <ul className="space-y-1 text-muted-foreground">
+            <li>{estimate.reused_segments} unchanged segments reused from the current build</li>
+            <li>{estimate.cached_segments} segments copied from the audio cache</li>
+            <li className="text-foreground">
+              {estimate.segments_to_synthesize} segments to synthesize ({estimate.total_characters.toLocaleString()}{" "}
+              characters)
+            </li>
+          </ul>
+          {estimate.segments_to_synthesize > 0 && (
+            <table className="w-full text-left">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="py-1 font-medium">Slot</th>
+                  <th className="py-1 font-medium">Voice</th>
+                  <th className="py-1 text-right font-medium">Characters</th>
+                  <th className="py-1 text-right font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.slots.map((slot) => (
+                  <tr key={slot.slot} className="border-t border-border">
+                    <td className="py-1">{slot.slot}</td>
+                    <td className="py-1 font-mono text-xs">{slot.voice_id}</td>
+                    <td className="py-1 text-right">{slot.characters.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatCost(slot.estimated_cost_usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="font-medium">Estimated cost: {formatCost(estimate.estimated_cost_usd)}</p>
+          {overLimit && (
+            <p className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-destructive">
+              Only {estimate.remaining_characters?.toLocaleString()} characters are left under your monthly limit.
+              Generation will stop when the limit is reached.
+            </p>
+          )}
+        </main>
+        <footer className="flex justify-end gap-2 border-t border-border px-4 py-3">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm}>Generate</Button>
+        </footer>
+      </section>
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "./ui/button";
 import { Play, Pause, X } from "lucide-react";
-import type { Segment, VoiceSlot } from "../types";
+import type { PlaybackGap, Segment, VoiceSlot } from "../types";
 
 interface SegmentSequenceBarProps {
   sequenceForPhrase: Segment[];
   activeSlot?: VoiceSlot | null;
   onJumpToSlot: (slot: VoiceSlot) => void;
   compact?: boolean;
+  /** Shadowing pause in progress, shown as a countdown */
+  gap?: PlaybackGap | null;
 }
 
+const COUNTDOWN_TICK_MS = 100;
+
 const slotOrder: VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
 const slotLabels = {
   EN1: "EN 1",
@@ -18,11 +22,45 @@ const slotLabels = {
   PL: "PL",
 };
 
+function GapCountdown({ gap }: { gap: PlaybackGap }) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(timer);
+  }, [gap]);
+
+  const remainingMs = Math.max(0, gap.startedAt + gap.durationMs - now);
+  const progress = gap.durationMs > 0 ? remainingMs / gap.durationMs : 0;
+  // A recording window is followed by the playback of the take
+  const label = !gap.recording
+    ? `Repeat ${slotLabels[gap.slot]} aloud`
+    : remainingMs > 0
+      ? `Recording: repeat ${slotLabels[gap.slot]} aloud`
+      : "Your take";
+
+  return (
+    <div className="mt-3" role="timer" aria-live="off" aria-label={label}>
+      <div className="flex justify-between text-xs text-muted-foreground mb-1">
+        <span>{label}</span>
+        <span className="tabular-nums">{(remainingMs / 1000).toFixed(1)} s</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-100 ${gap.recording ? "bg-destructive" : "bg-primary"}`}
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
 export default function SegmentSequenceBar({
   sequenceForPhrase,
   activeSlot,
   onJumpToSlot,
   compact = false,
+  gap,
 }: SegmentSequenceBarProps) {
   const getSlotStatus = (slot: VoiceSlot) => {
     const segment = sequenceForPhrase.find((s) => s.slot === slot);
@@ -31,6 +69,12 @@ export default function SegmentSequenceBar({
     return "available";
   };
 
+  // Stale audio is still playable but predates the latest edit of the phrase text
+  const isSlotStale = (slot: VoiceSlot) => sequenceForPhrase.some((s) => s.slot === slot && s.isStale);
+
+  const getSlotTitle = (slot: VoiceSlot) =>
+    isSlotStale(slot) ? `${slotLabels[slot]} (outdated audio, regenerating)` : slotLabels[slot];
+
   const getSlotIcon = (slot: VoiceSlot, status: string) => {
     switch (status) {
       case "playing":
@@ -69,26 +113,31 @@ export default function SegmentSequenceBar({
   if (compact) {
     // Mobile compact variant: pills with icons
     return (
-      <div className="flex gap-2 justify-center">
-        {slotOrder.map((slot) => {
-          const status = getSlotStatus(slot);
-          const isClickable = status !== "missing";
+      <div>
+        <div className="flex gap-2 justify-center">
+          {slotOrder.map((slot) => {
+            const status = getSlotStatus(slot);
+            const isClickable = status !== "missing";
 
-          return (
-            <Button
-              key={slot}
-              onClick={() => isClickable && onJumpToSlot(slot)}
-              disabled={!isClickable}
-              variant="outline"
-              size="icon"
-              className={`h-10 w-10 rounded-full ${getSlotColor(slot, status)} ${!isClickable ? "cursor-not-allowed" : ""}`}
-              aria-label={`Jump to ${slotLabels[slot]}${status === "playing" ? " (playing)" : ""}`}
-              title={slotLabels[slot]}
-            >
-              {getSlotIcon(slot, status)}
-            </Button>
-          );
-        })}
+            return (
+              <Button
+                key={slot}
+                onClick={() => isClickable && onJumpToSlot(slot)}
+                disabled={!isClickable}
+                variant="outline"
+                size="icon"
+                className={`h-10 w-10 rounded-full ${getSlotColor(slot, status)} ${!isClickable ? "cursor-not-allowed" : ""} ${
+                  isSlotStale(slot) ? "ring-1 ring-amber-500/60" : ""
+                }`}
+                aria-label={`Jump to ${slotLabels[slot]}${status === "playing" ? " (playing)" : ""}`}
+                title={getSlotTitle(slot)}
+              >
+                {getSlotIcon(slot, status)}
+              </Button>
+            );
+          })}
+        </div>
+        {gap && <GapCountdown gap={gap} />}
       </div>
     );
   }
@@ -111,9 +160,9 @@ export default function SegmentSequenceBar({
               size="sm"
               className={`flex flex-col items-center gap-1 min-w-[60px] h-14 md:h-12 ${getSlotColor(slot, status)} ${
                 !isClickable ? "cursor-not-allowed" : ""
-              }`}
+              } ${isSlotStale(slot) ? "ring-1 ring-amber-500/60" : ""}`}
               aria-label={`Jump to ${slotLabels[slot]}${status === "playing" ? " (playing)" : ""}`}
-              title={slotLabels[slot]}
+              title={getSlotTitle(slot)}
             >
               <span className="text-base">{getSlotIcon(slot, status)}</span>
               <span className="text-xs font-medium">{slotLabels[slot]}</span>
@@ -121,6 +170,7 @@ export default function SegmentSequenceBar({
           );
         })}
       </div>
+      {gap && <GapCountdown gap={gap} />}
     </div>
   );
 }
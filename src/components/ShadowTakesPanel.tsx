@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CloudUpload, Play, Square, Trash2 } from "lucide-react";
+import { useApi } from "../lib/hooks/useApi";
+import { deleteShadowTake, listShadowTakes, markShadowTakeUploaded, type ShadowTake } from "../lib/shadow-takes";
+
+interface ShadowTakesPanelProps {
+  phraseId: string;
+  /** Bumped by the player after saving a take, to reload the list */
+  version: number;
+}
+
+function formatTakeTime(createdAt: number): string {
+  return new Date(createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+/** Takes recorded for the current phrase (kept in this browser), with playback, delete and best-take upload */
+export default function ShadowTakesPanel({ phraseId, version }: ShadowTakesPanelProps) {
+  const { token } = useApi();
+  const [takes, setTakes] = useState<ShadowTake[]>([]);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const audioRef = useRef<{ audio: HTMLAudioElement; url: string } | null>(null);
+
+  const stop = useCallback(() => {
+    if (audioRef.current) {
+      audioRef.current.audio.pause();
+      URL.revokeObjectURL(audioRef.current.url);
+      audioRef.current = null;
+    }
+    setPlayingId(null);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    listShadowTakes(phraseId)
+      .then((items) => !cancelled && setTakes(items))
+      .catch((error) => {
+        // eslint-disable-next-line no-console
+        console.warn("[ShadowTakesPanel] Failed to load takes:", error);
+        if (!cancelled) setTakes([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [phraseId, version]);
+
+  useEffect(() => {
+    setMessage(null);
+    return stop;
+  }, [phraseId, stop]);
+
+  const play = (take: ShadowTake) => {
+    stop();
+    const url = URL.createObjectURL(take.blob);
+    const audio = new Audio(url);
+    audioRef.current = { audio, url };
+    audio.addEventListener("ended", stop, { once: true });
+    setPlayingId(take.id);
+    audio.play().catch(stop);
+  };
+
+  const remove = async (take: ShadowTake) => {
+    if (playingId === take.id) stop();
+    try {
+      await deleteShadowTake(take.id);
+      setTakes((current) => current.filter((item) => item.id !== take.id));
+    } catch {
+      setMessage({ type: "error", text: "Could not delete the take." });
+    }
+  };
+
+  // The best take is sent as-is; the API stores one recording per phrase and replaces the previous one
+  const upload = async (take: ShadowTake) => {
+    if (!token) {
+      setMessage({ type: "error", text: "Sign in to upload takes." });
+      return;
+    }
+
+    setUploadingId(take.id);
+    setMessage(null);
+    try {
+      const params = new URLSearchParams({ slot: take.slot, duration_ms: String(Math.round(take.durationMs)) });
+      const response = await fetch(`/api/phrases/${phraseId}/recording?${params.toString()}`, {
+        method: "PUT",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": take.mimeType },
+        body: take.blob,
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || "Could not upload the take.");
+      }
+      await markShadowTakeUploaded(take);
+      setTakes((current) => current.map((item) => ({ ...item, uploaded: item.id === take.id })));
+      setMessage({ type: "success", text: "Best take uploaded." });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not upload the take." });
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  if (takes.length === 0) {
+    return <p className="mt-3 text-xs text-muted-foreground text-center">No takes for this phrase yet.</p>;
+  }
+
+  return (
+    <div className="mt-3 rounded-md border border-border p-2">
+      <p className="px-1 pb-1 text-xs font-medium text-muted-foreground">Your takes (saved in this browser)</p>
+      <ul className="divide-y divide-border text-sm">
+        {takes.map((take) => (
+          <li key={take.id} className="flex items-center justify-between gap-2 px-1 py-1">
+            <span className="text-foreground">
+              {take.slot} · {formatTakeTime(take.createdAt)} · {(take.durationMs / 1000).toFixed(1)} s
+              {take.uploaded && <span className="ml-2 text-xs text-green-700 dark:text-green-300">uploaded</span>}
+            </span>
+            <div className="shrink-0">
+              <button
+                type="button"
+                onClick={() => (playingId === take.id ? stop() : play(take))}
+                className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                aria-label={playingId === take.id ? "Stop take" : "Play take"}
+              >
+                {playingId === take.id ? <Square className="size-4" /> : <Play className="size-4" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => void upload(take)}
+                disabled={uploadingId !== null || take.uploaded}
+                className="rounded-md p-1 text-muted-foreground hover:bg-muted disabled:opacity-50"
+                aria-label="Upload as best take"
+                title="Upload as best take"
+              >
+                <CloudUpload className="size-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => void remove(take)}
+                className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                aria-label="Delete take"
+              >
+                <Trash2 className="size-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {message && (
+        <p
+          className={
+            message.type === "success"
+              ? "px-1 pt-1 text-xs text-green-700 dark:text-green-300"
+              : "px-1 pt-1 text-xs text-destructive"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import { useApi } from "../lib/hooks/useApi";
+import type { TtsUsageDTO } from "../types";
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 0.01 ? 4 : 2)}`;
+}
+
+export default function TtsUsagePanel() {
+  const { apiCall } = useApi();
+  const [usage, setUsage] = useState<TtsUsageDTO | null>(null);
+  const [limit, setLimit] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const applyUsage = (data: TtsUsageDTO) => {
+    setUsage(data);
+    setLimit(data.monthly_char_limit?.toString() ?? "");
+  };
+
+  useEffect(() => {
+    void apiCall<TtsUsageDTO>("/api/users/me/usage")
+      .then(applyUsage)
+      .catch((error) =>
+        setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not load usage." })
+      );
+  }, [apiCall]);
+
+  const save = async () => {
+    const value = limit.trim() === "" ? null : Number(limit);
+    if (value !== null && (!Number.isInteger(value) || value < 1)) {
+      setMessage({ type: "error", text: "The limit must be a whole number of characters, or empty for no limit." });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const result = await apiCall<TtsUsageDTO>("/api/users/me/usage", {
+        method: "PUT",
+        body: JSON.stringify({ tts_monthly_char_limit: value }),
+      });
+      applyUsage(result);
+      setMessage({ type: "success", text: value === null ? "Monthly limit removed." : "Monthly limit saved." });
+    } catch (error) {
+      setMessage({ type: "error", text: error instanceof Error ? error.message : "Could not save the limit." });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const usedPercent =
+    usage?.monthly_char_limit != null
+      ? Math.min(100, Math.round((usage.total_characters / usage.monthly_char_limit) * 100))
+      : null;
+
+  return (
+    <div className="space-y-4">
+      {usage && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <p className="text-sm text-foreground">
+              <span className="text-2xl font-semibold">{usage.total_characters.toLocaleString()}</span> characters in{" "}
+              {usage.month}
+            </p>
+            <p className="text-sm text-muted-foreground">≈ {formatCost(usage.estimated_cost_usd)} at list prices</p>
+          </div>
+          {usedPercent !== null && (
+            <div>
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className={usedPercent >= 100 ? "h-full bg-destructive" : "h-full bg-primary"}
+                  style={{ width: `${usedPercent}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {usage.remaining_characters?.toLocaleString()} of {usage.monthly_char_limit?.toLocaleString()}{" "}
+                characters left this month
+              </p>
+            </div>
+          )}
+          {usage.by_voice.length > 0 ? (
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="py-1 font-medium">Voice</th>
+                  <th className="py-1 font-medium">Tier</th>
+                  <th className="py-1 text-right font-medium">Characters</th>
+                  <th className="py-1 text-right font-medium">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {usage.by_voice.map((voice) => (
+                  <tr key={voice.voice_id} className="border-t border-border">
+                    <td className="py-1 font-mono text-xs">{voice.voice_id}</td>
+                    <td className="py-1 text-muted-foreground">{voice.tier}</td>
+                    <td className="py-1 text-right">{voice.characters.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatCost(voice.estimated_cost_usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No audio has been synthesized this month.</p>
+          )}
+        </div>
+      )}
+      <div>
+        <label htmlFor="tts-monthly-limit" className="mb-2 block text-sm font-medium text-foreground">
+          Monthly character limit
+        </label>
+        <input
+          id="tts-monthly-limit"
+          type="number"
+          min={1}
+          step={1000}
+          value={limit}
+          onChange={(event) => setLimit(event.target.value)}
+          placeholder="No limit"
+          className="w-full rounded-md border border-border bg-background px-3 py-2 text-foreground"
+        />
+        <p className="mt-1 text-xs text-muted-foreground">
+          Audio generation stops once the limit is reached. Audio reused from the cache does not count.
+        </p>
+      </div>
+      {message && (
+        <p
+          className={
+            message.type === "success" ? "text-sm text-green-700 dark:text-green-300" : "text-sm text-destructive"
+          }
+        >
+          {message.text}
+        </p>
+      )}
+      <Button onClick={() => void save()} disabled={saving}>
+        {saving ? "Saving..." : "Save limit"}
+      </Button>
+    </div>
+  );
+}
@@ -1,14 +1,42 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { LoaderCircle, Volume2 } from "lucide-react";
 import { Button } from "./ui/button";
 import { useApi } from "../lib/hooks/useApi";
+import type { VoiceCatalogEntryDTO, VoiceCatalogResponse, VoiceGender, VoiceTier } from "../types";
+import {
+  DEFAULT_VOICE_AUDIO_SETTINGS,
+  PITCH_RANGE,
+  SPEAKING_RATE_RANGE,
+  VOLUME_GAIN_DB_RANGE,
+  toVoiceAudioSettings,
+  type VoiceAudioSettings,
+} from "../lib/voice-settings";
 
-interface VoiceSlot {
+interface VoiceSlot extends VoiceAudioSettings {
   slot: "EN1" | "EN2" | "EN3" | "PL";
   language: "en" | "pl";
   voice_id: string;
   created_at?: string;
 }
 
+const AUDIO_SETTING_FIELDS: {
+  field: keyof VoiceAudioSettings;
+  label: string;
+  range: { min: number; max: number };
+  step: number;
+  hint: string;
+}[] = [
+  {
+    field: "speaking_rate",
+    label: "Speaking rate",
+    range: SPEAKING_RATE_RANGE,
+    step: 0.05,
+    hint: "1.0 = normal speed",
+  },
+  { field: "pitch", label: "Pitch", range: PITCH_RANGE, step: 0.5, hint: "Semitones, 0 = default" },
+  { field: "volume_gain_db", label: "Volume gain", range: VOLUME_GAIN_DB_RANGE, step: 0.5, hint: "dB, 0 = default" },
+];
+
 /* eslint-disable react-compiler/react-compiler */
 export default function VoiceSlotEditor() {
   const [voiceSlots, setVoiceSlots] = useState<VoiceSlot[]>([]);
@@ -16,7 +44,14 @@ export default function VoiceSlotEditor() {
   const [isSaving, setIsSaving] = useState(false);
   const [saveResult, setSaveResult] = useState<{ success: boolean; message: string } | null>(null);
   const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
-  const { apiCall } = useApi();
+  // Provider voices offered as suggestions; empty when the catalog is unavailable (e.g. no TTS key yet)
+  const [catalog, setCatalog] = useState<VoiceCatalogEntryDTO[]>([]);
+  const [genderFilter, setGenderFilter] = useState<VoiceGender | "">("");
+  const [tierFilter, setTierFilter] = useState<VoiceTier | "">("");
+  const [previewingSlot, setPreviewingSlot] = useState<VoiceSlot["slot"] | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+  const { apiCall, token } = useApi();
 
   // Load voice slots on mount
   useEffect(() => {
@@ -24,15 +59,60 @@ export default function VoiceSlotEditor() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    apiCall<VoiceCatalogResponse>("/api/voices")
+      .then((data) => setCatalog(data.items))
+      .catch(() => setCatalog([]));
+  }, [apiCall]);
+
+  useEffect(() => () => previewAudioRef.current?.pause(), []);
+
+  const suggestedVoices = (language: VoiceSlot["language"]) =>
+    catalog.filter(
+      (voice) =>
+        voice.language_codes.some((code) => code.toLowerCase().startsWith(language)) &&
+        (!genderFilter || voice.gender === genderFilter) &&
+        (!tierFilter || voice.tier === tierFilter)
+    );
+
+  // The preview endpoint returns MP3 bytes, so it is fetched with the auth header and played from a blob
+  const previewVoice = async (slot: VoiceSlot) => {
+    const voiceId = slot.voice_id.trim();
+    if (!voiceId || previewingSlot) return;
+
+    setPreviewingSlot(slot.slot);
+    setPreviewError(null);
+    try {
+      const response = await fetch(`/api/voices/${encodeURIComponent(voiceId)}/preview`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error?.message || `Could not preview ${voiceId}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      previewAudioRef.current?.pause();
+      const audio = new Audio(url);
+      previewAudioRef.current = audio;
+      audio.onended = () => URL.revokeObjectURL(url);
+      await audio.play();
+    } catch (error) {
+      setPreviewError(error instanceof Error ? error.message : `Could not preview ${voiceId}`);
+    } finally {
+      setPreviewingSlot(null);
+    }
+  };
+
   const loadVoiceSlots = async () => {
     try {
       const data = await apiCall("/api/user-voices");
       // Always show all 4 slots, merge with database data
       const defaultSlots: VoiceSlot[] = [
-        { slot: "EN1", language: "en", voice_id: "" },
-        { slot: "EN2", language: "en", voice_id: "" },
-        { slot: "EN3", language: "en", voice_id: "" },
-        { slot: "PL", language: "pl", voice_id: "" },
+        { slot: "EN1", language: "en", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
+        { slot: "EN2", language: "en", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
+        { slot: "EN3", language: "en", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
+        { slot: "PL", language: "pl", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
       ];
 
       const slots = data?.slots || [];
@@ -47,6 +127,7 @@ export default function VoiceSlotEditor() {
               slot: dbSlot.slot,
               language: dbSlot.slot.startsWith("EN") ? "en" : "pl",
               voice_id: voiceId,
+              ...toVoiceAudioSettings(dbSlot),
               created_at: dbSlot.created_at,
             };
           }
@@ -71,10 +152,10 @@ export default function VoiceSlotEditor() {
       console.error("Failed to load voice slots:", error);
       // Set default slots on error
       const defaultSlots: VoiceSlot[] = [
-        { slot: "EN1", language: "en", voice_id: "" },
-        { slot: "EN2", language: "en", voice_id: "" },
-        { slot: "EN3", language: "en", voice_id: "" },
-        { slot: "PL", language: "pl", voice_id: "" },
+        { slot: "EN1", language: "en", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
+        { slot: "EN2", language: "en", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
+        { slot: "EN3", language: "en", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
+        { slot: "PL", language: "pl", voice_id: "", ...DEFAULT_VOICE_AUDIO_SETTINGS },
       ];
       setVoiceSlots(defaultSlots);
     } finally {
@@ -86,6 +167,18 @@ export default function VoiceSlotEditor() {
     setVoiceSlots((prev) => prev.map((vs) => (vs.slot === slot ? { ...vs, [field]: value } : vs)));
   };
 
+  const updateAudioSetting = (slot: "EN1" | "EN2" | "EN3" | "PL", field: keyof VoiceAudioSettings, value: string) => {
+    const parsed = Number.parseFloat(value);
+    setVoiceSlots((prev) =>
+      prev.map((vs) =>
+        vs.slot === slot ? { ...vs, [field]: Number.isNaN(parsed) ? DEFAULT_VOICE_AUDIO_SETTINGS[field] : parsed } : vs
+      )
+    );
+  };
+
+  const isAudioSettingOutOfRange = (slot: VoiceSlot) =>
+    AUDIO_SETTING_FIELDS.some(({ field, range }) => slot[field] < range.min || slot[field] > range.max);
+
   const handleSave = async () => {
     setIsSaving(true);
     setSaveResult(null);
@@ -99,12 +192,19 @@ export default function VoiceSlotEditor() {
           body: JSON.stringify({
             language: slot.language,
             voice_id: slot.voice_id.trim(),
+            speaking_rate: slot.speaking_rate,
+            pitch: slot.pitch,
+            volume_gain_db: slot.volume_gain_db,
           }),
         })
       );
 
       await Promise.all(savePromises);
-      setSaveResult({ success: true, message: "Voice slots saved successfully!" });
+      setSaveResult({
+        success: true,
+        message:
+          "Voice slots saved successfully! Regenerate audio in your notebooks to apply changes - only segments affected by a changed voice are re-synthesized.",
+      });
       // Reload voice slots to get updated timestamps
       await loadVoiceSlots();
     } catch (error) {
@@ -133,6 +233,11 @@ export default function VoiceSlotEditor() {
       return "All EN slots must have a voice ID";
     }
 
+    const outOfRange = voiceSlots.find(isAudioSettingOutOfRange);
+    if (outOfRange) {
+      return `${outOfRange.slot} audio settings are out of range`;
+    }
+
     return null;
   };
 
@@ -176,6 +281,62 @@ export default function VoiceSlotEditor() {
         </div>
       )}
 
+      {/* Voice list filters */}
+      {catalog.length > 0 && (
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label htmlFor="voice-filter-gender" className="block text-sm font-medium text-foreground mb-2">
+              Suggested voices: gender
+            </label>
+            <select
+              id="voice-filter-gender"
+              value={genderFilter}
+              onChange={(e) => setGenderFilter(e.target.value as VoiceGender | "")}
+              className="px-3 py-2 border border-border rounded-md bg-background text-foreground"
+            >
+              <option value="">Any</option>
+              <option value="FEMALE">Female</option>
+              <option value="MALE">Male</option>
+              <option value="NEUTRAL">Neutral</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="voice-filter-tier" className="block text-sm font-medium text-foreground mb-2">
+              Tier
+            </label>
+            <select
+              id="voice-filter-tier"
+              value={tierFilter}
+              onChange={(e) => setTierFilter(e.target.value as VoiceTier | "")}
+              className="px-3 py-2 border border-border rounded-md bg-background text-foreground"
+            >
+              <option value="">Any</option>
+              <option value="standard">Standard</option>
+              <option value="wavenet">WaveNet</option>
+              <option value="neural2">Neural2</option>
+              <option value="chirp_hd">Chirp HD</option>
+              <option value="studio">Studio</option>
+              <option value="polyglot">Polyglot</option>
+              <option value="news">News</option>
+            </select>
+          </div>
+          <datalist id="voice-suggestions-en">
+            {suggestedVoices("en").map((voice) => (
+              <option key={voice.voice_id} value={voice.voice_id}>
+                {voice.language_codes.join(", ")} · {voice.gender?.toLowerCase() ?? "unknown"} · {voice.tier}
+              </option>
+            ))}
+          </datalist>
+          <datalist id="voice-suggestions-pl">
+            {suggestedVoices("pl").map((voice) => (
+              <option key={voice.voice_id} value={voice.voice_id}>
+                {voice.language_codes.join(", ")} · {voice.gender?.toLowerCase() ?? "unknown"} · {voice.tier}
+              </option>
+            ))}
+          </datalist>
+        </div>
+      )}
+
       {/* Voice Slots Configuration */}
       <div className="space-y-4">
         {voiceSlots.map((slot) => (
@@ -219,21 +380,63 @@ export default function VoiceSlotEditor() {
                 <label htmlFor={`voice-id-${slot.slot}`} className="block text-sm font-medium text-foreground mb-2">
                   Voice ID
                 </label>
-                <input
-                  id={`voice-id-${slot.slot}`}
-                  type="text"
-                  value={slot.voice_id}
-                  onChange={(e) => updateVoiceSlot(slot.slot, "voice_id", e.target.value)}
-                  placeholder="e.g., en-US-Wavenet-A"
-                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
-                />
+                <div className="flex gap-2">
+                  <input
+                    id={`voice-id-${slot.slot}`}
+                    type="text"
+                    list={catalog.length > 0 ? `voice-suggestions-${slot.language}` : undefined}
+                    value={slot.voice_id}
+                    onChange={(e) => updateVoiceSlot(slot.slot, "voice_id", e.target.value)}
+                    placeholder="e.g., en-US-Wavenet-A"
+                    className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => void previewVoice(slot)}
+                    disabled={!slot.voice_id.trim() || previewingSlot !== null}
+                    title="Listen to a sample sentence read by this voice"
+                    aria-label={`Preview ${slot.slot} voice`}
+                  >
+                    {previewingSlot === slot.slot ? (
+                      <LoaderCircle className="size-4 animate-spin" />
+                    ) : (
+                      <Volume2 className="size-4" />
+                    )}
+                  </Button>
+                </div>
                 <p className="text-xs text-muted-foreground mt-1">Google TTS voice identifier</p>
               </div>
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+              {AUDIO_SETTING_FIELDS.map(({ field, label, range, step, hint }) => (
+                <div key={field}>
+                  <label htmlFor={`${field}-${slot.slot}`} className="block text-sm font-medium text-foreground mb-2">
+                    {label}
+                  </label>
+                  <input
+                    id={`${field}-${slot.slot}`}
+                    type="number"
+                    min={range.min}
+                    max={range.max}
+                    step={step}
+                    value={slot[field]}
+                    onChange={(e) => updateAudioSetting(slot.slot, field, e.target.value)}
+                    className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {hint} ({range.min} to {range.max})
+                  </p>
+                </div>
+              ))}
+            </div>
           </div>
         ))}
       </div>
 
+      {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+
       {/* Validation Error */}
       {validationError && (
         <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
@@ -291,6 +494,9 @@ export default function VoiceSlotEditor() {
           <li>PL slot is fixed to Polish language and can use any Polish voice ID</li>
           <li>All voice IDs must be valid Google TTS voice identifiers</li>
           <li>Test your TTS credentials first to ensure voice IDs are valid</li>
+          <li>
+            Speaking rate, pitch and volume apply to newly generated audio; regenerate a notebook to hear the change
+          </li>
         </ul>
       </div>
     </div>
@@ -20,6 +20,36 @@ export interface Database {
   };
   public: {
     Tables: {
+      audio_cache: {
+        Row: {
+          cache_key: string;
+          created_at: string;
+          hit_count: number;
+          last_used_at: string;
+          path: string;
+          size_bytes: number;
+          timepoints: Json | null;
+        };
+        Insert: {
+          cache_key: string;
+          created_at?: string;
+          hit_count?: number;
+          last_used_at?: string;
+          path: string;
+          size_bytes: number;
+          timepoints?: Json | null;
+        };
+        Update: {
+          cache_key?: string;
+          created_at?: string;
+          hit_count?: number;
+          last_used_at?: string;
+          path?: string;
+          size_bytes?: number;
+          timepoints?: Json | null;
+        };
+        Relationships: [];
+      };
       audio_segments: {
         Row: {
           bitrate_kbps: number;
@@ -28,8 +58,10 @@ export interface Database {
           duration_ms: number | null;
           error_code: string | null;
           error_details: Json | null;
+          fingerprint: string | null;
           id: string;
           is_active: boolean;
+          is_stale: boolean;
           path: string;
           phrase_id: string;
           sample_rate_hz: number;
@@ -46,8 +78,10 @@ export interface Database {
           duration_ms?: number | null;
           error_code?: string | null;
           error_details?: Json | null;
+          fingerprint?: string | null;
           id: string;
           is_active?: boolean;
+          is_stale?: boolean;
           path: string;
           phrase_id: string;
           sample_rate_hz?: number;
@@ -64,8 +98,10 @@ export interface Database {
           duration_ms?: number | null;
           error_code?: string | null;
           error_details?: Json | null;
+          fingerprint?: string | null;
           id?: string;
           is_active?: boolean;
+          is_stale?: boolean;
           path?: string;
           phrase_id?: string;
           sample_rate_hz?: number;
@@ -98,18 +134,21 @@ export interface Database {
           id: string;
           job_id: string;
           notebook_id: string;
+          voices: Json | null;
         };
         Insert: {
           created_at?: string;
           id: string;
           job_id: string;
           notebook_id: string;
+          voices?: Json | null;
         };
         Update: {
           created_at?: string;
           id?: string;
           job_id?: string;
           notebook_id?: string;
+          voices?: Json | null;
         };
         Relationships: [
           {
@@ -175,42 +214,97 @@ export interface Database {
       };
       jobs: {
         Row: {
+          attempts: number;
+          cache_hits: number;
+          completed_segments: number;
           created_at: string;
+          current_phrase_id: string | null;
           ended_at: string | null;
           error: string | null;
+          failed_segments: number;
           id: string;
+          incremental_source: string | null;
+          keep_builds: number | null;
+          keep_partial: boolean;
+          lease_expires_at: string | null;
+          lease_owner: string | null;
           notebook_id: string;
+          progress_updated_at: string | null;
+          resume_build_id: string | null;
+          target_phrase_id: string | null;
+          target_phrase_ids: string[] | null;
+          target_slot: Database["public"]["Enums"]["voice_slot_enum"] | null;
           started_at: string | null;
           state: Database["public"]["Enums"]["job_state_enum"];
           timeout_sec: number | null;
+          total_segments: number;
           type: Database["public"]["Enums"]["job_type_enum"];
           user_id: string;
         };
         Insert: {
+          attempts?: number;
+          cache_hits?: number;
+          completed_segments?: number;
           created_at?: string;
+          current_phrase_id?: string | null;
           ended_at?: string | null;
           error?: string | null;
+          failed_segments?: number;
           id: string;
+          incremental_source?: string | null;
+          keep_builds?: number | null;
+          keep_partial?: boolean;
+          lease_expires_at?: string | null;
+          lease_owner?: string | null;
           notebook_id: string;
+          progress_updated_at?: string | null;
+          resume_build_id?: string | null;
+          target_phrase_id?: string | null;
+          target_phrase_ids?: string[] | null;
+          target_slot?: Database["public"]["Enums"]["voice_slot_enum"] | null;
           started_at?: string | null;
           state: Database["public"]["Enums"]["job_state_enum"];
           timeout_sec?: number | null;
+          total_segments?: number;
           type: Database["public"]["Enums"]["job_type_enum"];
           user_id: string;
         };
         Update: {
+          attempts?: number;
+          cache_hits?: number;
+          completed_segments?: number;
           created_at?: string;
+          current_phrase_id?: string | null;
           ended_at?: string | null;
           error?: string | null;
+          failed_segments?: number;
           id?: string;
+          incremental_source?: string | null;
+          keep_builds?: number | null;
+          keep_partial?: boolean;
+          lease_expires_at?: string | null;
+          lease_owner?: string | null;
           notebook_id?: string;
+          progress_updated_at?: string | null;
+          resume_build_id?: string | null;
+          target_phrase_id?: string | null;
+          target_phrase_ids?: string[] | null;
+          target_slot?: Database["public"]["Enums"]["voice_slot_enum"] | null;
           started_at?: string | null;
           state?: Database["public"]["Enums"]["job_state_enum"];
           timeout_sec?: number | null;
+          total_segments?: number;
           type?: Database["public"]["Enums"]["job_type_enum"];
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: "jobs_current_phrase_id_fkey";
+            columns: ["current_phrase_id"];
+            isOneToOne: false;
+            referencedRelation: "phrases";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "jobs_notebook_id_fkey";
             columns: ["notebook_id"];
@@ -218,6 +312,20 @@ export interface Database {
             referencedRelation: "notebooks";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "jobs_resume_build_id_fkey";
+            columns: ["resume_build_id"];
+            isOneToOne: false;
+            referencedRelation: "builds";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "jobs_target_phrase_id_fkey";
+            columns: ["target_phrase_id"];
+            isOneToOne: false;
+            referencedRelation: "phrases";
+            referencedColumns: ["id"];
+          },
           {
             foreignKeyName: "jobs_user_id_fkey";
             columns: ["user_id"];
@@ -279,6 +387,57 @@ export interface Database {
           },
         ];
       };
+      phrase_recordings: {
+        Row: {
+          content_type: string;
+          created_at: string;
+          duration_ms: number | null;
+          id: string;
+          path: string;
+          phrase_id: string;
+          size_bytes: number;
+          user_id: string;
+          voice_slot: Database["public"]["Enums"]["voice_slot_enum"];
+        };
+        Insert: {
+          content_type: string;
+          created_at?: string;
+          duration_ms?: number | null;
+          id?: string;
+          path: string;
+          phrase_id: string;
+          size_bytes: number;
+          user_id: string;
+          voice_slot: Database["public"]["Enums"]["voice_slot_enum"];
+        };
+        Update: {
+          content_type?: string;
+          created_at?: string;
+          duration_ms?: number | null;
+          id?: string;
+          path?: string;
+          phrase_id?: string;
+          size_bytes?: number;
+          user_id?: string;
+          voice_slot?: Database["public"]["Enums"]["voice_slot_enum"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "phrase_recordings_phrase_id_fkey";
+            columns: ["phrase_id"];
+            isOneToOne: false;
+            referencedRelation: "phrases";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "phrase_recordings_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       phrases: {
         Row: {
           created_at: string;
@@ -326,6 +485,131 @@ export interface Database {
           },
         ];
       };
+      playback_programs: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          steps: Json;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          steps: Json;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          steps?: Json;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "playback_programs_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      playback_states: {
+        Row: {
+          notebook_id: string;
+          phrase_id: string | null;
+          speed: number;
+          updated_at: string;
+          user_id: string;
+          voice_slot: Database["public"]["Enums"]["voice_slot_enum"] | null;
+        };
+        Insert: {
+          notebook_id: string;
+          phrase_id?: string | null;
+          speed?: number;
+          updated_at?: string;
+          user_id: string;
+          voice_slot?: Database["public"]["Enums"]["voice_slot_enum"] | null;
+        };
+        Update: {
+          notebook_id?: string;
+          phrase_id?: string | null;
+          speed?: number;
+          updated_at?: string;
+          user_id?: string;
+          voice_slot?: Database["public"]["Enums"]["voice_slot_enum"] | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "playback_states_notebook_id_fkey";
+            columns: ["notebook_id"];
+            isOneToOne: false;
+            referencedRelation: "notebooks";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "playback_states_phrase_id_fkey";
+            columns: ["phrase_id"];
+            isOneToOne: false;
+            referencedRelation: "phrases";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "playback_states_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      pronunciation_lexicon: {
+        Row: {
+          alias: string | null;
+          created_at: string;
+          id: string;
+          language: string;
+          phoneme: string | null;
+          term: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          alias?: string | null;
+          created_at?: string;
+          id?: string;
+          language: string;
+          phoneme?: string | null;
+          term: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          alias?: string | null;
+          created_at?: string;
+          id?: string;
+          language?: string;
+          phoneme?: string | null;
+          term?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "pronunciation_lexicon_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       story_settings: {
         Row: {
           created_at: string;
@@ -393,30 +677,74 @@ export interface Database {
           },
         ];
       };
+      tts_usage_daily: {
+        Row: {
+          characters: number;
+          requests: number;
+          updated_at: string;
+          usage_date: string;
+          user_id: string;
+          voice_id: string;
+        };
+        Insert: {
+          characters?: number;
+          requests?: number;
+          updated_at?: string;
+          usage_date: string;
+          user_id: string;
+          voice_id: string;
+        };
+        Update: {
+          characters?: number;
+          requests?: number;
+          updated_at?: string;
+          usage_date?: string;
+          user_id?: string;
+          voice_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "tts_usage_daily_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       user_voices: {
         Row: {
           created_at: string;
           id: string;
           language: string;
+          pitch: number;
           slot: Database["public"]["Enums"]["voice_slot_enum"];
+          speaking_rate: number;
           user_id: string;
           voice_id: string;
+          volume_gain_db: number;
         };
         Insert: {
           created_at?: string;
           id: string;
           language: string;
+          pitch?: number;
           slot: Database["public"]["Enums"]["voice_slot_enum"];
+          speaking_rate?: number;
           user_id: string;
           voice_id: string;
+          volume_gain_db?: number;
         };
         Update: {
           created_at?: string;
           id?: string;
           language?: string;
+          pitch?: number;
           slot?: Database["public"]["Enums"]["voice_slot_enum"];
+          speaking_rate?: number;
           user_id?: string;
           voice_id?: string;
+          volume_gain_db?: number;
         };
         Relationships: [
           {
@@ -430,18 +758,38 @@ export interface Database {
       };
       users: {
         Row: {
+          audio_format: string;
+          audio_sample_rate_hz: number;
           created_at: string;
           id: string;
+          playback_program_id: string | null;
+          tts_monthly_char_limit: number | null;
         };
         Insert: {
+          audio_format?: string;
+          audio_sample_rate_hz?: number;
           created_at?: string;
           id: string;
+          playback_program_id?: string | null;
+          tts_monthly_char_limit?: number | null;
         };
         Update: {
+          audio_format?: string;
+          audio_sample_rate_hz?: number;
           created_at?: string;
           id?: string;
+          playback_program_id?: string | null;
+          tts_monthly_char_limit?: number | null;
         };
-        Relationships: [];
+        Relationships: [
+          {
+            foreignKeyName: "users_playback_program_id_fkey";
+            columns: ["playback_program_id"];
+            isOneToOne: false;
+            referencedRelation: "playback_programs";
+            referencedColumns: ["id"];
+          },
+        ];
       };
     };
     Views: Record<never, never>;
@@ -470,15 +818,32 @@ export interface Database {
         Args: { "": string };
         Returns: string;
       };
+      claim_job: {
+        Args: { p_worker_id: string; p_lease_seconds: number; p_job_id?: string; p_max_attempts?: number };
+        Returns: string | null;
+      };
       get_current_user_id: {
         Args: Record<PropertyKey, never>;
         Returns: string;
       };
+      record_tts_usage: {
+        Args: { p_user_id: string; p_voice_id: string; p_characters: number };
+        Returns: undefined;
+      };
+      renew_job_lease: {
+        Args: { p_job_id: string; p_worker_id: string; p_lease_seconds: number };
+        Returns: boolean;
+      };
     };
     Enums: {
       audio_status_enum: "complete" | "failed" | "missing";
       job_state_enum: "queued" | "running" | "succeeded" | "failed" | "canceled" | "timeout";
-      job_type_enum: "GENERATE_REBUILD";
+      job_type_enum:
+        | "GENERATE_REBUILD"
+        | "BACKFILL_AUDIO_METADATA"
+        | "REPAIR_SEGMENTS"
+        | "CLEANUP_BUILDS"
+        | "INCREMENTAL_AUDIO";
       voice_slot_enum: "EN1" | "EN2" | "EN3" | "PL";
     };
     CompositeTypes: Record<never, never>;
@@ -602,7 +967,13 @@ export const Constants = {
     Enums: {
       audio_status_enum: ["complete", "failed", "missing"],
       job_state_enum: ["queued", "running", "succeeded", "failed", "canceled", "timeout"],
-      job_type_enum: ["GENERATE_REBUILD"],
+      job_type_enum: [
+        "GENERATE_REBUILD",
+        "BACKFILL_AUDIO_METADATA",
+        "REPAIR_SEGMENTS",
+        "CLEANUP_BUILDS",
+        "INCREMENTAL_AUDIO",
+      ],
       voice_slot_enum: ["EN1", "EN2", "EN3", "PL"],
     },
   },
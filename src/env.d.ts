@@ -17,6 +17,17 @@ interface ImportMetaEnv {
   readonly SUPABASE_KEY: string;
   readonly OPENROUTER_API_KEY: string;
   readonly PHRASE_TTS_ENCRYPTION_KEY?: string;
+  readonly TTS_PROVIDER?: string;
+  readonly TTS_CONCURRENCY?: string;
+  readonly TTS_MAX_RETRIES?: string;
+  readonly BUILD_RETENTION_COUNT?: string;
+  readonly AUDIO_NORMALIZE_LOUDNESS?: string;
+  readonly AUDIO_TRIM_SILENCE?: string;
+  readonly AUDIO_TARGET_LUFS?: string;
+  readonly JOB_INLINE_PROCESSING?: string;
+  readonly JOB_LEASE_SECONDS?: string;
+  readonly JOB_MAX_ATTEMPTS?: string;
+  readonly JOB_POLL_INTERVAL_MS?: string;
   // more env variables...
 }
 
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { computeAudioCacheKey } from "./audio-cache";
+
+const request = { text: "Good morning", voiceId: "en-US-Standard-A", language: "en-US" };
+
+describe("computeAudioCacheKey", () => {
+  it("is stable for identical requests", async () => {
+    expect(await computeAudioCacheKey("google", request)).toBe(await computeAudioCacheKey("google", { ...request }));
+  });
+
+  it("differs when the same text is sent with different SSML", async () => {
+    const plain = await computeAudioCacheKey("google", request);
+    const marked = await computeAudioCacheKey("google", {
+      ...request,
+      ssml: '<speak><mark name="t0"/>Good <mark name="t1"/>morning</speak>',
+    });
+    const markedAsOneToken = await computeAudioCacheKey("google", {
+      ...request,
+      ssml: '<speak><mark name="t0"/>Good morning</speak>',
+    });
+
+    expect(marked).not.toBe(plain);
+    expect(marked).not.toBe(markedAsOneToken);
+  });
+});
@@ -0,0 +1,224 @@
+/* eslint-disable no-console */
+import type { APIContext } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../db/database.types";
+import type { SsmlTimepoint } from "./ssml";
+import type { TtsProvider, TtsSynthesisRequest, TtsSynthesisResult } from "./tts-provider";
+import { DEFAULT_VOICE_AUDIO_SETTINGS, sha256Hex } from "./voice-settings";
+import {
+  DEFAULT_AUDIO_FORMAT,
+  describeAudioFormat,
+  getAudioContentType,
+  getAudioFileExtension,
+  type AudioEncoding,
+} from "./audio-format";
+
+/**
+ * Content-addressed audio cache shared by the job worker and incremental generation.
+ *
+ * Entries live in `audio_cache` and point to immutable objects under `cache/` in the audio bucket,
+ * so identical phrases in other notebooks (e.g. snapshots) are copied instead of re-synthesized.
+ * The cache is best-effort: any lookup or write failure falls back to calling the provider.
+ * Entries are shared by all users, so they are not part of anyone's storage report; entries unused for
+ * `AUDIO_CACHE_MAX_AGE_DAYS` are removed by `pruneAudioCache`.
+ */
+export const AUDIO_CACHE_PREFIX = "cache";
+
+// Days without a hit before an entry is removed, when AUDIO_CACHE_MAX_AGE_DAYS is not set
+export const DEFAULT_AUDIO_CACHE_MAX_AGE_DAYS = 90;
+
+// Entries removed per prune, so a large backlog is spread over several rebuilds
+const PRUNE_BATCH_SIZE = 500;
+
+export interface CachedSynthesisResult extends TtsSynthesisResult {
+  cacheHit: boolean;
+}
+
+/**
+ * Hashes everything that determines the synthesized audio: provider, cleaned text, the SSML sent
+ * (token marks and `<sub>`/`<phoneme>` markup), voice, language, audio settings, applied lexicon
+ * rules and output format. `request.text` must already be cleaned of markdown.
+ */
+export async function computeAudioCacheKey(providerName: string, request: TtsSynthesisRequest): Promise<string> {
+  const settings = request.audioSettings ?? DEFAULT_VOICE_AUDIO_SETTINGS;
+  const format = describeAudioFormat(request.audioFormat ?? DEFAULT_AUDIO_FORMAT);
+  return sha256Hex(
+    JSON.stringify([
+      providerName,
+      request.text,
+      // Different tokenization yields different timepoints for the same text
+      ...(request.ssml ? [`ssml:${request.ssml}`] : []),
+      request.voiceId,
+      request.language,
+      settings.speaking_rate,
+      settings.pitch,
+      settings.volume_gain_db,
+      // Only present when lexicon terms apply, so keys of other texts are unchanged
+      ...(request.pronunciation ? [`lexicon:${request.pronunciation}`] : []),
+      // Likewise only for non-default formats, so existing MP3 entries stay valid
+      ...(format ? [`format:${format}`] : []),
+    ])
+  );
+}
+
+async function readCachedAudio(
+  supabase: SupabaseClient<Database>,
+  cacheKey: string
+): Promise<TtsSynthesisResult | null> {
+  try {
+    const { data: entry, error } = await supabase
+      .from("audio_cache")
+      .select("path, hit_count, timepoints")
+      .eq("cache_key", cacheKey)
+      .maybeSingle();
+
+    if (error || !entry) {
+      return null;
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage.from("audio").download(entry.path);
+    if (downloadError || !file) {
+      console.warn(`[audio-cache] Cached object ${entry.path} is unavailable, re-synthesizing`, downloadError);
+      return null;
+    }
+
+    const { error: updateError } = await supabase
+      .from("audio_cache")
+      .update({ hit_count: entry.hit_count + 1, last_used_at: new Date().toISOString() })
+      .eq("cache_key", cacheKey);
+    if (updateError) {
+      console.warn(`[audio-cache] Failed to record hit for ${cacheKey}:`, updateError);
+    }
+
+    return {
+      audio: new Uint8Array(await file.arrayBuffer()),
+      timepoints: (entry.timepoints as unknown as SsmlTimepoint[] | null) ?? [],
+    };
+  } catch (error) {
+    console.warn(`[audio-cache] Lookup failed for ${cacheKey}:`, error);
+    return null;
+  }
+}
+
+async function writeCachedAudio(
+  supabase: SupabaseClient<Database>,
+  cacheKey: string,
+  result: TtsSynthesisResult,
+  encoding: AudioEncoding
+): Promise<void> {
+  try {
+    const path = `${AUDIO_CACHE_PREFIX}/${cacheKey}.${getAudioFileExtension(encoding)}`;
+    const { error: uploadError } = await supabase.storage.from("audio").upload(path, result.audio, {
+      contentType: getAudioContentType(encoding),
+      cacheControl: "3600",
+      upsert: true,
+    });
+    if (uploadError) {
+      console.warn(`[audio-cache] Failed to upload ${path}:`, uploadError);
+      return;
+    }
+
+    const { error: upsertError } = await supabase.from("audio_cache").upsert(
+      {
+        cache_key: cacheKey,
+        path,
+        size_bytes: result.audio.length,
+        timepoints: result.timepoints as unknown as Json,
+      },
+      { onConflict: "cache_key" }
+    );
+    if (upsertError) {
+      console.warn(`[audio-cache] Failed to record entry ${cacheKey}:`, upsertError);
+    }
+  } catch (error) {
+    console.warn(`[audio-cache] Write failed for ${cacheKey}:`, error);
+  }
+}
+
+/**
+ * Returns cached audio for the request when available, otherwise synthesizes it and stores the result.
+ * Provider errors are rethrown unchanged so callers keep persisting them as segment error codes.
+ */
+export async function synthesizeWithCache(
+  supabase: SupabaseClient<Database>,
+  ttsProvider: TtsProvider,
+  request: TtsSynthesisRequest
+): Promise<CachedSynthesisResult> {
+  const cacheKey = await computeAudioCacheKey(ttsProvider.name, request);
+
+  const cached = await readCachedAudio(supabase, cacheKey);
+  if (cached) {
+    return { ...cached, cacheHit: true };
+  }
+
+  const result = await ttsProvider.synthesize(request);
+  await writeCachedAudio(supabase, cacheKey, result, (request.audioFormat ?? DEFAULT_AUDIO_FORMAT).encoding);
+  return { ...result, cacheHit: false };
+}
+
+/**
+ * Reads `AUDIO_CACHE_MAX_AGE_DAYS` (Cloudflare runtime env, import.meta.env, process.env).
+ * Returns the days an entry may go unused before it is pruned, or null when pruning is disabled (`0`).
+ * @param context - Astro API context (optional, for Cloudflare runtime env access)
+ */
+export function getAudioCacheMaxAgeDays(context?: APIContext): number | null {
+  const localsAny = context?.locals as unknown as
+    | {
+        runtime?: { env?: Record<string, string | undefined> };
+      }
+    | undefined;
+
+  const raw =
+    localsAny?.runtime?.env?.AUDIO_CACHE_MAX_AGE_DAYS ||
+    import.meta.env.AUDIO_CACHE_MAX_AGE_DAYS ||
+    (typeof process !== "undefined" ? process.env.AUDIO_CACHE_MAX_AGE_DAYS : undefined);
+
+  if (raw === "0") {
+    return null;
+  }
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_AUDIO_CACHE_MAX_AGE_DAYS;
+}
+
+/**
+ * Removes cache entries without a hit in the last `maxAgeDays`: their objects first, then the rows.
+ * Segments hold their own copy of cached audio, so no build depends on a cache object.
+ * Removes at most one batch per call and returns the number of entries removed.
+ */
+export async function pruneAudioCache(
+  supabase: SupabaseClient<Database>,
+  maxAgeDays: number,
+  now = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+  const { data: entries, error } = await supabase
+    .from("audio_cache")
+    .select("cache_key, path")
+    .lt("last_used_at", cutoff)
+    .order("last_used_at")
+    .limit(PRUNE_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to fetch unused cache entries: ${error.message}`);
+  }
+  if (!entries || entries.length === 0) {
+    return 0;
+  }
+
+  const { error: removeError } = await supabase.storage.from("audio").remove(entries.map((entry) => entry.path));
+  if (removeError) {
+    throw new Error(`Failed to remove cached audio: ${removeError.message}`);
+  }
+
+  const { error: deleteError } = await supabase
+    .from("audio_cache")
+    .delete()
+    .in(
+      "cache_key",
+      entries.map((entry) => entry.cache_key)
+    );
+  if (deleteError) {
+    throw new Error(`Failed to delete cache entries: ${deleteError.message}`);
+  }
+  return entries.length;
+}
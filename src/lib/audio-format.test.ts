@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { describeAudioFormat, getAudioEncodingFromPath, validateAudioFormat } from "./audio-format";
+
+describe("validateAudioFormat", () => {
+  it("defaults the sample rate per encoding", () => {
+    expect(validateAudioFormat({ audio_format: "MP3" })).toEqual({ encoding: "MP3", sampleRateHz: 22050 });
+    expect(validateAudioFormat({ audio_format: "OGG_OPUS" })).toEqual({ encoding: "OGG_OPUS", sampleRateHz: 24000 });
+  });
+
+  it("rejects unknown encodings and unsupported sample rates", () => {
+    expect(() => validateAudioFormat({ audio_format: "WAV" })).toThrow("audio_format must be one of");
+    expect(() => validateAudioFormat({ audio_format: "OGG_OPUS", audio_sample_rate_hz: 22050 })).toThrow(
+      "audio_sample_rate_hz for OGG_OPUS"
+    );
+  });
+});
+
+describe("describeAudioFormat", () => {
+  it("leaves the default format out of fingerprints", () => {
+    expect(describeAudioFormat({ encoding: "MP3", sampleRateHz: 22050 })).toBeNull();
+    expect(describeAudioFormat({ encoding: "MP3", sampleRateHz: 44100 })).toBe("MP3@44100");
+    expect(describeAudioFormat({ encoding: "OGG_OPUS", sampleRateHz: 24000 })).toBe("OGG_OPUS@24000");
+  });
+});
+
+describe("getAudioEncodingFromPath", () => {
+  it("treats .ogg files as Ogg Opus and everything else as MP3", () => {
+    expect(getAudioEncodingFromPath("audio/u/n/b/p-EN1.ogg")).toBe("OGG_OPUS");
+    expect(getAudioEncodingFromPath("audio/u/n/b/p-EN1.mp3")).toBe("MP3");
+  });
+});
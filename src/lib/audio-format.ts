@@ -0,0 +1,109 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import type { AudioEncoding } from "../types";
+import { ApiErrors } from "./errors";
+import { parseMp3Info } from "./mp3";
+import { parseOggOpusInfo } from "./ogg-opus";
+
+export type { AudioEncoding };
+
+/**
+ * Output format of generated audio, chosen per user in Settings. MP3 at 22050 Hz is the default and
+ * the format of all audio generated before the setting existed; Ogg Opus is several times smaller.
+ */
+export interface AudioFormat {
+  encoding: AudioEncoding;
+  sampleRateHz: number;
+}
+
+export interface AudioInfo {
+  durationMs: number;
+  bitrateKbps: number;
+  sampleRateHz: number;
+}
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = { encoding: "MP3", sampleRateHz: 22050 };
+
+export const AUDIO_ENCODINGS: readonly AudioEncoding[] = ["MP3", "OGG_OPUS"];
+
+// Rates accepted by Google TTS and the encoders; must match users_audio_format_check
+export const AUDIO_SAMPLE_RATES: Record<AudioEncoding, readonly number[]> = {
+  MP3: [16000, 22050, 24000, 44100],
+  OGG_OPUS: [16000, 24000, 48000],
+};
+
+const AUDIO_FILE_TYPES: Record<AudioEncoding, { extension: string; contentType: string }> = {
+  MP3: { extension: "mp3", contentType: "audio/mpeg" },
+  OGG_OPUS: { extension: "ogg", contentType: "audio/ogg" },
+};
+
+export function getAudioFileExtension(encoding: AudioEncoding): string {
+  return AUDIO_FILE_TYPES[encoding].extension;
+}
+
+export function getAudioContentType(encoding: AudioEncoding): string {
+  return AUDIO_FILE_TYPES[encoding].contentType;
+}
+
+/** Storage paths end with the format's extension; anything else is MP3 */
+export function getAudioEncodingFromPath(path: string): AudioEncoding {
+  return path.toLowerCase().endsWith(".ogg") ? "OGG_OPUS" : "MP3";
+}
+
+/**
+ * Describes a non-default format for segment fingerprints and audio cache keys, so switching the
+ * format regenerates audio. Null for the default, which keeps existing fingerprints valid.
+ */
+export function describeAudioFormat(format: AudioFormat): string | null {
+  if (format.encoding === DEFAULT_AUDIO_FORMAT.encoding && format.sampleRateHz === DEFAULT_AUDIO_FORMAT.sampleRateHz) {
+    return null;
+  }
+  return `${format.encoding}@${format.sampleRateHz}`;
+}
+
+/** Reads duration, bitrate and sample rate from the audio's own headers */
+export function parseAudioInfo(audio: Uint8Array, encoding: AudioEncoding): AudioInfo | null {
+  return encoding === "OGG_OPUS" ? parseOggOpusInfo(audio) : parseMp3Info(audio);
+}
+
+function isAudioEncoding(value: unknown): value is AudioEncoding {
+  return AUDIO_ENCODINGS.includes(value as AudioEncoding);
+}
+
+/**
+ * Validates an audio format from a request. The sample rate defaults to 22050 Hz for MP3 and
+ * 24000 Hz for Ogg Opus.
+ * @throws ApiError (validation_error) for unknown encodings or unsupported sample rates
+ */
+export function validateAudioFormat(input: { audio_format?: unknown; audio_sample_rate_hz?: unknown }): AudioFormat {
+  if (!isAudioEncoding(input.audio_format)) {
+    throw ApiErrors.validationError(`audio_format must be one of: ${AUDIO_ENCODINGS.join(", ")}`);
+  }
+
+  const encoding = input.audio_format;
+  const sampleRateHz = input.audio_sample_rate_hz ?? (encoding === "MP3" ? 22050 : 24000);
+  if (typeof sampleRateHz !== "number" || !AUDIO_SAMPLE_RATES[encoding].includes(sampleRateHz)) {
+    throw ApiErrors.validationError(
+      `audio_sample_rate_hz for ${encoding} must be one of: ${AUDIO_SAMPLE_RATES[encoding].join(", ")}`
+    );
+  }
+
+  return { encoding, sampleRateHz };
+}
+
+/** Loads the user's audio format; users who never changed it get the default */
+export async function loadUserAudioFormat(supabase: SupabaseClient<Database>, userId: string): Promise<AudioFormat> {
+  const { data, error } = await supabase
+    .from("users")
+    .select("audio_format, audio_sample_rate_hz")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch audio format: ${error.message}`);
+  }
+  if (!data || !isAudioEncoding(data.audio_format)) {
+    return DEFAULT_AUDIO_FORMAT;
+  }
+  return { encoding: data.audio_format, sampleRateHz: data.audio_sample_rate_hz };
+}
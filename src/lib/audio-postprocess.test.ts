@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  describeAudioPostProcessing,
+  needsMp3Transcode,
+  parseSilenceBounds,
+  postProcessAudio,
+} from "./audio-postprocess";
+import { LocalTtsProvider } from "./tts-provider";
+
+const silencedetect = (lines: string[]) => lines.map((line) => `[silencedetect @ 0x1234] ${line}`).join("\n");
+
+describe("parseSilenceBounds", () => {
+  it("trims leading and trailing silence but keeps pauses between words", () => {
+    const stderr = silencedetect([
+      "silence_start: 0",
+      "silence_end: 0.4 | silence_duration: 0.4",
+      "silence_start: 1.1",
+      "silence_end: 1.3 | silence_duration: 0.2",
+      "silence_start: 2.2",
+      "silence_end: 2.5 | silence_duration: 0.3",
+    ]);
+
+    const bounds = parseSilenceBounds(stderr, 2.5);
+
+    expect(bounds.startSec).toBeCloseTo(0.35);
+    expect(bounds.endSec).toBeCloseTo(2.25);
+  });
+
+  it("treats silence still running at the end of the clip as trailing", () => {
+    const bounds = parseSilenceBounds(silencedetect(["silence_start: 1.8"]), 2);
+
+    expect(bounds.startSec).toBe(0);
+    expect(bounds.endSec).toBeCloseTo(1.85);
+  });
+
+  it("leaves a fully silent clip untouched", () => {
+    const stderr = silencedetect(["silence_start: 0", "silence_end: 1 | silence_duration: 1"]);
+
+    expect(parseSilenceBounds(stderr, 1)).toEqual({ startSec: 0, endSec: 1 });
+  });
+});
+
+describe("postProcessAudio", () => {
+  it("returns the input unchanged when no stage is enabled", async () => {
+    const audio = new Uint8Array([1, 2, 3]);
+    const timepoints = [{ markName: "t0", timeSeconds: 0.2 }];
+
+    const result = await postProcessAudio(audio, timepoints, {
+      normalizeLoudness: false,
+      trimSilence: false,
+      targetLufs: -16,
+    });
+
+    expect(result).toEqual({ audio, timepoints });
+  });
+
+  it("returns the input unchanged when ffmpeg cannot be loaded", async () => {
+    vi.resetModules();
+    vi.doMock("fluent-ffmpeg", () => {
+      throw new Error("module not found");
+    });
+    try {
+      const { postProcessAudio: postProcessWithoutFfmpeg } = await import("./audio-postprocess");
+      const { audio } = await new LocalTtsProvider().synthesize({
+        text: "hello",
+        voiceId: "local-en-1",
+        language: "en",
+      });
+      const timepoints = [{ markName: "t0", timeSeconds: 0.2 }];
+
+      const result = await postProcessWithoutFfmpeg(audio, timepoints, {
+        normalizeLoudness: true,
+        trimSilence: false,
+        targetLufs: -16,
+      });
+
+      expect(result).toEqual({ audio, timepoints });
+    } finally {
+      vi.doUnmock("fluent-ffmpeg");
+    }
+  });
+});
+
+describe("describeAudioPostProcessing", () => {
+  it("is null when disabled and names the enabled stages otherwise", () => {
+    expect(describeAudioPostProcessing({ normalizeLoudness: false, trimSilence: false, targetLufs: -16 })).toBeNull();
+    expect(describeAudioPostProcessing({ normalizeLoudness: true, trimSilence: true, targetLufs: -18 })).toBe(
+      "loudnorm:-18,trim"
+    );
+  });
+});
+
+describe("needsMp3Transcode", () => {
+  it("keeps only MP3 at the silence's 22050 Hz as is", () => {
+    expect(needsMp3Transcode("MP3", 22050)).toBe(false);
+    expect(needsMp3Transcode("MP3", 24000)).toBe(true);
+    expect(needsMp3Transcode("MP3", 44100)).toBe(true);
+    expect(needsMp3Transcode("OGG_OPUS", 48000)).toBe(true);
+  });
+});
@@ -0,0 +1,265 @@
+/* eslint-disable no-console */
+import type { APIContext } from "astro";
+import type { FfmpegCommand } from "fluent-ffmpeg";
+import type { SsmlTimepoint } from "./ssml";
+import { getAudioFileExtension, parseAudioInfo, type AudioEncoding } from "./audio-format";
+
+/**
+ * Optional post-processing of synthesized audio before upload: EBU R128 loudness normalization
+ * (ffmpeg `loudnorm`) and trimming of leading/trailing silence, so voices of different slots play
+ * at the same volume and the pauses between them stay even.
+ *
+ * Runs after the audio cache (the cache keeps raw provider output) and is best-effort: if ffmpeg is
+ * unavailable or fails, the unprocessed audio is used. ffmpeg and Node modules are loaded only when a
+ * stage is enabled, so the module stays importable on runtimes without them.
+ */
+export interface AudioPostProcessOptions {
+  normalizeLoudness: boolean;
+  trimSilence: boolean;
+  /** Integrated loudness target in LUFS */
+  targetLufs: number;
+}
+
+export interface PostProcessedAudio {
+  audio: Uint8Array;
+  timepoints: SsmlTimepoint[];
+}
+
+export const DEFAULT_TARGET_LUFS = -16;
+// Levels below this count as silence when trimming
+const SILENCE_THRESHOLD_DB = -50;
+const MIN_SILENCE_SEC = 0.05;
+// Silence kept at each edge so word onsets and releases are not clipped
+const TRIM_PADDING_SEC = 0.05;
+
+/**
+ * Reads `AUDIO_NORMALIZE_LOUDNESS`, `AUDIO_TRIM_SILENCE` and `AUDIO_TARGET_LUFS`
+ * (Cloudflare runtime env, import.meta.env, process.env). Both stages are off by default.
+ * @param context - Astro API context (optional, for Cloudflare runtime env access)
+ */
+export function getAudioPostProcessOptions(context?: APIContext): AudioPostProcessOptions {
+  const localsAny = context?.locals as unknown as
+    | {
+        runtime?: { env?: Record<string, string | undefined> };
+      }
+    | undefined;
+
+  const read = (name: "AUDIO_NORMALIZE_LOUDNESS" | "AUDIO_TRIM_SILENCE" | "AUDIO_TARGET_LUFS") =>
+    localsAny?.runtime?.env?.[name] ||
+    import.meta.env[name] ||
+    (typeof process !== "undefined" ? process.env[name] : undefined);
+
+  const isEnabled = (value: string | undefined) => value === "true" || value === "1";
+  const targetLufs = Number.parseFloat(read("AUDIO_TARGET_LUFS") ?? "");
+
+  return {
+    normalizeLoudness: isEnabled(read("AUDIO_NORMALIZE_LOUDNESS")),
+    trimSilence: isEnabled(read("AUDIO_TRIM_SILENCE")),
+    targetLufs: Number.isFinite(targetLufs) && targetLufs < 0 ? targetLufs : DEFAULT_TARGET_LUFS,
+  };
+}
+
+/**
+ * Describes the enabled stages for segment fingerprints, so changing them regenerates audio
+ * instead of reusing segments. Null when post-processing is off.
+ */
+export function describeAudioPostProcessing(options: AudioPostProcessOptions): string | null {
+  const stages = [
+    ...(options.normalizeLoudness ? [`loudnorm:${options.targetLufs}`] : []),
+    ...(options.trimSilence ? ["trim"] : []),
+  ];
+  return stages.length > 0 ? stages.join(",") : null;
+}
+
+/**
+ * Finds the audible part of a clip from ffmpeg `silencedetect` output.
+ * Only silence touching the start or the end of the clip is trimmed; pauses between words are kept.
+ */
+export function parseSilenceBounds(stderr: string, durationSec: number): { startSec: number; endSec: number } {
+  const silences: { start: number; end: number }[] = [];
+  for (const line of stderr.split("\n")) {
+    const start = /silence_start: (-?[\d.]+)/.exec(line);
+    if (start) {
+      silences.push({ start: Math.max(Number(start[1]), 0), end: durationSec });
+      continue;
+    }
+    const end = /silence_end: ([\d.]+)/.exec(line);
+    if (end && silences.length > 0) {
+      silences[silences.length - 1].end = Number(end[1]);
+    }
+  }
+
+  let startSec = 0;
+  let endSec = durationSec;
+  const leading = silences[0];
+  if (leading && leading.start <= 0.01 && leading.end >= durationSec - 0.01) {
+    // A clip that is silent throughout is left as it is
+    return { startSec, endSec };
+  }
+  if (leading && leading.start <= 0.01) {
+    startSec = Math.max(leading.end - TRIM_PADDING_SEC, 0);
+  }
+  const trailing = silences[silences.length - 1];
+  if (trailing && trailing.end >= durationSec - 0.01 && trailing.start > startSec) {
+    endSec = Math.min(trailing.start + TRIM_PADDING_SEC, durationSec);
+  }
+
+  return { startSec, endSec };
+}
+
+// Silence bundled for the ZIP export (src/assets/silence-800ms.mp3) is MPEG-2 Layer III at these settings
+const EXPORT_MP3_BITRATE_KBPS = 64;
+const EXPORT_MP3_SAMPLE_RATE_HZ = 22050;
+
+async function loadFfmpeg() {
+  const [
+    { default: ffmpeg },
+    { default: ffmpegPath },
+    { randomUUID },
+    { readFile, rm, writeFile },
+    { tmpdir },
+    { join },
+  ] = await Promise.all([
+    import("fluent-ffmpeg"),
+    import("ffmpeg-static"),
+    import("node:crypto"),
+    import("node:fs/promises"),
+    import("node:os"),
+    import("node:path"),
+  ]);
+  const tempPath = (extension: string) => join(tmpdir(), `tts-${randomUUID()}.${extension}`);
+  return { ffmpeg, ffmpegPath, readFile, rm, writeFile, tempPath };
+}
+
+function runFfmpeg(command: FfmpegCommand, output: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    command
+      .on("end", (_stdout: string | null, stderr: string | null) => resolve(stderr ?? ""))
+      .on("error", reject)
+      .save(output);
+  });
+}
+
+/**
+ * Applies the enabled post-processing stages to MP3 or Ogg Opus audio (re-encoded in the same format)
+ * and shifts SSML timepoints by the trimmed leading silence. Returns the input unchanged when no
+ * stage is enabled or processing fails.
+ */
+export async function postProcessAudio(
+  audio: Uint8Array,
+  timepoints: SsmlTimepoint[],
+  options: AudioPostProcessOptions,
+  encoding: AudioEncoding = "MP3"
+): Promise<PostProcessedAudio> {
+  const info = parseAudioInfo(audio, encoding);
+  if ((!options.normalizeLoudness && !options.trimSilence) || !info) {
+    return { audio, timepoints };
+  }
+
+  let tools: Awaited<ReturnType<typeof loadFfmpeg>>;
+  try {
+    tools = await loadFfmpeg();
+  } catch (error) {
+    console.warn("[audio-postprocess] ffmpeg could not be loaded, using unprocessed audio:", error);
+    return { audio, timepoints };
+  }
+  const { ffmpeg, ffmpegPath, readFile, rm, writeFile, tempPath } = tools;
+  if (!ffmpegPath) {
+    return { audio, timepoints };
+  }
+
+  const inputPath = tempPath(getAudioFileExtension(encoding));
+  const outputPath = tempPath(getAudioFileExtension(encoding));
+
+  try {
+    await writeFile(inputPath, audio);
+
+    let bounds = { startSec: 0, endSec: info.durationMs / 1000 };
+    if (options.trimSilence) {
+      const stderr = await runFfmpeg(
+        ffmpeg(inputPath)
+          .setFfmpegPath(ffmpegPath)
+          .audioFilters(`silencedetect=n=${SILENCE_THRESHOLD_DB}dB:d=${MIN_SILENCE_SEC}`)
+          .format("null"),
+        "-"
+      );
+      bounds = parseSilenceBounds(stderr, info.durationMs / 1000);
+    }
+
+    const filters = [
+      ...(options.trimSilence ? [`atrim=start=${bounds.startSec}:end=${bounds.endSec}`, "asetpts=PTS-STARTPTS"] : []),
+      ...(options.normalizeLoudness ? [`loudnorm=I=${options.targetLufs}:TP=-1.5:LRA=11`] : []),
+    ];
+    await runFfmpeg(
+      ffmpeg(inputPath)
+        .setFfmpegPath(ffmpegPath)
+        .audioFilters(filters)
+        .audioCodec(encoding === "OGG_OPUS" ? "libopus" : "libmp3lame")
+        .audioBitrate(info.bitrateKbps)
+        // loudnorm resamples internally; keep the provider's sample rate
+        .audioFrequency(info.sampleRateHz)
+        .format(encoding === "OGG_OPUS" ? "ogg" : "mp3"),
+      outputPath
+    );
+
+    const processed = new Uint8Array(await readFile(outputPath));
+    return {
+      audio: processed,
+      timepoints: timepoints.map((timepoint) => ({
+        ...timepoint,
+        timeSeconds: Math.max(timepoint.timeSeconds - bounds.startSec, 0),
+      })),
+    };
+  } catch (error) {
+    console.warn("[audio-postprocess] Post-processing failed, using unprocessed audio:", error);
+    return { audio, timepoints };
+  } finally {
+    await Promise.all([rm(inputPath, { force: true }), rm(outputPath, { force: true })]);
+  }
+}
+
+/**
+ * Whether audio must be transcoded before it can be concatenated with the bundled silence:
+ * anything but MP3 at the silence's sample rate (frames of different rates cannot be mixed).
+ */
+export function needsMp3Transcode(encoding: AudioEncoding, sampleRateHz: number): boolean {
+  return encoding !== "MP3" || sampleRateHz !== EXPORT_MP3_SAMPLE_RATE_HZ;
+}
+
+/**
+ * Transcodes audio to MP3 matching the bundled silence, so the ZIP export can concatenate it.
+ * Unlike post-processing this is required, so it throws when ffmpeg is unavailable or fails.
+ */
+export async function transcodeToMp3(
+  audio: Uint8Array,
+  encoding: AudioEncoding,
+  sampleRateHz: number = EXPORT_MP3_SAMPLE_RATE_HZ
+): Promise<Uint8Array> {
+  if (!needsMp3Transcode(encoding, sampleRateHz)) {
+    return audio;
+  }
+
+  const { ffmpeg, ffmpegPath, readFile, rm, writeFile, tempPath } = await loadFfmpeg();
+  if (!ffmpegPath) {
+    throw new Error("ffmpeg is not available to transcode audio to MP3");
+  }
+
+  const inputPath = tempPath(getAudioFileExtension(encoding));
+  const outputPath = tempPath("mp3");
+  try {
+    await writeFile(inputPath, audio);
+    await runFfmpeg(
+      ffmpeg(inputPath)
+        .setFfmpegPath(ffmpegPath)
+        .audioCodec("libmp3lame")
+        .audioBitrate(EXPORT_MP3_BITRATE_KBPS)
+        .audioFrequency(EXPORT_MP3_SAMPLE_RATE_HZ)
+        .audioChannels(1)
+        .format("mp3"),
+      outputPath
+    );
+    return new Uint8Array(await readFile(outputPath));
+  } finally {
+    await Promise.all([rm(inputPath, { force: true }), rm(outputPath, { force: true })]);
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { summarizeBuilds } from "./build-history";
+
+const build = { id: "b1", job_id: "j1", notebook_id: "n1", created_at: "2026-01-01T00:00:00Z" };
+
+describe("summarizeBuilds", () => {
+  it("counts segments and uses the recorded voice snapshot", () => {
+    const [summary] = summarizeBuilds(
+      [{ ...build, voices: [{ slot: "EN1", language: "en", voice_id: "en-GB-Standard-B" }] }],
+      [
+        { build_id: "b1", voice_slot: "EN1", status: "complete", duration_ms: 1200 },
+        { build_id: "b1", voice_slot: "EN1", status: "failed", duration_ms: null },
+        { build_id: "b2", voice_slot: "EN1", status: "complete", duration_ms: 5000 },
+      ],
+      "b1"
+    );
+
+    expect(summary).toEqual({
+      ...build,
+      is_current: true,
+      voices: [{ slot: "EN1", language: "en", voice_id: "en-GB-Standard-B" }],
+      complete_segments: 1,
+      failed_segments: 1,
+      total_duration_ms: 1200,
+    });
+  });
+
+  it("derives voice slots from segments for builds without a snapshot", () => {
+    const [summary] = summarizeBuilds(
+      [{ ...build, voices: null }],
+      [
+        { build_id: "b1", voice_slot: "PL", status: "complete", duration_ms: 800 },
+        { build_id: "b1", voice_slot: "EN2", status: "complete", duration_ms: 900 },
+      ],
+      "b2"
+    );
+
+    expect(summary.is_current).toBe(false);
+    expect(summary.voices).toEqual([
+      { slot: "EN2", language: "en", voice_id: null },
+      { slot: "PL", language: "pl", voice_id: null },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import type { BuildDTO, BuildSummaryDTO, BuildVoiceDTO, VoiceSlot } from "../types";
+
+// PostgREST caps the rows returned per request
+const SEGMENT_PAGE_SIZE = 1000;
+const SLOT_ORDER: VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
+
+type BuildHistorySegment = Pick<
+  Database["public"]["Tables"]["audio_segments"]["Row"],
+  "build_id" | "voice_slot" | "status" | "duration_ms"
+>;
+
+type BuildWithVoices = BuildDTO & Pick<Database["public"]["Tables"]["builds"]["Row"], "voices">;
+
+/**
+ * Summarizes builds for the build history: voices used, segment counts and total audio duration.
+ * Builds without a voice snapshot (created before snapshots were recorded) list the slots found in
+ * their segments with `voice_id: null`.
+ */
+export function summarizeBuilds(
+  builds: BuildWithVoices[],
+  segments: BuildHistorySegment[],
+  currentBuildId: string | null
+): BuildSummaryDTO[] {
+  return builds.map(({ voices, ...build }) => {
+    const buildSegments = segments.filter((segment) => segment.build_id === build.id);
+    const complete = buildSegments.filter((segment) => segment.status === "complete");
+
+    const snapshot = Array.isArray(voices) ? (voices as unknown as BuildVoiceDTO[]) : null;
+    const slots = new Set(buildSegments.map((segment) => segment.voice_slot));
+    const buildVoices =
+      snapshot ??
+      SLOT_ORDER.filter((slot) => slots.has(slot)).map((slot) => ({
+        slot,
+        language: slot === "PL" ? "pl" : "en",
+        voice_id: null,
+      }));
+
+    return {
+      ...build,
+      is_current: build.id === currentBuildId,
+      voices: buildVoices,
+      complete_segments: complete.length,
+      failed_segments: buildSegments.length - complete.length,
+      total_duration_ms: complete.reduce((sum, segment) => sum + (segment.duration_ms ?? 0), 0),
+    };
+  });
+}
+
+/** Loads the segments of the given builds and summarizes them (see `summarizeBuilds`). */
+export async function loadBuildSummaries(
+  supabase: SupabaseClient<Database>,
+  builds: BuildWithVoices[],
+  currentBuildId: string | null
+): Promise<BuildSummaryDTO[]> {
+  const segments: BuildHistorySegment[] = [];
+  const buildIds = builds.map((build) => build.id);
+
+  for (let offset = 0; buildIds.length > 0; offset += SEGMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("audio_segments")
+      .select("build_id, voice_slot, status, duration_ms")
+      .in("build_id", buildIds)
+      .order("id")
+      .range(offset, offset + SEGMENT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch audio segments: ${error.message}`);
+    }
+    segments.push(...(data || []));
+    if (!data || data.length < SEGMENT_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return summarizeBuilds(builds, segments, currentBuildId);
+}
+
+/**
+ * Makes a build the notebook's current build: deactivates all segments of the notebook's phrases,
+ * activates the build's complete segments and updates `notebooks.current_build_id`.
+ */
+export async function activateBuild(
+  supabase: SupabaseClient<Database>,
+  notebookId: string,
+  buildId: string
+): Promise<void> {
+  // Get all phrase IDs for this notebook
+  const { data: phrases, error: phrasesError } = await supabase
+    .from("phrases")
+    .select("id")
+    .eq("notebook_id", notebookId);
+
+  if (phrasesError) {
+    throw new Error(`Failed to fetch phrases: ${phrasesError.message}`);
+  }
+
+  if (!phrases || phrases.length === 0) {
+    return;
+  }
+
+  const phraseIds = phrases.map((p: { id: string }) => p.id);
+
+  // Deactivate old segments for this notebook's phrases
+  const { error: deactivateError } = await supabase
+    .from("audio_segments")
+    .update({ is_active: false })
+    .in("phrase_id", phraseIds);
+
+  if (deactivateError) {
+    throw new Error(`Failed to deactivate old segments: ${deactivateError.message}`);
+  }
+
+  // Activate segments of this build
+  const { error: activateError } = await supabase
+    .from("audio_segments")
+    .update({ is_active: true })
+    .eq("build_id", buildId)
+    .eq("status", "complete"); // Only activate successful segments
+
+  if (activateError) {
+    throw new Error(`Failed to activate new segments: ${activateError.message}`);
+  }
+
+  // Update notebook current_build_id
+  const { error: updateNotebookError } = await supabase
+    .from("notebooks")
+    .update({ current_build_id: buildId })
+    .eq("id", notebookId);
+
+  if (updateNotebookError) {
+    throw new Error(`Failed to update notebook: ${updateNotebookError.message}`);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { collectRemovablePaths, planBuildRetention } from "./build-retention";
+
+const builds = [
+  { id: "b1", created_at: "2026-01-01T00:00:00Z" },
+  { id: "b3", created_at: "2026-03-01T00:00:00Z" },
+  { id: "b2", created_at: "2026-02-01T00:00:00Z" },
+  { id: "b4", created_at: "2026-04-01T00:00:00Z" },
+];
+
+describe("planBuildRetention", () => {
+  it("keeps the newest builds and removes the rest", () => {
+    expect(planBuildRetention(builds, "b4", 2)).toEqual({ keep: ["b4", "b3"], remove: ["b2", "b1"] });
+  });
+
+  it("never removes the current build", () => {
+    expect(planBuildRetention(builds, "b1", 1)).toEqual({ keep: ["b4", "b1"], remove: ["b3", "b2"] });
+  });
+});
+
+describe("collectRemovablePaths", () => {
+  it("only returns complete segment paths that no kept build references", () => {
+    const segments = [
+      { build_id: "b2", path: "u/n/p1/EN1.mp3", status: "complete" },
+      { build_id: "b2", path: "u/n/p1/EN3.mp3", status: "complete" },
+      { build_id: "b2", path: "failed/u/n/p2/EN1.mp3", status: "failed" },
+      { build_id: "b2", path: "cache/abc.mp3", status: "complete" },
+      { build_id: "b1", path: "u/n/p1/EN3.mp3", status: "complete" },
+      { build_id: "b4", path: "u/n/p1/EN1.mp3", status: "complete" },
+    ];
+
+    expect(collectRemovablePaths(segments, ["b1", "b2"])).toEqual(["u/n/p1/EN3.mp3"]);
+  });
+});
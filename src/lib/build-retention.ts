@@ -0,0 +1,88 @@
+import type { APIContext } from "astro";
+
+// Builds kept per notebook when BUILD_RETENTION_COUNT is not set
+export const DEFAULT_BUILD_RETENTION_COUNT = 3;
+export const MAX_BUILD_RETENTION_COUNT = 50;
+
+export interface RetentionBuild {
+  id: string;
+  created_at: string;
+}
+
+export interface RetentionSegment {
+  build_id: string;
+  path: string;
+  status: string;
+}
+
+/**
+ * Reads `BUILD_RETENTION_COUNT` (Cloudflare runtime env, import.meta.env, process.env).
+ * Returns the number of builds to keep per notebook, or null when automatic cleanup is disabled (`0`).
+ * @param context - Astro API context (optional, for Cloudflare runtime env access)
+ */
+export function getBuildRetentionCount(context?: APIContext): number | null {
+  const localsAny = context?.locals as unknown as
+    | {
+        runtime?: { env?: Record<string, string | undefined> };
+      }
+    | undefined;
+
+  const raw =
+    localsAny?.runtime?.env?.BUILD_RETENTION_COUNT ||
+    import.meta.env.BUILD_RETENTION_COUNT ||
+    (typeof process !== "undefined" ? process.env.BUILD_RETENTION_COUNT : undefined);
+
+  if (raw === "0") {
+    return null;
+  }
+  const parsed = Number.parseInt(raw ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0
+    ? Math.min(parsed, MAX_BUILD_RETENTION_COUNT)
+    : DEFAULT_BUILD_RETENTION_COUNT;
+}
+
+/**
+ * Splits a notebook's builds into the ones to keep (the newest `keepCount` plus the current build,
+ * which is never removed) and the ones to remove.
+ */
+export function planBuildRetention(
+  builds: RetentionBuild[],
+  currentBuildId: string | null,
+  keepCount: number
+): { keep: string[]; remove: string[] } {
+  const newestFirst = [...builds].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const keep = new Set(newestFirst.slice(0, Math.max(keepCount, 1)).map((build) => build.id));
+  if (currentBuildId) {
+    keep.add(currentBuildId);
+  }
+
+  return {
+    keep: newestFirst.filter((build) => keep.has(build.id)).map((build) => build.id),
+    remove: newestFirst.filter((build) => !keep.has(build.id)).map((build) => build.id),
+  };
+}
+
+/**
+ * Returns the storage paths that can be deleted together with the removed builds.
+ * A rebuild can reuse the object of an earlier build's segment, so a path referenced by any segment
+ * of a kept build is kept. `failed/` paths are excluded because failed placeholders have no object,
+ * and `cache/` paths because shared cache objects are owned by `audio_cache`.
+ */
+export function collectRemovablePaths(segments: RetentionSegment[], removedBuildIds: string[]): string[] {
+  const removed = new Set(removedBuildIds);
+  const keptPaths = new Set(segments.filter((segment) => !removed.has(segment.build_id)).map((s) => s.path));
+
+  const removable = new Set<string>();
+  for (const segment of segments) {
+    if (
+      removed.has(segment.build_id) &&
+      segment.status === "complete" &&
+      !segment.path.startsWith("failed/") &&
+      !segment.path.startsWith("cache/") &&
+      !keptPaths.has(segment.path)
+    ) {
+      removable.add(segment.path);
+    }
+  }
+  return [...removable];
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { supabaseClient } from "../../db/supabase.client";
+import { claimOfflineData, clearOfflineData } from "../offline-cache";
 
 interface AuthState {
   isAuthenticated: boolean;
@@ -39,6 +40,14 @@ export function useAuth(): AuthState {
     localStorage.removeItem("sb_expires_at");
     localStorage.removeItem("sb_user_id");
 
+    // Offline copies and cached player pages must not outlive the session on a shared device
+    try {
+      await clearOfflineData();
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn("Failed to clear offline data:", error);
+    }
+
     // Sign out from Supabase (in production)
     try {
       await supabaseClient.auth.signOut();
@@ -240,6 +249,15 @@ export function useAuth(): AuthState {
     };
   }, []);
 
+  // Offline caches are per device: drop another user's downloads once this user is known
+  useEffect(() => {
+    if (!userId) return;
+    claimOfflineData(userId).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.warn("Failed to claim offline data:", error);
+    });
+  }, [userId]);
+
   return {
     isAuthenticated,
     isLoading,
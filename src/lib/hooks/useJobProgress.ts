@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { useApi } from "./useApi";
+import { parseServerSentEvents } from "../job-progress";
+import type { JobProgressDTO } from "../../types";
+
+const RECONNECT_DELAY_MS = 2000;
+const TERMINAL_STATES: JobProgressDTO["state"][] = ["succeeded", "failed", "canceled", "timeout"];
+
+/**
+ * Subscribes to `GET /api/jobs/:jobId/events` and returns the latest progress.
+ * Uses fetch instead of EventSource so the Authorization header can be sent;
+ * reconnects while the job has not reached a terminal state.
+ */
+export function useJobProgress(jobId: string | null) {
+  const { token } = useApi();
+  const [progress, setProgress] = useState<JobProgressDTO | null>(null);
+
+  useEffect(() => {
+    setProgress(null);
+    if (!jobId) {
+      return;
+    }
+
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let isTerminal = false;
+
+    const connect = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/events`, {
+          headers: {
+            Accept: "text/event-stream",
+            ...(token && { Authorization: `Bearer ${token}` }),
+          },
+          signal: controller.signal,
+        });
+
+        if (response.status === 404) {
+          return; // Job is gone; polling in the caller handles cleanup
+        }
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const { events, rest } = parseServerSentEvents(buffer);
+          buffer = rest;
+
+          for (const event of events) {
+            if (event.event !== "progress") continue;
+            const next = JSON.parse(event.data) as JobProgressDTO;
+            isTerminal = TERMINAL_STATES.includes(next.state);
+            setProgress(next);
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // eslint-disable-next-line no-console
+        console.warn("[useJobProgress] Progress stream interrupted:", error);
+      }
+
+      if (!isTerminal && !controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+    };
+  }, [jobId, token]);
+
+  return progress;
+}
@@ -1,36 +1,87 @@
 import { useCallback, useEffect, useRef } from "react";
-import type { PlaybackManifestVM, VoiceSlot, PlaybackSpeed } from "../../types";
+import type {
+  PlaybackManifestVM,
+  VoiceSlot,
+  PlaybackSpeed,
+  PlaybackProgramStep,
+  PlaybackGap,
+  Segment,
+} from "../../types";
+import {
+  DEFAULT_PAUSE_MS,
+  expandPlaybackProgram,
+  getShadowingPauseMs,
+  type PlaybackPlanItem,
+} from "../playback-program";
 
 interface UsePlaybackEngineProps {
   manifest: PlaybackManifestVM | null;
   phraseIndex: number;
   speed: PlaybackSpeed;
+  /** Order, repeats and pauses of a phrase's segments */
+  program: readonly PlaybackProgramStep[];
+  /** Shadowing mode: pauses grow with the length of the segment just played */
+  shadowing: boolean;
   setCurrentSlot: (slot: VoiceSlot | null) => void;
   setClockMs: (ms: number) => void;
   setPhraseIndex: (index: number) => void;
+  /** Called when a shadowing pause starts and when it ends (null) */
+  setGap?: (gap: PlaybackGap | null) => void;
+  /**
+   * Record-and-compare: runs after each English segment instead of its pause, with a window sized like
+   * a shadowing pause. Playback continues (after the program's pause) once the promise settles;
+   * `signal` is aborted when playback is paused, stopped or moved elsewhere.
+   */
+  interlude?: (phraseId: string, slot: VoiceSlot, windowMs: number, signal: AbortSignal) => Promise<void>;
 }
 
-const SLOT_SEQUENCE: VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
-const PAUSE_DURATION_MS = 800;
+/** The plan of a phrase: the program's steps that have playable audio, repeats unrolled */
+export function getPhrasePlan(program: readonly PlaybackProgramStep[], segments: Segment[]): PlaybackPlanItem[] {
+  return expandPlaybackProgram(
+    program,
+    segments.filter((segment) => segment.url).map((segment) => segment.slot)
+  );
+}
 
 export function usePlaybackEngine({
   manifest,
   phraseIndex,
   speed,
+  program,
+  shadowing,
   setCurrentSlot,
   setClockMs,
   setPhraseIndex,
+  setGap,
+  interlude,
 }: UsePlaybackEngineProps) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const currentSegmentRef = useRef<VoiceSlot | null>(null);
+  // Position of the playing segment in the phrase plan (null if the slot is not part of the program)
+  const planPositionRef = useRef<number | null>(null);
   const manifestRef = useRef<PlaybackManifestVM | null>(manifest);
+  const programRef = useRef<readonly PlaybackProgramStep[]>(program);
+  const shadowingRef = useRef(shadowing);
+  const speedRef = useRef(speed);
+  const gapRef = useRef<PlaybackGap | null>(null);
+  const interludeRef = useRef(interlude);
+  const interludeAbortRef = useRef<AbortController | null>(null);
   const phraseIndexRef = useRef<number>(phraseIndex);
-  const playSegmentRef = useRef<((slot: VoiceSlot, url: string) => Promise<void>) | null>(null);
+  const playSegmentRef = useRef<((slot: VoiceSlot, url: string, planPosition?: number) => Promise<void>) | null>(null);
   const handleSegmentEndRef = useRef<(() => void) | null>(null);
   const handlePhraseEndRef = useRef<(() => void) | null>(null);
   const phraseIndexWhenTimeoutScheduledRef = useRef<number | null>(null);
 
+  const reportGap = useCallback(
+    (gap: PlaybackGap | null) => {
+      if (gapRef.current === gap) return;
+      gapRef.current = gap;
+      setGap?.(gap);
+    },
+    [setGap]
+  );
+
   // Clean up timeouts
   const clearTimeouts = useCallback(() => {
     if (timeoutRef.current) {
@@ -38,13 +89,32 @@ export function usePlaybackEngine({
       timeoutRef.current = null;
     }
     phraseIndexWhenTimeoutScheduledRef.current = null;
-  }, []);
+    interludeAbortRef.current?.abort();
+    interludeAbortRef.current = null;
+    reportGap(null);
+  }, [reportGap]);
 
   // Keep refs in sync with latest values to avoid stale closures
   useEffect(() => {
     manifestRef.current = manifest;
   }, [manifest]);
 
+  useEffect(() => {
+    programRef.current = program;
+  }, [program]);
+
+  useEffect(() => {
+    shadowingRef.current = shadowing;
+  }, [shadowing]);
+
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  useEffect(() => {
+    interludeRef.current = interlude;
+  }, [interlude]);
+
   useEffect(() => {
     const prevPhraseIndex = phraseIndexRef.current;
     phraseIndexRef.current = phraseIndex;
@@ -76,6 +146,7 @@ export function usePlaybackEngine({
       try {
         await audioRef.current.play();
       } catch (error) {
+        // eslint-disable-next-line no-console
         console.error("Failed to resume audio:", error);
       }
     }
@@ -106,32 +177,74 @@ export function usePlaybackEngine({
     const currentSlot = currentSegmentRef.current;
     if (!currentSlot) return;
 
-    const currentSlotIndex = SLOT_SEQUENCE.indexOf(currentSlot);
-    const nextSlot = SLOT_SEQUENCE[currentSlotIndex + 1];
-
-    const nextSegment = currentPhrase.segments.find((s) => s.slot === nextSlot);
+    // A slot played outside the program (e.g. picked in the sequence bar) ends the phrase
+    const plan = getPhrasePlan(programRef.current, currentPhrase.segments);
+    const position = planPositionRef.current;
+    const programPauseMs = position !== null ? (plan[position]?.pauseMs ?? DEFAULT_PAUSE_MS) : DEFAULT_PAUSE_MS;
+    // Manifest durations may be missing for old audio; the element knows the length once loaded
+    const durationMs =
+      currentPhrase.segments.find((s) => s.slot === currentSlot)?.durationMs ??
+      (audioRef.current && Number.isFinite(audioRef.current.duration) ? audioRef.current.duration * 1000 : 0);
+    const playedMs = durationMs / speedRef.current;
+    const pauseMs = shadowingRef.current ? getShadowingPauseMs(playedMs, programPauseMs) : programPauseMs;
+    const nextPosition = position !== null && position + 1 < plan.length ? position + 1 : null;
+    const nextSegment =
+      nextPosition !== null ? currentPhrase.segments.find((s) => s.slot === plan[nextPosition].slot) : undefined;
 
     // Store the phraseIndex when scheduling the timeout
     phraseIndexWhenTimeoutScheduledRef.current = idx;
 
-    if (nextSegment && playSegmentRef.current) {
-      timeoutRef.current = setTimeout(() => {
-        // Check if phraseIndex changed while waiting - if so, don't play the segment
-        if (phraseIndexWhenTimeoutScheduledRef.current !== phraseIndexRef.current) {
-          return;
-        }
-        playSegmentRef.current?.(nextSlot, nextSegment.url);
-      }, PAUSE_DURATION_MS);
-    } else if (handlePhraseEndRef.current) {
-      timeoutRef.current = setTimeout(() => {
-        // Check if phraseIndex changed while waiting - if so, don't handle phrase end
-        if (phraseIndexWhenTimeoutScheduledRef.current !== phraseIndexRef.current) {
-          return;
-        }
-        handlePhraseEndRef.current?.();
-      }, PAUSE_DURATION_MS);
+    const scheduleNext = (delayMs: number) => {
+      if (nextPosition !== null && nextSegment && playSegmentRef.current) {
+        timeoutRef.current = setTimeout(() => {
+          // Check if phraseIndex changed while waiting - if so, don't play the segment
+          if (phraseIndexWhenTimeoutScheduledRef.current !== phraseIndexRef.current) {
+            return;
+          }
+          reportGap(null);
+          playSegmentRef.current?.(nextSegment.slot, nextSegment.url, nextPosition);
+        }, delayMs);
+      } else if (handlePhraseEndRef.current) {
+        timeoutRef.current = setTimeout(() => {
+          // Check if phraseIndex changed while waiting - if so, don't handle phrase end
+          if (phraseIndexWhenTimeoutScheduledRef.current !== phraseIndexRef.current) {
+            return;
+          }
+          reportGap(null);
+          handlePhraseEndRef.current?.();
+        }, delayMs);
+      }
+    };
+
+    const runInterlude = interludeRef.current;
+    if (runInterlude && currentSlot !== "PL") {
+      const windowMs = getShadowingPauseMs(playedMs, 0);
+      const controller = new AbortController();
+      interludeAbortRef.current = controller;
+      reportGap({ slot: currentSlot, startedAt: Date.now(), durationMs: windowMs, recording: true });
+
+      void runInterlude(currentPhrase.phrase.id, currentSlot, windowMs, controller.signal)
+        .catch((error) => {
+          // eslint-disable-next-line no-console
+          console.error("[usePlaybackEngine] Interlude failed:", error);
+        })
+        .finally(() => {
+          // Aborted by pause, stop or a jump: whoever aborted it decides what plays next
+          if (controller.signal.aborted || phraseIndexWhenTimeoutScheduledRef.current !== phraseIndexRef.current) {
+            return;
+          }
+          interludeAbortRef.current = null;
+          reportGap(null);
+          scheduleNext(programPauseMs);
+        });
+      return;
     }
-  }, []);
+
+    if (shadowingRef.current) {
+      reportGap({ slot: currentSlot, startedAt: Date.now(), durationMs: pauseMs });
+    }
+    scheduleNext(pauseMs);
+  }, [reportGap]);
 
   // Handle phrase end logic using refs for fresh state
   const handlePhraseEnd = useCallback(() => {
@@ -153,27 +266,39 @@ export function usePlaybackEngine({
     setPhraseIndex(nextPhraseIndex);
 
     const nextPhrase = currentManifest.sequence[nextPhraseIndex];
-    const en1Segment = nextPhrase.segments.find((s) => s.slot === "EN1");
+    const firstItem = getPhrasePlan(programRef.current, nextPhrase.segments)[0];
+    const firstSegment = firstItem && nextPhrase.segments.find((s) => s.slot === firstItem.slot);
 
-    if (en1Segment && playSegmentRef.current) {
+    if (firstSegment && playSegmentRef.current) {
       timeoutRef.current = setTimeout(() => {
         // Check if phraseIndex changed while waiting - if so, don't play the segment
         if (phraseIndexWhenTimeoutScheduledRef.current !== phraseIndexRef.current) {
           return;
         }
-        playSegmentRef.current?.("EN1", en1Segment.url);
-      }, PAUSE_DURATION_MS);
+        playSegmentRef.current?.(firstSegment.slot, firstSegment.url, 0);
+      }, DEFAULT_PAUSE_MS);
     }
   }, [setPhraseIndex, setCurrentSlot, setClockMs]);
 
-  // Play audio segment
+  // Play audio segment; without a plan position, playback continues after the slot's first step
   const playSegment = useCallback(
-    async (slot: VoiceSlot, url: string) => {
+    async (slot: VoiceSlot, url: string, planPosition?: number) => {
       // Clear any pending timeouts to prevent scheduled segments from playing
       // This is critical when user changes segment or phrase during a pause
       clearTimeouts();
 
+      const currentPhrase = manifestRef.current?.sequence[phraseIndexRef.current];
+      if (planPosition !== undefined) {
+        planPositionRef.current = planPosition;
+      } else {
+        const position = currentPhrase
+          ? getPhrasePlan(programRef.current, currentPhrase.segments).findIndex((item) => item.slot === slot)
+          : -1;
+        planPositionRef.current = position === -1 ? null : position;
+      }
+
       if (!url || url.trim() === "") {
+        // eslint-disable-next-line no-console
         console.error("[usePlaybackEngine] Invalid URL provided:", url);
         handleSegmentEndRef.current?.();
         return;
@@ -192,6 +317,7 @@ export function usePlaybackEngine({
           handleSegmentEndRef.current?.();
         });
         audioRef.current.addEventListener("error", (e) => {
+          // eslint-disable-next-line no-console
           console.error("[usePlaybackEngine] Audio element error:", e, {
             error: audioRef.current?.error,
             networkState: audioRef.current?.networkState,
@@ -216,6 +342,7 @@ export function usePlaybackEngine({
         currentSegmentRef.current = slot;
         setCurrentSlot(slot);
       } catch (error) {
+        // eslint-disable-next-line no-console
         console.error("[usePlaybackEngine] Failed to play audio segment:", error, {
           errorCode: error && typeof error === "object" && "code" in error ? String(error.code) : undefined,
           errorMessage: error instanceof Error ? error.message : String(error),
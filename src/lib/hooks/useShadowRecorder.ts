@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface RecordedTake {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+// In order of preference; Safari only records MP4
+const RECORDING_MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+function pickMimeType(): string | undefined {
+  return RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Records the microphone for fixed windows (record-and-compare shadowing).
+ * The microphone stream is opened on the first recording and kept until `release` or unmount,
+ * so the permission prompt and device start-up happen once.
+ */
+export function useShadowRecorder() {
+  const streamRef = useRef<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Detected after mount so the server render and hydration agree
+  const [isSupported, setIsSupported] = useState(false);
+
+  useEffect(() => {
+    setIsSupported(typeof MediaRecorder !== "undefined" && typeof navigator.mediaDevices?.getUserMedia === "function");
+  }, []);
+
+  const release = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  /** Records for `durationMs`; resolves null when aborted or when the microphone is unavailable */
+  const record = useCallback(
+    async (durationMs: number, signal: AbortSignal): Promise<RecordedTake | null> => {
+      if (!isSupported) {
+        setError("Recording is not supported in this browser.");
+        return null;
+      }
+
+      try {
+        streamRef.current ??= await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (err) {
+        setError(
+          err instanceof Error && err.name === "NotAllowedError"
+            ? "Microphone access was denied."
+            : "No microphone available."
+        );
+        return null;
+      }
+      if (signal.aborted) return null;
+      setError(null);
+
+      const recorder = new MediaRecorder(streamRef.current, { mimeType: pickMimeType() });
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => recorder.state !== "inactive" && recorder.stop(), durationMs);
+        const onAbort = () => {
+          clearTimeout(timer);
+          if (recorder.state !== "inactive") recorder.stop();
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+
+        recorder.addEventListener("dataavailable", (event) => {
+          if (event.data.size > 0) chunks.push(event.data);
+        });
+        recorder.addEventListener("stop", () => {
+          signal.removeEventListener("abort", onAbort);
+          if (signal.aborted || chunks.length === 0) {
+            resolve(null);
+            return;
+          }
+          const mimeType = recorder.mimeType || chunks[0].type;
+          resolve({ blob: new Blob(chunks, { type: mimeType }), mimeType, durationMs: Date.now() - startedAt });
+        });
+        recorder.start();
+      });
+    },
+    [isSupported]
+  );
+
+  useEffect(() => release, [release]);
+
+  return { isSupported, record, release, error };
+}
+
+/** Plays a recorded take; resolves when it ends, fails or is aborted */
+export function playBlob(blob: Blob, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    const finish = () => {
+      signal.removeEventListener("abort", onAbort);
+      audio.pause();
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+    const onAbort = () => finish();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    audio.addEventListener("ended", finish, { once: true });
+    audio.addEventListener("error", finish, { once: true });
+    audio.play().catch(finish);
+  });
+}
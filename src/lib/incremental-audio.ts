@@ -2,119 +2,157 @@
 import type { APIContext } from "astro";
 import { createClient } from "@supabase/supabase-js";
 import { randomUUID } from "node:crypto";
-import type { Database } from "../db/database.types";
+import type { Database, Json } from "../db/database.types";
 import { cleanMarkdownForTts, getSupabaseEnvVars } from "./utils";
 import { setRuntimeEnv } from "./tts-encryption";
+import { createTtsProvider, getTtsProviderName, type TtsProvider, type TtsProviderName } from "./tts-provider";
+import { buildWordTimings, resolvePhraseTokens } from "./ssml";
+import {
+  describeAudioFormat,
+  getAudioContentType,
+  getAudioFileExtension,
+  loadUserAudioFormat,
+  parseAudioInfo,
+  type AudioFormat,
+} from "./audio-format";
+import { computeSegmentFingerprint, toVoiceAudioSettings } from "./voice-settings";
+import { synthesizeWithCache } from "./audio-cache";
+import {
+  describeAudioPostProcessing,
+  getAudioPostProcessOptions,
+  postProcessAudio,
+  type AudioPostProcessOptions,
+} from "./audio-postprocess";
+import { getTtsSchedulerOptions, TtsScheduler, type TtsSchedulerOptions } from "./tts-scheduler";
+import { countBilledCharacters, TtsUsageMeter } from "./tts-usage";
+import {
+  buildSynthesisSsml,
+  describePronunciations,
+  getPronunciationRules,
+  loadPronunciationLexicon,
+  type PronunciationLexicon,
+} from "./lexicon";
+import { isInlineJobProcessingEnabled } from "./job-lease";
+import { getBuildRetentionCount } from "./build-retention";
 
 type ServiceSupabase = ReturnType<typeof createClient<Database>>;
 
-// Minimal Buffer compatibility layer for environments without Node Buffer.
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const BufferCompat: any =
-  typeof Buffer !== "undefined"
-    ? Buffer
-    : {
-        from(input: string | ArrayBuffer | Uint8Array | ArrayLike<number>, encoding?: string) {
-          if (typeof input === "string") {
-            if (encoding === "base64") {
-              const binary = atob(input);
-              const bytes = new Uint8Array(binary.length);
-              for (let i = 0; i < binary.length; i++) {
-                bytes[i] = binary.charCodeAt(i);
-              }
-              return bytes;
-            }
-            const encoder = new TextEncoder();
-            return encoder.encode(input);
-          }
-
-          if (input instanceof ArrayBuffer) {
-            return new Uint8Array(input);
-          }
-
-          if (input instanceof Uint8Array) {
-            return input;
-          }
-
-          return new Uint8Array(input as ArrayLike<number>);
-        },
-      };
-
-class TtsService {
-  private apiKey: string;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
-  async synthesize(text: string, voiceId: string, language: string): Promise<Uint8Array> {
-    const response = await fetch("https://texttospeech.googleapis.com/v1/text:synthesize", {
-      method: "POST",
-      headers: {
-        "X-goog-api-key": this.apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        input: { text },
-        voice: {
-          languageCode: language,
-          name: voiceId,
-        },
-        audioConfig: {
-          audioEncoding: "MP3",
-          sampleRateHertz: 22050,
-          speakingRate: 1.0,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 400) {
-        throw new Error("invalid_key");
-      }
-      if (response.status === 402) {
-        throw new Error("quota_exceeded");
-      }
-      if (response.status === 504) {
-        throw new Error("tts_timeout");
-      }
-      throw new Error("tts_error");
-    }
-
-    const data = await response.json();
-    return BufferCompat.from(data.audioContent, "base64");
-  }
-}
+export type IncrementalAudioSource = "create_phrase" | "append_import" | "update_phrase";
 
 interface TriggerParams {
   context: APIContext;
   userId: string;
   notebookId: string;
   phraseIds: string[];
-  source: "create_phrase" | "append_import";
+  source: IncrementalAudioSource;
+}
+
+/** Settings and target of an incremental generation, independent of the request (used by the job worker) */
+export interface IncrementalAudioOptions {
+  supabase: ServiceSupabase;
+  ttsProviderName: TtsProviderName;
+  schedulerOptions: Partial<TtsSchedulerOptions>;
+  postProcess: AudioPostProcessOptions;
+  userId: string;
+  notebookId: string;
+  phraseIds: string[];
+  source: IncrementalAudioSource;
 }
 
 type VoiceRow = Database["public"]["Tables"]["user_voices"]["Row"];
-type PhraseRow = Pick<Database["public"]["Tables"]["phrases"]["Row"], "id" | "en_text" | "pl_text">;
+type PhraseRow = Pick<Database["public"]["Tables"]["phrases"]["Row"], "id" | "en_text" | "pl_text" | "tokens">;
+type PhraseLanguage = "en" | "pl";
+
+const SLOTS_BY_LANGUAGE: Record<PhraseLanguage, Database["public"]["Enums"]["voice_slot_enum"][]> = {
+  en: ["EN1", "EN2", "EN3"],
+  pl: ["PL"],
+};
+
+/**
+ * Marks the phrase's segments in the given build as stale for the languages whose text changed.
+ * Stale segments stay playable and are replaced by the next `update_phrase` incremental generation.
+ */
+export async function markPhraseAudioStale(
+  supabase: ServiceSupabase,
+  buildId: string,
+  phraseId: string,
+  languages: PhraseLanguage[]
+): Promise<void> {
+  const slots = languages.flatMap((language) => SLOTS_BY_LANGUAGE[language]);
+  if (slots.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("audio_segments")
+    .update({ is_stale: true })
+    .eq("build_id", buildId)
+    .eq("phrase_id", phraseId)
+    .in("voice_slot", slots);
+
+  if (error) {
+    throw new Error(`Failed to mark audio as stale: ${error.message}`);
+  }
+}
 
+/**
+ * Queues an INCREMENTAL_AUDIO job for the phrases, so the work survives restarts of the request
+ * process, and starts processing it right away unless a standalone worker handles the queue.
+ */
 export function triggerIncrementalAudioGeneration(params: TriggerParams): void {
-  void runIncrementalAudioGeneration(params).catch((error) => {
+  void enqueueIncrementalAudioGeneration(params).catch((error) => {
     console.error("[incremental-audio] Background generation failed:", error);
   });
 }
 
-export async function runIncrementalAudioGeneration({
-  context,
-  userId,
-  notebookId,
-  phraseIds,
-  source,
-}: TriggerParams): Promise<void> {
+async function enqueueIncrementalAudioGeneration(params: TriggerParams): Promise<void> {
+  const { context, userId, notebookId, phraseIds, source } = params;
   const uniquePhraseIds = Array.from(new Set(phraseIds.filter(Boolean)));
   if (uniquePhraseIds.length === 0) {
     return;
   }
 
+  const supabase = createServiceClient(context);
+  if (!supabase) {
+    console.warn("[incremental-audio] Missing Supabase service role config, skipping");
+    return;
+  }
+
+  const jobId = randomUUID();
+  const { error: jobError } = await supabase.from("jobs").insert({
+    id: jobId,
+    user_id: userId,
+    notebook_id: notebookId,
+    type: "INCREMENTAL_AUDIO",
+    state: "queued",
+    target_phrase_ids: uniquePhraseIds,
+    incremental_source: source,
+  });
+
+  // Without a queued job the phrases would get no audio at all, so generate them in this request instead
+  if (jobError) {
+    console.warn("[incremental-audio] Failed to queue incremental audio job, generating inline", jobError);
+    await runIncrementalAudioGeneration(params);
+    return;
+  }
+
+  if (!isInlineJobProcessingEnabled(context)) {
+    return;
+  }
+
+  const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+  const { JobWorker } = await import("./job-worker");
+  const worker = new JobWorker(
+    supabaseUrl as string,
+    supabaseServiceKey as string,
+    getTtsProviderName(context),
+    getTtsSchedulerOptions(context),
+    getBuildRetentionCount(context)
+  );
+  await worker.processJob(jobId);
+}
+
+function createServiceClient(context: APIContext): ServiceSupabase | null {
   const localsAny = context.locals as unknown as {
     runtime?: { env?: Record<string, string | undefined> };
   };
@@ -124,16 +162,63 @@ export async function runIncrementalAudioGeneration({
 
   const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
   if (!supabaseUrl || !supabaseServiceKey) {
-    console.warn("[incremental-audio] Missing Supabase service role config, skipping");
-    return;
+    return null;
   }
 
-  const supabase = createClient<Database>(supabaseUrl, supabaseServiceKey, {
+  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
     auth: {
       autoRefreshToken: false,
       persistSession: false,
     },
   });
+}
+
+/**
+ * Generates audio for the phrases in the request process, with settings from the request context.
+ */
+export async function runIncrementalAudioGeneration({
+  context,
+  userId,
+  notebookId,
+  phraseIds,
+  source,
+}: TriggerParams): Promise<void> {
+  const supabase = createServiceClient(context);
+  if (!supabase) {
+    console.warn("[incremental-audio] Missing Supabase service role config, skipping");
+    return;
+  }
+
+  await generateIncrementalAudio({
+    supabase,
+    ttsProviderName: getTtsProviderName(context),
+    schedulerOptions: getTtsSchedulerOptions(context),
+    postProcess: getAudioPostProcessOptions(context),
+    userId,
+    notebookId,
+    phraseIds,
+    source,
+  });
+}
+
+/**
+ * Generates missing (and, for `update_phrase`, stale) segments of the phrases in the notebook's
+ * current build. Skips quietly when a rebuild is queued or running, since it covers the phrases.
+ */
+export async function generateIncrementalAudio({
+  supabase,
+  ttsProviderName,
+  schedulerOptions,
+  postProcess,
+  userId,
+  notebookId,
+  phraseIds,
+  source,
+}: IncrementalAudioOptions): Promise<void> {
+  const uniquePhraseIds = Array.from(new Set(phraseIds.filter(Boolean)));
+  if (uniquePhraseIds.length === 0) {
+    return;
+  }
 
   const { data: notebook, error: notebookError } = await supabase
     .from("notebooks")
@@ -152,10 +237,12 @@ export async function runIncrementalAudioGeneration({
     return;
   }
 
+  // Only a rebuild covers the new phrases itself; cleanup, repair and backfill jobs leave them without audio
   const { data: activeJobs, error: activeJobsError } = await supabase
     .from("jobs")
     .select("id, type, state")
     .eq("notebook_id", notebookId)
+    .eq("type", "GENERATE_REBUILD")
     .in("state", ["queued", "running"])
     .limit(1);
 
@@ -173,20 +260,24 @@ export async function runIncrementalAudioGeneration({
     return;
   }
 
-  const { data: credentials, error: credentialsError } = await supabase
-    .from("tts_credentials")
-    .select("encrypted_key, is_configured")
-    .eq("user_id", userId)
-    .single();
-
-  if (credentialsError || !credentials?.is_configured) {
-    console.info("[incremental-audio] TTS not configured, skipping", { userId, notebookId, source });
-    return;
+  let encryptedKey: string | null = null;
+  if (ttsProviderName === "google") {
+    const { data: credentials, error: credentialsError } = await supabase
+      .from("tts_credentials")
+      .select("encrypted_key, is_configured")
+      .eq("user_id", userId)
+      .single();
+
+    if (credentialsError || !credentials?.is_configured) {
+      console.info("[incremental-audio] TTS not configured, skipping", { userId, notebookId, source });
+      return;
+    }
+    encryptedKey = credentials.encrypted_key;
   }
 
   const { data: voices, error: voicesError } = await supabase
     .from("user_voices")
-    .select("slot, language, voice_id")
+    .select("slot, language, voice_id, speaking_rate, pitch, volume_gain_db")
     .eq("user_id", userId)
     .order("slot");
 
@@ -204,7 +295,7 @@ export async function runIncrementalAudioGeneration({
 
   const { data: phrases, error: phrasesError } = await supabase
     .from("phrases")
-    .select("id, en_text, pl_text")
+    .select("id, en_text, pl_text, tokens")
     .eq("notebook_id", notebookId)
     .in("id", uniquePhraseIds)
     .order("position");
@@ -216,7 +307,7 @@ export async function runIncrementalAudioGeneration({
 
   const { data: existingSegments, error: existingSegmentsError } = await supabase
     .from("audio_segments")
-    .select("phrase_id, voice_slot")
+    .select("phrase_id, voice_slot, is_stale, path")
     .eq("build_id", notebook.current_build_id)
     .in(
       "phrase_id",
@@ -228,23 +319,57 @@ export async function runIncrementalAudioGeneration({
     return;
   }
 
+  // Stale segments are regenerated in place; every other existing segment is kept
   const existingSlotsByPhrase = new Map<string, Set<string>>();
   for (const segment of existingSegments || []) {
+    if (segment.is_stale) {
+      continue;
+    }
     const slots = existingSlotsByPhrase.get(segment.phrase_id) ?? new Set<string>();
     slots.add(segment.voice_slot);
     existingSlotsByPhrase.set(segment.phrase_id, slots);
   }
 
-  const { decrypt } = await import("./tts-encryption");
-  const apiKey = await decrypt(credentials.encrypted_key);
-  const ttsService = new TtsService(apiKey);
+  const usage = await TtsUsageMeter.load(supabase, userId);
+  if (usage.exceeded) {
+    console.info("[incremental-audio] Monthly TTS limit reached, skipping", { userId, notebookId, source });
+    return;
+  }
 
-  const pendingSegments = await generateSegmentsForPhrases({
+  let lexicon: PronunciationLexicon;
+  let audioFormat: AudioFormat;
+  try {
+    [lexicon, audioFormat] = await Promise.all([
+      loadPronunciationLexicon(supabase, userId),
+      loadUserAudioFormat(supabase, userId),
+    ]);
+  } catch (error) {
+    console.warn("[incremental-audio] Failed to load pronunciation lexicon or audio format, skipping", error);
+    return;
+  }
+
+  let apiKey: string | null = null;
+  if (encryptedKey) {
+    const { decrypt } = await import("./tts-encryption");
+    apiKey = await decrypt(encryptedKey);
+  }
+  const ttsProvider = createTtsProvider(ttsProviderName, apiKey);
+  const scheduler = new TtsScheduler(schedulerOptions);
+
+  const { segments: pendingSegments, cacheHits } = await generateSegmentsForPhrases({
     supabase,
-    ttsService,
+    ttsProvider,
+    scheduler,
+    usage,
+    lexicon,
+    audioFormat,
+    postProcess,
     userId,
     notebookId,
     buildId: notebook.current_build_id,
+    // Replacement audio goes to a new object, so the stale one is never overwritten while it may
+    // still be playing or be cached offline
+    revision: source === "update_phrase" ? Date.now().toString(36) : null,
     phrases: phrases as PhraseRow[],
     voices: voices as VoiceRow[],
     existingSlotsByPhrase,
@@ -255,40 +380,133 @@ export async function runIncrementalAudioGeneration({
     return;
   }
 
-  const { error: insertError } = await supabase.from("audio_segments").insert(pendingSegments);
+  // A failed replacement must not overwrite the stale audio, which stays playable: the stale row only
+  // records the error code, and the next edit of the phrase tries again
+  const staleKeys = new Set(
+    (existingSegments || [])
+      .filter((segment) => segment.is_stale)
+      .map((segment) => `${segment.phrase_id}:${segment.voice_slot}`)
+  );
+  const failedReplacements =
+    source === "update_phrase"
+      ? pendingSegments.filter(
+          (segment) => segment.status === "failed" && staleKeys.has(`${segment.phrase_id}:${segment.voice_slot}`)
+        )
+      : [];
+  const segmentsToWrite = pendingSegments.filter((segment) => !failedReplacements.includes(segment));
+
+  for (const segment of failedReplacements) {
+    const { error } = await supabase
+      .from("audio_segments")
+      .update({ error_code: segment.error_code, updated_at: new Date().toISOString() })
+      .eq("build_id", segment.build_id)
+      .eq("phrase_id", segment.phrase_id)
+      .eq("voice_slot", segment.voice_slot);
+    if (error) {
+      console.warn("[incremental-audio] Failed to record error on stale segment", error);
+    }
+  }
+  if (segmentsToWrite.length === 0) {
+    console.info("[incremental-audio] Stale segments could not be regenerated", {
+      notebookId,
+      source,
+      failed: failedReplacements.length,
+    });
+    return;
+  }
+
+  // Replacements for stale segments reuse their (phrase_id, voice_slot, build_id) row
+  const { error: insertError } =
+    source === "update_phrase"
+      ? await supabase.from("audio_segments").upsert(
+          segmentsToWrite.map((segment) => ({ ...segment, is_stale: false, updated_at: new Date().toISOString() })),
+          { onConflict: "phrase_id,voice_slot,build_id" }
+        )
+      : await supabase.from("audio_segments").insert(segmentsToWrite);
   if (insertError) {
     console.error("[incremental-audio] Failed to insert generated segments", insertError);
     return;
   }
 
+  if (source === "update_phrase") {
+    const writtenKeys = new Set(segmentsToWrite.map((segment) => `${segment.phrase_id}:${segment.voice_slot}`));
+    await removeReplacedAudio(
+      supabase,
+      (existingSegments || [])
+        .filter((segment) => segment.is_stale && writtenKeys.has(`${segment.phrase_id}:${segment.voice_slot}`))
+        .map((segment) => segment.path)
+    );
+  }
+
   console.info("[incremental-audio] Inserted incremental audio segments", {
     notebookId,
     source,
     phraseCount: phrases.length,
-    segmentCount: pendingSegments.length,
+    segmentCount: segmentsToWrite.length,
+    cacheHits,
   });
 }
 
+/**
+ * Removes the objects of replaced stale segments that no segment references anymore. An object
+ * still referenced by an earlier build is left to build retention, which removes it with that build.
+ */
+async function removeReplacedAudio(supabase: ServiceSupabase, paths: string[]): Promise<void> {
+  const candidates = paths.filter((path) => !path.startsWith("failed/") && !path.startsWith("cache/"));
+  if (candidates.length === 0) {
+    return;
+  }
+
+  const { data: referenced, error } = await supabase.from("audio_segments").select("path").in("path", candidates);
+  if (error) {
+    console.warn("[incremental-audio] Failed to check references of replaced audio", error);
+    return;
+  }
+  const referencedPaths = new Set((referenced || []).map((segment) => segment.path));
+  const removable = candidates.filter((path) => !referencedPaths.has(path));
+  if (removable.length === 0) {
+    return;
+  }
+
+  const { error: removeError } = await supabase.storage.from("audio").remove(removable);
+  if (removeError) {
+    console.warn("[incremental-audio] Failed to remove replaced audio", removeError);
+  }
+}
+
 async function generateSegmentsForPhrases({
   supabase,
-  ttsService,
+  ttsProvider,
+  scheduler,
+  usage,
+  lexicon,
+  audioFormat,
+  postProcess,
   userId,
   notebookId,
   buildId,
+  revision,
   phrases,
   voices,
   existingSlotsByPhrase,
 }: {
   supabase: ServiceSupabase;
-  ttsService: TtsService;
+  ttsProvider: TtsProvider;
+  scheduler: TtsScheduler;
+  usage: TtsUsageMeter;
+  lexicon: PronunciationLexicon;
+  audioFormat: AudioFormat;
+  postProcess: AudioPostProcessOptions;
   userId: string;
   notebookId: string;
   buildId: string;
+  revision: string | null;
   phrases: PhraseRow[];
   voices: VoiceRow[];
   existingSlotsByPhrase: Map<string, Set<string>>;
-}): Promise<Database["public"]["Tables"]["audio_segments"]["Insert"][]> {
+}): Promise<{ segments: Database["public"]["Tables"]["audio_segments"]["Insert"][]; cacheHits: number }> {
   const audioSegments: Database["public"]["Tables"]["audio_segments"]["Insert"][] = [];
+  let cacheHits = 0;
 
   for (const phrase of phrases) {
     const existingSlots = existingSlotsByPhrase.get(phrase.id) ?? new Set<string>();
@@ -297,6 +515,10 @@ async function generateSegmentsForPhrases({
       if (existingSlots.has(voice.slot)) {
         continue;
       }
+      // Missing segments are left for a repair job once the monthly cap allows
+      if (usage.exceeded) {
+        return { segments: audioSegments, cacheHits };
+      }
 
       try {
         const rawText = voice.language === "en" ? phrase.en_text : phrase.pl_text;
@@ -305,12 +527,45 @@ async function generateSegmentsForPhrases({
         }
 
         const text = cleanMarkdownForTts(rawText);
-        const audioBuffer = await ttsService.synthesize(text, voice.voice_id, voice.language);
+        const tokens = resolvePhraseTokens(phrase, voice.language);
+        const audioSettings = toVoiceAudioSettings(voice);
+        const pronunciations = getPronunciationRules(lexicon, voice.language);
+        const pronunciation = describePronunciations(rawText, pronunciations);
+        const ssml = buildSynthesisSsml(rawText, tokens, pronunciations);
+        const {
+          audio: rawAudio,
+          timepoints: rawTimepoints,
+          cacheHit,
+        } = await scheduler.run(() =>
+          synthesizeWithCache(supabase, ttsProvider, {
+            text,
+            voiceId: voice.voice_id,
+            language: voice.language,
+            ssml,
+            audioSettings,
+            pronunciation,
+            audioFormat,
+          })
+        );
+        if (cacheHit) {
+          cacheHits++;
+        } else {
+          await usage.record(voice.voice_id, countBilledCharacters(text, ssml));
+        }
+        const { audio: audioBuffer, timepoints } = await postProcessAudio(
+          rawAudio,
+          rawTimepoints,
+          postProcess,
+          audioFormat.encoding
+        );
+        const audioInfo = parseAudioInfo(audioBuffer, audioFormat.encoding);
+        const wordTimings = buildWordTimings(tokens, timepoints, audioInfo?.durationMs);
         const storagePath = `${userId}/${notebookId}/${phrase.id}`;
-        const fileName = `${storagePath}/${voice.slot}.mp3`;
+        const objectName = revision ? `${voice.slot}-${buildId}-${revision}` : `${voice.slot}-${buildId}`;
+        const fileName = `${storagePath}/${objectName}.${getAudioFileExtension(audioFormat.encoding)}`;
 
         const { error: uploadError } = await supabase.storage.from("audio").upload(fileName, audioBuffer, {
-          contentType: "audio/mpeg",
+          contentType: getAudioContentType(audioFormat.encoding),
           cacheControl: "3600",
           upsert: true,
         });
@@ -342,9 +597,20 @@ async function generateSegmentsForPhrases({
           error_code: null,
           path: fileName,
           size_bytes: audioBuffer.length,
-          duration_ms: null,
-          sample_rate_hz: 22050,
-          bitrate_kbps: 64,
+          duration_ms: audioInfo?.durationMs ?? null,
+          sample_rate_hz: audioInfo?.sampleRateHz ?? audioFormat.sampleRateHz,
+          bitrate_kbps: audioInfo?.bitrateKbps ?? 64,
+          word_timings: wordTimings as unknown as Json,
+          fingerprint: await computeSegmentFingerprint({
+            provider: ttsProvider.name,
+            text: rawText,
+            voiceId: voice.voice_id,
+            language: voice.language,
+            settings: audioSettings,
+            postProcessing: describeAudioPostProcessing(postProcess),
+            pronunciation,
+            audioFormat: describeAudioFormat(audioFormat),
+          }),
           is_active: true,
         });
       } catch (error) {
@@ -367,5 +633,5 @@ async function generateSegmentsForPhrases({
     }
   }
 
-  return audioSegments;
+  return { segments: audioSegments, cacheHits };
 }
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import { claimJob, DEFAULT_JOB_LEASE_SECONDS, getJobLeaseOptions, JobLease } from "./job-lease";
+
+function createClient(rpc: ReturnType<typeof vi.fn>): SupabaseClient<Database> {
+  return { rpc } as unknown as SupabaseClient<Database>;
+}
+
+describe("getJobLeaseOptions", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("falls back to the defaults and keeps leases above the minimum", () => {
+    vi.stubEnv("JOB_LEASE_SECONDS", "5");
+    vi.stubEnv("JOB_MAX_ATTEMPTS", "zero");
+
+    expect(getJobLeaseOptions()).toEqual({ leaseSeconds: 15, maxAttempts: 3 });
+  });
+});
+
+describe("claimJob", () => {
+  it("claims a specific job and returns its ID", async () => {
+    const rpc = vi.fn(async () => ({ data: "job-1", error: null }));
+
+    await expect(claimJob(createClient(rpc), "worker-1", { leaseSeconds: 60, maxAttempts: 3 }, "job-1")).resolves.toBe(
+      "job-1"
+    );
+    expect(rpc).toHaveBeenCalledWith("claim_job", {
+      p_worker_id: "worker-1",
+      p_lease_seconds: 60,
+      p_max_attempts: 3,
+      p_job_id: "job-1",
+    });
+  });
+});
+
+describe("JobLease", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("renews the lease until a renewal finds the job no longer owned", async () => {
+    vi.useFakeTimers();
+    const rpc = vi
+      .fn()
+      .mockResolvedValueOnce({ data: true, error: null })
+      .mockResolvedValueOnce({ data: false, error: null });
+    const lease = new JobLease(createClient(rpc), "job-1", "worker-1", DEFAULT_JOB_LEASE_SECONDS).start();
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(rpc).toHaveBeenCalledWith("renew_job_lease", {
+      p_job_id: "job-1",
+      p_worker_id: "worker-1",
+      p_lease_seconds: DEFAULT_JOB_LEASE_SECONDS,
+    });
+    expect(lease.lost).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(lease.lost).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,150 @@
+/* eslint-disable no-console */
+import type { APIContext } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import type { Database } from "../db/database.types";
+
+/**
+ * Job leases: a worker claims a job (`claim_job`) for `leaseSeconds` and renews the lease while it
+ * works (`renew_job_lease`). When a worker dies, its lease runs out and the job is claimed again by
+ * the next worker poll, up to `maxAttempts` claims in total.
+ */
+
+export interface JobLeaseOptions {
+  leaseSeconds: number;
+  maxAttempts: number;
+}
+
+export const DEFAULT_JOB_LEASE_SECONDS = 60;
+export const DEFAULT_JOB_MAX_ATTEMPTS = 3;
+export const DEFAULT_JOB_POLL_INTERVAL_MS = 5000;
+const MIN_JOB_LEASE_SECONDS = 15;
+
+function readEnv(name: string, context?: APIContext): string | undefined {
+  const localsAny = context?.locals as unknown as
+    | {
+        runtime?: { env?: Record<string, string | undefined> };
+      }
+    | undefined;
+
+  return (
+    localsAny?.runtime?.env?.[name] ||
+    import.meta.env[name] ||
+    (typeof process !== "undefined" ? process.env[name] : undefined)
+  );
+}
+
+/**
+ * Reads `JOB_LEASE_SECONDS` and `JOB_MAX_ATTEMPTS` (Cloudflare runtime env, import.meta.env, process.env).
+ * @param context - Astro API context (optional, for Cloudflare runtime env access)
+ */
+export function getJobLeaseOptions(context?: APIContext): JobLeaseOptions {
+  const leaseSeconds = Number.parseInt(readEnv("JOB_LEASE_SECONDS", context) ?? "", 10);
+  const maxAttempts = Number.parseInt(readEnv("JOB_MAX_ATTEMPTS", context) ?? "", 10);
+  return {
+    leaseSeconds: Number.isFinite(leaseSeconds)
+      ? Math.max(leaseSeconds, MIN_JOB_LEASE_SECONDS)
+      : DEFAULT_JOB_LEASE_SECONDS,
+    maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : DEFAULT_JOB_MAX_ATTEMPTS,
+  };
+}
+
+/**
+ * Reads `JOB_POLL_INTERVAL_MS`: how often an idle standalone worker checks the queue.
+ */
+export function getJobPollIntervalMs(): number {
+  const pollIntervalMs = Number.parseInt(readEnv("JOB_POLL_INTERVAL_MS") ?? "", 10);
+  return Number.isFinite(pollIntervalMs) && pollIntervalMs > 0 ? pollIntervalMs : DEFAULT_JOB_POLL_INTERVAL_MS;
+}
+
+/**
+ * Whether API routes start processing the jobs they queue in the request process (`JOB_INLINE_PROCESSING`,
+ * on by default). Turn it off when a standalone worker (`npm run worker`) processes the queue.
+ */
+export function isInlineJobProcessingEnabled(context?: APIContext): boolean {
+  return readEnv("JOB_INLINE_PROCESSING", context)?.toLowerCase() !== "false";
+}
+
+/** Identifies a worker process in `jobs.lease_owner` */
+export function createWorkerId(): string {
+  const host = typeof process !== "undefined" ? `${process.env.HOSTNAME ?? "worker"}:${process.pid}` : "worker";
+  return `${host}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Claims a specific job, or the oldest claimable one when `jobId` is omitted.
+ * Returns the claimed job ID, or null when nothing could be claimed.
+ */
+export async function claimJob(
+  supabase: SupabaseClient<Database>,
+  workerId: string,
+  options: JobLeaseOptions,
+  jobId?: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("claim_job", {
+    p_worker_id: workerId,
+    p_lease_seconds: options.leaseSeconds,
+    p_max_attempts: options.maxAttempts,
+    ...(jobId && { p_job_id: jobId }),
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+  return data ?? null;
+}
+
+/**
+ * Renews a claimed job's lease every third of its duration until stopped. Once a renewal finds the
+ * job no longer owned (canceled, reclaimed after a stall), `lost` turns true and renewals stop.
+ */
+export class JobLease {
+  private supabase: SupabaseClient<Database>;
+  private jobId: string;
+  private workerId: string;
+  private leaseSeconds: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isLost = false;
+
+  constructor(supabase: SupabaseClient<Database>, jobId: string, workerId: string, leaseSeconds: number) {
+    this.supabase = supabase;
+    this.jobId = jobId;
+    this.workerId = workerId;
+    this.leaseSeconds = leaseSeconds;
+  }
+
+  get lost(): boolean {
+    return this.isLost;
+  }
+
+  start(): this {
+    this.timer = setInterval(() => void this.renew(), (this.leaseSeconds * 1000) / 3);
+    return this;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async renew(): Promise<void> {
+    const { data, error } = await this.supabase.rpc("renew_job_lease", {
+      p_job_id: this.jobId,
+      p_worker_id: this.workerId,
+      p_lease_seconds: this.leaseSeconds,
+    });
+
+    // A failed renewal is retried on the next tick; the lease outlives two missed heartbeats
+    if (error) {
+      console.warn(`[job-lease] Failed to renew lease of job ${this.jobId}:`, error.message);
+      return;
+    }
+    if (!data) {
+      console.warn(`[job-lease] Lost lease of job ${this.jobId}`);
+      this.isLost = true;
+      this.stop();
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { estimateRemainingMs, formatEta, parseServerSentEvents } from "./job-progress";
+import type { JobProgressDTO } from "../types";
+
+const baseProgress: JobProgressDTO = {
+  id: "job-1",
+  state: "running",
+  started_at: "2026-01-01T00:00:00.000Z",
+  ended_at: null,
+  error: null,
+  total_segments: 100,
+  completed_segments: 0,
+  failed_segments: 0,
+  current_phrase_id: null,
+};
+
+describe("parseServerSentEvents", () => {
+  it("parses complete events, skips comments and keeps the partial tail", () => {
+    const { events, rest } = parseServerSentEvents(
+      'event: progress\ndata: {"a":1}\n\n: keep-alive\n\nevent: progress\ndata: {"a"'
+    );
+
+    expect(events).toEqual([{ event: "progress", data: '{"a":1}' }]);
+    expect(rest).toBe('event: progress\ndata: {"a"');
+  });
+});
+
+describe("estimateRemainingMs", () => {
+  it("extrapolates from the time per processed segment", () => {
+    const now = new Date("2026-01-01T00:00:20.000Z").getTime();
+    const progress = { ...baseProgress, completed_segments: 18, failed_segments: 2 };
+
+    // 20 segments in 20 s -> 80 remaining take 80 s
+    expect(estimateRemainingMs(progress, now)).toBe(80_000);
+  });
+
+  it("returns null before any segment is processed or when not running", () => {
+    expect(estimateRemainingMs(baseProgress)).toBeNull();
+    expect(estimateRemainingMs({ ...baseProgress, state: "queued", completed_segments: 5 })).toBeNull();
+  });
+
+  it("formats seconds and minutes", () => {
+    expect(formatEta(12_300)).toBe("~13 s");
+    expect(formatEta(150_000)).toBe("~3 min");
+  });
+});
@@ -0,0 +1,68 @@
+import type { JobProgressDTO } from "../types";
+
+/**
+ * Helpers for live job progress: parsing the `/api/jobs/:jobId/events` stream
+ * and estimating the remaining time from the counts reported so far.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Splits buffered stream text into complete events. Returns the parsed events and the
+ * trailing partial chunk to prepend to the next read. Comment lines (keep-alives) are skipped.
+ */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).trimStart());
+      }
+    }
+    if (data.length > 0) {
+      events.push({ event, data: data.join("\n") });
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Estimates milliseconds until the job finishes, extrapolating from the average time per
+ * processed segment. Returns null until at least one segment is done or when not running.
+ */
+export function estimateRemainingMs(progress: JobProgressDTO, now: number = Date.now()): number | null {
+  if (progress.state !== "running" || !progress.started_at || progress.total_segments === 0) {
+    return null;
+  }
+
+  const processed = progress.completed_segments + progress.failed_segments;
+  if (processed === 0) {
+    return null;
+  }
+
+  const elapsedMs = now - new Date(progress.started_at).getTime();
+  const remaining = Math.max(0, progress.total_segments - processed);
+  return Math.round((elapsedMs / processed) * remaining);
+}
+
+/**
+ * Formats a remaining-time estimate as "~N s" / "~N min".
+ */
+export function formatEta(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `~${seconds} s`;
+  }
+  return `~${Math.ceil(seconds / 60)} min`;
+}
@@ -1,115 +1,261 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { randomUUID } from "node:crypto";
-import type { Database } from "../db/database.types";
+import type { Database, Json } from "../db/database.types";
 import { cleanMarkdownForTts } from "./utils";
+import {
+  createTtsProvider,
+  getTtsProviderName,
+  TtsProviderError,
+  type TtsProvider,
+  type TtsProviderName,
+} from "./tts-provider";
+import { buildWordTimings, resolvePhraseTokens } from "./ssml";
+import {
+  describeAudioFormat,
+  getAudioContentType,
+  getAudioEncodingFromPath,
+  getAudioFileExtension,
+  loadUserAudioFormat,
+  parseAudioInfo,
+  type AudioFormat,
+} from "./audio-format";
+import { computeSegmentFingerprint, toVoiceAudioSettings } from "./voice-settings";
+import { getAudioCacheMaxAgeDays, pruneAudioCache, synthesizeWithCache } from "./audio-cache";
+import {
+  describeAudioPostProcessing,
+  getAudioPostProcessOptions,
+  postProcessAudio,
+  type AudioPostProcessOptions,
+} from "./audio-postprocess";
+import { getTtsSchedulerOptions, TtsScheduler, type TtsSchedulerOptions } from "./tts-scheduler";
+import { activateBuild } from "./build-history";
+import {
+  collectRemovablePaths,
+  DEFAULT_BUILD_RETENTION_COUNT,
+  getBuildRetentionCount,
+  planBuildRetention,
+} from "./build-retention";
+import { countBilledCharacters, formatQuotaExceededMessage, TtsUsageMeter } from "./tts-usage";
+import {
+  buildSynthesisSsml,
+  describePronunciations,
+  getPronunciationRules,
+  loadPronunciationLexicon,
+  type PronunciationLexicon,
+} from "./lexicon";
+import {
+  claimJob,
+  createWorkerId,
+  DEFAULT_JOB_POLL_INTERVAL_MS,
+  getJobLeaseOptions,
+  JobLease,
+  type JobLeaseOptions,
+} from "./job-lease";
+import { generateIncrementalAudio, type IncrementalAudioSource } from "./incremental-audio";
+
+type VoiceSlot = Database["public"]["Enums"]["voice_slot_enum"];
+
+type JobProgressUpdate = Pick<
+  Database["public"]["Tables"]["jobs"]["Update"],
+  "total_segments" | "completed_segments" | "failed_segments" | "current_phrase_id" | "cache_hits"
+>;
+
+// Minimum interval between progress writes while segments are being generated
+const PROGRESS_INTERVAL_MS = 1000;
+// Minimum interval between re-reads of the job state to notice cancellation
+const CANCEL_CHECK_INTERVAL_MS = 2000;
+const DEFAULT_TIMEOUT_SEC = 1800;
+// Page size for reading segments and batch size for storage deletes
+const SEGMENT_PAGE_SIZE = 1000;
+const STORAGE_REMOVE_BATCH_SIZE = 100;
+
+// lease_lost: another worker reclaimed the job after this one stopped renewing its lease
+type StopReason = "canceled" | "timeout" | "lease_lost";
+
+type SegmentPhrase = Pick<Database["public"]["Tables"]["phrases"]["Row"], "id" | "en_text" | "pl_text" | "tokens">;
+
+type SegmentVoice = Pick<
+  Database["public"]["Tables"]["user_voices"]["Row"],
+  "slot" | "language" | "voice_id" | "speaking_rate" | "pitch" | "volume_gain_db"
+>;
+
+type SegmentJob = Pick<Database["public"]["Tables"]["jobs"]["Row"], "id" | "user_id" | "notebook_id">;
+
+type RepairJob = SegmentJob & Pick<Database["public"]["Tables"]["jobs"]["Row"], "target_phrase_id" | "target_slot">;
+
+interface GeneratedSegment {
+  id: string;
+  phrase_id: string;
+  build_id: string;
+  voice_slot: VoiceSlot;
+  status: "complete" | "failed" | "missing";
+  error_code: string | null;
+  path: string;
+  size_bytes: number | null;
+  duration_ms: number | null;
+  sample_rate_hz: number;
+  bitrate_kbps: number;
+  word_timings?: Json | null;
+  fingerprint?: string | null;
+  is_active: boolean;
+}
 
-// Minimal Buffer compatibility layer for environments without Node Buffer (e.g., Cloudflare Workers)
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const BufferCompat: any =
-  typeof Buffer !== "undefined"
-    ? Buffer
-    : {
-        from(input: string | ArrayBuffer | Uint8Array | ArrayLike<number>, encoding?: string) {
-          if (typeof input === "string") {
-            if (encoding === "base64") {
-              const binary = atob(input);
-              const bytes = new Uint8Array(binary.length);
-              for (let i = 0; i < binary.length; i++) {
-                bytes[i] = binary.charCodeAt(i);
-              }
-              return bytes;
-            }
-            if (encoding === "hex") {
-              const len = input.length / 2;
-              const bytes = new Uint8Array(len);
-              for (let i = 0; i < len; i++) {
-                bytes[i] = parseInt(input.substr(i * 2, 2), 16);
-              }
-              return bytes;
-            }
-            const encoder = new TextEncoder();
-            return encoder.encode(input);
-          }
+type BuildSegment = Pick<
+  Database["public"]["Tables"]["audio_segments"]["Row"],
+  "build_id" | "path" | "status" | "size_bytes"
+>;
 
-          if (input instanceof ArrayBuffer) {
-            return new Uint8Array(input);
-          }
-
-          if (input instanceof Uint8Array) {
-            return input;
-          }
+export interface BuildCleanupResult {
+  removedBuilds: number;
+  removedSegments: number;
+  removedObjects: number;
+  freedBytes: number;
+}
 
-          return new Uint8Array(input as ArrayLike<number>);
-        },
-      };
+interface RepairResult {
+  repaired: number;
+  failed: number;
+  cacheHits: number;
+  stopReason: StopReason | null;
+  /** Pairs were skipped because the monthly TTS cap was reached */
+  quotaReached: boolean;
+}
 
-// TTS service for Google Cloud Text-to-Speech
-class TtsService {
-  private apiKey: string;
+type ReusableSegment = Pick<
+  Database["public"]["Tables"]["audio_segments"]["Row"],
+  "path" | "size_bytes" | "duration_ms" | "sample_rate_hz" | "bitrate_kbps" | "word_timings" | "fingerprint"
+>;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+// Job worker for processing TTS generation jobs
+export class JobWorker {
+  private supabase: SupabaseClient<Database>;
+  private storage: SupabaseClient<Database>["storage"];
+  private ttsProviderName: TtsProviderName;
+  private schedulerOptions: Partial<TtsSchedulerOptions>;
+  private buildRetentionCount: number | null;
+  // ffmpeg runs in the Node worker only, so options come from the process environment
+  private postProcess: AudioPostProcessOptions = getAudioPostProcessOptions();
+  private leaseOptions: JobLeaseOptions;
+  private workerId = createWorkerId();
+  // Leases of the jobs this worker is processing, renewed until the job ends
+  private leases = new Map<string, JobLease>();
+
+  constructor(
+    supabaseUrl: string,
+    supabaseServiceKey: string,
+    ttsProviderName = getTtsProviderName(),
+    schedulerOptions: Partial<TtsSchedulerOptions> = getTtsSchedulerOptions(),
+    buildRetentionCount: number | null = getBuildRetentionCount(),
+    leaseOptions: JobLeaseOptions = getJobLeaseOptions()
+  ) {
+    this.supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
+    this.storage = this.supabase.storage;
+    this.ttsProviderName = ttsProviderName;
+    this.schedulerOptions = schedulerOptions;
+    this.buildRetentionCount = buildRetentionCount;
+    this.leaseOptions = leaseOptions;
   }
 
-  async synthesize(text: string, voiceId: string, language: string): Promise<Uint8Array> {
-    const requestBody = {
-      input: { text },
-      voice: {
-        languageCode: language,
-        name: voiceId,
-      },
-      audioConfig: {
-        audioEncoding: "MP3",
-        sampleRateHertz: 22050,
-        speakingRate: 1.0,
-      },
-    };
+  /**
+   * Claims the job and processes it, then the jobs queued for the same notebook meanwhile. Jobs that
+   * are finished, held by another worker or waiting for another job of the same notebook are skipped;
+   * whichever worker runs the job they wait for picks them up afterwards.
+   */
+  async processJob(jobId: string): Promise<void> {
+    console.log(`[processJob] Starting job processing for job: ${jobId}`);
+    let claimedJobId: string | null;
+    try {
+      claimedJobId = await claimJob(this.supabase, this.workerId, this.leaseOptions, jobId);
+    } catch (error) {
+      console.error(`[processJob] Could not claim job ${jobId}:`, error);
+      return;
+    }
 
-    const response = await fetch("https://texttospeech.googleapis.com/v1/text:synthesize", {
-      method: "POST",
-      headers: {
-        "X-goog-api-key": this.apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    });
+    if (!claimedJobId) {
+      console.log(`Job ${jobId} is not claimable, skipping processing`);
+      return;
+    }
+    await this.runClaimedJob(claimedJobId);
+    await this.processQueuedNotebookJobs(claimedJobId);
+  }
 
-    if (!response.ok) {
-      if (response.status === 400) {
-        throw new Error("invalid_key");
-      }
-      if (response.status === 402) {
-        throw new Error("quota_exceeded");
+  /**
+   * Processes the jobs queued for the notebook of a finished job, oldest first. Their own inline
+   * processing could not claim them while that job held the notebook, and inline mode has no other
+   * worker to pick them up. Stops when a job cannot be claimed, since another worker then owns it.
+   */
+  private async processQueuedNotebookJobs(finishedJobId: string): Promise<void> {
+    try {
+      const { data: finishedJob, error: jobError } = await this.supabase
+        .from("jobs")
+        .select("notebook_id")
+        .eq("id", finishedJobId)
+        .single();
+
+      if (jobError || !finishedJob) {
+        throw new Error(`Failed to fetch job ${finishedJobId}: ${jobError?.message ?? "not found"}`);
       }
-      if (response.status === 504) {
-        throw new Error("tts_timeout");
+
+      for (;;) {
+        const { data: queuedJobs, error } = await this.supabase
+          .from("jobs")
+          .select("id")
+          .eq("notebook_id", finishedJob.notebook_id)
+          .eq("state", "queued")
+          .order("created_at")
+          .limit(1);
+
+        if (error) {
+          throw new Error(`Failed to fetch queued jobs: ${error.message}`);
+        }
+        if (!queuedJobs || queuedJobs.length === 0) {
+          return;
+        }
+
+        const claimedJobId = await claimJob(this.supabase, this.workerId, this.leaseOptions, queuedJobs[0].id);
+        if (!claimedJobId) {
+          return;
+        }
+        console.log(`[processJob] Processing job ${claimedJobId} queued behind job ${finishedJobId}`);
+        await this.runClaimedJob(claimedJobId);
       }
-      throw new Error("tts_error");
+    } catch (error) {
+      console.error(`[processJob] Could not process jobs queued behind job ${finishedJobId}:`, error);
     }
-
-    const data = await response.json();
-    const audioData = BufferCompat.from(data.audioContent, "base64");
-    return audioData;
   }
-}
 
-// Job worker for processing TTS generation jobs
-export class JobWorker {
-  private supabase: SupabaseClient<Database>;
-  private storage: SupabaseClient<Database>["storage"];
+  /**
+   * Claims and processes the oldest claimable job: a queued one, or a running one whose worker
+   * stopped renewing its lease. Returns false when there was nothing to claim.
+   */
+  async processNextJob(): Promise<boolean> {
+    const jobId = await claimJob(this.supabase, this.workerId, this.leaseOptions);
+    if (!jobId) {
+      return false;
+    }
+    await this.runClaimedJob(jobId);
+    return true;
+  }
 
-  constructor(supabaseUrl: string, supabaseServiceKey: string) {
-    this.supabase = createClient<Database>(supabaseUrl, supabaseServiceKey);
-    this.storage = this.supabase.storage;
+  private async runClaimedJob(jobId: string): Promise<void> {
+    const lease = new JobLease(this.supabase, jobId, this.workerId, this.leaseOptions.leaseSeconds).start();
+    this.leases.set(jobId, lease);
+    try {
+      await this.runJob(jobId);
+    } finally {
+      lease.stop();
+      this.leases.delete(jobId);
+    }
   }
 
-  async processJob(jobId: string): Promise<void> {
-    console.log(`[processJob] Starting job processing for job: ${jobId}`);
+  private async runJob(jobId: string): Promise<void> {
     try {
       // Get job details
       const { data: job, error: jobError } = await this.supabase
         .from("jobs")
-        .select("id, user_id, notebook_id, type, state, timeout_sec")
+        .select(
+          "id, user_id, notebook_id, type, state, timeout_sec, keep_partial, resume_build_id, target_phrase_id, target_slot, keep_builds, attempts, target_phrase_ids, incremental_source"
+        )
         .eq("id", jobId)
         .single();
 
@@ -117,44 +263,86 @@ export class JobWorker {
         throw new Error(`Job not found: ${jobId}`);
       }
 
-      if (job.state !== "queued") {
-        console.log(`Job ${jobId} is in state: ${job.state}, skipping processing`);
-        return;
+      // The claim already set the job running; the timeout counts from this attempt
+      const startedAt = Date.now();
+      if (job.attempts > 1) {
+        console.log(`Job ${jobId} reclaimed after its worker stopped (attempt ${job.attempts})`);
       }
 
-      // Update job state to running
-      await this.updateJobState(jobId, "running", new Date().toISOString());
-
-      // Get TTS credentials for the user
-      const { data: credentials, error: credError } = await this.supabase
-        .from("tts_credentials")
-        .select("encrypted_key, is_configured")
-        .eq("user_id", job.user_id)
-        .single();
+      if (job.type === "BACKFILL_AUDIO_METADATA") {
+        const updated = await this.backfillAudioMetadata(job.notebook_id);
+        console.log(`Job ${jobId} completed: audio metadata backfilled for ${updated} segments`);
+        await this.updateJobState(jobId, "succeeded", undefined, new Date().toISOString());
+        return;
+      }
 
-      if (credError || !credentials || !credentials.is_configured) {
-        throw new Error("TTS credentials not configured");
+      if (job.type === "CLEANUP_BUILDS") {
+        const keepBuilds = job.keep_builds ?? this.buildRetentionCount ?? DEFAULT_BUILD_RETENTION_COUNT;
+        const result = await this.cleanupBuilds(job.notebook_id, keepBuilds);
+        console.log(
+          `Job ${jobId} completed: removed ${result.removedBuilds} builds, ${result.removedSegments} segments and ${result.removedObjects} objects (${result.freedBytes} bytes)`
+        );
+        await this.updateJobState(jobId, "succeeded", undefined, new Date().toISOString());
+        return;
       }
 
-      // Decrypt the TTS API key
-      const { decrypt } = await import("./tts-encryption");
-      const apiKey = await decrypt(credentials.encrypted_key);
+      if (job.type === "INCREMENTAL_AUDIO") {
+        await generateIncrementalAudio({
+          supabase: this.supabase,
+          ttsProviderName: this.ttsProviderName,
+          schedulerOptions: this.schedulerOptions,
+          postProcess: this.postProcess,
+          userId: job.user_id,
+          notebookId: job.notebook_id,
+          phraseIds: job.target_phrase_ids ?? [],
+          source: (job.incremental_source ?? "create_phrase") as IncrementalAudioSource,
+        });
+        console.log(`Job ${jobId} completed: incremental audio for ${job.target_phrase_ids?.length ?? 0} phrases`);
+        await this.updateJobState(jobId, "succeeded", undefined, new Date().toISOString());
+        return;
+      }
 
-      // Get user voices
-      const { data: voices, error: voicesError } = await this.supabase
-        .from("user_voices")
-        .select("slot, language, voice_id")
-        .eq("user_id", job.user_id)
-        .order("slot");
+      const apiKey = await this.getTtsApiKey(job.user_id);
+      const voices = await this.getUserVoices(job.user_id);
+      const deadline = startedAt + (job.timeout_sec ?? DEFAULT_TIMEOUT_SEC) * 1000;
 
-      if (voicesError || !voices || voices.length === 0) {
-        throw new Error("User voices not configured");
+      // Fail fast when the user's monthly TTS cap is already used up
+      const usage = await TtsUsageMeter.load(this.supabase, job.user_id);
+      if (usage.exceeded && usage.limit !== null) {
+        throw new Error(formatQuotaExceededMessage(usage.limit));
+      }
+      const lexicon = await loadPronunciationLexicon(this.supabase, job.user_id);
+      const audioFormat = await loadUserAudioFormat(this.supabase, job.user_id);
+
+      if (job.type === "REPAIR_SEGMENTS") {
+        const ttsProvider = createTtsProvider(this.ttsProviderName, apiKey);
+        const result = await this.repairSegments(job, voices, ttsProvider, usage, lexicon, audioFormat, deadline);
+        await this.updateJobProgress(jobId, { cache_hits: result.cacheHits });
+        console.log(
+          `Job ${jobId} repaired ${result.repaired} segments (${result.cacheHits} from cache), ${result.failed} still failing`
+        );
+
+        if (result.quotaReached && usage.limit !== null) {
+          throw new Error(formatQuotaExceededMessage(usage.limit));
+        }
+        if (result.stopReason === "timeout") {
+          await this.updateJobState(
+            jobId,
+            "timeout",
+            undefined,
+            new Date().toISOString(),
+            `Job exceeded timeout of ${job.timeout_sec ?? DEFAULT_TIMEOUT_SEC}s`
+          );
+        } else if (!result.stopReason) {
+          await this.updateJobState(jobId, "succeeded", undefined, new Date().toISOString());
+        }
+        return;
       }
 
       // Get phrases for the notebook
       const { data: phrases, error: phrasesError } = await this.supabase
         .from("phrases")
-        .select("id, en_text, pl_text")
+        .select("id, en_text, pl_text, tokens")
         .eq("notebook_id", job.notebook_id)
         .order("position");
 
@@ -164,92 +352,112 @@ export class JobWorker {
 
       console.log(`Processing ${phrases.length} phrases with ${voices.length} voice slots`);
 
-      // Create build
-      const buildId = await this.createBuild(job.notebook_id, jobId);
+      // Segments of the current build whose text, voice and audio settings are unchanged are reused
+      const reusableSegments = await this.loadReusableSegments(job.notebook_id);
+
+      // Continue the build of a failed/timed-out job, or of this job's attempt that lost its worker,
+      // or create a new one
+      const resumeBuildId = job.resume_build_id ?? (job.attempts > 1 ? await this.findJobBuild(jobId) : null);
+      const buildId = resumeBuildId ?? (await this.createBuild(job.notebook_id, jobId, voices));
+      const checkpointed = resumeBuildId ? await this.prepareResumedBuild(resumeBuildId) : new Set<string>();
+      if (resumeBuildId) {
+        console.log(`Resuming build ${buildId}: ${checkpointed.size} segments already complete`);
+      }
 
-      // Initialize TTS service
-      const ttsService = new TtsService(apiKey);
+      // Initialize TTS provider
+      const ttsProvider = createTtsProvider(this.ttsProviderName, apiKey);
 
       // Process each phrase with each voice slot
-      const audioSegments: {
-        id: string;
-        phrase_id: string;
-        build_id: string;
-        voice_slot: "EN1" | "EN2" | "EN3" | "PL";
-        status: "complete" | "failed" | "missing";
-        error_code: string | null;
-        path: string;
-        size_bytes: number | null;
-        duration_ms: number | null;
-        sample_rate_hz: number;
-        bitrate_kbps: number;
-        is_active: boolean;
-      }[] = [];
-      for (const phrase of phrases) {
-        for (const voice of voices) {
-          try {
-            // Determine text based on language
-            const rawText = voice.language === "en" ? phrase.en_text : phrase.pl_text;
-            if (!rawText || rawText.trim() === "") {
-              continue;
-            }
-
-            // Clean markdown formatting before sending to TTS
-            // TTS reads asterisks and underscores, so we need to remove them
-            const text = cleanMarkdownForTts(rawText);
-
-            // Generate audio using TTS
-            const audioBuffer = await ttsService.synthesize(text, voice.voice_id, voice.language);
-
-            // Upload to storage using structured path: audio/{userId}/{notebookId}/{phraseId}/{voice}.mp3
-            const storagePath = `${job.user_id}/${job.notebook_id}/${phrase.id}`;
-            const fileName = `${storagePath}/${voice.slot}.mp3`;
-
-            const { error: uploadError } = await this.storage.from("audio").upload(fileName, audioBuffer, {
-              contentType: "audio/mpeg",
-              cacheControl: "3600",
-              upsert: true, // Overwrite if exists
-            });
+      const audioSegments: GeneratedSegment[] = [];
+      let reusedSegments = 0;
+      let cacheHits = 0;
+
+      // Synthesize phrase × voice pairs with bounded concurrency; retries and quota pauses are per call
+      const scheduler = new TtsScheduler(this.schedulerOptions);
+      const pairs = phrases.flatMap((phrase) =>
+        voices
+          .filter((voice) => (voice.language === "en" ? phrase.en_text : phrase.pl_text)?.trim())
+          .map((voice) => ({ phrase, voice }))
+      );
+      const pendingPairs = pairs.filter(({ phrase, voice }) => !checkpointed.has(`${phrase.id}:${voice.slot}`));
+      const resumedSegments = pairs.length - pendingPairs.length;
+
+      // Segments are inserted in batches as progress is reported, so a failed or timed-out job
+      // leaves a checkpoint that a resume job can continue from
+      let flushedCount = 0;
+      let checkpointError: Error | null = null;
+      const flushSegments = async () => {
+        const batch = audioSegments.slice(flushedCount);
+        if (batch.length === 0) {
+          return;
+        }
+        flushedCount += batch.length;
+        const { error: segmentsError } = await this.supabase.from("audio_segments").insert(batch);
+        if (segmentsError) {
+          checkpointError ??= new Error(`Failed to insert audio segments: ${segmentsError.message}`);
+        }
+      };
 
-            if (uploadError) {
-              console.error(
-                `[job-worker] Failed to upload audio for phrase ${phrase.id}, voice ${voice.slot}:`,
-                uploadError
-              );
-              // Create failed segment with a placeholder path
-              audioSegments.push({
-                id: randomUUID(),
-                phrase_id: phrase.id,
-                build_id: buildId,
-                voice_slot: voice.slot,
-                status: "failed",
-                error_code: "upload_failed",
-                path: `failed/${job.user_id}/${job.notebook_id}/${phrase.id}/${voice.slot}.mp3`, // Placeholder path for failed uploads
-                size_bytes: null,
-                duration_ms: null,
-                sample_rate_hz: 22050, // Use default value instead of null
-                bitrate_kbps: 64, // Use default value instead of null
-                is_active: false,
-              });
-              continue;
-            }
-
-            // Verify the file exists in storage
-            const { data: fileCheck, error: checkError } = await this.storage.from("audio").list(storagePath, {
-              limit: 10,
-              offset: 0,
-            });
+      let currentPhraseId: string | null = null;
+      let lastProgressAt = 0;
+      const reportProgress = async (force = false) => {
+        const now = Date.now();
+        if (!force && now - lastProgressAt < PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        lastProgressAt = now;
+        await flushSegments();
+        await this.updateJobProgress(jobId, {
+          total_segments: pairs.length,
+          completed_segments: resumedSegments + audioSegments.filter((s) => s.status === "complete").length,
+          failed_segments: audioSegments.filter((s) => s.status === "failed").length,
+          current_phrase_id: currentPhraseId,
+        });
+      };
+      await reportProgress(true);
+
+      // Cooperative stop: pending pairs are skipped once the job is canceled or out of time;
+      // calls already in flight finish and their segments are kept
+      const checkStop = this.createStopCheck(jobId, deadline);
+      let stopReason: StopReason | null = null;
+      let quotaReached = false;
+      const shouldStop = async (): Promise<boolean> => {
+        if (checkpointError) {
+          return true;
+        }
+        if (usage.exceeded) {
+          quotaReached = true;
+          return true;
+        }
+        stopReason = await checkStop();
+        return stopReason !== null;
+      };
 
-            if (checkError) {
-              console.warn(`[job-worker] Could not verify file existence for phrase ${phrase.id}:`, checkError);
-            } else {
-              const uploadedFile = fileCheck?.find((f) => f.name === `${voice.slot}.mp3`);
-              if (!uploadedFile) {
-                console.error(`[job-worker] WARNING: File ${fileName} was uploaded but not found in storage listing!`);
-              }
-            }
+      await scheduler.map(pendingPairs, async ({ phrase, voice }) => {
+        if (await shouldStop()) {
+          return;
+        }
+        currentPhraseId = phrase.id;
+        try {
+          // Determine text based on language
+          const rawText = voice.language === "en" ? phrase.en_text : phrase.pl_text;
+          if (!rawText || rawText.trim() === "") {
+            return;
+          }
 
-            // Create successful segment
+          const fingerprint = await computeSegmentFingerprint({
+            provider: this.ttsProviderName,
+            text: rawText,
+            voiceId: voice.voice_id,
+            language: voice.language,
+            settings: toVoiceAudioSettings(voice),
+            postProcessing: describeAudioPostProcessing(this.postProcess),
+            pronunciation: describePronunciations(rawText, getPronunciationRules(lexicon, voice.language)),
+            audioFormat: describeAudioFormat(audioFormat),
+          });
+
+          const previous = reusableSegments.get(`${phrase.id}:${voice.slot}`);
+          if (previous && previous.fingerprint === fingerprint) {
             audioSegments.push({
               id: randomUUID(),
               phrase_id: phrase.id,
@@ -257,55 +465,88 @@ export class JobWorker {
               voice_slot: voice.slot,
               status: "complete",
               error_code: null,
-              path: fileName,
-              size_bytes: audioBuffer.length,
-              duration_ms: null, // Could be calculated from audio buffer
-              sample_rate_hz: 22050,
-              bitrate_kbps: 64,
-              is_active: false, // Will be activated after all segments are created
-            });
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : "unknown_error";
-            const errorDetails = error instanceof Error ? error.stack : String(error);
-            console.error(`Failed to process phrase ${phrase.id} with voice ${voice.slot}:`, errorMessage);
-            console.error(`Error details:`, errorDetails);
-            // Create failed segment with placeholder path (path is NOT NULL in schema)
-            audioSegments.push({
-              id: randomUUID(),
-              phrase_id: phrase.id,
-              build_id: buildId,
-              voice_slot: voice.slot,
-              status: "failed",
-              error_code: errorMessage,
-              path: `failed/${job.user_id}/${job.notebook_id}/${phrase.id}/${voice.slot}.mp3`, // Placeholder path for failed TTS
-              size_bytes: null,
-              duration_ms: null,
-              sample_rate_hz: 22050, // Use default value instead of null
-              bitrate_kbps: 64, // Use default value instead of null
+              path: previous.path,
+              size_bytes: previous.size_bytes,
+              duration_ms: previous.duration_ms,
+              sample_rate_hz: previous.sample_rate_hz,
+              bitrate_kbps: previous.bitrate_kbps,
+              word_timings: previous.word_timings,
+              fingerprint,
               is_active: false,
             });
+            reusedSegments++;
+            return;
+          }
+
+          const { segment, cacheHit } = await this.synthesizeSegment(
+            job,
+            buildId,
+            phrase,
+            voice,
+            ttsProvider,
+            scheduler,
+            usage,
+            lexicon,
+            audioFormat,
+            fingerprint
+          );
+          audioSegments.push(segment);
+          if (cacheHit) {
+            cacheHits++;
           }
+        } finally {
+          await reportProgress();
         }
-      }
+      });
 
-      // Insert all audio segments
-      if (audioSegments.length > 0) {
-        const { error: segmentsError } = await this.supabase.from("audio_segments").insert(audioSegments);
+      currentPhraseId = null;
+      // Inserts the remaining segments
+      await reportProgress(true);
 
-        if (segmentsError) {
-          throw new Error(`Failed to insert audio segments: ${segmentsError.message}`);
-        }
+      if (checkpointError) {
+        throw checkpointError;
+      }
+      // Segments synthesized so far are checkpointed, so the job can be resumed once the cap allows
+      if (quotaReached && usage.limit !== null) {
+        throw new Error(formatQuotaExceededMessage(usage.limit));
+      }
+
+      if (stopReason) {
+        await this.finishStoppedJob(job, buildId, stopReason, resumedSegments + audioSegments.length, pairs.length);
+        await this.updateJobProgress(jobId, { cache_hits: cacheHits });
+        return;
       }
 
       // Activate new segments and deactivate old ones
       await this.activateNewSegments(job.notebook_id, buildId, jobId);
 
-      const successfulSegments = audioSegments.filter((s) => s.status === "complete").length;
+      const successfulSegments = resumedSegments + audioSegments.filter((s) => s.status === "complete").length;
       const failedSegments = audioSegments.filter((s) => s.status === "failed").length;
-      console.log(`Job ${jobId} completed: ${successfulSegments} successful, ${failedSegments} failed`);
+      console.log(
+        `Job ${jobId} completed: ${successfulSegments} successful (${resumedSegments} resumed, ${reusedSegments} reused, ${cacheHits} from cache), ${failedSegments} failed`
+      );
+
+      await this.updateJobProgress(jobId, { cache_hits: cacheHits });
 
       // Update job as succeeded
       await this.updateJobState(jobId, "succeeded", undefined, new Date().toISOString());
+
+      // Apply the retention policy; the new build is usable even if cleanup fails
+      if (this.buildRetentionCount) {
+        try {
+          await this.cleanupBuilds(job.notebook_id, this.buildRetentionCount);
+        } catch (cleanupError) {
+          console.warn(`[job-worker] Build cleanup after job ${jobId} failed:`, cleanupError);
+        }
+      }
+      const cacheMaxAgeDays = getAudioCacheMaxAgeDays();
+      if (cacheMaxAgeDays) {
+        try {
+          await pruneAudioCache(this.supabase, cacheMaxAgeDays);
+        } catch (pruneError) {
+          console.warn(`[job-worker] Audio cache pruning after job ${jobId} failed:`, pruneError);
+        }
+      }
     } catch (error) {
       console.error(`Job ${jobId} failed:`, error);
 
@@ -332,12 +573,23 @@ export class JobWorker {
       started_at?: string;
       ended_at?: string;
       error?: string;
+      lease_owner?: null;
+      lease_expires_at?: null;
     } = { state };
     if (startedAt) updateData.started_at = startedAt;
     if (endedAt) updateData.ended_at = endedAt;
     if (error) updateData.error = error;
+    if (state !== "queued" && state !== "running") {
+      updateData.lease_owner = null;
+      updateData.lease_expires_at = null;
+    }
 
-    const { error: updateError } = await this.supabase.from("jobs").update(updateData).eq("id", jobId);
+    let query = this.supabase.from("jobs").update(updateData).eq("id", jobId);
+    // A job reclaimed by another worker is that worker's to finish
+    if (this.leases.has(jobId)) {
+      query = query.eq("lease_owner", this.workerId);
+    }
+    const { error: updateError } = await query;
 
     if (updateError) {
       console.error(`Failed to update job state: ${updateError.message}`);
@@ -345,7 +597,453 @@ export class JobWorker {
     }
   }
 
-  private async createBuild(notebookId: string, jobId: string): Promise<string> {
+  private async getTtsApiKey(userId: string): Promise<string | null> {
+    // The local provider runs without a key
+    if (this.ttsProviderName !== "google") {
+      return null;
+    }
+
+    const { data: credentials, error: credError } = await this.supabase
+      .from("tts_credentials")
+      .select("encrypted_key, is_configured")
+      .eq("user_id", userId)
+      .single();
+
+    if (credError || !credentials || !credentials.is_configured) {
+      throw new Error("TTS credentials not configured");
+    }
+
+    // Decrypt the TTS API key
+    const { decrypt } = await import("./tts-encryption");
+    return decrypt(credentials.encrypted_key);
+  }
+
+  private async getUserVoices(userId: string): Promise<SegmentVoice[]> {
+    const { data: voices, error: voicesError } = await this.supabase
+      .from("user_voices")
+      .select("slot, language, voice_id, speaking_rate, pitch, volume_gain_db")
+      .eq("user_id", userId)
+      .order("slot");
+
+    if (voicesError || !voices || voices.length === 0) {
+      throw new Error("User voices not configured");
+    }
+
+    return voices;
+  }
+
+  /**
+   * Returns a cooperative stop check: `timeout` once the deadline has passed, `canceled` once a
+   * re-read of the job state (at most every CANCEL_CHECK_INTERVAL_MS) finds the job canceled,
+   * `lease_lost` once the job's lease could not be renewed for another reason.
+   */
+  private createStopCheck(jobId: string, deadline: number): () => Promise<StopReason | null> {
+    let stopReason: StopReason | null = null;
+    let lastCancelCheckAt = Date.now();
+
+    return async () => {
+      if (stopReason) {
+        return stopReason;
+      }
+      const now = Date.now();
+      if (this.leases.get(jobId)?.lost) {
+        // Canceling a job also ends its lease
+        stopReason = (await this.isJobCanceled(jobId)) ? "canceled" : "lease_lost";
+      } else if (now >= deadline) {
+        stopReason = "timeout";
+      } else if (now - lastCancelCheckAt >= CANCEL_CHECK_INTERVAL_MS) {
+        lastCancelCheckAt = now;
+        if (await this.isJobCanceled(jobId)) {
+          stopReason = "canceled";
+        }
+      }
+      return stopReason;
+    };
+  }
+
+  /**
+   * Synthesizes one phrase × voice segment (or copies it from the audio cache) and uploads it
+   * to the segment's storage path. Provider and upload errors are returned as `failed` segments.
+   * The segment is inactive; callers decide when to activate it.
+   */
+  private async synthesizeSegment(
+    job: SegmentJob,
+    buildId: string,
+    phrase: SegmentPhrase,
+    voice: SegmentVoice,
+    ttsProvider: TtsProvider,
+    scheduler: TtsScheduler,
+    usage: TtsUsageMeter,
+    lexicon: PronunciationLexicon,
+    audioFormat: AudioFormat,
+    fingerprint: string
+  ): Promise<{ segment: GeneratedSegment; cacheHit: boolean }> {
+    const rawText = (voice.language === "en" ? phrase.en_text : phrase.pl_text) ?? "";
+
+    try {
+      // Clean markdown formatting before sending to TTS
+      // TTS reads asterisks and underscores, so we need to remove them
+      const text = cleanMarkdownForTts(rawText);
+
+      // Mark every token in SSML so the provider reports word timepoints; lexicon terms get <sub>/<phoneme>
+      const tokens = resolvePhraseTokens(phrase, voice.language);
+      const pronunciations = getPronunciationRules(lexicon, voice.language);
+
+      const ssml = buildSynthesisSsml(rawText, tokens, pronunciations);
+
+      // Generate audio using TTS, or copy identical audio from the shared cache
+      const {
+        audio: rawAudio,
+        timepoints: rawTimepoints,
+        cacheHit,
+      } = await scheduler.run(() =>
+        synthesizeWithCache(this.supabase, ttsProvider, {
+          text,
+          voiceId: voice.voice_id,
+          language: voice.language,
+          ssml,
+          audioSettings: toVoiceAudioSettings(voice),
+          pronunciation: describePronunciations(rawText, pronunciations),
+          audioFormat,
+        })
+      );
+      if (!cacheHit) {
+        await usage.record(voice.voice_id, countBilledCharacters(text, ssml));
+      }
+      // Normalize loudness and trim edge silence when enabled (the cache keeps the raw audio)
+      const { audio: audioBuffer, timepoints } = await postProcessAudio(
+        rawAudio,
+        rawTimepoints,
+        this.postProcess,
+        audioFormat.encoding
+      );
+      const audioInfo = parseAudioInfo(audioBuffer, audioFormat.encoding);
+      const wordTimings = buildWordTimings(tokens, timepoints, audioInfo?.durationMs);
+
+      // Upload to storage using structured path: audio/{userId}/{notebookId}/{phraseId}/{voice}-{buildId}.{mp3|ogg}
+      // The build ID keeps earlier builds' audio intact so they can be rolled back to
+      const storagePath = `${job.user_id}/${job.notebook_id}/${phrase.id}`;
+      const objectName = `${voice.slot}-${buildId}.${getAudioFileExtension(audioFormat.encoding)}`;
+      const fileName = `${storagePath}/${objectName}`;
+
+      const { error: uploadError } = await this.storage.from("audio").upload(fileName, audioBuffer, {
+        contentType: getAudioContentType(audioFormat.encoding),
+        cacheControl: "3600",
+        upsert: true, // Overwrite if exists
+      });
+
+      if (uploadError) {
+        console.error(`[job-worker] Failed to upload audio for phrase ${phrase.id}, voice ${voice.slot}:`, uploadError);
+        return { segment: this.failedSegment(job, buildId, phrase.id, voice.slot, "upload_failed"), cacheHit };
+      }
+
+      // Verify the file exists in storage
+      const { data: fileCheck, error: checkError } = await this.storage.from("audio").list(storagePath, {
+        limit: 10,
+        offset: 0,
+        search: `${voice.slot}-${buildId}`,
+      });
+
+      if (checkError) {
+        console.warn(`[job-worker] Could not verify file existence for phrase ${phrase.id}:`, checkError);
+      } else {
+        const uploadedFile = fileCheck?.find((f) => f.name === objectName);
+        if (!uploadedFile) {
+          console.error(`[job-worker] WARNING: File ${fileName} was uploaded but not found in storage listing!`);
+        }
+      }
+
+      return {
+        segment: {
+          id: randomUUID(),
+          phrase_id: phrase.id,
+          build_id: buildId,
+          voice_slot: voice.slot,
+          status: "complete",
+          error_code: null,
+          path: fileName,
+          size_bytes: audioBuffer.length,
+          duration_ms: audioInfo?.durationMs ?? null,
+          sample_rate_hz: audioInfo?.sampleRateHz ?? audioFormat.sampleRateHz,
+          bitrate_kbps: audioInfo?.bitrateKbps ?? 64,
+          word_timings: wordTimings as unknown as Json,
+          fingerprint,
+          is_active: false,
+        },
+        cacheHit,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "unknown_error";
+      const errorDetails =
+        error instanceof TtsProviderError && error.detail
+          ? error.detail
+          : error instanceof Error
+            ? error.stack
+            : String(error);
+      console.error(`Failed to process phrase ${phrase.id} with voice ${voice.slot}:`, errorMessage);
+      console.error(`Error details:`, errorDetails);
+      return { segment: this.failedSegment(job, buildId, phrase.id, voice.slot, errorMessage), cacheHit: false };
+    }
+  }
+
+  // Failed segments get a placeholder path (path is NOT NULL in schema)
+  private failedSegment(
+    job: SegmentJob,
+    buildId: string,
+    phraseId: string,
+    slot: VoiceSlot,
+    errorCode: string
+  ): GeneratedSegment {
+    return {
+      id: randomUUID(),
+      phrase_id: phraseId,
+      build_id: buildId,
+      voice_slot: slot,
+      status: "failed",
+      error_code: errorCode,
+      path: `failed/${job.user_id}/${job.notebook_id}/${phraseId}/${slot}.mp3`,
+      size_bytes: null,
+      duration_ms: null,
+      sample_rate_hz: 22050, // Use default value instead of null
+      bitrate_kbps: 64, // Use default value instead of null
+      is_active: false,
+    };
+  }
+
+  /**
+   * Regenerates `failed` and `missing` segments of the notebook's current build (optionally only
+   * for the job's target phrase and/or voice slot). Phrase × voice pairs with no segment at all are
+   * treated as missing. Repaired segments are added to the current build and activated in place.
+   */
+  private async repairSegments(
+    job: RepairJob,
+    voices: SegmentVoice[],
+    ttsProvider: TtsProvider,
+    usage: TtsUsageMeter,
+    lexicon: PronunciationLexicon,
+    audioFormat: AudioFormat,
+    deadline: number
+  ): Promise<RepairResult> {
+    const { data: notebook, error: notebookError } = await this.supabase
+      .from("notebooks")
+      .select("current_build_id")
+      .eq("id", job.notebook_id)
+      .single();
+
+    if (notebookError || !notebook?.current_build_id) {
+      throw new Error("Notebook has no current build to repair");
+    }
+    const buildId = notebook.current_build_id;
+
+    let phrasesQuery = this.supabase
+      .from("phrases")
+      .select("id, en_text, pl_text, tokens")
+      .eq("notebook_id", job.notebook_id);
+    if (job.target_phrase_id) {
+      phrasesQuery = phrasesQuery.eq("id", job.target_phrase_id);
+    }
+    const { data: phrases, error: phrasesError } = await phrasesQuery.order("position");
+
+    if (phrasesError) {
+      throw new Error(`Failed to fetch phrases: ${phrasesError.message}`);
+    }
+
+    const { data: existing, error: segmentsError } = await this.supabase
+      .from("audio_segments")
+      .select("id, phrase_id, voice_slot, status")
+      .eq("build_id", buildId);
+
+    if (segmentsError) {
+      throw new Error(`Failed to fetch audio segments: ${segmentsError.message}`);
+    }
+
+    const existingByKey = new Map(
+      (existing || []).map((segment) => [`${segment.phrase_id}:${segment.voice_slot}`, segment])
+    );
+    const targetVoices = voices.filter((voice) => !job.target_slot || voice.slot === job.target_slot);
+    const pairs = (phrases || []).flatMap((phrase) =>
+      targetVoices
+        .filter((voice) => (voice.language === "en" ? phrase.en_text : phrase.pl_text)?.trim())
+        .filter((voice) => existingByKey.get(`${phrase.id}:${voice.slot}`)?.status !== "complete")
+        .map((voice) => ({ phrase, voice }))
+    );
+
+    console.log(`Repairing ${pairs.length} segments of build ${buildId}`);
+
+    const segments: GeneratedSegment[] = [];
+    let cacheHits = 0;
+    let currentPhraseId: string | null = null;
+
+    // Repaired segments are inserted in batches as progress is reported. A broken row is deleted
+    // only together with its replacement, since (phrase_id, voice_slot, build_id) is unique, so a
+    // job that stops midway keeps every segment it has not replaced yet
+    let flushedCount = 0;
+    let checkpointError: Error | null = null;
+    const flushSegments = async () => {
+      const batch = segments.slice(flushedCount);
+      if (batch.length === 0) {
+        return;
+      }
+      flushedCount += batch.length;
+      const staleIds = batch
+        .map((segment) => existingByKey.get(`${segment.phrase_id}:${segment.voice_slot}`)?.id)
+        .filter((id): id is string => Boolean(id));
+      if (staleIds.length > 0) {
+        const { error: deleteError } = await this.supabase.from("audio_segments").delete().in("id", staleIds);
+        if (deleteError) {
+          checkpointError ??= new Error(`Failed to clear broken segments: ${deleteError.message}`);
+          return;
+        }
+      }
+      const { error: insertError } = await this.supabase.from("audio_segments").insert(batch);
+      if (insertError) {
+        checkpointError ??= new Error(`Failed to insert audio segments: ${insertError.message}`);
+      }
+    };
+    let lastProgressAt = 0;
+    const reportProgress = async (force = false) => {
+      const now = Date.now();
+      if (!force && now - lastProgressAt < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastProgressAt = now;
+      await flushSegments();
+      await this.updateJobProgress(job.id, {
+        total_segments: pairs.length,
+        completed_segments: segments.filter((s) => s.status === "complete").length,
+        failed_segments: segments.filter((s) => s.status === "failed").length,
+        current_phrase_id: currentPhraseId,
+      });
+    };
+    await reportProgress(true);
+
+    const checkStop = this.createStopCheck(job.id, deadline);
+    let stopReason: StopReason | null = null;
+    let quotaReached = false;
+    const scheduler = new TtsScheduler(this.schedulerOptions);
+
+    await scheduler.map(pairs, async ({ phrase, voice }) => {
+      if (checkpointError) {
+        return;
+      }
+      stopReason = await checkStop();
+      if (stopReason) {
+        return;
+      }
+      if (usage.exceeded) {
+        quotaReached = true;
+        return;
+      }
+      currentPhraseId = phrase.id;
+      try {
+        const rawText = (voice.language === "en" ? phrase.en_text : phrase.pl_text) ?? "";
+        const fingerprint = await computeSegmentFingerprint({
+          provider: this.ttsProviderName,
+          text: rawText,
+          voiceId: voice.voice_id,
+          language: voice.language,
+          settings: toVoiceAudioSettings(voice),
+          postProcessing: describeAudioPostProcessing(this.postProcess),
+          pronunciation: describePronunciations(rawText, getPronunciationRules(lexicon, voice.language)),
+          audioFormat: describeAudioFormat(audioFormat),
+        });
+        const { segment, cacheHit } = await this.synthesizeSegment(
+          job,
+          buildId,
+          phrase,
+          voice,
+          ttsProvider,
+          scheduler,
+          usage,
+          lexicon,
+          audioFormat,
+          fingerprint
+        );
+        // The build is already current, so repaired audio becomes playable right away
+        segments.push({ ...segment, is_active: segment.status === "complete" });
+        if (cacheHit) {
+          cacheHits++;
+        }
+      } finally {
+        await reportProgress();
+      }
+    });
+
+    currentPhraseId = null;
+    // Inserts the remaining segments
+    await reportProgress(true);
+
+    if (checkpointError) {
+      throw checkpointError;
+    }
+
+    return {
+      repaired: segments.filter((s) => s.status === "complete").length,
+      failed: segments.filter((s) => s.status === "failed").length,
+      cacheHits,
+      stopReason,
+      quotaReached,
+    };
+  }
+
+  private async isJobCanceled(jobId: string): Promise<boolean> {
+    const { data, error } = await this.supabase.from("jobs").select("state").eq("id", jobId).single();
+    if (error || !data) {
+      console.warn(`[job-worker] Could not re-read state of job ${jobId}:`, error);
+      return false;
+    }
+    return data.state === "canceled";
+  }
+
+  /**
+   * Closes a job stopped by cancellation or timeout. Produced segments are already stored
+   * (inactive) with the build; with `keep_partial` they are activated as a usable build.
+   */
+  private async finishStoppedJob(
+    job: { id: string; notebook_id: string; timeout_sec: number | null; keep_partial: boolean },
+    buildId: string,
+    reason: StopReason,
+    producedSegments: number,
+    totalSegments: number
+  ): Promise<void> {
+    console.log(
+      `Job ${job.id} stopped (${reason}) after ${producedSegments}/${totalSegments} segments, keep_partial=${job.keep_partial}`
+    );
+
+    // The job belongs to the worker that reclaimed it, which continues the same build
+    if (reason === "lease_lost") {
+      return;
+    }
+
+    if (job.keep_partial && producedSegments > 0) {
+      await this.activateNewSegments(job.notebook_id, buildId, job.id);
+    }
+
+    if (reason === "timeout") {
+      await this.updateJobState(
+        job.id,
+        "timeout",
+        undefined,
+        new Date().toISOString(),
+        `Job exceeded timeout of ${job.timeout_sec ?? DEFAULT_TIMEOUT_SEC}s`
+      );
+    }
+    // Canceled jobs already have their state and ended_at set by the cancel endpoint
+  }
+
+  private async updateJobProgress(jobId: string, progress: JobProgressUpdate): Promise<void> {
+    const { error } = await this.supabase
+      .from("jobs")
+      .update({ ...progress, progress_updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+
+    if (error) {
+      console.error(`Failed to update job progress: ${error.message}`);
+      // Progress is informational; don't fail the job over it
+    }
+  }
+
+  private async createBuild(notebookId: string, jobId: string, voices?: SegmentVoice[]): Promise<string> {
     // Generate a proper UUID for the build ID
     const buildId = randomUUID();
 
@@ -353,6 +1051,10 @@ export class JobWorker {
       id: buildId,
       notebook_id: notebookId,
       job_id: jobId,
+      // Snapshot of the voices shown in the build history
+      ...(voices && {
+        voices: voices.map(({ slot, language, voice_id }) => ({ slot, language, voice_id })),
+      }),
     });
 
     if (error) {
@@ -362,83 +1064,287 @@ export class JobWorker {
     return buildId;
   }
 
+  /** Returns the build created by an earlier attempt of the job, if any */
+  private async findJobBuild(jobId: string): Promise<string | null> {
+    const { data, error } = await this.supabase.from("builds").select("id").eq("job_id", jobId).maybeSingle();
+    if (error) {
+      console.warn(`[job-worker] Could not look up the build of job ${jobId}:`, error);
+      return null;
+    }
+    return data?.id ?? null;
+  }
+
+  /**
+   * Prepares a build from an earlier job for resuming: removes its failed and missing segments so
+   * they are synthesized again, and returns the `phraseId:slot` keys of segments already complete.
+   */
+  private async prepareResumedBuild(buildId: string): Promise<Set<string>> {
+    const { error: deleteError } = await this.supabase
+      .from("audio_segments")
+      .delete()
+      .eq("build_id", buildId)
+      .neq("status", "complete");
+
+    if (deleteError) {
+      throw new Error(`Failed to clear incomplete segments: ${deleteError.message}`);
+    }
+
+    const { data: segments, error: segmentsError } = await this.supabase
+      .from("audio_segments")
+      .select("phrase_id, voice_slot")
+      .eq("build_id", buildId)
+      .eq("status", "complete");
+
+    if (segmentsError) {
+      throw new Error(`Failed to load checkpointed segments: ${segmentsError.message}`);
+    }
+
+    return new Set((segments || []).map((segment) => `${segment.phrase_id}:${segment.voice_slot}`));
+  }
+
+  /**
+   * Returns complete, fingerprinted segments of the notebook's current build keyed by `phraseId:slot`.
+   * Failures are logged and treated as "nothing to reuse" so the rebuild falls back to full synthesis.
+   */
+  private async loadReusableSegments(notebookId: string): Promise<Map<string, ReusableSegment>> {
+    const reusable = new Map<string, ReusableSegment>();
+
+    const { data: notebook, error: notebookError } = await this.supabase
+      .from("notebooks")
+      .select("current_build_id")
+      .eq("id", notebookId)
+      .single();
+
+    if (notebookError || !notebook?.current_build_id) {
+      return reusable;
+    }
+
+    const { data: segments, error: segmentsError } = await this.supabase
+      .from("audio_segments")
+      .select(
+        "phrase_id, voice_slot, path, size_bytes, duration_ms, sample_rate_hz, bitrate_kbps, word_timings, fingerprint"
+      )
+      .eq("build_id", notebook.current_build_id)
+      .eq("status", "complete")
+      .not("fingerprint", "is", null);
+
+    if (segmentsError) {
+      console.warn(`[job-worker] Could not load segments of current build for reuse:`, segmentsError);
+      return reusable;
+    }
+
+    for (const segment of segments || []) {
+      reusable.set(`${segment.phrase_id}:${segment.voice_slot}`, segment);
+    }
+    return reusable;
+  }
+
   private async activateNewSegments(notebookId: string, buildId: string, jobId: string): Promise<void> {
     try {
-      // Get all phrase IDs for this notebook
-      const { data: phrases, error: phrasesError } = await this.supabase
-        .from("phrases")
-        .select("id")
-        .eq("notebook_id", notebookId);
+      await activateBuild(this.supabase, notebookId, buildId);
+    } catch (error) {
+      console.error(`Failed to activate new segments for job ${jobId}:`, error);
+      throw error;
+    }
+  }
 
-      if (phrasesError) {
-        throw new Error(`Failed to fetch phrases: ${phrasesError.message}`);
-      }
+  /**
+   * Fills duration, bitrate and sample rate for complete segments of all the notebook's builds
+   * that were generated before MP3 metadata was parsed at synthesis time.
+   * Returns the number of updated segments.
+   */
+  async backfillAudioMetadata(notebookId: string): Promise<number> {
+    const { data: builds, error: buildsError } = await this.supabase
+      .from("builds")
+      .select("id")
+      .eq("notebook_id", notebookId);
 
-      if (!phrases || phrases.length === 0) {
-        return;
-      }
+    if (buildsError) {
+      throw new Error(`Failed to fetch builds: ${buildsError.message}`);
+    }
 
-      const phraseIds = phrases.map((p: { id: string }) => p.id);
+    if (!builds || builds.length === 0) {
+      return 0;
+    }
 
-      // Deactivate old segments for this notebook's phrases
-      const { error: deactivateError } = await this.supabase
-        .from("audio_segments")
-        .update({ is_active: false })
-        .in("phrase_id", phraseIds);
+    const { data: segments, error: segmentsError } = await this.supabase
+      .from("audio_segments")
+      .select("id, path")
+      .in(
+        "build_id",
+        builds.map((build) => build.id)
+      )
+      .eq("status", "complete")
+      .is("duration_ms", null);
+
+    if (segmentsError) {
+      throw new Error(`Failed to fetch audio segments: ${segmentsError.message}`);
+    }
 
-      if (deactivateError) {
-        throw new Error(`Failed to deactivate old segments: ${deactivateError.message}`);
+    let updated = 0;
+    for (const segment of segments || []) {
+      const { data: file, error: downloadError } = await this.storage.from("audio").download(segment.path);
+      if (downloadError || !file) {
+        console.warn(`[job-worker] Could not download ${segment.path} for metadata backfill:`, downloadError);
+        continue;
       }
 
-      // Activate new segments for this build
-      const { error: activateError } = await this.supabase
-        .from("audio_segments")
-        .update({ is_active: true })
-        .eq("build_id", buildId)
-        .eq("status", "complete"); // Only activate successful segments
+      const audioBuffer = new Uint8Array(await file.arrayBuffer());
+      const audioInfo = parseAudioInfo(audioBuffer, getAudioEncodingFromPath(segment.path));
+      if (!audioInfo) {
+        console.warn(`[job-worker] No audio frames found in ${segment.path}, skipping`);
+        continue;
+      }
 
-      if (activateError) {
-        throw new Error(`Failed to activate new segments: ${activateError.message}`);
+      const { error: updateError } = await this.supabase
+        .from("audio_segments")
+        .update({
+          duration_ms: audioInfo.durationMs,
+          bitrate_kbps: audioInfo.bitrateKbps,
+          sample_rate_hz: audioInfo.sampleRateHz,
+          size_bytes: audioBuffer.length,
+        })
+        .eq("id", segment.id);
+
+      if (updateError) {
+        console.warn(`[job-worker] Failed to update metadata for segment ${segment.id}:`, updateError);
+        continue;
       }
+      updated++;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Removes the notebook's builds outside the newest `keepCount` (the current build is always kept):
+   * storage objects no kept build references first, then the build rows, which cascade to their
+   * inactive audio_segments rows.
+   */
+  async cleanupBuilds(notebookId: string, keepCount: number): Promise<BuildCleanupResult> {
+    const result: BuildCleanupResult = { removedBuilds: 0, removedSegments: 0, removedObjects: 0, freedBytes: 0 };
+
+    const { data: notebook, error: notebookError } = await this.supabase
+      .from("notebooks")
+      .select("current_build_id")
+      .eq("id", notebookId)
+      .single();
+
+    if (notebookError || !notebook) {
+      throw new Error(`Failed to fetch notebook: ${notebookError?.message ?? "not found"}`);
+    }
+
+    const { data: builds, error: buildsError } = await this.supabase
+      .from("builds")
+      .select("id, created_at")
+      .eq("notebook_id", notebookId);
+
+    if (buildsError) {
+      throw new Error(`Failed to fetch builds: ${buildsError.message}`);
+    }
 
-      // Update notebook current_build_id
-      const { error: updateNotebookError } = await this.supabase
-        .from("notebooks")
-        .update({ current_build_id: buildId })
-        .eq("id", notebookId);
+    const { remove } = planBuildRetention(builds || [], notebook.current_build_id, keepCount);
+    if (remove.length === 0) {
+      return result;
+    }
 
-      if (updateNotebookError) {
-        throw new Error(`Failed to update notebook: ${updateNotebookError.message}`);
+    const segments = await this.loadBuildSegments((builds || []).map((build) => build.id));
+    const removedBuilds = new Set(remove);
+    const paths = collectRemovablePaths(segments, remove);
+    const pathSizes = new Map<string, number>();
+    for (const segment of segments) {
+      if (removedBuilds.has(segment.build_id)) {
+        result.removedSegments++;
+        pathSizes.set(segment.path, segment.size_bytes ?? 0);
       }
-    } catch (error) {
-      console.error(`Failed to activate new segments for job ${jobId}:`, error);
-      throw error;
     }
+
+    for (let i = 0; i < paths.length; i += STORAGE_REMOVE_BATCH_SIZE) {
+      const { error: removeError } = await this.storage
+        .from("audio")
+        .remove(paths.slice(i, i + STORAGE_REMOVE_BATCH_SIZE));
+      if (removeError) {
+        throw new Error(`Failed to remove audio objects: ${removeError.message}`);
+      }
+    }
+    result.removedObjects = paths.length;
+    result.freedBytes = paths.reduce((sum, path) => sum + (pathSizes.get(path) ?? 0), 0);
+
+    const { error: deleteError } = await this.supabase.from("builds").delete().in("id", remove);
+    if (deleteError) {
+      throw new Error(`Failed to delete builds: ${deleteError.message}`);
+    }
+
+    result.removedBuilds = remove.length;
+    return result;
   }
 
-  // Process all queued jobs
-  async processQueuedJobs(): Promise<void> {
-    const { data: queuedJobs, error } = await this.supabase
-      .from("jobs")
-      .select("id")
-      .eq("state", "queued")
-      .order("created_at");
+  // Reads segments of the given builds page by page (PostgREST caps rows per request)
+  private async loadBuildSegments(buildIds: string[]): Promise<BuildSegment[]> {
+    const segments: BuildSegment[] = [];
 
-    if (error) {
-      throw new Error(`Failed to fetch queued jobs: ${error.message}`);
+    for (let offset = 0; ; offset += SEGMENT_PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from("audio_segments")
+        .select("build_id, path, status, size_bytes")
+        .in("build_id", buildIds)
+        .order("id")
+        .range(offset, offset + SEGMENT_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch audio segments: ${error.message}`);
+      }
+      segments.push(...(data || []));
+      if (!data || data.length < SEGMENT_PAGE_SIZE) {
+        return segments;
+      }
     }
+  }
 
-    if (!queuedJobs || queuedJobs.length === 0) {
-      return;
+  // Process all claimable jobs, sequentially to avoid overwhelming the TTS service
+  async processQueuedJobs(): Promise<void> {
+    let claimed = true;
+    while (claimed) {
+      claimed = await this.processNextJob();
     }
+  }
 
-    // Process jobs sequentially to avoid overwhelming the TTS service
-    for (const job of queuedJobs) {
-      await this.processJob(job.id);
+  /**
+   * Processes jobs until `signal` aborts: drains the queue, then polls it every `pollIntervalMs`.
+   * A job in progress when the signal aborts is finished first.
+   */
+  async run(signal: AbortSignal, pollIntervalMs = DEFAULT_JOB_POLL_INTERVAL_MS): Promise<void> {
+    console.log(`Job worker ${this.workerId} started`);
+    while (!signal.aborted) {
+      try {
+        let claimed = true;
+        while (claimed && !signal.aborted) {
+          claimed = await this.processNextJob();
+        }
+      } catch (error) {
+        console.error("Job worker error:", error);
+      }
+      await waitForNextPoll(pollIntervalMs, signal);
     }
+    console.log(`Job worker ${this.workerId} stopped`);
   }
 }
 
+function waitForNextPoll(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
 // Singleton to prevent multiple worker instances
 let workerInstance: JobWorker | null = null;
 
@@ -460,15 +1366,5 @@ export async function startJobWorker(): Promise<void> {
   workerInstance = new JobWorker(supabaseUrl, supabaseServiceKey);
 
   // Process jobs every 30 seconds
-  setInterval(async () => {
-    try {
-      if (workerInstance) {
-        await workerInstance.processQueuedJobs();
-      }
-    } catch (error) {
-      console.error("Job worker error:", error);
-    }
-  }, 30000);
-
-  console.log("Job worker started");
+  void workerInstance.run(new AbortController().signal, 30000);
 }
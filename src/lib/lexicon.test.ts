@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildSynthesisSsml, describePronunciations, getPronunciationRules } from "./lexicon";
+import { createBasicTokens } from "./import.service";
+
+describe("pronunciation lexicon", () => {
+  const rules = [
+    { term: "SQL", alias: "sequel", phoneme: null },
+    { term: "Łódź", alias: null, phoneme: "wut͡ɕ" },
+  ];
+
+  it("describes only the rules that match the text", () => {
+    expect(describePronunciations("**SQL** in Łódź", rules)).toBe("sql=sequel;łódź=/wut͡ɕ/");
+    expect(describePronunciations("plain text", rules)).toBeNull();
+  });
+
+  it("builds plain SSML for untokenized text only when a term matches", () => {
+    expect(buildSynthesisSsml("I like **SQL**", [], rules)).toBe('<speak>I like <sub alias="sequel">SQL</sub></speak>');
+    expect(buildSynthesisSsml("I like it", [], rules)).toBeUndefined();
+  });
+
+  it("marks tokens when the phrase has them", () => {
+    const text = "SQL";
+    expect(buildSynthesisSsml(text, createBasicTokens(text, "").en, rules)).toBe(
+      '<speak><mark name="t0"/><sub alias="sequel">SQL</sub></speak>'
+    );
+  });
+
+  it("has no rules for other languages", () => {
+    expect(getPronunciationRules({ en: rules, pl: [] }, "de")).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import type { CreatePronunciationEntryCommand, PhraseToken, PronunciationLanguage, PronunciationRule } from "../types";
+import { ApiErrors } from "./errors";
+import { applyPronunciations, buildMarkedSsml, findPronunciations } from "./ssml";
+import { cleanMarkdownForTts } from "./utils";
+import { validateTextLength } from "./validation.service";
+
+/**
+ * Per-user pronunciation lexicon applied before synthesis. Rules are loaded once per job (or
+ * incremental run) and grouped by language; the rules that match a segment's text become part of
+ * its fingerprint and cache key, so editing an entry regenerates exactly the affected audio.
+ */
+
+export type PronunciationLexicon = Record<PronunciationLanguage, PronunciationRule[]>;
+
+export const PRONUNCIATION_TERM_MAX_LENGTH = 100;
+export const PRONUNCIATION_VALUE_MAX_LENGTH = 200;
+
+/**
+ * Validates a lexicon entry (the full entry, also for partial updates merged onto the stored row)
+ * and returns it trimmed, with exactly one of `alias` and `phoneme` set.
+ */
+export function validatePronunciationEntry(
+  entry: CreatePronunciationEntryCommand
+): Required<CreatePronunciationEntryCommand> {
+  if (entry.language !== "en" && entry.language !== "pl") {
+    throw ApiErrors.validationError("Language must be 'en' or 'pl'");
+  }
+  const term = typeof entry.term === "string" ? entry.term.trim() : entry.term;
+  validateTextLength(term, 1, PRONUNCIATION_TERM_MAX_LENGTH, "Term");
+  // Terms are matched within single words, so they cannot contain spaces
+  if (/\s/.test(term) || !/[\p{L}\p{N}]/u.test(term)) {
+    throw ApiErrors.validationError("Term must be a single word containing a letter or digit");
+  }
+
+  const normalize = (value: string | null | undefined, fieldName: string): string | null => {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    const trimmed = typeof value === "string" ? value.trim() : value;
+    validateTextLength(trimmed, 1, PRONUNCIATION_VALUE_MAX_LENGTH, fieldName);
+    return trimmed;
+  };
+  const alias = normalize(entry.alias, "Alias");
+  const phoneme = normalize(entry.phoneme, "Phoneme");
+  if ((alias === null) === (phoneme === null)) {
+    throw ApiErrors.validationError("Exactly one of alias and phoneme must be set");
+  }
+
+  return { language: entry.language, term, alias, phoneme };
+}
+
+/**
+ * Loads all lexicon entries of a user, grouped by language.
+ */
+export async function loadPronunciationLexicon(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<PronunciationLexicon> {
+  const { data, error } = await supabase
+    .from("pronunciation_lexicon")
+    .select("language, term, alias, phoneme")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch pronunciation lexicon: ${error.message}`);
+  }
+
+  const lexicon: PronunciationLexicon = { en: [], pl: [] };
+  for (const { language, term, alias, phoneme } of data || []) {
+    if (language === "en" || language === "pl") {
+      lexicon[language].push({ term, alias, phoneme });
+    }
+  }
+  return lexicon;
+}
+
+/** Lexicon rules of a voice language (other languages have none) */
+export function getPronunciationRules(lexicon: PronunciationLexicon, language: string): PronunciationRule[] {
+  return language === "en" || language === "pl" ? lexicon[language] : [];
+}
+
+/**
+ * Describes the rules that apply to a text, for fingerprints and cache keys.
+ * Returns null when none match, so audio of texts without lexicon terms keeps its existing keys.
+ */
+export function describePronunciations(rawText: string, rules: PronunciationRule[]): string | null {
+  const matched = findPronunciations(cleanMarkdownForTts(rawText), rules);
+  if (matched.length === 0) {
+    return null;
+  }
+  return matched
+    .map((rule) => `${rule.term.toLowerCase()}=${rule.phoneme ? `/${rule.phoneme}/` : rule.alias}`)
+    .sort()
+    .join(";");
+}
+
+/**
+ * Builds the SSML sent to the provider: marked tokens when the phrase has tokens, otherwise a plain
+ * document only when a lexicon term needs `<sub>`/`<phoneme>`. Returns undefined for plain-text synthesis.
+ */
+export function buildSynthesisSsml(
+  rawText: string,
+  tokens: PhraseToken[],
+  rules: PronunciationRule[]
+): string | undefined {
+  if (tokens.length > 0) {
+    return buildMarkedSsml(rawText, tokens, rules);
+  }
+  const text = cleanMarkdownForTts(rawText);
+  return findPronunciations(text, rules).length > 0 ? `<speak>${applyPronunciations(text, rules)}</speak>` : undefined;
+}
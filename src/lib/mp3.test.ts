@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { parseMp3Info } from "./mp3";
+import { LocalTtsProvider } from "./tts-provider";
+
+function buildFrames(header: number[], frameLength: number, count: number): Uint8Array {
+  const bytes = new Uint8Array(frameLength * count);
+  for (let i = 0; i < count; i++) {
+    bytes.set(header, i * frameLength);
+  }
+  return bytes;
+}
+
+describe("parseMp3Info", () => {
+  it("derives duration, bitrate and sample rate from MPEG-2 Layer III frames", () => {
+    // 64 kbps, 22050 Hz, mono: 208-byte frames of 576 samples
+    const info = parseMp3Info(buildFrames([0xff, 0xf3, 0x80, 0xc4], 208, 100));
+
+    expect(info).toEqual({
+      durationMs: Math.round(((100 * 576) / 22050) * 1000),
+      bitrateKbps: 64,
+      sampleRateHz: 22050,
+      frameCount: 100,
+    });
+  });
+
+  it("skips an ID3v2 tag and the Xing metadata frame", () => {
+    // MPEG-1 Layer III, 128 kbps, 44100 Hz: 417-byte frames of 1152 samples
+    const frames = buildFrames([0xff, 0xfb, 0x90, 0x64], 417, 11);
+    frames.set([0x58, 0x69, 0x6e, 0x67], 36); // "Xing" in the first frame
+    const id3 = new Uint8Array([0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x05, 1, 2, 3, 4, 5]);
+    const bytes = new Uint8Array(id3.length + frames.length);
+    bytes.set(id3, 0);
+    bytes.set(frames, id3.length);
+
+    const info = parseMp3Info(bytes);
+
+    expect(info?.frameCount).toBe(10);
+    expect(info?.sampleRateHz).toBe(44100);
+    expect(info?.durationMs).toBe(Math.round(((10 * 1152) / 44100) * 1000));
+  });
+
+  it("returns null for data without MPEG frames", () => {
+    expect(parseMp3Info(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]))).toBeNull();
+  });
+
+  it("reads the audio produced by the local TTS provider", async () => {
+    const { audio } = await new LocalTtsProvider().synthesize({ text: "hello world", voiceId: "x", language: "en" });
+
+    expect(parseMp3Info(audio)?.durationMs).toBeGreaterThanOrEqual(400);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * MP3 frame-header parser.
+ * Walks MPEG audio frames to derive duration, average bitrate and sample rate of a buffer,
+ * skipping a leading ID3v2 tag and the Xing/Info metadata frame written by some encoders.
+ */
+
+export interface Mp3Info {
+  durationMs: number;
+  bitrateKbps: number;
+  sampleRateHz: number;
+  frameCount: number;
+}
+
+interface FrameHeader {
+  frameLength: number;
+  samples: number;
+  sampleRateHz: number;
+  bitrateKbps: number;
+}
+
+// Bitrates in kbps, indexed by [table][bitrate index]
+const BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l23: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+// Sample rates indexed by version bits (0 = MPEG 2.5, 2 = MPEG 2, 3 = MPEG 1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+function readFrameHeader(bytes: Uint8Array, offset: number): FrameHeader | null {
+  if (offset + 4 > bytes.length) return null;
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isV1 = versionBits === 3;
+  const layer = 4 - layerBits; // 1, 2 or 3
+  const table = isV1 ? (layer === 1 ? "v1l1" : layer === 2 ? "v1l2" : "v1l3") : layer === 1 ? "v2l1" : "v2l23";
+  const bitrateKbps = BITRATES[table][bitrateIndex];
+  const sampleRateHz = SAMPLE_RATES[versionBits][sampleRateIndex];
+
+  let samples: number;
+  let frameLength: number;
+  if (layer === 1) {
+    samples = 384;
+    frameLength = (Math.floor((12 * bitrateKbps * 1000) / sampleRateHz) + padding) * 4;
+  } else {
+    samples = layer === 3 && !isV1 ? 576 : 1152;
+    frameLength = Math.floor(((samples / 8) * bitrateKbps * 1000) / sampleRateHz) + padding;
+  }
+
+  return { frameLength, samples, sampleRateHz, bitrateKbps };
+}
+
+function skipId3v2(bytes: Uint8Array): number {
+  if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) {
+    return 0;
+  }
+  // Syncsafe integer: 4 x 7 bits
+  const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+function isXingFrame(bytes: Uint8Array, offset: number, frameLength: number): boolean {
+  const end = Math.min(bytes.length - 3, offset + Math.min(frameLength, 64));
+  for (let i = offset + 4; i < end; i++) {
+    const tag = String.fromCharCode(bytes[i], bytes[i + 1], bytes[i + 2], bytes[i + 3]);
+    if (tag === "Xing" || tag === "Info") return true;
+  }
+  return false;
+}
+
+/**
+ * Parses MP3 audio and returns its duration, average bitrate and sample rate.
+ * Returns null when no valid MPEG audio frame is found.
+ */
+export function parseMp3Info(bytes: Uint8Array): Mp3Info | null {
+  let offset = skipId3v2(bytes);
+  let frameCount = 0;
+  let totalSamples = 0;
+  let audioBytes = 0;
+  let sampleRateHz = 0;
+  let isFirstFrame = true;
+
+  while (offset + 4 <= bytes.length) {
+    const header = readFrameHeader(bytes, offset);
+    if (!header || header.frameLength <= 0) {
+      // Resync: scan forward to the next frame sync
+      offset++;
+      continue;
+    }
+
+    // The Xing/Info frame carries encoder metadata, not audio
+    const isMetadataFrame = isFirstFrame && isXingFrame(bytes, offset, header.frameLength);
+    isFirstFrame = false;
+    if (isMetadataFrame) {
+      offset += header.frameLength;
+      continue;
+    }
+
+    frameCount++;
+    totalSamples += header.samples;
+    audioBytes += Math.min(header.frameLength, bytes.length - offset);
+    sampleRateHz = header.sampleRateHz;
+    offset += header.frameLength;
+  }
+
+  if (frameCount === 0 || sampleRateHz === 0) {
+    return null;
+  }
+
+  const durationMs = Math.round((totalSamples / sampleRateHz) * 1000);
+  const bitrateKbps = durationMs > 0 ? Math.round((audioBytes * 8) / durationMs) : 0;
+
+  return { durationMs, bitrateKbps, sampleRateHz, frameCount };
+}
+
+// MPEG-2 Layer III, 64 kbps, 22050 Hz, mono - matches the format requested from Google
+const SILENT_FRAME_HEADER = [0xff, 0xf3, 0x80, 0xc4];
+const SILENT_FRAME_BYTES = 208; // 72 * 64000 / 22050, no padding
+const SILENT_FRAME_MS = (576 / 22050) * 1000;
+
+/** Builds MP3 silence lasting at least `durationMs`: frames with empty side info decode to silence */
+export function createSilentMp3(durationMs: number): Uint8Array {
+  const frameCount = Math.ceil(durationMs / SILENT_FRAME_MS);
+  const audio = new Uint8Array(frameCount * SILENT_FRAME_BYTES);
+  for (let frame = 0; frame < frameCount; frame++) {
+    audio.set(SILENT_FRAME_HEADER, frame * SILENT_FRAME_BYTES);
+  }
+  return audio;
+}
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  claimOfflineData,
+  downloadNotebookForOffline,
+  filterOfflineManifest,
+  formatStorageSize,
+  getAudioSourcePath,
+  getOfflineAudioUrl,
+  withOfflineAudio,
+  type OfflineManifest,
+} from "./offline-cache";
+import type { PlaybackManifestDTO, PlaybackManifestItem } from "../types";
+
+const NOTEBOOK_ID = "nb-1";
+
+function item(
+  id: string,
+  difficulty: PlaybackManifestItem["phrase"]["difficulty"],
+  url: string,
+  sizeBytes?: number
+): PlaybackManifestItem {
+  return {
+    phrase: {
+      id,
+      position: 1,
+      en_text: "Hi",
+      pl_text: "Cześć",
+      learning_hint_markdown: null,
+      tokens: null,
+      difficulty,
+    },
+    segments: [{ slot: "EN1", status: "complete", url, size_bytes: sizeBytes }],
+  };
+}
+
+function manifest(...sequence: PlaybackManifestItem[]): PlaybackManifestDTO {
+  return { notebook_id: NOTEBOOK_ID, build_id: "b-1", sequence, expires_at: "2026-10-19T10:00:00Z" };
+}
+
+function offlineCopy(segments: OfflineManifest["segments"]): OfflineManifest {
+  return {
+    notebook_id: NOTEBOOK_ID,
+    name: "Notebook",
+    build_id: "b-1",
+    downloaded_at: "2026-10-19T09:00:00Z",
+    phrase_count: 1,
+    segment_count: 1,
+    size_bytes: 100,
+    manifest: manifest(),
+    segments,
+  };
+}
+
+// Minimal Cache Storage: caches map request paths to response bodies
+function stubCacheStorage() {
+  const stores = new Map<string, Map<string, string>>();
+  const open = async (name: string) => {
+    const store = stores.get(name) ?? new Map<string, string>();
+    stores.set(name, store);
+    return {
+      match: async (path: string) => (store.has(path) ? new Response(store.get(path)) : undefined),
+      put: async (path: string, response: Response) => void store.set(path, await response.text()),
+      delete: async (path: string) => store.delete(path),
+      keys: async () => [...store.keys()].map((path) => ({ url: `http://localhost${path}` })),
+    };
+  };
+  vi.stubGlobal("window", { caches: {} });
+  vi.stubGlobal("navigator", { serviceWorker: {} });
+  vi.stubGlobal("caches", { open, delete: async (name: string) => stores.delete(name) });
+  return stores;
+}
+
+describe("getAudioSourcePath", () => {
+  it("drops the signature so URLs of the same file compare equal", () => {
+    expect(getAudioSourcePath("https://x.supabase.co/storage/v1/object/sign/audio/a.mp3?token=abc")).toBe(
+      "/storage/v1/object/sign/audio/a.mp3"
+    );
+  });
+});
+
+describe("withOfflineAudio", () => {
+  it("uses cached audio only when it was downloaded from the same file", () => {
+    const cachedUrl = getOfflineAudioUrl(NOTEBOOK_ID, "p1", "EN1");
+    const offline = offlineCopy({
+      [cachedUrl]: { path: "/audio/p1-en1.mp3", size_bytes: 100 },
+      [getOfflineAudioUrl(NOTEBOOK_ID, "p2", "EN1")]: { path: "/audio/p2-old.mp3", size_bytes: 100 },
+    });
+
+    const result = withOfflineAudio(
+      manifest(
+        item("p1", null, "https://cdn/audio/p1-en1.mp3?token=new"),
+        item("p2", null, "https://cdn/audio/p2-new.mp3?t=1")
+      ),
+      offline
+    );
+
+    expect(result.sequence[0].segments[0].url).toBe(cachedUrl);
+    expect(result.sequence[1].segments[0].url).toBe("https://cdn/audio/p2-new.mp3?t=1");
+  });
+
+  it("does not use cached audio when the file under the same path changed size", () => {
+    const cachedUrl = getOfflineAudioUrl(NOTEBOOK_ID, "p1", "EN1");
+    const offline = offlineCopy({ [cachedUrl]: { path: "/audio/p1-en1.mp3", size_bytes: 100 } });
+
+    const same = withOfflineAudio(manifest(item("p1", null, "https://cdn/audio/p1-en1.mp3?t=1", 100)), offline);
+    const changed = withOfflineAudio(manifest(item("p1", null, "https://cdn/audio/p1-en1.mp3?t=1", 120)), offline);
+
+    expect(same.sequence[0].segments[0].url).toBe(cachedUrl);
+    expect(changed.sequence[0].segments[0].url).toBe("https://cdn/audio/p1-en1.mp3?t=1");
+  });
+});
+
+describe("filterOfflineManifest", () => {
+  const full = manifest(item("p1", "easy", "u1"), item("p2", null, "u2"), item("p3", "hard", "u3"));
+
+  it("applies the difficulty filter like the API, including unset", () => {
+    expect(filterOfflineManifest(full, { difficulty: "easy" }).sequence.map((i) => i.phrase.id)).toEqual(["p1"]);
+    expect(filterOfflineManifest(full, { difficulty: "unset" }).sequence.map((i) => i.phrase.id)).toEqual(["p2"]);
+    expect(filterOfflineManifest(full, { difficulty: "all" }).sequence).toHaveLength(3);
+  });
+
+  it("keeps only the requested phrases", () => {
+    expect(filterOfflineManifest(full, { phraseIds: ["p3", "p1"] }).sequence.map((i) => i.phrase.id)).toEqual([
+      "p1",
+      "p3",
+    ]);
+  });
+});
+
+describe("formatStorageSize", () => {
+  it("picks a readable unit", () => {
+    expect(formatStorageSize(512)).toBe("512 B");
+    expect(formatStorageSize(1536)).toBe("1.5 KB");
+    expect(formatStorageSize(12.4 * 1024 * 1024)).toBe("12.4 MB");
+  });
+});
+
+describe("claimOfflineData", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the caches of the same user and clears another user's", async () => {
+    const stores = stubCacheStorage();
+    await claimOfflineData("user-a");
+    stores.get("phrase-follower-offline-v1")?.set("/offline/manifests/nb-1", "{}");
+    stores.set("phrase-follower-shell-v1", new Map([["/player/nb-1", "<html>"]]));
+
+    await claimOfflineData("user-a");
+    expect(stores.get("phrase-follower-offline-v1")?.has("/offline/manifests/nb-1")).toBe(true);
+
+    await claimOfflineData("user-b");
+    expect(stores.get("phrase-follower-offline-v1")?.has("/offline/manifests/nb-1")).toBe(false);
+    expect(stores.has("phrase-follower-shell-v1")).toBe(false);
+  });
+});
+
+describe("downloadNotebookForOffline", () => {
+  const cachedUrl = getOfflineAudioUrl(NOTEBOOK_ID, "p1", "EN1");
+
+  function stubPreviousDownload() {
+    const stores = stubCacheStorage();
+    const previous = offlineCopy({ [cachedUrl]: { path: "/audio/p1-en1.mp3", size_bytes: 3 } });
+    stores.set(
+      "phrase-follower-offline-v1",
+      new Map([
+        [`/offline/manifests/${NOTEBOOK_ID}`, JSON.stringify(previous)],
+        [cachedUrl, "old"],
+      ])
+    );
+    return stores.get("phrase-follower-offline-v1") as Map<string, string>;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("downloads audio again when the file under the same path changed", async () => {
+    const offlineCache = stubPreviousDownload();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) =>
+        url.startsWith("/player/") ? new Response("", { status: 404 }) : new Response("newer")
+      )
+    );
+
+    await downloadNotebookForOffline(manifest(item("p1", null, "https://cdn/audio/p1-en1.mp3?t=2", 5)), "Notebook");
+
+    expect(offlineCache.get(cachedUrl)).toBe("newer");
+    expect([...offlineCache.keys()].some((path) => path.startsWith("/offline/staging/"))).toBe(false);
+  });
+
+  it("keeps the previous audio when a later segment fails to download", async () => {
+    const offlineCache = stubPreviousDownload();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => (url.includes("p2") ? new Response("", { status: 500 }) : new Response("newer")))
+    );
+
+    await expect(
+      downloadNotebookForOffline(
+        manifest(
+          item("p1", null, "https://cdn/audio/p1-en1.mp3?t=2", 5),
+          item("p2", null, "https://cdn/audio/p2-en1.mp3?t=2", 5)
+        ),
+        "Notebook"
+      )
+    ).rejects.toThrow("Could not download audio");
+
+    expect(offlineCache.get(cachedUrl)).toBe("old");
+    expect([...offlineCache.keys()].some((path) => path.startsWith("/offline/staging/"))).toBe(false);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Offline copies of notebooks for the player. "Download for offline" stores the playback manifest and every
+ * segment's audio in Cache Storage; the service worker (public/sw.js) serves the audio under stable
+ * `/offline/audio/...` URLs, so the player plays cached audio the same way it plays signed URLs.
+ *
+ * Cache Storage is per origin, not per user: the caches record the user they belong to and are
+ * cleared on sign-out and when another user signs in on the device.
+ */
+import type { PhraseDifficultyOrUnset, PlaybackManifestDTO, PlaybackManifestSegment, VoiceSlot } from "../types";
+
+// Cache names must match public/sw.js
+export const OFFLINE_CACHE_NAME = "phrase-follower-offline-v1";
+const SHELL_CACHE_NAME = "phrase-follower-shell-v1";
+
+const AUDIO_PREFIX = "/offline/audio/";
+// Audio of a download in progress, moved to AUDIO_PREFIX once every segment has been fetched
+const STAGING_PREFIX = "/offline/staging/";
+const MANIFEST_PREFIX = "/offline/manifests/";
+// Holds the id of the user the offline copies and cached player pages belong to
+const OWNER_URL = "/offline/owner";
+
+export interface OfflineNotebook {
+  notebook_id: string;
+  name: string;
+  build_id: string | null;
+  downloaded_at: string;
+  phrase_count: number;
+  segment_count: number;
+  size_bytes: number;
+}
+
+/** A cached audio file: where it was downloaded from (storage path of the signed URL) and its size */
+export interface OfflineSegmentSource {
+  path: string;
+  size_bytes: number;
+}
+
+export interface OfflineManifest extends OfflineNotebook {
+  /** Segment URLs point at the cached audio */
+  manifest: PlaybackManifestDTO;
+  /** Keyed by offline audio URL */
+  segments: Record<string, OfflineSegmentSource>;
+}
+
+export interface OfflineManifestFilter {
+  difficulty?: PhraseDifficultyOrUnset | "all";
+  phraseIds?: string[];
+}
+
+export function getOfflineAudioUrl(notebookId: string, phraseId: string, slot: VoiceSlot): string {
+  return `${AUDIO_PREFIX}${notebookId}/${phraseId}/${slot}`;
+}
+
+function getOfflineManifestUrl(notebookId: string): string {
+  return `${MANIFEST_PREFIX}${notebookId}`;
+}
+
+function getStagingAudioUrl(offlineUrl: string): string {
+  return `${STAGING_PREFIX}${offlineUrl.slice(AUDIO_PREFIX.length)}`;
+}
+
+/** Storage path of a signed URL; the token in the query changes with every manifest */
+export function getAudioSourcePath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url.split("?")[0];
+  }
+}
+
+/**
+ * Whether the cached audio was downloaded from the file behind `segment`. The size is compared too
+ * (when the manifest has it), since a storage file can be replaced under the same path.
+ */
+function isSameAudio(cached: OfflineSegmentSource | undefined, segment: PlaybackManifestSegment): boolean {
+  return (
+    cached?.path === getAudioSourcePath(segment.url) &&
+    (segment.size_bytes == null || cached.size_bytes === segment.size_bytes)
+  );
+}
+
+/** e.g. "12.4 MB" */
+export function formatStorageSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+/**
+ * Points the segments of a fresh manifest at cached audio where the cache holds the same file,
+ * so a downloaded notebook keeps playing when the connection drops mid-session.
+ */
+export function withOfflineAudio(manifest: PlaybackManifestDTO, offline: OfflineManifest): PlaybackManifestDTO {
+  return {
+    ...manifest,
+    sequence: manifest.sequence.map((item) => ({
+      ...item,
+      segments: item.segments.map((segment) => {
+        const offlineUrl = getOfflineAudioUrl(manifest.notebook_id, item.phrase.id, segment.slot);
+        return isSameAudio(offline.segments[offlineUrl], segment) ? { ...segment, url: offlineUrl } : segment;
+      }),
+    })),
+  };
+}
+
+/** Applies the player's difficulty and phrase filters, which the API applies when online */
+export function filterOfflineManifest(
+  manifest: PlaybackManifestDTO,
+  { difficulty = "all", phraseIds }: OfflineManifestFilter
+): PlaybackManifestDTO {
+  const ids = phraseIds && phraseIds.length > 0 ? new Set(phraseIds) : null;
+  return {
+    ...manifest,
+    sequence: manifest.sequence.filter(
+      (item) =>
+        (!ids || ids.has(item.phrase.id)) &&
+        (difficulty === "all" ||
+          (difficulty === "unset" ? !item.phrase.difficulty : item.phrase.difficulty === difficulty))
+    ),
+  };
+}
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== "undefined" && "caches" in window && "serviceWorker" in navigator;
+}
+
+/** Registered by the player and before downloads; resolves once the worker is active */
+export async function registerServiceWorker(): Promise<void> {
+  if (!isOfflineSupported()) return;
+  await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+}
+
+/** Deletes every offline copy and cached player page on this device */
+export async function clearOfflineData(): Promise<void> {
+  if (!isOfflineSupported()) return;
+  await Promise.all([caches.delete(OFFLINE_CACHE_NAME), caches.delete(SHELL_CACHE_NAME)]);
+}
+
+/**
+ * Records `userId` as the owner of the offline caches. Caches left by another user (whose session
+ * ended without signing out) are cleared first, so one user never sees another's downloads.
+ */
+export async function claimOfflineData(userId: string): Promise<void> {
+  if (!isOfflineSupported()) return;
+  const owner = await (await caches.open(OFFLINE_CACHE_NAME)).match(OWNER_URL);
+  if (owner && (await owner.text()) === userId) return;
+
+  // Without an owner the caches predate this check and cannot be attributed to anyone
+  await clearOfflineData();
+  await (await caches.open(OFFLINE_CACHE_NAME)).put(OWNER_URL, new Response(userId));
+}
+
+async function readOfflineManifest(cache: Cache, notebookId: string): Promise<OfflineManifest | null> {
+  const response = await cache.match(getOfflineManifestUrl(notebookId));
+  return response ? ((await response.json()) as OfflineManifest) : null;
+}
+
+function toOfflineNotebook(offline: OfflineManifest): OfflineNotebook {
+  const { notebook_id, name, build_id, downloaded_at, phrase_count, segment_count, size_bytes } = offline;
+  return { notebook_id, name, build_id, downloaded_at, phrase_count, segment_count, size_bytes };
+}
+
+/**
+ * The offline copy of a notebook, or null. Also null while no service worker controls the page,
+ * since only the service worker can serve the cached audio URLs.
+ */
+export async function loadOfflineManifest(notebookId: string): Promise<OfflineManifest | null> {
+  if (!isOfflineSupported() || !navigator.serviceWorker.controller) return null;
+  return readOfflineManifest(await caches.open(OFFLINE_CACHE_NAME), notebookId);
+}
+
+export async function listOfflineNotebooks(): Promise<OfflineNotebook[]> {
+  if (!isOfflineSupported()) return [];
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const keys = await cache.keys();
+  const notebooks = await Promise.all(
+    keys
+      .map((request) => new URL(request.url).pathname)
+      .filter((path) => path.startsWith(MANIFEST_PREFIX))
+      .map((path) => readOfflineManifest(cache, path.slice(MANIFEST_PREFIX.length)))
+  );
+  return notebooks
+    .filter((notebook): notebook is OfflineManifest => notebook !== null)
+    .map(toOfflineNotebook)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Caches the player page and the JS/CSS it loads, so the player opens without a connection even if it
+ * was never opened online. Chunks loaded later are cached by the service worker as they are requested;
+ * the service worker refreshes only pages cached here, so no other authenticated page is kept.
+ */
+async function cachePlayerPage(notebookId: string): Promise<void> {
+  const cache = await caches.open(SHELL_CACHE_NAME);
+  const pageUrl = `/player/${notebookId}`;
+  const response = await fetch(pageUrl, { credentials: "same-origin" });
+  // A redirect means the session ended (login page); never cache that as the player
+  if (!response.ok || response.redirected) return;
+
+  const html = await response.clone().text();
+  await cache.put(pageUrl, response);
+  const assets = new Set(html.match(/\/_astro\/[^"'\s)]+/g) ?? []);
+  await Promise.all(
+    [...assets].map(async (asset) => {
+      if (!(await cache.match(asset))) {
+        await cache.add(asset).catch(() => undefined);
+      }
+    })
+  );
+}
+
+/**
+ * Downloads a notebook's audio for offline playback. `manifest` should be unfiltered (the whole notebook).
+ * Audio already cached from the same storage file is kept instead of downloaded again, so updating an
+ * offline copy after a rebuild only fetches what changed. New audio is downloaded to staging entries and
+ * moved into place only once every segment has been fetched.
+ * @throws Error when a segment cannot be downloaded; the previous offline copy stays usable
+ */
+export async function downloadNotebookForOffline(
+  manifest: PlaybackManifestDTO,
+  name: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<OfflineNotebook> {
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const previous = await readOfflineManifest(cache, manifest.notebook_id);
+  const segments: Record<string, OfflineSegmentSource> = {};
+  const staged: string[] = [];
+  const total = manifest.sequence.reduce((count, item) => count + item.segments.length, 0);
+  let done = 0;
+  onProgress?.(done, total);
+
+  try {
+    // One file at a time: notebooks can have hundreds of segments and phones have little memory
+    for (const item of manifest.sequence) {
+      for (const segment of item.segments) {
+        const offlineUrl = getOfflineAudioUrl(manifest.notebook_id, item.phrase.id, segment.slot);
+        const cached = previous?.segments[offlineUrl];
+
+        if (cached && isSameAudio(cached, segment) && (await cache.match(offlineUrl))) {
+          segments[offlineUrl] = cached;
+        } else {
+          const response = await fetch(segment.url);
+          if (!response.ok) {
+            throw new Error(`Could not download audio for phrase ${item.phrase.position} (${segment.slot})`);
+          }
+          const blob = await response.blob();
+          await cache.put(
+            getStagingAudioUrl(offlineUrl),
+            new Response(blob, {
+              headers: {
+                "Content-Type": segment.content_type || blob.type || "audio/mpeg",
+                "Content-Length": String(blob.size),
+              },
+            })
+          );
+          staged.push(offlineUrl);
+          segments[offlineUrl] = { path: getAudioSourcePath(segment.url), size_bytes: blob.size };
+        }
+        onProgress?.(++done, total);
+      }
+    }
+  } catch (error) {
+    await Promise.all(staged.map((offlineUrl) => cache.delete(getStagingAudioUrl(offlineUrl))));
+    throw error;
+  }
+
+  for (const offlineUrl of staged) {
+    const stagingUrl = getStagingAudioUrl(offlineUrl);
+    const response = await cache.match(stagingUrl);
+    if (response) {
+      await cache.put(offlineUrl, response);
+      await cache.delete(stagingUrl);
+    }
+  }
+
+  // Phrases deleted since the last download
+  const audioPrefix = `${AUDIO_PREFIX}${manifest.notebook_id}/`;
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .map((request) => new URL(request.url).pathname)
+      .filter((path) => path.startsWith(audioPrefix) && !segments[path])
+      .map((path) => cache.delete(path))
+  );
+
+  await cachePlayerPage(manifest.notebook_id).catch((error) => {
+    // eslint-disable-next-line no-console
+    console.warn("[offline] Failed to cache the player page:", error);
+  });
+
+  const offline: OfflineManifest = {
+    notebook_id: manifest.notebook_id,
+    name,
+    build_id: manifest.build_id,
+    downloaded_at: new Date().toISOString(),
+    phrase_count: manifest.sequence.length,
+    segment_count: total,
+    size_bytes: Object.values(segments).reduce((sum, segment) => sum + segment.size_bytes, 0),
+    manifest: {
+      ...manifest,
+      sequence: manifest.sequence.map((item) => ({
+        ...item,
+        segments: item.segments.map((segment) => ({
+          ...segment,
+          url: getOfflineAudioUrl(manifest.notebook_id, item.phrase.id, segment.slot),
+        })),
+      })),
+    },
+    segments,
+  };
+  await cache.put(
+    getOfflineManifestUrl(manifest.notebook_id),
+    new Response(JSON.stringify(offline), { headers: { "Content-Type": "application/json" } })
+  );
+  return toOfflineNotebook(offline);
+}
+
+export async function removeOfflineNotebook(notebookId: string): Promise<void> {
+  const cache = await caches.open(OFFLINE_CACHE_NAME);
+  const audioPrefix = `${AUDIO_PREFIX}${notebookId}/`;
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .map((request) => new URL(request.url).pathname)
+      .filter((path) => path.startsWith(audioPrefix))
+      .map((path) => cache.delete(path))
+  );
+  await cache.delete(getOfflineManifestUrl(notebookId));
+  await (await caches.open(SHELL_CACHE_NAME)).delete(`/player/${notebookId}`, { ignoreSearch: true });
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createSilentOggOpus, parseOggOpusInfo } from "./ogg-opus";
+import { LocalTtsProvider } from "./tts-provider";
+
+describe("parseOggOpusInfo", () => {
+  it("reads the duration and input sample rate of a silent stream", () => {
+    const info = parseOggOpusInfo(createSilentOggOpus(2500, 24000));
+
+    expect(info?.sampleRateHz).toBe(24000);
+    // Whole 20 ms frames, so at most one frame longer than requested
+    expect(info?.durationMs).toBeGreaterThanOrEqual(2500);
+    expect(info?.durationMs).toBeLessThan(2520);
+    // OpusHead, OpusTags and three pages of 50 frames
+    expect(info?.pageCount).toBe(5);
+  });
+
+  it("writes pages with valid Ogg checksums", () => {
+    const audio = createSilentOggOpus(100, 48000);
+    const view = new DataView(audio.buffer);
+    const stored = view.getUint32(22, true);
+
+    // Recompute the first page's CRC with the checksum field zeroed
+    const pageLength = 27 + audio[26] + audio[27];
+    const page = audio.slice(0, pageLength);
+    page.fill(0, 22, 26);
+    let crc = 0;
+    for (const byte of page) {
+      crc ^= byte << 24;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+      }
+      crc >>>= 0;
+    }
+
+    expect(stored).toBe(crc);
+  });
+
+  it("returns null for data that is not Ogg Opus", () => {
+    expect(parseOggOpusInfo(new Uint8Array([0xff, 0xf3, 0x80, 0xc4, 0, 0, 0, 0]))).toBeNull();
+  });
+
+  it("reads Ogg Opus audio produced by the local TTS provider", async () => {
+    const { audio } = await new LocalTtsProvider().synthesize({
+      text: "hello world",
+      voiceId: "x",
+      language: "en",
+      audioFormat: { encoding: "OGG_OPUS", sampleRateHz: 48000 },
+    });
+
+    expect(parseOggOpusInfo(audio)?.durationMs).toBeGreaterThanOrEqual(400);
+  });
+});
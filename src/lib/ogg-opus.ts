@@ -0,0 +1,178 @@
+/**
+ * Ogg Opus helpers.
+ * Reads duration, average bitrate and sample rate of an Ogg Opus stream from its page headers
+ * (granule positions are 48 kHz sample counts), and writes silent streams for the local TTS provider.
+ */
+
+export interface OggOpusInfo {
+  durationMs: number;
+  bitrateKbps: number;
+  /** Input sample rate recorded in the OpusHead header (Opus itself always decodes at 48 kHz) */
+  sampleRateHz: number;
+  pageCount: number;
+}
+
+const OPUS_RATE = 48000;
+const PAGE_HEADER_BYTES = 27;
+// A 20 ms mono CELT frame that decodes to silence
+const SILENT_FRAME = [0xf8, 0xff, 0xfe];
+const SILENT_FRAME_SAMPLES = 960;
+const FRAMES_PER_PAGE = 50;
+const DEFAULT_PRE_SKIP = 312;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function isCapturePattern(bytes: Uint8Array, offset: number): boolean {
+  return (
+    bytes[offset] === 0x4f && bytes[offset + 1] === 0x67 && bytes[offset + 2] === 0x67 && bytes[offset + 3] === 0x53
+  );
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export function parseOggOpusInfo(bytes: Uint8Array): OggOpusInfo | null {
+  if (bytes.length < PAGE_HEADER_BYTES || !isCapturePattern(bytes, 0)) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = 0;
+  let pageCount = 0;
+  let preSkip = 0;
+  let sampleRateHz = OPUS_RATE;
+  let lastGranule = 0;
+
+  while (offset + PAGE_HEADER_BYTES <= bytes.length && isCapturePattern(bytes, offset)) {
+    const segmentCount = bytes[offset + 26];
+    const dataStart = offset + PAGE_HEADER_BYTES + segmentCount;
+    if (dataStart > bytes.length) break;
+
+    let dataLength = 0;
+    for (let i = 0; i < segmentCount; i++) {
+      dataLength += bytes[offset + PAGE_HEADER_BYTES + i];
+    }
+
+    if (pageCount === 0) {
+      if (dataLength < 19 || readAscii(bytes, dataStart, 8) !== "OpusHead") {
+        return null;
+      }
+      preSkip = view.getUint16(dataStart + 10, true);
+      sampleRateHz = view.getUint32(dataStart + 12, true) || OPUS_RATE;
+    }
+
+    // -1 marks pages on which no packet ends
+    const granuleLow = view.getUint32(offset + 6, true);
+    const granuleHigh = view.getUint32(offset + 10, true);
+    if (!(granuleLow === 0xffffffff && granuleHigh === 0xffffffff)) {
+      lastGranule = granuleHigh * 2 ** 32 + granuleLow;
+    }
+
+    pageCount++;
+    offset = dataStart + dataLength;
+  }
+
+  const durationMs = Math.round((Math.max(lastGranule - preSkip, 0) / OPUS_RATE) * 1000);
+  if (durationMs === 0) {
+    return null;
+  }
+
+  return {
+    durationMs,
+    bitrateKbps: Math.round((bytes.length * 8) / durationMs),
+    sampleRateHz,
+    pageCount,
+  };
+}
+
+function buildPage(packets: Uint8Array[], granule: number, sequence: number, headerType: number): Uint8Array {
+  const lacing = packets.flatMap((packet) => [
+    ...Array<number>(Math.floor(packet.length / 255)).fill(255),
+    packet.length % 255,
+  ]);
+  const dataLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(PAGE_HEADER_BYTES + lacing.length + dataLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53], 0);
+  page[5] = headerType;
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, 1, true); // stream serial number
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, PAGE_HEADER_BYTES);
+
+  let offset = PAGE_HEADER_BYTES + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+/**
+ * Builds a mono Ogg Opus stream of silence lasting at least `durationMs`.
+ * `sampleRateHz` is recorded as the input rate, as encoders do for the rate they were fed.
+ */
+export function createSilentOggOpus(durationMs: number, sampleRateHz: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"), 0);
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  headView.setUint16(10, DEFAULT_PRE_SKIP, true);
+  headView.setUint32(12, sampleRateHz, true);
+
+  const vendor = new TextEncoder().encode("phrase-follower");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const tagsView = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode("OpusTags"), 0);
+  tagsView.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+
+  const frameCount = Math.ceil(((durationMs / 1000) * OPUS_RATE + DEFAULT_PRE_SKIP) / SILENT_FRAME_SAMPLES);
+  const frame = Uint8Array.from(SILENT_FRAME);
+  const pages = [buildPage([head], 0, 0, 0x02), buildPage([tags], 0, 1, 0)];
+
+  for (let written = 0; written < frameCount; written += FRAMES_PER_PAGE) {
+    const count = Math.min(FRAMES_PER_PAGE, frameCount - written);
+    const isLast = written + count >= frameCount;
+    pages.push(
+      buildPage(
+        Array.from({ length: count }, () => frame),
+        (written + count) * SILENT_FRAME_SAMPLES,
+        pages.length,
+        isLast ? 0x04 : 0
+      )
+    );
+  }
+
+  const audio = new Uint8Array(pages.reduce((sum, page) => sum + page.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    audio.set(page, offset);
+    offset += page.length;
+  }
+  return audio;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PLAYBACK_PROGRAM,
+  describePlaybackProgram,
+  expandPlaybackProgram,
+  getShadowingPauseMs,
+  parsePlaybackProgramSteps,
+  validatePlaybackProgram,
+} from "./playback-program";
+
+describe("validatePlaybackProgram", () => {
+  it("trims the name and keeps only the step fields", () => {
+    const steps = [{ slot: "EN1" as const, repeat: 3, pause_ms: 2000, extra: true }];
+
+    expect(validatePlaybackProgram({ name: "  Drill  ", steps })).toEqual({
+      name: "Drill",
+      steps: [{ slot: "EN1", repeat: 3, pause_ms: 2000 }],
+    });
+  });
+
+  it("rejects empty programs and invalid steps", () => {
+    expect(() => validatePlaybackProgram({ name: "Empty", steps: [] })).toThrow("at least one step");
+    expect(() =>
+      validatePlaybackProgram({
+        name: "Too many",
+        steps: [
+          { slot: "PL", repeat: 1, pause_ms: 800 },
+          { slot: "EN1", repeat: 11, pause_ms: 800 },
+        ],
+      })
+    ).toThrow("Step 2 needs");
+  });
+});
+
+describe("parsePlaybackProgramSteps", () => {
+  it("falls back to the default sequence for malformed rows", () => {
+    expect(parsePlaybackProgramSteps([{ slot: "EN4", repeat: 1, pause_ms: 0 }])).toEqual(DEFAULT_PLAYBACK_PROGRAM);
+    expect(parsePlaybackProgramSteps(null)).toEqual(DEFAULT_PLAYBACK_PROGRAM);
+  });
+});
+
+describe("expandPlaybackProgram", () => {
+  it("unrolls repeats and skips slots without audio", () => {
+    const plan = expandPlaybackProgram(
+      [
+        { slot: "PL", repeat: 1, pause_ms: 800 },
+        { slot: "EN1", repeat: 2, pause_ms: 2000 },
+        { slot: "EN3", repeat: 1, pause_ms: 800 },
+      ],
+      ["EN1", "PL"]
+    );
+
+    expect(plan).toEqual([
+      { slot: "PL", pauseMs: 800 },
+      { slot: "EN1", pauseMs: 2000 },
+      { slot: "EN1", pauseMs: 2000 },
+    ]);
+  });
+});
+
+describe("describePlaybackProgram", () => {
+  it("shows repeats and non-default pauses", () => {
+    expect(
+      describePlaybackProgram([
+        { slot: "PL", repeat: 1, pause_ms: 800 },
+        { slot: "EN1", repeat: 3, pause_ms: 2000 },
+      ])
+    ).toBe("PL → EN1 ×3 (2 s)");
+  });
+});
+
+describe("getShadowingPauseMs", () => {
+  it("grows with the played length and never undercuts the program pause", () => {
+    expect(getShadowingPauseMs(2500, 800)).toBe(2500 * 1.2 + 1000);
+    expect(getShadowingPauseMs(0, 800)).toBe(1000);
+    expect(getShadowingPauseMs(500, 5000)).toBe(5000);
+  });
+});
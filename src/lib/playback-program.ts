@@ -0,0 +1,150 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../db/database.types";
+import type { CreatePlaybackProgramCommand, PlaybackProgramStep, VoiceSlot } from "../types";
+import { ApiErrors } from "./errors";
+import { validateTextLength } from "./validation.service";
+
+export const DEFAULT_PAUSE_MS = 800;
+export const PLAYBACK_PROGRAM_NAME_MAX_LENGTH = 60;
+export const PLAYBACK_PROGRAM_MAX_STEPS = 16;
+export const PLAYBACK_STEP_MAX_REPEAT = 10;
+export const PLAYBACK_STEP_MAX_PAUSE_MS = 10_000;
+
+// Shadowing pause: time to repeat the segment aloud, plus a moment to start speaking
+export const SHADOWING_GAP_FACTOR = 1.2;
+export const SHADOWING_GAP_BASE_MS = 1000;
+
+const VOICE_SLOTS: readonly VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
+
+/** The sequence played when the user has not selected a program */
+export const DEFAULT_PLAYBACK_PROGRAM: readonly PlaybackProgramStep[] = VOICE_SLOTS.map((slot) => ({
+  slot,
+  repeat: 1,
+  pause_ms: DEFAULT_PAUSE_MS,
+}));
+
+/** One segment play of a phrase, followed by `pauseMs` of silence */
+export interface PlaybackPlanItem {
+  slot: VoiceSlot;
+  pauseMs: number;
+}
+
+function isStep(value: unknown): value is PlaybackProgramStep {
+  if (!value || typeof value !== "object") return false;
+  const step = value as Record<string, unknown>;
+  return (
+    VOICE_SLOTS.includes(step.slot as VoiceSlot) &&
+    Number.isInteger(step.repeat) &&
+    (step.repeat as number) >= 1 &&
+    (step.repeat as number) <= PLAYBACK_STEP_MAX_REPEAT &&
+    Number.isInteger(step.pause_ms) &&
+    (step.pause_ms as number) >= 0 &&
+    (step.pause_ms as number) <= PLAYBACK_STEP_MAX_PAUSE_MS
+  );
+}
+
+/**
+ * Validates a playback program and returns it with the name trimmed.
+ * @throws ApiError (validation_error) for empty or oversized programs and invalid steps
+ */
+export function validatePlaybackProgram(program: CreatePlaybackProgramCommand): CreatePlaybackProgramCommand {
+  const name = typeof program.name === "string" ? program.name.trim() : program.name;
+  validateTextLength(name, 1, PLAYBACK_PROGRAM_NAME_MAX_LENGTH, "Name");
+
+  if (!Array.isArray(program.steps) || program.steps.length === 0) {
+    throw ApiErrors.validationError("A playback program needs at least one step");
+  }
+  if (program.steps.length > PLAYBACK_PROGRAM_MAX_STEPS) {
+    throw ApiErrors.validationError(`A playback program can have at most ${PLAYBACK_PROGRAM_MAX_STEPS} steps`);
+  }
+  const invalidIndex = program.steps.findIndex((step) => !isStep(step));
+  if (invalidIndex !== -1) {
+    throw ApiErrors.validationError(
+      `Step ${invalidIndex + 1} needs a slot (${VOICE_SLOTS.join(", ")}), a repeat count of 1-${PLAYBACK_STEP_MAX_REPEAT} and a pause of 0-${PLAYBACK_STEP_MAX_PAUSE_MS} ms`
+    );
+  }
+
+  return {
+    name,
+    steps: program.steps.map(({ slot, repeat, pause_ms }) => ({ slot, repeat, pause_ms })),
+  };
+}
+
+/** Reads stored steps; rows that fail validation fall back to the default sequence */
+export function parsePlaybackProgramSteps(steps: Json): PlaybackProgramStep[] {
+  if (!Array.isArray(steps) || steps.length === 0 || !steps.every(isStep)) {
+    return [...DEFAULT_PLAYBACK_PROGRAM];
+  }
+  return steps as unknown as PlaybackProgramStep[];
+}
+
+/** e.g. "PL → EN1 ×3 (2 s) → EN2"; pauses are shown when they differ from the default */
+export function describePlaybackProgram(steps: readonly PlaybackProgramStep[]): string {
+  return steps
+    .map((step) => {
+      const repeat = step.repeat > 1 ? ` ×${step.repeat}` : "";
+      const pause = step.pause_ms !== DEFAULT_PAUSE_MS ? ` (${step.pause_ms / 1000} s)` : "";
+      return `${step.slot}${repeat}${pause}`;
+    })
+    .join(" → ");
+}
+
+/**
+ * Expands a program into the segment plays of one phrase, repeats unrolled.
+ * Steps whose slot has no audio in `availableSlots` are skipped.
+ */
+export function expandPlaybackProgram(
+  steps: readonly PlaybackProgramStep[],
+  availableSlots: Iterable<VoiceSlot>
+): PlaybackPlanItem[] {
+  const available = new Set(availableSlots);
+  return steps.flatMap((step) =>
+    available.has(step.slot)
+      ? Array.from({ length: step.repeat }, () => ({ slot: step.slot, pauseMs: step.pause_ms }))
+      : []
+  );
+}
+
+/**
+ * Pause after a segment in shadowing mode: proportional to how long the segment played
+ * (its duration divided by the playback speed), never shorter than the program's pause.
+ */
+export function getShadowingPauseMs(playedMs: number, programPauseMs: number): number {
+  return Math.max(programPauseMs, Math.round(playedMs * SHADOWING_GAP_FACTOR + SHADOWING_GAP_BASE_MS));
+}
+
+/**
+ * Loads the steps of a user's program: `programId` if given, otherwise the program selected in the
+ * player. Returns null when `programId` does not belong to the user.
+ */
+export async function loadPlaybackProgramSteps(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  programId?: string | null
+): Promise<PlaybackProgramStep[] | null> {
+  let id = programId ?? null;
+  if (!id) {
+    const { data, error } = await supabase.from("users").select("playback_program_id").eq("id", userId).maybeSingle();
+    if (error) {
+      throw new Error(`Failed to fetch selected playback program: ${error.message}`);
+    }
+    id = data?.playback_program_id ?? null;
+    if (!id) {
+      return [...DEFAULT_PLAYBACK_PROGRAM];
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("playback_programs")
+    .select("steps")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to fetch playback program: ${error.message}`);
+  }
+  if (!data) {
+    return programId ? null : [...DEFAULT_PLAYBACK_PROGRAM];
+  }
+  return parsePlaybackProgramSteps(data.steps);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { toPlaybackSpeed, validatePlaybackState } from "./playback-state";
+import type { PlaybackSpeed, VoiceSlot } from "../types";
+
+const PHRASE_ID = "3f0c2a8e-5b7d-4c1a-9e2f-6a8b0c4d2e1f";
+
+describe("validatePlaybackState", () => {
+  it("keeps only the position fields and defaults the slot to null", () => {
+    const command = { phrase_id: PHRASE_ID, speed: 0.9 as PlaybackSpeed, extra: true };
+
+    expect(validatePlaybackState(command)).toEqual({ phrase_id: PHRASE_ID, voice_slot: null, speed: 0.9 });
+  });
+
+  it("rejects unknown slots, unsupported speeds and missing phrases", () => {
+    expect(() => validatePlaybackState({ phrase_id: PHRASE_ID, voice_slot: "EN4" as VoiceSlot, speed: 1 })).toThrow(
+      "voice_slot must be one of"
+    );
+    expect(() => validatePlaybackState({ phrase_id: PHRASE_ID, speed: 2 as PlaybackSpeed })).toThrow(
+      "speed must be one of"
+    );
+    expect(() => validatePlaybackState({ phrase_id: "57", speed: 1 })).toThrow("Invalid Phrase ID");
+  });
+});
+
+describe("toPlaybackSpeed", () => {
+  it("reads numeric column values and falls back to 1x", () => {
+    expect(toPlaybackSpeed(1.25)).toBe(1.25);
+    expect(toPlaybackSpeed("0.75" as unknown as number)).toBe(0.75);
+    expect(toPlaybackSpeed(3)).toBe(1);
+  });
+});
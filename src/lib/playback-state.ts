@@ -0,0 +1,33 @@
+import type { PlaybackSpeed, UpdatePlaybackStateCommand, VoiceSlot } from "../types";
+import { ApiErrors } from "./errors";
+import { validateUUID } from "./validation.service";
+
+export const PLAYBACK_SPEEDS: readonly PlaybackSpeed[] = [0.75, 0.9, 1, 1.25];
+
+/** How often the player saves its position while playing; it also saves on pause and when hidden */
+export const PLAYBACK_STATE_SAVE_INTERVAL_MS = 15_000;
+
+const VOICE_SLOTS: readonly VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
+
+/**
+ * Validates a playback position from a request.
+ * @throws ApiError (validation_error) for a missing phrase, an unknown slot or an unsupported speed
+ */
+export function validatePlaybackState(command: UpdatePlaybackStateCommand): UpdatePlaybackStateCommand {
+  validateUUID(command.phrase_id, "Phrase ID");
+
+  const voiceSlot = command.voice_slot ?? null;
+  if (voiceSlot !== null && !VOICE_SLOTS.includes(voiceSlot)) {
+    throw ApiErrors.validationError(`voice_slot must be one of: ${VOICE_SLOTS.join(", ")}`);
+  }
+  if (!PLAYBACK_SPEEDS.includes(command.speed)) {
+    throw ApiErrors.validationError(`speed must be one of: ${PLAYBACK_SPEEDS.join(", ")}`);
+  }
+
+  return { phrase_id: command.phrase_id, voice_slot: voiceSlot, speed: command.speed };
+}
+
+/** Saved speeds come back from numeric columns; anything unexpected plays at 1x */
+export function toPlaybackSpeed(value: number): PlaybackSpeed {
+  return PLAYBACK_SPEEDS.find((speed) => speed === Number(value)) ?? 1;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { summarizeRebuildEstimate, type EstimatedSegment } from "./rebuild-estimate";
+
+describe("summarizeRebuildEstimate", () => {
+  const segments: EstimatedSegment[] = [
+    { slot: "EN1", voiceId: "en-US-Neural2-C", characters: 40, source: "synthesize" },
+    { slot: "EN1", voiceId: "en-US-Neural2-C", characters: 25, source: "reuse" },
+    { slot: "PL", voiceId: "pl-PL-Standard-A", characters: 30, source: "synthesize" },
+    { slot: "PL", voiceId: "pl-PL-Standard-A", characters: 30, source: "cache" },
+  ];
+
+  it("counts segments by source and prices only the ones to synthesize", () => {
+    const estimate = summarizeRebuildEstimate(2, segments, { limit: null, usedCharacters: 0 });
+
+    expect(estimate).toMatchObject({
+      phrase_count: 2,
+      total_segments: 4,
+      reused_segments: 1,
+      cached_segments: 1,
+      segments_to_synthesize: 2,
+      total_characters: 70,
+      monthly_char_limit: null,
+      remaining_characters: null,
+    });
+    expect(estimate.slots).toEqual([
+      {
+        slot: "EN1",
+        voice_id: "en-US-Neural2-C",
+        tier: "neural2",
+        segments: 1,
+        characters: 40,
+        estimated_cost_usd: 0.0006,
+      },
+      {
+        slot: "PL",
+        voice_id: "pl-PL-Standard-A",
+        tier: "standard",
+        segments: 1,
+        characters: 30,
+        estimated_cost_usd: 0.0001,
+      },
+    ]);
+    expect(estimate.estimated_cost_usd).toBe(0.0007);
+  });
+
+  it("reports the characters left under the monthly limit", () => {
+    const estimate = summarizeRebuildEstimate(2, segments, { limit: 1000, usedCharacters: 980 });
+    expect(estimate.remaining_characters).toBe(20);
+
+    expect(summarizeRebuildEstimate(0, [], { limit: 1000, usedCharacters: 1200 }).remaining_characters).toBe(0);
+  });
+});
@@ -0,0 +1,241 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import type { RebuildEstimateDTO, SlotEstimateDTO, VoiceSlot } from "../types";
+import { cleanMarkdownForTts } from "./utils";
+import { computeAudioCacheKey } from "./audio-cache";
+import { describeAudioPostProcessing, type AudioPostProcessOptions } from "./audio-postprocess";
+import { computeSegmentFingerprint, toVoiceAudioSettings } from "./voice-settings";
+import { countBilledCharacters, estimateTtsCost, getVoiceTier, TtsUsageMeter } from "./tts-usage";
+import { buildSynthesisSsml, describePronunciations, getPronunciationRules, loadPronunciationLexicon } from "./lexicon";
+import { resolvePhraseTokens } from "./ssml";
+import { describeAudioFormat, loadUserAudioFormat } from "./audio-format";
+
+/**
+ * Dry run of a GENERATE_REBUILD: walks the same phrase × voice pairs as the job worker and decides
+ * for each whether it would be reused from the current build, copied from the audio cache or sent
+ * to the TTS provider, without writing anything.
+ */
+export type EstimatedSegmentSource = "reuse" | "cache" | "synthesize";
+
+export interface EstimatedSegment {
+  slot: VoiceSlot;
+  voiceId: string;
+  /** Characters sent to the provider (markdown removed) */
+  characters: number;
+  source: EstimatedSegmentSource;
+}
+
+interface EstimateOptions {
+  /** User-scoped client: phrases, voices, segments and usage are read under RLS */
+  supabase: SupabaseClient<Database>;
+  /** Service-role client for the shared audio cache; without it every non-reused segment counts as synthesized */
+  cacheSupabase: SupabaseClient<Database> | null;
+  userId: string;
+  notebookId: string;
+  ttsProviderName: string;
+  postProcess: AudioPostProcessOptions;
+}
+
+const SEGMENT_PAGE_SIZE = 1000;
+// Cache keys per lookup, keeping the PostgREST URL short
+const CACHE_LOOKUP_BATCH_SIZE = 100;
+
+/** Totals the estimated segments per voice slot and prices the characters to synthesize. */
+export function summarizeRebuildEstimate(
+  phraseCount: number,
+  segments: EstimatedSegment[],
+  usage: { limit: number | null; usedCharacters: number }
+): RebuildEstimateDTO {
+  const slots = new Map<VoiceSlot, SlotEstimateDTO>();
+  for (const segment of segments) {
+    const slot = slots.get(segment.slot) ?? {
+      slot: segment.slot,
+      voice_id: segment.voiceId,
+      tier: getVoiceTier(segment.voiceId),
+      segments: 0,
+      characters: 0,
+      estimated_cost_usd: 0,
+    };
+    if (segment.source === "synthesize") {
+      slot.segments++;
+      slot.characters += segment.characters;
+    }
+    slots.set(segment.slot, slot);
+  }
+
+  const slotEstimates = Array.from(slots.values())
+    .map((slot) => ({ ...slot, estimated_cost_usd: estimateTtsCost(slot.voice_id, slot.characters) }))
+    .sort((a, b) => a.slot.localeCompare(b.slot));
+  const count = (source: EstimatedSegmentSource) => segments.filter((segment) => segment.source === source).length;
+
+  return {
+    phrase_count: phraseCount,
+    total_segments: segments.length,
+    reused_segments: count("reuse"),
+    cached_segments: count("cache"),
+    segments_to_synthesize: count("synthesize"),
+    total_characters: slotEstimates.reduce((sum, slot) => sum + slot.characters, 0),
+    estimated_cost_usd:
+      Math.round(slotEstimates.reduce((sum, slot) => sum + slot.estimated_cost_usd, 0) * 10_000) / 10_000,
+    slots: slotEstimates,
+    monthly_char_limit: usage.limit,
+    remaining_characters: usage.limit === null ? null : Math.max(usage.limit - usage.usedCharacters, 0),
+  };
+}
+
+async function loadCurrentFingerprints(
+  supabase: SupabaseClient<Database>,
+  buildId: string | null
+): Promise<Map<string, string>> {
+  const fingerprints = new Map<string, string>();
+  for (let offset = 0; buildId; offset += SEGMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("audio_segments")
+      .select("phrase_id, voice_slot, fingerprint")
+      .eq("build_id", buildId)
+      .eq("status", "complete")
+      .not("fingerprint", "is", null)
+      .order("id")
+      .range(offset, offset + SEGMENT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch audio segments: ${error.message}`);
+    }
+    for (const segment of data || []) {
+      fingerprints.set(`${segment.phrase_id}:${segment.voice_slot}`, segment.fingerprint ?? "");
+    }
+    if (!data || data.length < SEGMENT_PAGE_SIZE) {
+      break;
+    }
+  }
+  return fingerprints;
+}
+
+async function loadCachedKeys(supabase: SupabaseClient<Database> | null, keys: string[]): Promise<Set<string>> {
+  const cached = new Set<string>();
+  if (!supabase) {
+    return cached;
+  }
+  for (let i = 0; i < keys.length; i += CACHE_LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("audio_cache")
+      .select("cache_key")
+      .in("cache_key", keys.slice(i, i + CACHE_LOOKUP_BATCH_SIZE));
+
+    // The cache is best-effort; a failed lookup only makes the estimate more conservative
+    if (error) {
+      return cached;
+    }
+    for (const entry of data || []) {
+      cached.add(entry.cache_key);
+    }
+  }
+  return cached;
+}
+
+/**
+ * Estimates a rebuild of the notebook. Returns null when the notebook is not found for the user.
+ */
+export async function estimateRebuild({
+  supabase,
+  cacheSupabase,
+  userId,
+  notebookId,
+  ttsProviderName,
+  postProcess,
+}: EstimateOptions): Promise<RebuildEstimateDTO | null> {
+  const { data: notebook, error: notebookError } = await supabase
+    .from("notebooks")
+    .select("current_build_id")
+    .eq("id", notebookId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (notebookError) {
+    throw new Error(`Failed to fetch notebook: ${notebookError.message}`);
+  }
+  if (!notebook) {
+    return null;
+  }
+
+  const [{ data: phrases, error: phrasesError }, { data: voices, error: voicesError }] = await Promise.all([
+    supabase.from("phrases").select("id, en_text, pl_text, tokens").eq("notebook_id", notebookId).order("position"),
+    supabase
+      .from("user_voices")
+      .select("slot, language, voice_id, speaking_rate, pitch, volume_gain_db")
+      .eq("user_id", userId)
+      .order("slot"),
+  ]);
+
+  if (phrasesError || voicesError) {
+    throw new Error(`Failed to load notebook content: ${(phrasesError ?? voicesError)?.message}`);
+  }
+
+  const [fingerprints, usage, lexicon, audioFormat] = await Promise.all([
+    loadCurrentFingerprints(supabase, notebook.current_build_id),
+    TtsUsageMeter.load(supabase, userId),
+    loadPronunciationLexicon(supabase, userId),
+    loadUserAudioFormat(supabase, userId),
+  ]);
+  const postProcessing = describeAudioPostProcessing(postProcess);
+  const audioFormatDescription = describeAudioFormat(audioFormat);
+
+  const pairs = await Promise.all(
+    (phrases || []).flatMap((phrase) =>
+      (voices || [])
+        .filter((voice) => (voice.language === "en" ? phrase.en_text : phrase.pl_text)?.trim())
+        .map(async (voice) => {
+          const rawText = (voice.language === "en" ? phrase.en_text : phrase.pl_text) ?? "";
+          const text = cleanMarkdownForTts(rawText);
+          const settings = toVoiceAudioSettings(voice);
+          const pronunciations = getPronunciationRules(lexicon, voice.language);
+          const pronunciation = describePronunciations(rawText, pronunciations);
+          const ssml = buildSynthesisSsml(rawText, resolvePhraseTokens(phrase, voice.language), pronunciations);
+          const fingerprint = await computeSegmentFingerprint({
+            provider: ttsProviderName,
+            text: rawText,
+            voiceId: voice.voice_id,
+            language: voice.language,
+            settings,
+            postProcessing,
+            pronunciation,
+            audioFormat: audioFormatDescription,
+          });
+          return {
+            slot: voice.slot,
+            voiceId: voice.voice_id,
+            characters: countBilledCharacters(text, ssml),
+            reusable: fingerprints.get(`${phrase.id}:${voice.slot}`) === fingerprint,
+            cacheKey: await computeAudioCacheKey(ttsProviderName, {
+              text,
+              ssml,
+              voiceId: voice.voice_id,
+              language: voice.language,
+              audioSettings: settings,
+              pronunciation,
+              audioFormat,
+            }),
+          };
+        })
+    )
+  );
+
+  const cachedKeys = await loadCachedKeys(
+    cacheSupabase,
+    Array.from(new Set(pairs.filter((pair) => !pair.reusable).map((pair) => pair.cacheKey)))
+  );
+
+  // Identical text and voice within the rebuild is synthesized once and then served from the cache
+  const segments: EstimatedSegment[] = pairs.map(({ slot, voiceId, characters, reusable, cacheKey }) => {
+    if (reusable) {
+      return { slot, voiceId, characters, source: "reuse" };
+    }
+    if (cachedKeys.has(cacheKey)) {
+      return { slot, voiceId, characters, source: "cache" };
+    }
+    cachedKeys.add(cacheKey);
+    return { slot, voiceId, characters, source: "synthesize" };
+  });
+
+  return summarizeRebuildEstimate((phrases || []).length, segments, usage);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { selectTakesToPrune } from "./shadow-takes";
+
+const take = (id: string, createdAt: number, uploaded = false) => ({ id, createdAt, uploaded });
+
+describe("selectTakesToPrune", () => {
+  it("keeps everything within the limit", () => {
+    expect(selectTakesToPrune([take("a", 1), take("b", 2)], 2)).toEqual([]);
+  });
+
+  it("drops the oldest takes first", () => {
+    expect(selectTakesToPrune([take("c", 3), take("a", 1), take("b", 2)], 1)).toEqual(["a", "b"]);
+  });
+
+  it("never drops the uploaded take", () => {
+    expect(selectTakesToPrune([take("a", 1, true), take("b", 2), take("c", 3)], 2)).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Shadowing takes recorded in the player, kept in the browser (IndexedDB) per phrase.
+ * Only the take the learner picks as best is uploaded (PUT /api/phrases/:phraseId/recording).
+ */
+import type { VoiceSlot } from "../types";
+
+export interface ShadowTake {
+  id: string;
+  phraseId: string;
+  /** Segment the learner repeated */
+  slot: VoiceSlot;
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  createdAt: number;
+  /** Whether this take is the one uploaded as the phrase's best take */
+  uploaded: boolean;
+}
+
+export const MAX_TAKES_PER_PHRASE = 10;
+
+const DB_NAME = "phrase-follower";
+const DB_VERSION = 1;
+const STORE_NAME = "shadow-takes";
+const PHRASE_INDEX = "phraseId";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex(PHRASE_INDEX, "phraseId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+/**
+ * Takes to delete so a phrase keeps at most `max` takes: the oldest go first, the uploaded take is kept.
+ */
+export function selectTakesToPrune(takes: Pick<ShadowTake, "id" | "createdAt" | "uploaded">[], max: number): string[] {
+  const removable = takes.filter((take) => !take.uploaded).sort((a, b) => a.createdAt - b.createdAt);
+  const excess = takes.length - max;
+  return excess > 0 ? removable.slice(0, excess).map((take) => take.id) : [];
+}
+
+/** Takes of a phrase, newest first */
+export async function listShadowTakes(phraseId: string): Promise<ShadowTake[]> {
+  const store = await getStore("readonly");
+  const takes = await toPromise<ShadowTake[]>(store.index(PHRASE_INDEX).getAll(phraseId));
+  return takes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveShadowTake(
+  take: Pick<ShadowTake, "phraseId" | "slot" | "blob" | "mimeType" | "durationMs">
+): Promise<ShadowTake> {
+  const saved: ShadowTake = { ...take, id: crypto.randomUUID(), createdAt: Date.now(), uploaded: false };
+  await toPromise((await getStore("readwrite")).add(saved));
+
+  const stale = selectTakesToPrune(await listShadowTakes(take.phraseId), MAX_TAKES_PER_PHRASE);
+  if (stale.length > 0) {
+    const store = await getStore("readwrite");
+    await Promise.all(stale.map((id) => toPromise(store.delete(id))));
+  }
+  return saved;
+}
+
+export async function deleteShadowTake(id: string): Promise<void> {
+  await toPromise((await getStore("readwrite")).delete(id));
+}
+
+/** Flags the take as the uploaded best take of its phrase (and no other take) */
+export async function markShadowTakeUploaded(take: ShadowTake): Promise<void> {
+  const takes = await listShadowTakes(take.phraseId);
+  const store = await getStore("readwrite");
+  await Promise.all(
+    takes
+      .filter((item) => item.uploaded !== (item.id === take.id))
+      .map((item) => toPromise(store.put({ ...item, uploaded: item.id === take.id })))
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPronunciations,
+  buildMarkedSsml,
+  buildWordTimings,
+  findPronunciations,
+  parseSsmlMarks,
+  resolvePhraseTokens,
+} from "./ssml";
+import { createBasicTokens } from "./import.service";
+
+describe("ssml word marks", () => {
+  it("wraps every token in a mark and strips markdown", () => {
+    const text = "I **really** like R&D";
+    const tokens = createBasicTokens(text, "").en;
+
+    expect(buildMarkedSsml(text, tokens)).toBe(
+      '<speak><mark name="t0"/>I <mark name="t1"/>really <mark name="t2"/>like <mark name="t3"/>R&amp;D</speak>'
+    );
+  });
+
+  it("builds one timing per token, ending the last at the segment duration", () => {
+    const tokens = createBasicTokens("one two three", "").en;
+    const timings = buildWordTimings(
+      tokens,
+      [
+        { markName: "t0", timeSeconds: 0.05 },
+        { markName: "t1", timeSeconds: 0.4 },
+        { markName: "t2", timeSeconds: 0.9 },
+      ],
+      1500
+    );
+
+    expect(timings).toEqual([
+      { word: "one", start_ms: 50, end_ms: 400 },
+      { word: "two", start_ms: 400, end_ms: 900 },
+      { word: "three", start_ms: 900, end_ms: 1500 },
+    ]);
+  });
+
+  it("returns null when the provider reported no timepoints", () => {
+    expect(buildWordTimings(createBasicTokens("hello", "").en, [])).toBeNull();
+  });
+
+  it("re-tokenizes when stored tokens no longer match the text", () => {
+    const phrase = {
+      en_text: "new text",
+      pl_text: "nowy tekst",
+      tokens: createBasicTokens("old", "stary") as never,
+    };
+
+    expect(resolvePhraseTokens(phrase, "en").map((token) => token.text)).toEqual(["new", "text"]);
+  });
+
+  it("parses marks with the spoken text offset before each", () => {
+    expect(parseSsmlMarks('<speak><mark name="t0"/>a &amp; <mark name="t1"/>b</speak>')).toEqual([
+      { markName: "t0", charOffset: 0 },
+      { markName: "t1", charOffset: 4 },
+    ]);
+  });
+});
+
+describe("ssml pronunciations", () => {
+  const rules = [
+    { term: "NASA", alias: "nasa", phoneme: null },
+    { term: "Kraków", alias: null, phoneme: "ˈkrakuf" },
+    { term: "U.S.", alias: "United States", phoneme: null },
+  ];
+
+  it("wraps whole-word matches in sub and phoneme, keeping the original spelling", () => {
+    expect(applyPronunciations("From kraków to nasa & the U.S.", rules)).toBe(
+      'From <phoneme alphabet="ipa" ph="ˈkrakuf">kraków</phoneme> to <sub alias="nasa">nasa</sub> &amp; the ' +
+        '<sub alias="United States">U.S.</sub>'
+    );
+  });
+
+  it("ignores terms inside longer words", () => {
+    expect(applyPronunciations("NASAs Krakówek", rules)).toBe("NASAs Krakówek");
+    expect(findPronunciations("NASAs Krakówek", rules)).toEqual([]);
+  });
+
+  it("applies rules inside marked tokens", () => {
+    const text = "Visit Kraków";
+    expect(buildMarkedSsml(text, createBasicTokens(text, "").en, rules)).toBe(
+      '<speak><mark name="t0"/>Visit <mark name="t1"/><phoneme alphabet="ipa" ph="ˈkrakuf">Kraków</phoneme></speak>'
+    );
+  });
+
+  it("lists each matching rule once", () => {
+    expect(findPronunciations("NASA and nasa in Kraków", rules)).toEqual([rules[0], rules[1]]);
+  });
+});
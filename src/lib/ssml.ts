@@ -0,0 +1,225 @@
+import type { Json } from "../db/database.types";
+import type { PhraseToken, PhraseTokens, PronunciationRule, WordTiming } from "../types";
+import { createBasicTokens } from "./import.service";
+import { cleanMarkdownForTts } from "./utils";
+
+/**
+ * SSML helpers for synthesis with word timepoints.
+ *
+ * Each token from `phrases.tokens` is preceded by `<mark name="t{index}"/>`, so the provider
+ * reports when every word starts. Mark indices match token indices, which is what the player
+ * expects when it pairs `word_timings[i]` with `tokens[i]` for highlighting and click-to-seek.
+ * Pronunciation lexicon terms are wrapped in `<sub>`/`<phoneme>` inside the token they belong to.
+ */
+
+export interface SsmlTimepoint {
+  markName: string;
+  timeSeconds: number;
+}
+
+const MARK_PREFIX = "t";
+
+// Fallback length of the last word when the segment duration is unknown
+const DEFAULT_LAST_WORD_MS = 400;
+
+export function escapeSsml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Returns the tokens of the synthesized language for a phrase.
+ * Falls back to basic tokenization when the stored tokens are missing or no longer match the text.
+ */
+export function resolvePhraseTokens(
+  phrase: { en_text: string; pl_text: string; tokens: Json | null },
+  language: string
+): PhraseToken[] {
+  const isEn = language === "en";
+  const rawText = isEn ? phrase.en_text : phrase.pl_text;
+  const stored = (phrase.tokens as unknown as PhraseTokens | null)?.[isEn ? "en" : "pl"];
+
+  if (
+    Array.isArray(stored) &&
+    stored.length > 0 &&
+    stored.every((token) => rawText.slice(token.start, token.end) === token.text)
+  ) {
+    return stored;
+  }
+
+  const basic = createBasicTokens(phrase.en_text, phrase.pl_text);
+  return isEn ? basic.en : basic.pl;
+}
+
+function compilePronunciations(rules: PronunciationRule[]): RegExp | null {
+  if (rules.length === 0) {
+    return null;
+  }
+  // Longest terms first, so "U.S.A." wins over "U.S."
+  const terms = rules
+    .map((rule) => rule.term)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+/**
+ * Returns the lexicon rules whose term occurs in the text as a whole word (case-insensitive),
+ * in order of first occurrence.
+ */
+export function findPronunciations(text: string, rules: PronunciationRule[]): PronunciationRule[] {
+  const pattern = compilePronunciations(rules);
+  if (!pattern) {
+    return [];
+  }
+  const byTerm = new Map(rules.map((rule) => [rule.term.toLowerCase(), rule]));
+  const found = new Set<PronunciationRule>();
+  for (const match of text.matchAll(pattern)) {
+    const rule = byTerm.get(match[0].toLowerCase());
+    if (rule) {
+      found.add(rule);
+    }
+  }
+  return Array.from(found);
+}
+
+/**
+ * Escapes text for SSML and wraps lexicon terms: `<sub alias="…">` for aliases,
+ * `<phoneme alphabet="ipa" ph="…">` for IPA pronunciations. The original spelling stays inside the tag.
+ */
+export function applyPronunciations(text: string, rules: PronunciationRule[]): string {
+  const pattern = compilePronunciations(rules);
+  if (!pattern) {
+    return escapeSsml(text);
+  }
+  const byTerm = new Map(rules.map((rule) => [rule.term.toLowerCase(), rule]));
+  let ssml = "";
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    const term = match[0];
+    const rule = byTerm.get(term.toLowerCase());
+    ssml += escapeSsml(text.slice(cursor, match.index));
+    if (rule?.phoneme) {
+      ssml += `<phoneme alphabet="ipa" ph="${escapeSsml(rule.phoneme)}">${escapeSsml(term)}</phoneme>`;
+    } else if (rule?.alias) {
+      ssml += `<sub alias="${escapeSsml(rule.alias)}">${escapeSsml(term)}</sub>`;
+    } else {
+      ssml += escapeSsml(term);
+    }
+    cursor = match.index + term.length;
+  }
+  return ssml + escapeSsml(text.slice(cursor));
+}
+
+/**
+ * Builds an SSML document with a mark before every token.
+ * Whitespace between tokens is kept; markdown markers are stripped per token like for plain TTS.
+ * @param rawText - Phrase text as stored (may contain markdown)
+ * @param tokens - Character-indexed tokens of `rawText`
+ * @param pronunciations - Lexicon rules of the text's language
+ */
+export function buildMarkedSsml(
+  rawText: string,
+  tokens: PhraseToken[],
+  pronunciations: PronunciationRule[] = []
+): string {
+  let body = "";
+  let cursor = 0;
+
+  tokens.forEach((token, index) => {
+    if (token.start > cursor) {
+      body += rawText.slice(cursor, token.start).replace(/\s+/g, " ");
+    }
+    const spoken = cleanMarkdownForTts(rawText.slice(token.start, token.end));
+    body += `<mark name="${MARK_PREFIX}${index}"/>${applyPronunciations(spoken, pronunciations)}`;
+    cursor = Math.max(cursor, token.end);
+  });
+
+  return `<speak>${body.trim()}</speak>`;
+}
+
+/**
+ * Converts provider timepoints into one `WordTiming` per token.
+ * A word ends where the next one starts; the last word ends at the segment duration when known.
+ * Tokens without a timepoint (e.g. punctuation the provider skipped) inherit the previous start.
+ */
+export function buildWordTimings(
+  tokens: PhraseToken[],
+  timepoints: SsmlTimepoint[],
+  durationMs?: number | null
+): WordTiming[] | null {
+  if (tokens.length === 0 || timepoints.length === 0) {
+    return null;
+  }
+
+  const startByIndex = new Map<number, number>();
+  for (const timepoint of timepoints) {
+    if (!timepoint.markName.startsWith(MARK_PREFIX)) continue;
+    const index = Number(timepoint.markName.slice(MARK_PREFIX.length));
+    if (Number.isInteger(index)) {
+      startByIndex.set(index, Math.round(timepoint.timeSeconds * 1000));
+    }
+  }
+
+  const starts: number[] = [];
+  let previous = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const start = startByIndex.get(i) ?? previous;
+    starts.push(start);
+    previous = start;
+  }
+
+  return tokens.map((token, i) => {
+    const start = starts[i];
+    let end: number;
+    if (i + 1 < tokens.length) {
+      end = starts[i + 1];
+    } else if (durationMs && durationMs > start) {
+      end = durationMs;
+    } else {
+      end = start + DEFAULT_LAST_WORD_MS;
+    }
+    return { word: token.text, start_ms: start, end_ms: Math.max(start, end) };
+  });
+}
+
+/**
+ * Extracts marks and the spoken text preceding each of them from an SSML document.
+ * Used by providers that compute timepoints themselves (local provider).
+ */
+export function parseSsmlMarks(ssml: string): { markName: string; charOffset: number }[] {
+  const marks: { markName: string; charOffset: number }[] = [];
+  let spokenLength = 0;
+  const pattern = /<mark\s+name="([^"]*)"\s*\/>|<[^>]+>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(ssml)) !== null) {
+    if (match[1] !== undefined) {
+      marks.push({ markName: match[1], charOffset: spokenLength });
+    } else if (match[2] !== undefined) {
+      spokenLength += unescapeSsml(match[2]).length;
+    }
+  }
+
+  return marks;
+}
+
+/**
+ * Returns the spoken text of an SSML document (tags removed, entities decoded).
+ */
+export function ssmlToPlainText(ssml: string): string {
+  return unescapeSsml(ssml.replace(/<[^>]+>/g, ""));
+}
+
+function unescapeSsml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
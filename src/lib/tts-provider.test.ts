@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createTtsProvider,
+  GoogleTtsProvider,
+  LocalTtsProvider,
+  toTtsApiError,
+  TtsProviderError,
+} from "./tts-provider";
+
+describe("tts providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("local provider produces deterministic MP3 frames proportional to text length", async () => {
+    const provider = new LocalTtsProvider();
+    const short = await provider.synthesize({ text: "Hi", voiceId: "local-en-1", language: "en-US" });
+    const long = await provider.synthesize({
+      text: "This is a considerably longer sentence for the local provider.",
+      voiceId: "local-en-1",
+      language: "en-US",
+    });
+    const again = await provider.synthesize({ text: "Hi", voiceId: "local-en-1", language: "en-US" });
+
+    expect(Array.from(short.audio.slice(0, 4))).toEqual([0xff, 0xf3, 0x80, 0xc4]);
+    expect(short.audio.length % 208).toBe(0);
+    expect(long.audio.length).toBeGreaterThan(short.audio.length);
+    expect(again.audio).toEqual(short.audio);
+  });
+
+  it("local provider filters voices by language prefix", async () => {
+    const voices = await new LocalTtsProvider().listVoices("pl");
+    expect(voices.map((voice) => voice.name)).toEqual(["local-pl-1"]);
+  });
+
+  it("google provider maps HTTP failures to TTS error codes", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ({ ok: false, status: 402 }))
+    );
+
+    await expect(
+      new GoogleTtsProvider("key").synthesize({ text: "hello", voiceId: "en-US-Standard-A", language: "en-US" })
+    ).rejects.toThrow("quota_exceeded");
+  });
+
+  it("google provider reports 429 as quota_exceeded with the Retry-After delay", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ({ ok: false, status: 429, headers: new Headers({ "retry-after": "7" }) }))
+    );
+
+    const error = await new GoogleTtsProvider("key")
+      .synthesize({ text: "hello", voiceId: "en-US-Standard-A", language: "en-US" })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TtsProviderError);
+    expect((error as TtsProviderError).message).toBe("quota_exceeded");
+    expect((error as TtsProviderError).retryAfterMs).toBe(7000);
+  });
+
+  it("google provider reports 400 as tts_error with the provider message, not as a bad key", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ({
+        ok: false,
+        status: 400,
+        json: async () => ({
+          error: { code: 400, message: "Invalid SSML: unclosed <prosody>", status: "INVALID_ARGUMENT" },
+        }),
+      }))
+    );
+
+    const error = await new GoogleTtsProvider("key")
+      .synthesize({ text: "hello", voiceId: "en-US-Standard-A", language: "en-US", ssml: "<speak><prosody>" })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TtsProviderError);
+    expect((error as TtsProviderError).message).toBe("tts_error");
+    expect((error as TtsProviderError).detail).toBe("Invalid SSML: unclosed <prosody>");
+    expect(toTtsApiError(error, "Failed to synthesize").message).toBe(
+      "Failed to synthesize: Invalid SSML: unclosed <prosody>"
+    );
+  });
+
+  it("google provider reports 401 and 403 as invalid_key", async () => {
+    for (const status of [401, 403]) {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => ({ ok: false, status }))
+      );
+      await expect(new GoogleTtsProvider("key").listVoices()).rejects.toThrow("invalid_key");
+    }
+  });
+
+  it("google provider reports a request without a response as a network error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      })
+    );
+
+    await expect(
+      new GoogleTtsProvider("key").synthesize({ text: "hello", voiceId: "en-US-Standard-A", language: "en-US" })
+    ).rejects.toThrow("network");
+  });
+
+  it("createTtsProvider requires a key only for google", () => {
+    expect(createTtsProvider("local", null).name).toBe("local");
+    expect(() => createTtsProvider("google", null)).toThrow("TTS credentials not configured");
+  });
+
+  it("toTtsApiError maps provider codes to API errors", () => {
+    expect(toTtsApiError(new Error("invalid_key")).code).toBe("invalid_key");
+    expect(toTtsApiError(new Error("tts_error")).code).toBe("internal");
+  });
+});
@@ -0,0 +1,338 @@
+import type { APIContext } from "astro";
+import { ApiErrors, type ApiError } from "./errors";
+import { parseSsmlMarks, ssmlToPlainText, type SsmlTimepoint } from "./ssml";
+import { DEFAULT_VOICE_AUDIO_SETTINGS, type VoiceAudioSettings } from "./voice-settings";
+import { DEFAULT_AUDIO_FORMAT, type AudioFormat } from "./audio-format";
+import { createSilentOggOpus } from "./ogg-opus";
+import { createSilentMp3 } from "./mp3";
+
+// Minimal Buffer compatibility layer for environments without Node Buffer (e.g., Cloudflare Workers)
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const BufferCompat: any =
+  typeof Buffer !== "undefined"
+    ? Buffer
+    : {
+        from(input: string | ArrayBuffer | Uint8Array | ArrayLike<number>, encoding?: string) {
+          if (typeof input === "string") {
+            if (encoding === "base64") {
+              const binary = atob(input);
+              const bytes = new Uint8Array(binary.length);
+              for (let i = 0; i < binary.length; i++) {
+                bytes[i] = binary.charCodeAt(i);
+              }
+              return bytes;
+            }
+            const encoder = new TextEncoder();
+            return encoder.encode(input);
+          }
+
+          if (input instanceof ArrayBuffer) {
+            return new Uint8Array(input);
+          }
+
+          if (input instanceof Uint8Array) {
+            return input;
+          }
+
+          return new Uint8Array(input as ArrayLike<number>);
+        },
+      };
+
+/**
+ * TTS provider abstraction shared by the job worker and incremental audio generation.
+ *
+ * Providers throw plain `Error`s whose message is one of the TTS error codes
+ * (`invalid_key`, `quota_exceeded`, `tts_timeout`, `tts_error`), which callers
+ * persist as `audio_segments.error_code`.
+ */
+export type TtsProviderName = "google" | "local";
+
+export const TTS_PROVIDER_NAMES: readonly TtsProviderName[] = ["google", "local"];
+
+export interface TtsSynthesisRequest {
+  text: string;
+  voiceId: string;
+  language: string;
+  /** SSML with `<mark>` tags and lexicon `<sub>`/`<phoneme>`; when set, it is synthesized instead of `text` */
+  ssml?: string;
+  /** Per-voice speaking rate, pitch and volume; defaults to neutral settings */
+  audioSettings?: VoiceAudioSettings;
+  /** Lexicon rules applied in `ssml` (see `describePronunciations`); only used to key the audio cache */
+  pronunciation?: string | null;
+  /** Encoding and sample rate of the output; defaults to MP3 at 22050 Hz */
+  audioFormat?: AudioFormat;
+}
+
+export interface TtsSynthesisResult {
+  audio: Uint8Array;
+  timepoints: SsmlTimepoint[];
+}
+
+export interface TtsVoice {
+  name: string;
+  languageCodes: string[];
+  ssmlGender: string;
+  naturalSampleRateHertz: number;
+}
+
+export interface TtsKeyValidationResult {
+  ok: boolean;
+  voice_sampled: string;
+}
+
+export interface TtsProvider {
+  readonly name: TtsProviderName;
+  synthesize(request: TtsSynthesisRequest): Promise<TtsSynthesisResult>;
+  listVoices(languageCode?: string): Promise<TtsVoice[]>;
+  validateKey(): Promise<TtsKeyValidationResult>;
+}
+
+const GOOGLE_TTS_BASE_URL = "https://texttospeech.googleapis.com/v1";
+// SSML mark timepoints are only available in the v1beta1 synthesize API
+const GOOGLE_TTS_BETA_URL = "https://texttospeech.googleapis.com/v1beta1";
+
+/**
+ * Provider failure carrying the TTS error code as its message, plus the HTTP status when known,
+ * so schedulers can tell transient failures (5xx, 429) from permanent ones. `detail` is the
+ * provider's own explanation (e.g. which SSML tag it rejected), when it sent one.
+ */
+export class TtsProviderError extends Error {
+  public readonly status: number | null;
+  public readonly retryAfterMs: number | null;
+  public readonly detail: string | null;
+
+  constructor(
+    code: string,
+    status: number | null = null,
+    retryAfterMs: number | null = null,
+    detail: string | null = null
+  ) {
+    super(code);
+    this.name = "TtsProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.detail = detail;
+  }
+}
+
+function googleErrorCode(status: number): string {
+  // 400 is INVALID_ARGUMENT (malformed SSML, unknown voice), not an authentication failure
+  if (status === 401 || status === 403) {
+    return "invalid_key";
+  }
+  // 429 is RESOURCE_EXHAUSTED: per-minute rate limits and daily quotas alike
+  if (status === 402 || status === 429) {
+    return "quota_exceeded";
+  }
+  if (status === 504) {
+    return "tts_timeout";
+  }
+  return "tts_error";
+}
+
+async function googleError(response: Response): Promise<TtsProviderError> {
+  const retryAfterSec = Number(response.headers?.get("retry-after"));
+  const retryAfterMs = Number.isFinite(retryAfterSec) && retryAfterSec > 0 ? retryAfterSec * 1000 : null;
+  // Google errors look like { error: { code, message, status } }
+  const body = (await response.json?.().catch(() => null)) as { error?: { message?: unknown } } | null;
+  const detail = typeof body?.error?.message === "string" ? body.error.message : null;
+  return new TtsProviderError(googleErrorCode(response.status), response.status, retryAfterMs, detail);
+}
+
+// fetch() rejects (with a TypeError) only when the request never got a response
+async function googleFetch(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch {
+    throw new TtsProviderError("network");
+  }
+}
+
+// Google Cloud Text-to-Speech (REST, API key auth)
+export class GoogleTtsProvider implements TtsProvider {
+  readonly name = "google" as const;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async synthesize({
+    text,
+    voiceId,
+    language,
+    ssml,
+    audioSettings = DEFAULT_VOICE_AUDIO_SETTINGS,
+    audioFormat = DEFAULT_AUDIO_FORMAT,
+  }: TtsSynthesisRequest): Promise<TtsSynthesisResult> {
+    const baseUrl = ssml ? GOOGLE_TTS_BETA_URL : GOOGLE_TTS_BASE_URL;
+    const response = await googleFetch(`${baseUrl}/text:synthesize`, {
+      method: "POST",
+      headers: {
+        "X-goog-api-key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        input: ssml ? { ssml } : { text },
+        voice: {
+          languageCode: language,
+          name: voiceId,
+        },
+        audioConfig: {
+          audioEncoding: audioFormat.encoding,
+          sampleRateHertz: audioFormat.sampleRateHz,
+          speakingRate: audioSettings.speaking_rate,
+          pitch: audioSettings.pitch,
+          volumeGainDb: audioSettings.volume_gain_db,
+        },
+        ...(ssml && { enableTimePointing: ["SSML_MARK"] }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await googleError(response);
+    }
+
+    const data = (await response.json()) as { audioContent: string; timepoints?: SsmlTimepoint[] };
+    return {
+      audio: BufferCompat.from(data.audioContent, "base64"),
+      timepoints: data.timepoints || [],
+    };
+  }
+
+  async listVoices(languageCode?: string): Promise<TtsVoice[]> {
+    const query = languageCode ? `?languageCode=${encodeURIComponent(languageCode)}` : "";
+    const response = await googleFetch(`${GOOGLE_TTS_BASE_URL}/voices${query}`, {
+      method: "GET",
+      headers: {
+        "X-goog-api-key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw await googleError(response);
+    }
+
+    const data = (await response.json()) as { voices?: TtsVoice[] };
+    return data.voices || [];
+  }
+
+  async validateKey(): Promise<TtsKeyValidationResult> {
+    const voices = await this.listVoices();
+    return { ok: true, voice_sampled: voices.length > 0 ? voices[0].name : "en-US-Standard-A" };
+  }
+}
+
+const LOCAL_MS_PER_CHAR = 60;
+const LOCAL_MIN_DURATION_MS = 400;
+
+const LOCAL_VOICES: TtsVoice[] = [
+  { name: "local-en-1", languageCodes: ["en-US"], ssmlGender: "FEMALE", naturalSampleRateHertz: 22050 },
+  { name: "local-en-2", languageCodes: ["en-GB"], ssmlGender: "MALE", naturalSampleRateHertz: 22050 },
+  { name: "local-en-3", languageCodes: ["en-AU"], ssmlGender: "FEMALE", naturalSampleRateHertz: 22050 },
+  { name: "local-pl-1", languageCodes: ["pl-PL"], ssmlGender: "MALE", naturalSampleRateHertz: 22050 },
+];
+
+/**
+ * Offline provider for development and tests.
+ * Produces deterministic, silent audio whose length scales with the text, so the whole
+ * generation pipeline (upload, segments, player) runs without network or a Google key.
+ * MP3 output is always 22050 Hz; Ogg Opus records the requested sample rate.
+ */
+export class LocalTtsProvider implements TtsProvider {
+  readonly name = "local" as const;
+
+  async synthesize({
+    text,
+    ssml,
+    audioSettings = DEFAULT_VOICE_AUDIO_SETTINGS,
+    audioFormat = DEFAULT_AUDIO_FORMAT,
+  }: TtsSynthesisRequest): Promise<TtsSynthesisResult> {
+    const spoken = ssml ? ssmlToPlainText(ssml) : text;
+    // Only the speaking rate affects the length of the (silent) output
+    const msPerChar = LOCAL_MS_PER_CHAR / audioSettings.speaking_rate;
+    const durationMs = Math.max(LOCAL_MIN_DURATION_MS, spoken.length * msPerChar);
+    const audio =
+      audioFormat.encoding === "OGG_OPUS"
+        ? createSilentOggOpus(durationMs, audioFormat.sampleRateHz)
+        : createSilentMp3(durationMs);
+
+    const timepoints = ssml
+      ? parseSsmlMarks(ssml).map(({ markName, charOffset }) => ({
+          markName,
+          timeSeconds: (charOffset * msPerChar) / 1000,
+        }))
+      : [];
+
+    return { audio, timepoints };
+  }
+
+  async listVoices(languageCode?: string): Promise<TtsVoice[]> {
+    if (!languageCode) {
+      return LOCAL_VOICES;
+    }
+    const prefix = languageCode.toLowerCase();
+    return LOCAL_VOICES.filter((voice) => voice.languageCodes.some((code) => code.toLowerCase().startsWith(prefix)));
+  }
+
+  async validateKey(): Promise<TtsKeyValidationResult> {
+    return { ok: true, voice_sampled: LOCAL_VOICES[0].name };
+  }
+}
+
+/**
+ * Creates the TTS provider for this deployment.
+ * The Google provider needs the user's decrypted API key; the local provider ignores it.
+ */
+export function createTtsProvider(name: TtsProviderName, apiKey: string | null): TtsProvider {
+  if (name === "local") {
+    return new LocalTtsProvider();
+  }
+  if (!apiKey) {
+    throw new Error("TTS credentials not configured");
+  }
+  return new GoogleTtsProvider(apiKey);
+}
+
+/**
+ * Reads the `TTS_PROVIDER` deployment setting (Cloudflare runtime env, import.meta.env, process.env).
+ * Defaults to Google when unset or unrecognized.
+ * @param context - Astro API context (optional, for Cloudflare runtime env access)
+ */
+export function getTtsProviderName(context?: APIContext): TtsProviderName {
+  const localsAny = context?.locals as unknown as
+    | {
+        runtime?: { env?: Record<string, string | undefined> };
+      }
+    | undefined;
+
+  const value =
+    localsAny?.runtime?.env?.TTS_PROVIDER ||
+    import.meta.env.TTS_PROVIDER ||
+    (typeof process !== "undefined" ? process.env.TTS_PROVIDER : undefined);
+
+  const normalized = value?.trim().toLowerCase();
+  return TTS_PROVIDER_NAMES.find((name) => name === normalized) ?? "google";
+}
+
+/**
+ * Maps an error thrown by a provider to the matching API error,
+ * for routes that call the provider directly (e.g. key validation).
+ */
+export function toTtsApiError(error: unknown, fallbackMessage = "TTS test failed"): ApiError {
+  const code = error instanceof Error ? error.message : "";
+  if (code === "invalid_key") {
+    return ApiErrors.invalidKey("TTS key is invalid or unauthorized");
+  }
+  if (code === "quota_exceeded") {
+    return ApiErrors.quotaExceeded("TTS provider quota exhausted");
+  }
+  if (code === "tts_timeout" || code.includes("timeout")) {
+    return ApiErrors.ttsTimeout("TTS provider timed out");
+  }
+  if (error instanceof TtsProviderError && error.detail) {
+    return ApiErrors.internal(`${fallbackMessage}: ${error.detail}`);
+  }
+  return ApiErrors.internal(fallbackMessage);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import { TtsProviderError } from "./tts-provider";
+import { computeBackoffDelay, isRetryableTtsError, TtsScheduler } from "./tts-scheduler";
+
+const noSleep = vi.fn(async () => undefined);
+
+describe("TtsScheduler", () => {
+  it("retries transient failures and returns the eventual result", async () => {
+    const task = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new TtsProviderError("tts_error", 503))
+      .mockRejectedValueOnce(new TtsProviderError("tts_timeout", 504))
+      .mockResolvedValue("audio");
+
+    await expect(new TtsScheduler({ maxRetries: 3 }, noSleep).run(task)).resolves.toBe("audio");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry permanent failures", async () => {
+    const task = vi.fn(async () => {
+      throw new TtsProviderError("invalid_key", 403);
+    });
+
+    await expect(new TtsScheduler({}, noSleep).run(task)).rejects.toThrow("invalid_key");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const task = vi.fn(async () => {
+      throw new TtsProviderError("tts_error", 500);
+    });
+
+    await expect(new TtsScheduler({ maxRetries: 2 }, noSleep).run(task)).rejects.toThrow("tts_error");
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it("pauses on quota_exceeded and fails only after maxQuotaPauses", async () => {
+    const sleep = vi.fn(async () => undefined);
+    const task = vi.fn(async () => {
+      throw new TtsProviderError("quota_exceeded", 429, 1000);
+    });
+
+    await expect(new TtsScheduler({ maxQuotaPauses: 2 }, sleep).run(task)).rejects.toThrow("quota_exceeded");
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it("maps with bounded concurrency, preserving order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const scheduler = new TtsScheduler({ concurrency: 2 });
+
+    const results = await scheduler.map([30, 10, 20, 5], async (delay) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 10]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe("retry helpers", () => {
+  it("classifies network errors and 5xx as retryable", () => {
+    expect(isRetryableTtsError(new TtsProviderError("network"))).toBe(true);
+    expect(isRetryableTtsError(new TypeError("Cannot read properties of undefined"))).toBe(false);
+    expect(isRetryableTtsError(new TtsProviderError("tts_error", 502))).toBe(true);
+    expect(isRetryableTtsError(new TtsProviderError("invalid_key", 401))).toBe(false);
+    expect(isRetryableTtsError(new Error("upload_failed"))).toBe(false);
+  });
+
+  it("caps the jittered backoff at maxDelayMs", () => {
+    expect(computeBackoffDelay(0, 500, 10_000, () => 0.5)).toBe(250);
+    expect(computeBackoffDelay(3, 500, 10_000, () => 0.999)).toBe(3996);
+    expect(computeBackoffDelay(10, 500, 10_000, () => 0.5)).toBe(5000);
+  });
+});
@@ -0,0 +1,168 @@
+import type { APIContext } from "astro";
+import { TtsProviderError } from "./tts-provider";
+
+/**
+ * Bounded-concurrency runner for TTS calls with retry and quota-aware throttling.
+ *
+ * - Transient failures (HTTP 5xx, `tts_timeout`, network errors) are retried with
+ *   exponential backoff and full jitter.
+ * - `quota_exceeded` pauses every task sharing the scheduler (honoring `Retry-After`),
+ *   instead of failing the remaining segments one by one.
+ * - Permanent failures (`invalid_key`, other 4xx) are rethrown immediately.
+ */
+export interface TtsSchedulerOptions {
+  /** Maximum number of TTS calls in flight */
+  concurrency: number;
+  /** Retries per call for transient failures */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Pause applied to all tasks after `quota_exceeded` when the provider sends no Retry-After */
+  quotaPauseMs: number;
+  /** Quota pauses a single call may wait through before its `quota_exceeded` is final */
+  maxQuotaPauses: number;
+}
+
+export const DEFAULT_TTS_SCHEDULER_OPTIONS: TtsSchedulerOptions = {
+  concurrency: 4,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  quotaPauseMs: 30_000,
+  maxQuotaPauses: 4,
+};
+
+type Sleep = (ms: number) => Promise<void>;
+
+const defaultSleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Returns true for failures worth retrying: 5xx responses, provider timeouts and network errors
+ * (requests that got no response, reported by the provider as `network`).
+ */
+export function isRetryableTtsError(error: unknown): boolean {
+  // Anything else (e.g. a TypeError from a bug) would fail the same way again, and may be billed again
+  if (!(error instanceof TtsProviderError)) {
+    return false;
+  }
+  return (
+    error.message === "tts_timeout" || error.message === "network" || (error.status !== null && error.status >= 500)
+  );
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof Error && error.message === "quota_exceeded";
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(maxDelayMs, baseDelayMs * 2^attempt)).
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+export class TtsScheduler {
+  private readonly options: TtsSchedulerOptions;
+  private readonly sleep: Sleep;
+  private pausedUntil = 0;
+
+  constructor(options: Partial<TtsSchedulerOptions> = {}, sleep: Sleep = defaultSleep) {
+    this.options = { ...DEFAULT_TTS_SCHEDULER_OPTIONS, ...options };
+    this.sleep = sleep;
+  }
+
+  /**
+   * Runs one TTS call, retrying transient failures and waiting out quota pauses.
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    let retries = 0;
+    let quotaPauses = 0;
+
+    for (;;) {
+      await this.waitForQuota();
+      try {
+        return await task();
+      } catch (error) {
+        if (isQuotaError(error) && quotaPauses < this.options.maxQuotaPauses) {
+          quotaPauses++;
+          const retryAfterMs = error instanceof TtsProviderError ? error.retryAfterMs : null;
+          this.pauseFor(retryAfterMs ?? this.options.quotaPauseMs);
+          continue;
+        }
+        if (isRetryableTtsError(error) && retries < this.options.maxRetries) {
+          await this.sleep(computeBackoffDelay(retries, this.options.baseDelayMs, this.options.maxDelayMs));
+          retries++;
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Maps items through `fn` with at most `concurrency` calls in flight, preserving input order.
+   */
+  async map<T, R>(items: readonly T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(this.options.concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+  }
+
+  private pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForQuota(): Promise<void> {
+    const remaining = this.pausedUntil - Date.now();
+    if (remaining > 0) {
+      await this.sleep(remaining);
+    }
+  }
+}
+
+function readPositiveInt(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Reads `TTS_CONCURRENCY` and `TTS_MAX_RETRIES` (Cloudflare runtime env, import.meta.env, process.env).
+ * @param context - Astro API context (optional, for Cloudflare runtime env access)
+ */
+export function getTtsSchedulerOptions(context?: APIContext): Partial<TtsSchedulerOptions> {
+  const localsAny = context?.locals as unknown as
+    | {
+        runtime?: { env?: Record<string, string | undefined> };
+      }
+    | undefined;
+
+  const read = (name: "TTS_CONCURRENCY" | "TTS_MAX_RETRIES") =>
+    localsAny?.runtime?.env?.[name] ||
+    import.meta.env[name] ||
+    (typeof process !== "undefined" ? process.env[name] : undefined);
+
+  const concurrency = readPositiveInt(read("TTS_CONCURRENCY"));
+  const maxRetriesRaw = read("TTS_MAX_RETRIES");
+  const maxRetries = maxRetriesRaw === "0" ? 0 : readPositiveInt(maxRetriesRaw);
+
+  return {
+    ...(concurrency !== undefined && { concurrency }),
+    ...(maxRetries !== undefined && { maxRetries }),
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { countBilledCharacters, estimateTtsCost, getMonthStart, getVoiceTier } from "./tts-usage";
+
+describe("getVoiceTier", () => {
+  it("derives the tier from Google voice names", () => {
+    expect(getVoiceTier("en-US-Standard-B")).toBe("standard");
+    expect(getVoiceTier("en-GB-Neural2-A")).toBe("neural2");
+    expect(getVoiceTier("en-US-Studio-O")).toBe("studio");
+    expect(getVoiceTier("en-US-Chirp3-HD-Charon")).toBe("chirp_hd");
+    expect(getVoiceTier("pl-PL-Wavenet-A")).toBe("wavenet");
+  });
+
+  it("prices unknown voice names as WaveNet", () => {
+    expect(getVoiceTier("local-voice")).toBe("wavenet");
+  });
+});
+
+describe("estimateTtsCost", () => {
+  it("applies the tier price per million characters", () => {
+    expect(estimateTtsCost("en-US-Standard-B", 1_000_000)).toBe(4);
+    expect(estimateTtsCost("en-GB-Neural2-A", 250_000)).toBe(4);
+    expect(estimateTtsCost("en-US-Studio-O", 1234)).toBe(0.1974);
+  });
+});
+
+describe("countBilledCharacters", () => {
+  it("counts the SSML sent without mark tags, or the plain text", () => {
+    expect(countBilledCharacters("Hi there")).toBe(8);
+    expect(countBilledCharacters("Hi there", '<speak><mark name="t0"/>Hi <mark name="t1"/>there</speak>')).toBe(23);
+    expect(countBilledCharacters("SQL", '<speak><mark name="t0"/><sub alias="sequel">SQL</sub></speak>')).toBe(
+      '<speak><sub alias="sequel">SQL</sub></speak>'.length
+    );
+  });
+});
+
+describe("getMonthStart", () => {
+  it("returns the first day of the UTC month", () => {
+    expect(getMonthStart(new Date("2026-10-19T12:00:00Z"))).toBe("2026-10-01");
+    expect(getMonthStart(new Date("2026-12-31T23:59:59Z"))).toBe("2026-12-01");
+  });
+});
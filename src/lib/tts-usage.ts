@@ -0,0 +1,107 @@
+/* eslint-disable no-console */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../db/database.types";
+import type { VoiceTier } from "../types";
+
+/**
+ * TTS character accounting: every provider call (cache hits excluded) is added to `tts_usage_daily`
+ * per user, voice and UTC day, costs are estimated from the voice tier, and an optional monthly
+ * character cap (`users.tts_monthly_char_limit`) stops TTS work before it is billed.
+ */
+
+// Google Cloud TTS list prices in USD per 1M characters (the monthly free tier is not deducted)
+export const TTS_PRICE_PER_MILLION_CHARS: Record<VoiceTier, number> = {
+  standard: 4,
+  wavenet: 16,
+  neural2: 16,
+  polyglot: 16,
+  news: 16,
+  chirp_hd: 30,
+  studio: 160,
+};
+
+/**
+ * Derives the pricing tier from a Google voice name, e.g. `en-US-Neural2-C` → `neural2`.
+ * Unknown names are priced as WaveNet.
+ */
+export function getVoiceTier(voiceId: string): VoiceTier {
+  const name = voiceId.toLowerCase();
+  if (name.includes("studio")) return "studio";
+  if (name.includes("chirp")) return "chirp_hd";
+  if (name.includes("neural2")) return "neural2";
+  if (name.includes("polyglot")) return "polyglot";
+  if (name.includes("news")) return "news";
+  if (name.includes("standard")) return "standard";
+  return "wavenet";
+}
+
+/** Estimated cost in USD of synthesizing `characters` with the voice */
+export function estimateTtsCost(voiceId: string, characters: number): number {
+  const cost = (characters / 1_000_000) * TTS_PRICE_PER_MILLION_CHARS[getVoiceTier(voiceId)];
+  return Math.round(cost * 10_000) / 10_000;
+}
+
+/**
+ * Characters the provider bills for one request: the SSML when it is sent (`<sub>`/`<phoneme>`
+ * markup included), minus `<mark>` tags, which Google does not bill; otherwise the plain text.
+ */
+export function countBilledCharacters(text: string, ssml?: string): number {
+  return ssml ? ssml.replace(/<mark\b[^>]*>/g, "").length : text.length;
+}
+
+/** First day of the month (UTC) containing `date`, as `YYYY-MM-DD` */
+export function getMonthStart(date: Date): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString().slice(0, 10);
+}
+
+export function formatQuotaExceededMessage(limit: number): string {
+  return `quota_exceeded: monthly TTS limit of ${limit} characters reached`;
+}
+
+/**
+ * Tracks a user's characters for the current month while TTS work runs. Usage is recorded in the
+ * database as it happens; `exceeded` lets callers stop before the next provider call.
+ */
+export class TtsUsageMeter {
+  private constructor(
+    private supabase: SupabaseClient<Database>,
+    private userId: string,
+    private used: number,
+    readonly limit: number | null
+  ) {}
+
+  static async load(supabase: SupabaseClient<Database>, userId: string, now = new Date()): Promise<TtsUsageMeter> {
+    const [{ data: user, error: userError }, { data: usage, error: usageError }] = await Promise.all([
+      supabase.from("users").select("tts_monthly_char_limit").eq("id", userId).maybeSingle(),
+      supabase.from("tts_usage_daily").select("characters").eq("user_id", userId).gte("usage_date", getMonthStart(now)),
+    ]);
+
+    if (userError || usageError) {
+      throw new Error(`Failed to load TTS usage: ${(userError ?? usageError)?.message}`);
+    }
+
+    const used = (usage || []).reduce((sum, row) => sum + row.characters, 0);
+    return new TtsUsageMeter(supabase, userId, used, user?.tts_monthly_char_limit ?? null);
+  }
+
+  get usedCharacters(): number {
+    return this.used;
+  }
+
+  get exceeded(): boolean {
+    return this.limit !== null && this.used >= this.limit;
+  }
+
+  /** Records one provider call. Failures are logged; accounting never fails a synthesis. */
+  async record(voiceId: string, characters: number): Promise<void> {
+    this.used += characters;
+    const { error } = await this.supabase.rpc("record_tts_usage", {
+      p_user_id: this.userId,
+      p_voice_id: voiceId,
+      p_characters: characters,
+    });
+    if (error) {
+      console.warn(`[tts-usage] Failed to record ${characters} characters for ${voiceId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TtsProvider } from "./tts-provider";
+import {
+  clearVoiceCatalogCache,
+  filterVoiceCatalog,
+  getPreviewSample,
+  getVoiceCatalog,
+  PREVIEW_SENTENCES,
+  toVoiceCatalogEntry,
+} from "./voice-catalog";
+
+const googleVoices = [
+  { name: "en-US-Neural2-C", languageCodes: ["en-US"], ssmlGender: "FEMALE", naturalSampleRateHertz: 24000 },
+  { name: "en-GB-Standard-B", languageCodes: ["en-GB"], ssmlGender: "MALE", naturalSampleRateHertz: 24000 },
+  { name: "pl-PL-Wavenet-A", languageCodes: ["pl-PL"], ssmlGender: "FEMALE", naturalSampleRateHertz: 24000 },
+];
+
+function createProvider(): TtsProvider & { listVoices: ReturnType<typeof vi.fn> } {
+  return {
+    name: "google",
+    synthesize: vi.fn(),
+    listVoices: vi.fn(async () => googleVoices),
+    validateKey: vi.fn(),
+  };
+}
+
+describe("voice catalog", () => {
+  beforeEach(() => {
+    clearVoiceCatalogCache();
+  });
+
+  it("maps provider voices to catalog entries with their pricing tier", () => {
+    expect(toVoiceCatalogEntry(googleVoices[0])).toEqual({
+      voice_id: "en-US-Neural2-C",
+      language_codes: ["en-US"],
+      gender: "FEMALE",
+      tier: "neural2",
+      natural_sample_rate_hz: 24000,
+    });
+    expect(toVoiceCatalogEntry({ ...googleVoices[0], ssmlGender: "SSML_VOICE_GENDER_UNSPECIFIED" }).gender).toBeNull();
+  });
+
+  it("filters by language or locale prefix, gender and tier", () => {
+    const voices = googleVoices.map(toVoiceCatalogEntry);
+
+    expect(filterVoiceCatalog(voices, { language: "en" }).map((v) => v.voice_id)).toEqual([
+      "en-US-Neural2-C",
+      "en-GB-Standard-B",
+    ]);
+    expect(filterVoiceCatalog(voices, { language: "en-gb" }).map((v) => v.voice_id)).toEqual(["en-GB-Standard-B"]);
+    expect(filterVoiceCatalog(voices, { gender: "FEMALE", tier: "wavenet" }).map((v) => v.voice_id)).toEqual([
+      "pl-PL-Wavenet-A",
+    ]);
+  });
+
+  it("serves the voice list from the cache until it expires", async () => {
+    const provider = createProvider();
+    const now = Date.now();
+
+    const first = await getVoiceCatalog(provider, now);
+    await getVoiceCatalog(provider, now + 60_000);
+    expect(provider.listVoices).toHaveBeenCalledTimes(1);
+    expect(first.voices.map((v) => v.voice_id)).toEqual(["en-GB-Standard-B", "en-US-Neural2-C", "pl-PL-Wavenet-A"]);
+
+    await getVoiceCatalog(provider, now + 25 * 60 * 60 * 1000);
+    expect(provider.listVoices).toHaveBeenCalledTimes(2);
+  });
+
+  it("picks the preview sentence from the voice locale", () => {
+    const [en, , pl] = googleVoices.map(toVoiceCatalogEntry);
+
+    expect(getPreviewSample(en)).toEqual({ text: PREVIEW_SENTENCES.en, language: "en-US" });
+    expect(getPreviewSample(pl)).toEqual({ text: PREVIEW_SENTENCES.pl, language: "pl-PL" });
+    expect(getPreviewSample({ ...en, language_codes: ["de-DE"] })).toEqual({
+      text: PREVIEW_SENTENCES.en,
+      language: "de-DE",
+    });
+  });
+});
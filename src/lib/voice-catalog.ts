@@ -0,0 +1,90 @@
+import type { TtsProvider, TtsVoice } from "./tts-provider";
+import type { VoiceCatalogEntryDTO, VoiceGender, VoiceTier } from "../types";
+import { getVoiceTier } from "./tts-usage";
+
+/**
+ * Voice catalog for the voice picker: the provider's voice list, cached in memory per provider
+ * (the list does not depend on the API key), plus the sample sentences used for voice previews.
+ */
+
+interface CatalogEntry {
+  voices: VoiceCatalogEntryDTO[];
+  fetchedAt: number;
+}
+
+export interface VoiceCatalogFilters {
+  /** Language (`en`) or locale (`en-GB`) prefix */
+  language?: string;
+  gender?: VoiceGender;
+  tier?: VoiceTier;
+}
+
+// The provider adds voices rarely; refresh the list once a day
+const CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+const catalogCache = new Map<string, CatalogEntry>();
+
+export const PREVIEW_SENTENCES: Record<string, string> = {
+  en: "Hello! This is how I sound when I read your phrases aloud.",
+  pl: "Dzień dobry! Tak brzmię, gdy czytam twoje zwroty na głos.",
+};
+
+const GENDERS: readonly VoiceGender[] = ["MALE", "FEMALE", "NEUTRAL"];
+
+export function toVoiceCatalogEntry(voice: TtsVoice): VoiceCatalogEntryDTO {
+  return {
+    voice_id: voice.name,
+    language_codes: voice.languageCodes,
+    gender: GENDERS.find((gender) => gender === voice.ssmlGender) ?? null,
+    tier: getVoiceTier(voice.name),
+    natural_sample_rate_hz: voice.naturalSampleRateHertz,
+  };
+}
+
+export function filterVoiceCatalog(
+  voices: VoiceCatalogEntryDTO[],
+  { language, gender, tier }: VoiceCatalogFilters
+): VoiceCatalogEntryDTO[] {
+  const prefix = language?.toLowerCase();
+  return voices.filter(
+    (voice) =>
+      (!prefix || voice.language_codes.some((code) => code.toLowerCase().startsWith(prefix))) &&
+      (!gender || voice.gender === gender) &&
+      (!tier || voice.tier === tier)
+  );
+}
+
+/**
+ * Returns the provider's voices sorted by ID, from the cache while it is fresh.
+ */
+export async function getVoiceCatalog(
+  ttsProvider: TtsProvider,
+  now = Date.now()
+): Promise<{ voices: VoiceCatalogEntryDTO[]; fetchedAt: number }> {
+  const cached = catalogCache.get(ttsProvider.name);
+  if (cached && now - cached.fetchedAt < CATALOG_TTL_MS) {
+    return cached;
+  }
+
+  const voices = (await ttsProvider.listVoices())
+    .map(toVoiceCatalogEntry)
+    .sort((a, b) => a.voice_id.localeCompare(b.voice_id));
+  const entry = { voices, fetchedAt: now };
+  catalogCache.set(ttsProvider.name, entry);
+  return entry;
+}
+
+/** Clears the cached voice lists (used by tests) */
+export function clearVoiceCatalogCache(): void {
+  catalogCache.clear();
+}
+
+/**
+ * Picks the preview sentence for a voice by the language of its first locale; other languages
+ * get the English sentence. The locale is returned as the synthesis language code.
+ */
+export function getPreviewSample(voice: VoiceCatalogEntryDTO): { text: string; language: string } {
+  const locale = voice.language_codes[0] ?? "en-US";
+  const language = locale.split("-")[0].toLowerCase();
+  return { text: PREVIEW_SENTENCES[language] ?? PREVIEW_SENTENCES.en, language: locale };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VOICE_AUDIO_SETTINGS, computeSegmentFingerprint, toVoiceAudioSettings } from "./voice-settings";
+
+const base = {
+  provider: "google",
+  text: "Good morning",
+  voiceId: "en-US-Standard-A",
+  language: "en-US",
+  settings: DEFAULT_VOICE_AUDIO_SETTINGS,
+};
+
+describe("computeSegmentFingerprint", () => {
+  it("is deterministic for the same input", async () => {
+    const first = await computeSegmentFingerprint(base);
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(await computeSegmentFingerprint({ ...base })).toBe(first);
+  });
+
+  it("changes when provider, text, voice or audio settings change", async () => {
+    const original = await computeSegmentFingerprint(base);
+    const variants = await Promise.all([
+      computeSegmentFingerprint({ ...base, provider: "local" }),
+      computeSegmentFingerprint({ ...base, text: "Good evening" }),
+      computeSegmentFingerprint({ ...base, voiceId: "en-US-Standard-B" }),
+      computeSegmentFingerprint({ ...base, settings: { ...base.settings, speaking_rate: 0.8 } }),
+      computeSegmentFingerprint({ ...base, settings: { ...base.settings, pitch: 2 } }),
+      computeSegmentFingerprint({ ...base, settings: { ...base.settings, volume_gain_db: -3 } }),
+    ]);
+
+    expect(new Set([original, ...variants]).size).toBe(7);
+  });
+});
+
+describe("toVoiceAudioSettings", () => {
+  it("fills missing columns with defaults", () => {
+    expect(toVoiceAudioSettings({ pitch: 4 })).toEqual({ speaking_rate: 1.0, pitch: 4, volume_gain_db: 0 });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Per-voice audio settings (speaking rate, pitch, volume) and segment fingerprints.
+ * Shared by the API, the settings UI and audio generation, so it must stay browser-safe.
+ */
+
+export interface VoiceAudioSettings {
+  speaking_rate: number;
+  pitch: number;
+  volume_gain_db: number;
+}
+
+export const DEFAULT_VOICE_AUDIO_SETTINGS: VoiceAudioSettings = {
+  speaking_rate: 1.0,
+  pitch: 0,
+  volume_gain_db: 0,
+};
+
+// Ranges accepted by Google Cloud TTS audioConfig (mirrored by DB check constraints)
+export const SPEAKING_RATE_RANGE = { min: 0.25, max: 4.0 };
+export const PITCH_RANGE = { min: -20, max: 20 };
+export const VOLUME_GAIN_DB_RANGE = { min: -96, max: 16 };
+
+export interface SegmentFingerprintInput {
+  /** TTS provider (e.g. the local provider's silent audio must never be reused for Google) */
+  provider: string;
+  text: string;
+  voiceId: string;
+  language: string;
+  settings: VoiceAudioSettings;
+  /** Enabled post-processing stages (loudness normalization, silence trim), if any */
+  postProcessing?: string | null;
+  /** Lexicon rules applied to the text (see `describePronunciations`), if any */
+  pronunciation?: string | null;
+  /** Non-default output format (see `describeAudioFormat`), if any */
+  audioFormat?: string | null;
+}
+
+/**
+ * Reads audio settings from a `user_voices` row, falling back to defaults for missing columns.
+ */
+export function toVoiceAudioSettings(voice: Partial<VoiceAudioSettings>): VoiceAudioSettings {
+  return {
+    speaking_rate: voice.speaking_rate ?? DEFAULT_VOICE_AUDIO_SETTINGS.speaking_rate,
+    pitch: voice.pitch ?? DEFAULT_VOICE_AUDIO_SETTINGS.pitch,
+    volume_gain_db: voice.volume_gain_db ?? DEFAULT_VOICE_AUDIO_SETTINGS.volume_gain_db,
+  };
+}
+
+/**
+ * Hashes everything that shapes a segment's audio (SHA-256, hex).
+ * Two segments with the same fingerprint are interchangeable, so rebuilds can reuse them.
+ */
+export async function computeSegmentFingerprint({
+  provider,
+  text,
+  voiceId,
+  language,
+  settings,
+  postProcessing,
+  pronunciation,
+  audioFormat,
+}: SegmentFingerprintInput): Promise<string> {
+  const payload = JSON.stringify([
+    provider,
+    text,
+    voiceId,
+    language,
+    settings.speaking_rate,
+    settings.pitch,
+    settings.volume_gain_db,
+    // Only present when enabled, so fingerprints of unprocessed audio are unchanged
+    ...(postProcessing ? [postProcessing] : []),
+    ...(pronunciation ? [`lexicon:${pronunciation}`] : []),
+    ...(audioFormat ? [`format:${audioFormat}`] : []),
+  ]);
+  return sha256Hex(payload);
+}
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex (Web Crypto, so it also runs in the browser and Workers).
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -1,6 +1,7 @@
 import type { APIContext } from "astro";
 import { ApiError, ApiErrors } from "../../../lib/errors";
-import type { BuildDTO } from "../../../types";
+import type { BuildSummaryDTO } from "../../../types";
+import { loadBuildSummaries } from "../../../lib/build-history";
 
 export const prerender = false;
 
@@ -27,7 +28,7 @@ export async function GET(context: APIContext) {
     // Get the build (with RLS ensuring user can only access their own builds)
     const { data: build, error } = await supabase
       .from("builds")
-      .select("id, job_id, notebook_id, created_at")
+      .select("id, job_id, notebook_id, created_at, voices, notebook:notebooks!inner(current_build_id)")
       .eq("id", buildId)
       .single();
 
@@ -38,7 +39,8 @@ export async function GET(context: APIContext) {
       throw ApiErrors.internal("Failed to fetch build");
     }
 
-    const response: BuildDTO = build;
+    const { notebook, ...buildData } = build;
+    const [response]: BuildSummaryDTO[] = await loadBuildSummaries(supabase, [buildData], notebook.current_build_id);
 
     return new Response(JSON.stringify(response), {
       status: 200,
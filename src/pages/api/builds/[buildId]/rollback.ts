@@ -0,0 +1,115 @@
+import type { APIContext } from "astro";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import { ApiError, ApiErrors } from "../../../../lib/errors";
+import type { RollbackBuildResponse } from "../../../../types";
+import { getSupabaseClient } from "../../../../lib/utils";
+import { activateBuild } from "../../../../lib/build-history";
+
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+export const prerender = false;
+
+// Helper function to get user ID from context
+function getUserId(context: APIContext): string {
+  const userId = context.locals.userId;
+  if (!userId) {
+    throw ApiErrors.unauthorized("Authentication required");
+  }
+  return userId;
+}
+
+// Helper function to check for active jobs
+async function checkActiveJobs(supabase: SupabaseClient, notebookId: string): Promise<void> {
+  const { data: activeJobs, error } = await supabase
+    .from("jobs")
+    .select("id, state")
+    .eq("notebook_id", notebookId)
+    .neq("type", "INCREMENTAL_AUDIO")
+    .in("state", ["queued", "running"]);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check active jobs");
+  }
+
+  if (activeJobs && activeJobs.length > 0) {
+    throw ApiErrors.conflict("Job already in progress");
+  }
+}
+
+/**
+ * Promotes a previous build to the notebook's current build. Its complete segments become the
+ * active audio again without any synthesis; phrases added after the build have no audio until
+ * repaired or rebuilt.
+ */
+export async function POST(context: APIContext) {
+  try {
+    const userId = getUserId(context);
+    const supabase = getSupabaseClient(context);
+
+    const buildId = context.params.buildId;
+    if (!buildId) {
+      throw ApiErrors.validationError("Build ID is required");
+    }
+
+    const { data: build, error: fetchError } = await supabase
+      .from("builds")
+      .select("id, notebook_id, notebook:notebooks!inner(user_id, current_build_id)")
+      .eq("id", buildId)
+      .eq("notebook.user_id", userId) // Ensure user can only roll back their own notebooks
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        throw ApiErrors.notFound("Build not found");
+      }
+      throw ApiErrors.internal("Failed to fetch build");
+    }
+
+    if (build.notebook.current_build_id === build.id) {
+      throw ApiErrors.conflict("Build is already the current build");
+    }
+
+    await checkActiveJobs(supabase, build.notebook_id);
+
+    const { count, error: countError } = await supabase
+      .from("audio_segments")
+      .select("id", { count: "exact", head: true })
+      .eq("build_id", build.id)
+      .eq("status", "complete");
+
+    if (countError) {
+      throw ApiErrors.internal("Failed to fetch build segments");
+    }
+
+    if (!count) {
+      throw ApiErrors.conflict("Build has no playable audio");
+    }
+
+    try {
+      await activateBuild(supabase, build.notebook_id, build.id);
+    } catch (error) {
+      console.error(`Failed to roll back notebook ${build.notebook_id} to build ${build.id}:`, error);
+      throw ApiErrors.internal("Failed to roll back build");
+    }
+
+    const response: RollbackBuildResponse = {
+      notebook_id: build.notebook_id,
+      current_build_id: build.id,
+      previous_build_id: build.notebook.current_build_id,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    return new Response(JSON.stringify({ error: { code: "internal", message: "Internal server error" } }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
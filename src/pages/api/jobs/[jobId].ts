@@ -28,7 +28,9 @@ export async function GET(context: APIContext) {
     // Get the job
     const { data: job, error } = await supabase
       .from("jobs")
-      .select("id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, created_at")
+      .select(
+        "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at"
+      )
       .eq("id", jobId)
       .eq("user_id", userId) // Ensure user can only access their own jobs
       .single();
@@ -0,0 +1,141 @@
+import type { APIContext } from "astro";
+import { ApiError, ApiErrors } from "../../../../lib/errors";
+import { getSupabaseClient } from "../../../../lib/utils";
+import type { JobProgressDTO } from "../../../../types";
+
+export const prerender = false;
+
+const PROGRESS_COLUMNS =
+  "id, state, started_at, ended_at, error, total_segments, completed_segments, failed_segments, current_phrase_id";
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Streams are closed after this long; EventSource-style clients reconnect and resume
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+const TERMINAL_STATES: JobProgressDTO["state"][] = ["succeeded", "failed", "canceled", "timeout"];
+
+// Helper function to get user ID from context
+function getUserId(context: APIContext): string {
+  const userId = context.locals.userId;
+  if (!userId) {
+    throw ApiErrors.unauthorized("Authentication required");
+  }
+  return userId;
+}
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Streams job progress as Server-Sent Events.
+ * Emits a `progress` event whenever counts, current phrase or state change, and closes
+ * after the event carrying a terminal state. Comment lines keep idle connections alive.
+ */
+export async function GET(context: APIContext) {
+  try {
+    const userId = getUserId(context);
+    const supabase = getSupabaseClient(context);
+
+    const jobId = context.params.jobId;
+    if (!jobId) {
+      throw ApiErrors.validationError("Job ID is required");
+    }
+
+    const fetchProgress = async (): Promise<JobProgressDTO | null> => {
+      const { data, error } = await supabase
+        .from("jobs")
+        .select(PROGRESS_COLUMNS)
+        .eq("id", jobId)
+        .eq("user_id", userId) // Ensure user can only access their own jobs
+        .single();
+
+      if (error) {
+        if (error.code === "PGRST116") {
+          return null;
+        }
+        throw ApiErrors.internal("Failed to fetch job");
+      }
+      return data;
+    };
+
+    const initial = await fetchProgress();
+    if (!initial) {
+      throw ApiErrors.notFound("Job not found");
+    }
+
+    const signal = context.request.signal;
+    const encoder = new TextEncoder();
+
+    // Set once the stream closes or the client disconnects (cancel); nothing is enqueued after that
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: string) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        };
+        const startedAt = Date.now();
+        let lastPayload = "";
+        let lastSentAt = startedAt;
+        let progress: JobProgressDTO | null = initial;
+
+        try {
+          while (progress && !closed && !signal.aborted) {
+            const payload = JSON.stringify(progress);
+            if (payload !== lastPayload) {
+              send(formatEvent("progress", progress));
+              lastPayload = payload;
+              lastSentAt = Date.now();
+            } else if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+              send(": keep-alive\n\n");
+              lastSentAt = Date.now();
+            }
+
+            if (TERMINAL_STATES.includes(progress.state) || Date.now() - startedAt >= MAX_STREAM_MS) {
+              break;
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+            if (closed || signal.aborted) {
+              break;
+            }
+            progress = await fetchProgress();
+          }
+        } catch (error) {
+          if (!closed) {
+            console.error(`[job-events] Stream for job ${jobId} failed:`, error);
+            send(formatEvent("error", { code: "internal", message: "Failed to read job progress" }));
+          }
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    return new Response(JSON.stringify({ error: { code: "internal", message: "Internal server error" } }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
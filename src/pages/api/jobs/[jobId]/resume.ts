@@ -0,0 +1,246 @@
+import type { APIContext } from "astro";
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import type { Database } from "../../../../db/database.types";
+import { ApiError, ApiErrors } from "../../../../lib/errors";
+import type { JobDTO } from "../../../../types";
+import { getSupabaseClient, getSupabaseEnvVars } from "../../../../lib/utils";
+import { JobWorker } from "../../../../lib/job-worker";
+import { isInlineJobProcessingEnabled } from "../../../../lib/job-lease";
+import { setRuntimeEnv } from "../../../../lib/tts-encryption";
+import { getTtsProviderName } from "../../../../lib/tts-provider";
+import { getTtsSchedulerOptions } from "../../../../lib/tts-scheduler";
+import { TtsUsageMeter } from "../../../../lib/tts-usage";
+import { getBuildRetentionCount } from "../../../../lib/build-retention";
+
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+export const prerender = false;
+
+const JOB_COLUMNS =
+  "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at";
+
+// Helper function to get user ID from context
+function getUserId(context: APIContext): string {
+  const userId = context.locals.userId;
+  if (!userId) {
+    throw ApiErrors.unauthorized("Authentication required");
+  }
+  return userId;
+}
+
+// Helper function to check TTS credentials
+async function checkTtsCredentials(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data: credentials, error } = await supabase
+    .from("tts_credentials")
+    .select("is_configured")
+    .eq("user_id", userId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    throw ApiErrors.internal("Failed to check TTS credentials");
+  }
+
+  if (!credentials?.is_configured) {
+    throw ApiErrors.validationError("TTS credentials not configured");
+  }
+}
+
+// Helper function to check the user's monthly TTS character cap
+async function checkTtsQuota(supabase: SupabaseClient, userId: string): Promise<void> {
+  let usage: TtsUsageMeter;
+  try {
+    usage = await TtsUsageMeter.load(supabase, userId);
+  } catch {
+    throw ApiErrors.internal("Failed to check TTS usage");
+  }
+
+  if (usage.exceeded) {
+    throw ApiErrors.quotaExceeded(`Monthly TTS limit of ${usage.limit} characters reached`);
+  }
+}
+
+// Helper function to check for active jobs
+async function checkActiveJobs(supabase: SupabaseClient, notebookId: string): Promise<void> {
+  const { data: activeJobs, error } = await supabase
+    .from("jobs")
+    .select("id, state")
+    .eq("notebook_id", notebookId)
+    .neq("type", "INCREMENTAL_AUDIO")
+    .in("state", ["queued", "running"]);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check active jobs");
+  }
+
+  if (activeJobs && activeJobs.length > 0) {
+    throw ApiErrors.conflict("Job already in progress");
+  }
+}
+
+// Helper function to find the build a job was writing to
+async function findJobBuild(supabase: SupabaseClient, jobId: string): Promise<string | null> {
+  const { data: build, error } = await supabase.from("builds").select("id").eq("job_id", jobId).maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to fetch job build");
+  }
+
+  return build?.id ?? null;
+}
+
+// Helper function to reject resuming a build that a newer build has superseded,
+// since activating it afterwards would roll the notebook back
+async function checkNoNewerBuild(supabase: SupabaseClient, notebookId: string, buildId: string): Promise<void> {
+  const { data: build, error } = await supabase.from("builds").select("created_at").eq("id", buildId).maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to fetch job build");
+  }
+  if (!build) {
+    throw ApiErrors.conflict("Job has no build to resume");
+  }
+
+  const { count, error: countError } = await supabase
+    .from("builds")
+    .select("id", { count: "exact", head: true })
+    .eq("notebook_id", notebookId)
+    .gt("created_at", build.created_at);
+
+  if (countError) {
+    throw ApiErrors.internal("Failed to check newer builds");
+  }
+
+  if (count && count > 0) {
+    throw ApiErrors.conflict("A newer build exists; start a new rebuild instead of resuming");
+  }
+}
+
+/**
+ * Queues a job that continues the build of a failed or timed-out GENERATE_REBUILD job.
+ * Segments already complete in that build are kept; only the remainder is synthesized.
+ */
+export async function POST(context: APIContext) {
+  try {
+    const userId = getUserId(context);
+    const supabase = getSupabaseClient(context);
+
+    const jobId = context.params.jobId;
+    if (!jobId) {
+      throw ApiErrors.validationError("Job ID is required");
+    }
+
+    const { data: previousJob, error: fetchError } = await supabase
+      .from("jobs")
+      .select("id, notebook_id, type, state, timeout_sec, keep_partial, resume_build_id")
+      .eq("id", jobId)
+      .eq("user_id", userId) // Ensure user can only resume their own jobs
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        throw ApiErrors.notFound("Job not found");
+      }
+      throw ApiErrors.internal("Failed to fetch job");
+    }
+
+    if (previousJob.type !== "GENERATE_REBUILD") {
+      throw ApiErrors.conflict("Only rebuild jobs can be resumed");
+    }
+
+    if (previousJob.state !== "failed" && previousJob.state !== "timeout") {
+      throw ApiErrors.conflict(`Job in state ${previousJob.state} cannot be resumed`);
+    }
+
+    // A resumed job keeps writing to the build it continued
+    const buildId = previousJob.resume_build_id ?? (await findJobBuild(supabase, jobId));
+    if (!buildId) {
+      throw ApiErrors.conflict("Job has no build to resume");
+    }
+    await checkNoNewerBuild(supabase, previousJob.notebook_id, buildId);
+
+    // Check TTS credentials (the local provider runs without a key)
+    const ttsProviderName = getTtsProviderName(context);
+    if (ttsProviderName === "google") {
+      await checkTtsCredentials(supabase, userId);
+    }
+
+    // Fail fast before any characters are billed over the monthly cap
+    await checkTtsQuota(supabase, userId);
+
+    await checkActiveJobs(supabase, previousJob.notebook_id);
+
+    const resumeJobId = randomUUID();
+    const { data: job, error } = await supabase
+      .from("jobs")
+      .insert({
+        id: resumeJobId,
+        user_id: userId,
+        notebook_id: previousJob.notebook_id,
+        type: "GENERATE_REBUILD",
+        state: "queued",
+        timeout_sec: previousJob.timeout_sec,
+        keep_partial: previousJob.keep_partial,
+        resume_build_id: buildId,
+      })
+      .select(JOB_COLUMNS)
+      .single();
+
+    if (error) {
+      throw ApiErrors.internal("Failed to create job");
+    }
+
+    const { error: updateNotebookError } = await supabase
+      .from("notebooks")
+      .update({ last_generate_job_id: resumeJobId, updated_at: new Date().toISOString() })
+      .eq("id", previousJob.notebook_id)
+      .eq("user_id", userId);
+
+    if (updateNotebookError) {
+      // Log error but don't fail the request - job was created successfully
+      console.error(`Failed to update notebook last_generate_job_id: ${updateNotebookError.message}`);
+    }
+
+    // Try to process the job immediately (non-blocking), as generate-rebuild does
+    try {
+      const localsAny = context.locals as unknown as {
+        runtime?: { env?: Record<string, string | undefined> };
+      };
+      if (localsAny.runtime?.env) {
+        setRuntimeEnv(localsAny.runtime.env);
+      }
+
+      const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+      if (supabaseUrl && supabaseServiceKey && isInlineJobProcessingEnabled(context)) {
+        const worker = new JobWorker(
+          supabaseUrl,
+          supabaseServiceKey,
+          ttsProviderName,
+          getTtsSchedulerOptions(context),
+          getBuildRetentionCount(context)
+        );
+        worker.processJob(resumeJobId).catch((error: Error) => {
+          console.error(`Failed to process job ${resumeJobId}:`, error);
+        });
+      }
+    } catch (error) {
+      // Ignore errors - job will be processed by /api/jobs/process-queued or cron
+      console.error("Failed to start job processing:", error);
+    }
+
+    const response: JobDTO = job;
+
+    return new Response(JSON.stringify(response), {
+      status: 202,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    return new Response(JSON.stringify({ error: { code: "internal", message: "Internal server error" } }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -2,6 +2,9 @@ import type { APIContext } from "astro";
 import { getSupabaseEnvVars } from "../../../lib/utils";
 import { JobWorker } from "../../../lib/job-worker";
 import { setRuntimeEnv } from "../../../lib/tts-encryption";
+import { getTtsProviderName } from "../../../lib/tts-provider";
+import { getTtsSchedulerOptions } from "../../../lib/tts-scheduler";
+import { getBuildRetentionCount } from "../../../lib/build-retention";
 
 export const prerender = false;
 
@@ -38,7 +41,13 @@ export async function POST(context: APIContext) {
       );
     }
 
-    const worker = new JobWorker(supabaseUrl, supabaseServiceKey);
+    const worker = new JobWorker(
+      supabaseUrl,
+      supabaseServiceKey,
+      getTtsProviderName(context),
+      getTtsSchedulerOptions(context),
+      getBuildRetentionCount(context)
+    );
     await worker.processQueuedJobs();
 
     return new Response(
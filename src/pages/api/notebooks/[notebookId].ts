@@ -148,7 +148,7 @@ const deleteNotebook = async (context: APIContext): Promise<Response> => {
   }
 
   // Delete all audio files associated with this notebook from storage
-  // Structure: audio/{userId}/{notebookId}/{phraseId}/{voice}.mp3
+  // Structure: audio/{userId}/{notebookId}/{phraseId}/{voice}-{buildId}.mp3
   const storagePrefix = `${locals.userId}/${notebookId}`;
   const filesToDelete: string[] = [];
 
@@ -187,6 +187,13 @@ const deleteNotebook = async (context: APIContext): Promise<Response> => {
     // Start collecting files from the notebook folder
     await collectFiles(storagePrefix);
 
+    // Recordings of the notebook's phrases live outside it: recordings/{userId}/{phraseId}.{ext}
+    const { data: recordings } = await supabase
+      .from("phrase_recordings")
+      .select("path, phrase:phrases!inner(notebook_id)")
+      .eq("phrase.notebook_id", notebookId);
+    filesToDelete.push(...(recordings || []).map((recording) => recording.path));
+
     // Delete all collected files in batches (Supabase might have limits)
     if (filesToDelete.length > 0) {
       // Delete in batches of 100 to avoid potential limits
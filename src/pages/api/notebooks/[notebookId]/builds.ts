@@ -2,6 +2,7 @@ import type { APIContext } from "astro";
 import { ApiError, ApiErrors } from "../../../../lib/errors";
 import type { BuildListResponse } from "../../../../types";
 import { getSupabaseClient } from "../../../../lib/utils";
+import { loadBuildSummaries } from "../../../../lib/build-history";
 
 export const prerender = false;
 
@@ -36,10 +37,20 @@ export async function GET(context: APIContext) {
     // Parse query parameters
     const { limit, cursor } = parseQueryParams(new URL(context.request.url));
 
+    const { data: notebook, error: notebookError } = await supabase
+      .from("notebooks")
+      .select("current_build_id")
+      .eq("id", notebookId)
+      .single();
+
+    if (notebookError || !notebook) {
+      throw ApiErrors.notFound("Notebook not found");
+    }
+
     // Build query
     let query = supabase
       .from("builds")
-      .select("id, job_id, notebook_id, created_at")
+      .select("id, job_id, notebook_id, created_at, voices")
       .eq("notebook_id", notebookId)
       .order("created_at", { ascending: false })
       .limit(limit + 1); // Get one extra to check if there are more
@@ -61,7 +72,7 @@ export async function GET(context: APIContext) {
     const nextCursor = hasMore && items.length > 0 ? items[items.length - 1].created_at : null;
 
     const response: BuildListResponse = {
-      items,
+      items: await loadBuildSummaries(supabase, items, notebook.current_build_id),
       next_cursor: nextCursor,
     };
 
@@ -11,6 +11,17 @@ import {
 } from "../../../../lib/utils";
 import { canExport, markExport } from "../../../../lib/export-zip-rate-limit";
 import { buildPhraseFilename, sanitizeNotebookName } from "../../../../lib/export-zip.utils";
+import { getAudioEncodingFromPath } from "../../../../lib/audio-format";
+import { needsMp3Transcode, transcodeToMp3 } from "../../../../lib/audio-postprocess";
+import { createSilentMp3 } from "../../../../lib/mp3";
+import {
+  DEFAULT_PAUSE_MS,
+  expandPlaybackProgram,
+  loadPlaybackProgramSteps,
+  type PlaybackPlanItem,
+} from "../../../../lib/playback-program";
+import { validateUUID } from "../../../../lib/validation.service";
+import type { PlaybackProgramStep, VoiceSlot } from "../../../../types";
 import archiver from "archiver";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
@@ -28,12 +39,12 @@ const SILENCE_FILE_PATH = join(__dirname, "../../../../../assets/silence-800ms.m
 
 type Supabase = SupabaseClient<Database>;
 
-// Required voice slots for export
-const REQUIRED_SLOTS = ["EN1", "EN2", "EN3", "PL"] as const;
-
 // ZIP size limit: 30 MB
 const ZIP_SIZE_LIMIT_BYTES = 30 * 1024 * 1024;
 
+// Transcoded segments and generated silence are 64 kbps MP3 (8 bytes per ms)
+const TRANSCODED_MP3_BYTES_PER_MS = 8;
+
 interface PhraseRow {
   id: string;
   position: number;
@@ -51,6 +62,8 @@ interface AudioSegmentRow {
   voice_slot: string;
   path: string;
   size_bytes: number | null;
+  duration_ms: number | null;
+  sample_rate_hz: number;
   status: string;
   build_id?: string;
 }
@@ -58,6 +71,7 @@ interface AudioSegmentRow {
 interface ExportablePhrase {
   phrase: PhraseRow;
   segments: Map<string, AudioSegmentRow>; // key = voice_slot
+  plan: PlaybackPlanItem[];
 }
 
 /**
@@ -314,7 +328,7 @@ async function fetchAudioSegments(
 
   const { data: segments, error } = await supabase
     .from("audio_segments")
-    .select("phrase_id, voice_slot, path, size_bytes, status")
+    .select("phrase_id, voice_slot, path, size_bytes, duration_ms, sample_rate_hz, status")
     .eq("build_id", buildId)
     .eq("status", "complete")
     .in("phrase_id", phraseIds);
@@ -338,7 +352,7 @@ async function fetchAudioSegmentsForBuilds(
 
   const { data: segments, error } = await supabase
     .from("audio_segments")
-    .select("build_id, phrase_id, voice_slot, path, size_bytes, status")
+    .select("build_id, phrase_id, voice_slot, path, size_bytes, duration_ms, sample_rate_hz, status")
     .in("build_id", buildIds)
     .eq("status", "complete")
     .in("phrase_id", phraseIds);
@@ -348,7 +362,7 @@ async function fetchAudioSegmentsForBuilds(
     throw ApiErrors.internal("Failed to fetch audio segments");
   }
 
-  return (segments || []) as AudioSegmentRow[];
+  return segments || [];
 }
 
 function buildPhrasesMarkdown(phrases: PhraseRow[]): string {
@@ -359,9 +373,15 @@ function buildPhrasesMarkdown(phrases: PhraseRow[]): string {
 }
 
 /**
- * Filters phrases to only those with all required segments
+ * Filters phrases to only those with a segment for every slot the playback program uses
  */
-function selectExportablePhrases(phrases: PhraseRow[], segments: AudioSegmentRow[]): ExportablePhrase[] {
+function selectExportablePhrases(
+  phrases: PhraseRow[],
+  segments: AudioSegmentRow[],
+  program: PlaybackProgramStep[]
+): ExportablePhrase[] {
+  const requiredSlots = Array.from(new Set(program.map((step) => step.slot)));
+
   // Group segments by phrase_id
   const segmentsByPhrase = new Map<string, Map<string, AudioSegmentRow>>();
 
@@ -385,12 +405,13 @@ function selectExportablePhrases(phrases: PhraseRow[], segments: AudioSegmentRow
     }
 
     // Check if all required slots are present
-    const hasAllSlots = REQUIRED_SLOTS.every((slot) => phraseSegments.has(slot));
+    const hasAllSlots = requiredSlots.every((slot) => phraseSegments.has(slot));
 
     if (hasAllSlots) {
       exportable.push({
         phrase,
         segments: phraseSegments,
+        plan: expandPlaybackProgram(program, phraseSegments.keys() as Iterable<VoiceSlot>),
       });
     }
   }
@@ -404,13 +425,18 @@ function selectExportablePhrases(phrases: PhraseRow[], segments: AudioSegmentRow
 function estimateZipSize(exportablePhrases: ExportablePhrase[]): number {
   let totalAudioBytes = 0;
 
-  for (const { segments } of exportablePhrases) {
-    for (const slot of REQUIRED_SLOTS) {
+  for (const { segments, plan } of exportablePhrases) {
+    plan.forEach(({ slot, pauseMs }, index) => {
       const segment = segments.get(slot);
-      if (segment?.size_bytes) {
+      if (segment?.duration_ms && needsMp3Transcode(getAudioEncodingFromPath(segment.path), segment.sample_rate_hz)) {
+        totalAudioBytes += segment.duration_ms * TRANSCODED_MP3_BYTES_PER_MS;
+      } else if (segment?.size_bytes) {
         totalAudioBytes += segment.size_bytes;
       }
-    }
+      if (index < plan.length - 1) {
+        totalAudioBytes += pauseMs * TRANSCODED_MP3_BYTES_PER_MS;
+      }
+    });
   }
 
   // Add overhead: 1% + 1 MB for ZIP structure
@@ -435,53 +461,63 @@ async function downloadSegment(storageClient: Supabase, path: string): Promise<B
 }
 
 /**
- * Loads the silence MP3 file (800ms)
+ * Loads silence of the given length: the bundled 800ms file for the default pause,
+ * generated silent frames otherwise
  * Cached to avoid reading from disk for each phrase
  */
-let cachedSilenceBuffer: Buffer | null = null;
+const cachedSilenceBuffers = new Map<number, Buffer>();
 
-function getSilenceMp3(): Buffer {
-  if (cachedSilenceBuffer) {
-    return cachedSilenceBuffer;
+function getSilenceMp3(durationMs: number): Buffer {
+  const cached = cachedSilenceBuffers.get(durationMs);
+  if (cached) {
+    return cached;
   }
 
   try {
-    cachedSilenceBuffer = readFileSync(SILENCE_FILE_PATH);
-    return cachedSilenceBuffer;
+    const buffer =
+      durationMs === DEFAULT_PAUSE_MS ? readFileSync(SILENCE_FILE_PATH) : Buffer.from(createSilentMp3(durationMs));
+    cachedSilenceBuffers.set(durationMs, buffer);
+    return buffer;
   } catch (error) {
     throw new Error(`Failed to load silence file: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
 /**
- * Creates a combined MP3 from segments with 800ms silence between them
- * Uses simple MP3 concatenation (MP3 format supports direct byte concatenation)
+ * Creates a combined MP3 following the phrase's playback plan, with each step's pause as silence
+ * Uses simple MP3 concatenation (MP3 format supports direct byte concatenation);
+ * Ogg Opus segments and MP3 at other sample rates than the silence are transcoded with ffmpeg first
  */
 async function createPhraseMp3(storageClient: Supabase, exportablePhrase: ExportablePhrase): Promise<Buffer> {
-  // Download all segments in order
-  const segmentBuffers: Buffer[] = [];
+  // Download each slot once, even if the program repeats it
+  const segmentBuffers = new Map<string, Buffer>();
+
+  for (const { slot } of exportablePhrase.plan) {
+    if (segmentBuffers.has(slot)) continue;
 
-  for (const slot of REQUIRED_SLOTS) {
     const segment = exportablePhrase.segments.get(slot);
     if (!segment) {
       throw new Error(`Missing segment for slot ${slot} in phrase ${exportablePhrase.phrase.id}`);
     }
 
     const buffer = await downloadSegment(storageClient, segment.path);
-    segmentBuffers.push(buffer);
+    const encoding = getAudioEncodingFromPath(segment.path);
+    segmentBuffers.set(
+      slot,
+      needsMp3Transcode(encoding, segment.sample_rate_hz)
+        ? Buffer.from(await transcodeToMp3(buffer, encoding, segment.sample_rate_hz))
+        : buffer
+    );
   }
 
-  // Load silence MP3 (cached)
-  const silenceBuffer = getSilenceMp3();
-
-  // Concatenate: segment0 + silence + segment1 + silence + segment2 + silence + segment3
+  // Concatenate: segment + pause + segment + ... + last segment (no trailing pause)
   const result: Buffer[] = [];
-  for (let i = 0; i < segmentBuffers.length; i++) {
-    result.push(segmentBuffers[i]);
-    if (i < segmentBuffers.length - 1) {
-      result.push(silenceBuffer);
+  exportablePhrase.plan.forEach(({ slot, pauseMs }, index) => {
+    result.push(segmentBuffers.get(slot) as Buffer);
+    if (index < exportablePhrase.plan.length - 1 && pauseMs > 0) {
+      result.push(getSilenceMp3(pauseMs));
     }
-  }
+  });
 
   return Buffer.concat(result);
 }
@@ -519,6 +555,22 @@ async function handleExport(context: APIContext): Promise<Response> {
   const selectedNotebookIds = notebookIdsParam ? notebookIdsParam.split(",").filter((id) => id.length > 0) : [];
   const sortParam = url.searchParams.get("sort");
   const orderParam = url.searchParams.get("order");
+  const programIdParam = url.searchParams.get("program_id");
+  if (programIdParam) {
+    validateUUID(programIdParam, "Program ID");
+  }
+
+  // Segment order and pauses follow the requested program, else the one selected in the player
+  let program: PlaybackProgramStep[] | null;
+  try {
+    program = await loadPlaybackProgramSteps(supabase, userId, programIdParam);
+  } catch (error) {
+    console.error("[export-zip] Database error fetching playback program:", error);
+    throw ApiErrors.internal("Failed to fetch playback program");
+  }
+  if (!program) {
+    throw ApiErrors.notFound("Playback program not found");
+  }
 
   let notebookNameForZip = "notebook";
   let phrases: PhraseRow[] = [];
@@ -581,7 +633,7 @@ async function handleExport(context: APIContext): Promise<Response> {
   }
 
   // Filter exportable phrases
-  const exportablePhrases = selectExportablePhrases(phrases, segments);
+  const exportablePhrases = selectExportablePhrases(phrases, segments, program);
 
   if (exportablePhrases.length === 0) {
     throw ApiErrors.validationError(
@@ -48,8 +48,12 @@ export async function GET(context: APIContext) {
     // Build query
     let query = supabase
       .from("jobs")
-      .select("id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, created_at")
+      .select(
+        "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at"
+      )
       .eq("notebook_id", notebookId)
+      // Incremental audio runs in the background for single phrases and is not shown as a job
+      .neq("type", "INCREMENTAL_AUDIO")
       .order("created_at", { ascending: false })
       .limit(limit + 1); // Get one extra to check if there are more
 
@@ -0,0 +1,120 @@
+import type { APIContext } from "astro";
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import type { Database } from "../../../../../db/database.types";
+import { ApiError, ApiErrors } from "../../../../../lib/errors";
+import type { JobDTO } from "../../../../../types";
+import { ensureUserExists, getSupabaseClient, getSupabaseEnvVars } from "../../../../../lib/utils";
+import { JobWorker } from "../../../../../lib/job-worker";
+import { isInlineJobProcessingEnabled } from "../../../../../lib/job-lease";
+import { getTtsProviderName } from "../../../../../lib/tts-provider";
+
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+export const prerender = false;
+
+// Helper function to get user ID from context
+function getUserId(context: APIContext): string {
+  const userId = context.locals.userId;
+  if (!userId) {
+    throw ApiErrors.unauthorized("Authentication required");
+  }
+  return userId;
+}
+
+// Helper function to check for active jobs
+async function checkActiveJobs(supabase: SupabaseClient, notebookId: string): Promise<void> {
+  const { data: activeJobs, error } = await supabase
+    .from("jobs")
+    .select("id, state")
+    .eq("notebook_id", notebookId)
+    .neq("type", "INCREMENTAL_AUDIO")
+    .in("state", ["queued", "running"]);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check active jobs");
+  }
+
+  if (activeJobs && activeJobs.length > 0) {
+    throw ApiErrors.conflict("Job already in progress");
+  }
+}
+
+/**
+ * Queues a job that computes duration, bitrate and sample rate for existing audio segments
+ * of all the notebook's builds. No TTS calls are made, so no credentials are required.
+ */
+export async function POST(context: APIContext) {
+  try {
+    const userId = getUserId(context);
+    const supabase = getSupabaseClient(context);
+    await ensureUserExists(supabase, userId);
+
+    const notebookId = context.params.notebookId;
+    if (!notebookId) {
+      throw ApiErrors.validationError("Notebook ID is required");
+    }
+
+    // Verify notebook exists and belongs to user
+    const { data: notebook, error: notebookError } = await supabase
+      .from("notebooks")
+      .select("id")
+      .eq("id", notebookId)
+      .eq("user_id", userId)
+      .single();
+
+    if (notebookError || !notebook) {
+      throw ApiErrors.notFound("Notebook not found");
+    }
+
+    await checkActiveJobs(supabase, notebookId);
+
+    const jobId = randomUUID();
+    const { data: job, error } = await supabase
+      .from("jobs")
+      .insert({
+        id: jobId,
+        user_id: userId,
+        notebook_id: notebookId,
+        type: "BACKFILL_AUDIO_METADATA",
+        state: "queued",
+        timeout_sec: 1800,
+      })
+      .select(
+        "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at"
+      )
+      .single();
+
+    if (error) {
+      throw ApiErrors.internal("Failed to create job");
+    }
+
+    // Try to process the job immediately (non-blocking); otherwise /api/jobs/process-queued picks it up
+    try {
+      const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+      if (supabaseUrl && supabaseServiceKey && isInlineJobProcessingEnabled(context)) {
+        const worker = new JobWorker(supabaseUrl, supabaseServiceKey, getTtsProviderName(context));
+        worker.processJob(jobId).catch((error: Error) => {
+          console.error(`Failed to process job ${jobId}:`, error);
+        });
+      }
+    } catch (error) {
+      console.error("Failed to start job processing:", error);
+    }
+
+    const response: JobDTO = job;
+
+    return new Response(JSON.stringify(response), {
+      status: 202,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    return new Response(JSON.stringify({ error: { code: "internal", message: "Internal server error" } }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,162 @@
+import type { APIContext } from "astro";
+import { z } from "zod";
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import type { Database } from "../../../../../db/database.types";
+import { ApiError, ApiErrors } from "../../../../../lib/errors";
+import type { JobDTO } from "../../../../../types";
+import { ensureUserExists, getSupabaseClient, getSupabaseEnvVars } from "../../../../../lib/utils";
+import { JobWorker } from "../../../../../lib/job-worker";
+import { isInlineJobProcessingEnabled } from "../../../../../lib/job-lease";
+import { setRuntimeEnv } from "../../../../../lib/tts-encryption";
+import { getTtsProviderName } from "../../../../../lib/tts-provider";
+import { getTtsSchedulerOptions } from "../../../../../lib/tts-scheduler";
+import { getBuildRetentionCount, MAX_BUILD_RETENTION_COUNT } from "../../../../../lib/build-retention";
+
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+export const prerender = false;
+
+// Validation schemas
+const CleanupBuildsSchema = z.object({
+  keep_builds: z.number().int().min(1).max(MAX_BUILD_RETENTION_COUNT).optional(),
+});
+
+// Helper function to get user ID from context
+function getUserId(context: APIContext): string {
+  const userId = context.locals.userId;
+  if (!userId) {
+    throw ApiErrors.unauthorized("Authentication required");
+  }
+  return userId;
+}
+
+// Helper function to check for active jobs
+async function checkActiveJobs(supabase: SupabaseClient, notebookId: string): Promise<void> {
+  const { data: activeJobs, error } = await supabase
+    .from("jobs")
+    .select("id, state")
+    .eq("notebook_id", notebookId)
+    .neq("type", "INCREMENTAL_AUDIO")
+    .in("state", ["queued", "running"]);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check active jobs");
+  }
+
+  if (activeJobs && activeJobs.length > 0) {
+    throw ApiErrors.conflict("Job already in progress");
+  }
+}
+
+/**
+ * Queues a job that removes the notebook's old builds beyond the newest `keep_builds`
+ * (defaults to the BUILD_RETENTION_COUNT policy) together with their unreferenced audio objects.
+ */
+export async function POST(context: APIContext) {
+  try {
+    const userId = getUserId(context);
+    const supabase = getSupabaseClient(context);
+    await ensureUserExists(supabase, userId);
+
+    const notebookId = context.params.notebookId;
+    if (!notebookId) {
+      throw ApiErrors.validationError("Notebook ID is required");
+    }
+
+    // Body is optional: an empty request applies the configured retention policy
+    const rawBody = await context.request.text();
+    const { keep_builds } = CleanupBuildsSchema.parse(rawBody ? JSON.parse(rawBody) : {});
+
+    // Verify notebook exists and belongs to user
+    const { data: notebook, error: notebookError } = await supabase
+      .from("notebooks")
+      .select("id")
+      .eq("id", notebookId)
+      .eq("user_id", userId)
+      .single();
+
+    if (notebookError || !notebook) {
+      throw ApiErrors.notFound("Notebook not found");
+    }
+
+    // Builds must not be removed while a job may still write to or resume them
+    await checkActiveJobs(supabase, notebookId);
+
+    const jobId = randomUUID();
+    const { data: job, error } = await supabase
+      .from("jobs")
+      .insert({
+        id: jobId,
+        user_id: userId,
+        notebook_id: notebookId,
+        type: "CLEANUP_BUILDS",
+        state: "queued",
+        keep_builds: keep_builds ?? null,
+      })
+      .select(
+        "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at"
+      )
+      .single();
+
+    if (error) {
+      throw ApiErrors.internal("Failed to create job");
+    }
+
+    // Try to process the job immediately (non-blocking); otherwise /api/jobs/process-queued picks it up
+    try {
+      const localsAny = context.locals as unknown as {
+        runtime?: { env?: Record<string, string | undefined> };
+      };
+      if (localsAny.runtime?.env) {
+        setRuntimeEnv(localsAny.runtime.env);
+      }
+
+      const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+      if (supabaseUrl && supabaseServiceKey && isInlineJobProcessingEnabled(context)) {
+        const worker = new JobWorker(
+          supabaseUrl,
+          supabaseServiceKey,
+          getTtsProviderName(context),
+          getTtsSchedulerOptions(context),
+          getBuildRetentionCount(context)
+        );
+        worker.processJob(jobId).catch((error: Error) => {
+          console.error(`Failed to process job ${jobId}:`, error);
+        });
+      }
+    } catch (error) {
+      console.error("Failed to start job processing:", error);
+    }
+
+    const response: JobDTO = job;
+
+    return new Response(JSON.stringify(response), {
+      status: 202,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "validation_error",
+            message: "Invalid request data",
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    return new Response(JSON.stringify({ error: { code: "internal", message: "Internal server error" } }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -4,10 +4,17 @@ import { createClient } from "@supabase/supabase-js";
 import { randomUUID } from "node:crypto";
 import type { Database } from "../../../../../db/database.types";
 import { ApiError, ApiErrors } from "../../../../../lib/errors";
-import type { JobDTO } from "../../../../../types";
+import type { JobDTO, RebuildEstimateDTO } from "../../../../../types";
 import { ensureUserExists, getSupabaseClient, getSupabaseEnvVars } from "../../../../../lib/utils";
 import { JobWorker } from "../../../../../lib/job-worker";
+import { isInlineJobProcessingEnabled } from "../../../../../lib/job-lease";
 import { setRuntimeEnv } from "../../../../../lib/tts-encryption";
+import { getTtsProviderName } from "../../../../../lib/tts-provider";
+import { getTtsSchedulerOptions } from "../../../../../lib/tts-scheduler";
+import { TtsUsageMeter } from "../../../../../lib/tts-usage";
+import { estimateRebuild } from "../../../../../lib/rebuild-estimate";
+import { getAudioPostProcessOptions } from "../../../../../lib/audio-postprocess";
+import { getBuildRetentionCount } from "../../../../../lib/build-retention";
 
 type SupabaseClient = ReturnType<typeof createClient<Database>>;
 
@@ -16,6 +23,8 @@ export const prerender = false;
 // Validation schemas
 const GenerateRebuildSchema = z.object({
   timeout_sec: z.number().int().min(60).max(3600).optional(),
+  keep_partial: z.boolean().optional(),
+  dry_run: z.boolean().optional(),
 });
 
 // Helper function to get user ID from context
@@ -65,12 +74,27 @@ async function checkUserVoices(supabase: SupabaseClient, userId: string): Promis
   }
 }
 
+// Helper function to check the user's monthly TTS character cap
+async function checkTtsQuota(supabase: SupabaseClient, userId: string): Promise<void> {
+  let usage: TtsUsageMeter;
+  try {
+    usage = await TtsUsageMeter.load(supabase, userId);
+  } catch {
+    throw ApiErrors.internal("Failed to check TTS usage");
+  }
+
+  if (usage.exceeded) {
+    throw ApiErrors.quotaExceeded(`Monthly TTS limit of ${usage.limit} characters reached`);
+  }
+}
+
 // Helper function to check for active jobs
 async function checkActiveJobs(supabase: SupabaseClient, notebookId: string): Promise<void> {
   const { data: activeJobs, error } = await supabase
     .from("jobs")
     .select("id, state")
     .eq("notebook_id", notebookId)
+    .neq("type", "INCREMENTAL_AUDIO")
     .in("state", ["queued", "running"]);
 
   if (error) {
@@ -96,14 +120,54 @@ export async function POST(context: APIContext) {
 
     // Parse and validate request body
     const body = await context.request.json();
-    const { timeout_sec } = GenerateRebuildSchema.parse(body);
+    const { timeout_sec, keep_partial, dry_run } = GenerateRebuildSchema.parse(body);
 
-    // Check TTS credentials
-    await checkTtsCredentials(supabase, userId);
+    // Check TTS credentials (the local provider runs without a key)
+    const ttsProviderName = getTtsProviderName(context);
+    if (ttsProviderName === "google") {
+      await checkTtsCredentials(supabase, userId);
+    }
 
     // Check user voices
     await checkUserVoices(supabase, userId);
 
+    // Dry run: report what the rebuild would synthesize and cost, without queuing it
+    if (dry_run) {
+      const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+      let estimate: RebuildEstimateDTO | null;
+      try {
+        estimate = await estimateRebuild({
+          supabase,
+          // The shared audio cache is only readable with the service role
+          cacheSupabase:
+            supabaseUrl && supabaseServiceKey
+              ? createClient<Database>(supabaseUrl, supabaseServiceKey, {
+                  auth: { autoRefreshToken: false, persistSession: false },
+                })
+              : null,
+          userId,
+          notebookId,
+          ttsProviderName,
+          postProcess: getAudioPostProcessOptions(context),
+        });
+      } catch (error) {
+        console.error(`Failed to estimate rebuild of notebook ${notebookId}:`, error);
+        throw ApiErrors.internal("Failed to estimate rebuild");
+      }
+
+      if (!estimate) {
+        throw ApiErrors.notFound("Notebook not found");
+      }
+
+      return new Response(JSON.stringify(estimate), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Fail fast before any characters are billed over the monthly cap
+    await checkTtsQuota(supabase, userId);
+
     // Check for active jobs
     await checkActiveJobs(supabase, notebookId);
 
@@ -118,8 +182,11 @@ export async function POST(context: APIContext) {
         type: "GENERATE_REBUILD",
         state: "queued",
         timeout_sec: timeout_sec || 1800, // Default 30 minutes
+        keep_partial: keep_partial ?? false,
       })
-      .select("id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, created_at")
+      .select(
+        "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at"
+      )
       .single();
 
     if (error) {
@@ -151,8 +218,14 @@ export async function POST(context: APIContext) {
       }
 
       const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
-      if (supabaseUrl && supabaseServiceKey) {
-        const worker = new JobWorker(supabaseUrl, supabaseServiceKey);
+      if (supabaseUrl && supabaseServiceKey && isInlineJobProcessingEnabled(context)) {
+        const worker = new JobWorker(
+          supabaseUrl,
+          supabaseServiceKey,
+          ttsProviderName,
+          getTtsSchedulerOptions(context),
+          getBuildRetentionCount(context)
+        );
         // Process job in background (non-blocking)
         // In Cloudflare Workers, this may be interrupted, but it's worth trying
         worker.processJob(jobId).catch((error: Error) => {
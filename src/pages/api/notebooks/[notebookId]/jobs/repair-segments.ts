@@ -0,0 +1,219 @@
+import type { APIContext } from "astro";
+import { z } from "zod";
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import type { Database } from "../../../../../db/database.types";
+import { ApiError, ApiErrors } from "../../../../../lib/errors";
+import type { JobDTO } from "../../../../../types";
+import { ensureUserExists, getSupabaseClient, getSupabaseEnvVars } from "../../../../../lib/utils";
+import { JobWorker } from "../../../../../lib/job-worker";
+import { isInlineJobProcessingEnabled } from "../../../../../lib/job-lease";
+import { setRuntimeEnv } from "../../../../../lib/tts-encryption";
+import { getTtsProviderName } from "../../../../../lib/tts-provider";
+import { getTtsSchedulerOptions } from "../../../../../lib/tts-scheduler";
+import { TtsUsageMeter } from "../../../../../lib/tts-usage";
+
+type SupabaseClient = ReturnType<typeof createClient<Database>>;
+
+export const prerender = false;
+
+// Validation schemas
+const RepairSegmentsSchema = z.object({
+  timeout_sec: z.number().int().min(60).max(3600).optional(),
+  phrase_id: z.string().uuid().optional(),
+  slot: z.enum(["EN1", "EN2", "EN3", "PL"]).optional(),
+});
+
+// Helper function to get user ID from context
+function getUserId(context: APIContext): string {
+  const userId = context.locals.userId;
+  if (!userId) {
+    throw ApiErrors.unauthorized("Authentication required");
+  }
+  return userId;
+}
+
+// Helper function to check TTS credentials
+async function checkTtsCredentials(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { data: credentials, error } = await supabase
+    .from("tts_credentials")
+    .select("is_configured")
+    .eq("user_id", userId)
+    .single();
+
+  if (error && error.code !== "PGRST116") {
+    throw ApiErrors.internal("Failed to check TTS credentials");
+  }
+
+  if (!credentials?.is_configured) {
+    throw ApiErrors.validationError("TTS credentials not configured");
+  }
+}
+
+// Helper function to check the user's monthly TTS character cap
+async function checkTtsQuota(supabase: SupabaseClient, userId: string): Promise<void> {
+  let usage: TtsUsageMeter;
+  try {
+    usage = await TtsUsageMeter.load(supabase, userId);
+  } catch {
+    throw ApiErrors.internal("Failed to check TTS usage");
+  }
+
+  if (usage.exceeded) {
+    throw ApiErrors.quotaExceeded(`Monthly TTS limit of ${usage.limit} characters reached`);
+  }
+}
+
+// Helper function to check for active jobs
+async function checkActiveJobs(supabase: SupabaseClient, notebookId: string): Promise<void> {
+  const { data: activeJobs, error } = await supabase
+    .from("jobs")
+    .select("id, state")
+    .eq("notebook_id", notebookId)
+    .neq("type", "INCREMENTAL_AUDIO")
+    .in("state", ["queued", "running"]);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check active jobs");
+  }
+
+  if (activeJobs && activeJobs.length > 0) {
+    throw ApiErrors.conflict("Job already in progress");
+  }
+}
+
+/**
+ * Queues a job that regenerates only the failed or missing segments of the notebook's current build,
+ * optionally limited to one phrase and/or voice slot.
+ */
+export async function POST(context: APIContext) {
+  try {
+    const userId = getUserId(context);
+    const supabase = getSupabaseClient(context);
+    await ensureUserExists(supabase, userId);
+
+    const notebookId = context.params.notebookId;
+    if (!notebookId) {
+      throw ApiErrors.validationError("Notebook ID is required");
+    }
+
+    // Body is optional: an empty request repairs the whole notebook
+    const rawBody = await context.request.text();
+    const { timeout_sec, phrase_id, slot } = RepairSegmentsSchema.parse(rawBody ? JSON.parse(rawBody) : {});
+
+    // Verify notebook exists and belongs to user
+    const { data: notebook, error: notebookError } = await supabase
+      .from("notebooks")
+      .select("id, current_build_id")
+      .eq("id", notebookId)
+      .eq("user_id", userId)
+      .single();
+
+    if (notebookError || !notebook) {
+      throw ApiErrors.notFound("Notebook not found");
+    }
+
+    if (!notebook.current_build_id) {
+      throw ApiErrors.conflict("Notebook has no audio to repair; generate audio first");
+    }
+
+    if (phrase_id) {
+      const { data: phrase, error: phraseError } = await supabase
+        .from("phrases")
+        .select("id")
+        .eq("id", phrase_id)
+        .eq("notebook_id", notebookId)
+        .maybeSingle();
+
+      if (phraseError) {
+        throw ApiErrors.internal("Failed to fetch phrase");
+      }
+      if (!phrase) {
+        throw ApiErrors.notFound("Phrase not found");
+      }
+    }
+
+    // Check TTS credentials (the local provider runs without a key)
+    const ttsProviderName = getTtsProviderName(context);
+    if (ttsProviderName === "google") {
+      await checkTtsCredentials(supabase, userId);
+    }
+
+    // Fail fast before any characters are billed over the monthly cap
+    await checkTtsQuota(supabase, userId);
+
+    await checkActiveJobs(supabase, notebookId);
+
+    const jobId = randomUUID();
+    const { data: job, error } = await supabase
+      .from("jobs")
+      .insert({
+        id: jobId,
+        user_id: userId,
+        notebook_id: notebookId,
+        type: "REPAIR_SEGMENTS",
+        state: "queued",
+        timeout_sec: timeout_sec || 1800,
+        target_phrase_id: phrase_id ?? null,
+        target_slot: slot ?? null,
+      })
+      .select(
+        "id, user_id, notebook_id, type, state, started_at, ended_at, timeout_sec, error, cache_hits, total_segments, completed_segments, failed_segments, current_phrase_id, keep_partial, resume_build_id, target_phrase_id, target_slot, created_at"
+      )
+      .single();
+
+    if (error) {
+      throw ApiErrors.internal("Failed to create job");
+    }
+
+    // Try to process the job immediately (non-blocking); otherwise /api/jobs/process-queued picks it up
+    try {
+      const localsAny = context.locals as unknown as {
+        runtime?: { env?: Record<string, string | undefined> };
+      };
+      if (localsAny.runtime?.env) {
+        setRuntimeEnv(localsAny.runtime.env);
+      }
+
+      const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+      if (supabaseUrl && supabaseServiceKey && isInlineJobProcessingEnabled(context)) {
+        const worker = new JobWorker(supabaseUrl, supabaseServiceKey, ttsProviderName, getTtsSchedulerOptions(context));
+        worker.processJob(jobId).catch((error: Error) => {
+          console.error(`Failed to process job ${jobId}:`, error);
+        });
+      }
+    } catch (error) {
+      console.error("Failed to start job processing:", error);
+    }
+
+    const response: JobDTO = job;
+
+    return new Response(JSON.stringify(response), {
+      status: 202,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: "validation_error",
+            message: "Invalid request data",
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          },
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    return new Response(JSON.stringify({ error: { code: "internal", message: "Internal server error" } }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
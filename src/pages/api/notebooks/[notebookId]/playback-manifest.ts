@@ -5,6 +5,7 @@ import type { Database } from "../../../../db/database.types";
 import { ApiErrors } from "../../../../lib/errors";
 import type { PlaybackManifestDTO, PlaybackManifestItem, PlaybackManifestSegment } from "../../../../types";
 import { getSupabaseClient, isVirtualNotebook, getDifficultyFromVirtualNotebook } from "../../../../lib/utils";
+import { getAudioContentType, getAudioEncodingFromPath } from "../../../../lib/audio-format";
 
 export const prerender = false;
 
@@ -40,6 +41,7 @@ type AudioSegmentSelection = Pick<
   | "status"
   | "error_code"
   | "word_timings"
+  | "is_stale"
 >;
 type SignedSegment = AudioSegmentSelection & { url: string };
 
@@ -406,7 +408,7 @@ export async function GET(context: APIContext) {
           .select(
             `
             id, phrase_id, voice_slot, build_id, path, duration_ms, size_bytes,
-            sample_rate_hz, bitrate_kbps, status, error_code, word_timings
+            sample_rate_hz, bitrate_kbps, status, error_code, word_timings, is_stale
           `
           )
           .eq("build_id", notebook.current_build_id)
@@ -436,7 +438,7 @@ export async function GET(context: APIContext) {
         .select(
           `
           id, phrase_id, voice_slot, build_id, path, duration_ms, size_bytes,
-          sample_rate_hz, bitrate_kbps, status, error_code, word_timings
+          sample_rate_hz, bitrate_kbps, status, error_code, word_timings, is_stale
         `
         )
         .eq("build_id", currentBuildId)
@@ -472,7 +474,7 @@ export async function GET(context: APIContext) {
         .select(
           `
           id, phrase_id, voice_slot, build_id, path, duration_ms, size_bytes,
-          sample_rate_hz, bitrate_kbps, status, error_code, word_timings
+          sample_rate_hz, bitrate_kbps, status, error_code, word_timings, is_stale
         `
         )
         .eq("build_id", currentBuildId)
@@ -554,6 +556,9 @@ export async function GET(context: APIContext) {
             url: segment.url,
             duration_ms: segment.duration_ms,
             word_timings: (segment.word_timings as PlaybackManifestSegment["word_timings"]) ?? null,
+            is_stale: segment.is_stale,
+            content_type: getAudioContentType(getAudioEncodingFromPath(segment.path)),
+            size_bytes: segment.size_bytes,
           })
         ),
       };
@@ -0,0 +1,143 @@
+import type { APIRoute, APIContext } from "astro";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import type { PlaybackStateDTO, UpdatePlaybackStateCommand } from "../../../../types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { withErrorHandling, requireAuth, ApiErrors } from "../../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../../lib/utils";
+import { validateUUID } from "../../../../lib/validation.service";
+import { toPlaybackSpeed, validatePlaybackState } from "../../../../lib/playback-state";
+
+export const prerender = false;
+
+type Supabase = SupabaseClient<Database>;
+
+const PLAYBACK_STATE_COLUMNS = "notebook_id, phrase_id, voice_slot, speed, updated_at";
+
+async function requireOwnedNotebook(supabase: Supabase, notebookId: string, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("notebooks")
+    .select("id")
+    .eq("id", notebookId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to fetch notebook");
+  }
+  if (!data) {
+    throw ApiErrors.notFound("Notebook not found");
+  }
+}
+
+function toPlaybackStateDTO(row: Database["public"]["Tables"]["playback_states"]["Row"]): PlaybackStateDTO {
+  return {
+    notebook_id: row.notebook_id,
+    phrase_id: row.phrase_id,
+    voice_slot: row.voice_slot,
+    speed: toPlaybackSpeed(row.speed),
+    updated_at: row.updated_at,
+  };
+}
+
+// GET /api/notebooks/:notebookId/playback-state - Where the user left off in the player
+const getPlaybackState = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const notebookId = context.params.notebookId as string;
+  validateUUID(notebookId, "Notebook ID");
+
+  const supabase = getSupabaseClient(context);
+  await requireOwnedNotebook(supabase, notebookId, locals.userId);
+
+  const { data, error } = await supabase
+    .from("playback_states")
+    .select(`user_id, ${PLAYBACK_STATE_COLUMNS}`)
+    .eq("user_id", locals.userId)
+    .eq("notebook_id", notebookId)
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to fetch playback state");
+  }
+  if (!data) {
+    throw ApiErrors.notFound("No saved playback position for this notebook");
+  }
+
+  return new Response(JSON.stringify(toPlaybackStateDTO(data)), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// PUT /api/notebooks/:notebookId/playback-state - Save the current phrase, segment and speed
+const savePlaybackState = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const notebookId = context.params.notebookId as string;
+  validateUUID(notebookId, "Notebook ID");
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  let body: UpdatePlaybackStateCommand | null;
+  try {
+    body = await context.request.json();
+  } catch {
+    throw ApiErrors.validationError("Invalid JSON body");
+  }
+  if (!body || typeof body !== "object") {
+    throw ApiErrors.validationError("Invalid JSON body");
+  }
+  const command = validatePlaybackState(body);
+
+  await requireOwnedNotebook(supabase, notebookId, locals.userId);
+
+  const { data: phrase, error: phraseError } = await supabase
+    .from("phrases")
+    .select("id")
+    .eq("id", command.phrase_id)
+    .eq("notebook_id", notebookId)
+    .maybeSingle();
+
+  if (phraseError) {
+    throw ApiErrors.internal("Failed to fetch phrase");
+  }
+  if (!phrase) {
+    throw ApiErrors.notFound("Phrase not found in this notebook");
+  }
+
+  const { data, error } = await supabase
+    .from("playback_states")
+    .upsert(
+      {
+        user_id: locals.userId,
+        notebook_id: notebookId,
+        phrase_id: command.phrase_id,
+        voice_slot: command.voice_slot ?? null,
+        speed: command.speed,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,notebook_id" }
+    )
+    .select(`user_id, ${PLAYBACK_STATE_COLUMNS}`)
+    .single();
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to save playback state");
+  }
+
+  return new Response(JSON.stringify(toPlaybackStateDTO(data)), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+export const GET: APIRoute = withErrorHandling(getPlaybackState);
+export const PUT: APIRoute = withErrorHandling(savePlaybackState);
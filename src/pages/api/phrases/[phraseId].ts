@@ -3,6 +3,7 @@ import type { UpdatePhraseCommand } from "../../../types";
 import type { LocalsWithAuth } from "../../../lib/types";
 import { withErrorHandling, requireAuth, ApiErrors } from "../../../lib/errors";
 import { ensureUserExists, getSupabaseClient } from "../../../lib/utils";
+import { markPhraseAudioStale, triggerIncrementalAudioGeneration } from "../../../lib/incremental-audio";
 
 export const prerender = false;
 
@@ -90,6 +91,12 @@ const updatePhrase = async (context: APIContext): Promise<Response> => {
     throw ApiErrors.validationError("No valid fields to update");
   }
 
+  // Remember the current texts so audio is only regenerated for languages that actually changed
+  const previousTexts =
+    updateData.en_text !== undefined || updateData.pl_text !== undefined
+      ? (await supabase.from("phrases").select("en_text, pl_text").eq("id", phraseId).single()).data
+      : null;
+
   const { data, error } = await supabase
     .from("phrases")
     .update(updateData)
@@ -97,7 +104,7 @@ const updatePhrase = async (context: APIContext): Promise<Response> => {
     .select(
       `
       id, position, en_text, pl_text, learning_hint_markdown, tokens, difficulty, created_at, updated_at,
-      notebook:notebooks!inner(id, user_id)
+      notebook:notebooks!inner(id, user_id, current_build_id)
     `
     )
     .single();
@@ -121,6 +128,29 @@ const updatePhrase = async (context: APIContext): Promise<Response> => {
     throw ApiErrors.notFound("Phrase not found");
   }
 
+  // Edited text makes the affected slots of the current build stale; regenerate them in the background
+  const changedLanguages = previousTexts
+    ? (["en", "pl"] as const).filter((language) =>
+        language === "en" ? previousTexts.en_text !== data.en_text : previousTexts.pl_text !== data.pl_text
+      )
+    : [];
+  if (changedLanguages.length > 0 && data.notebook.current_build_id) {
+    try {
+      await markPhraseAudioStale(supabase, data.notebook.current_build_id, phraseId, [...changedLanguages]);
+      triggerIncrementalAudioGeneration({
+        context,
+        userId: locals.userId,
+        notebookId: data.notebook.id,
+        phraseIds: [phraseId],
+        source: "update_phrase",
+      });
+    } catch (staleError) {
+      // The text update succeeded; a full rebuild still refreshes the audio
+      // eslint-disable-next-line no-console
+      console.error("Failed to schedule audio regeneration:", staleError);
+    }
+  }
+
   // Remove the notebook data from response
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const { notebook, ...phraseData } = data;
@@ -181,8 +211,8 @@ const deletePhrase = async (context: APIContext): Promise<Response> => {
     throw ApiErrors.internal("Failed to verify notebook ownership");
   }
 
-  // Delete audio files associated with this phrase from storage
-  // Structure: audio/{userId}/{notebookId}/{phraseId}/{voice}.mp3
+  // Delete audio files and the recording associated with this phrase from storage
+  // Structure: audio/{userId}/{notebookId}/{phraseId}/{voice}-{buildId}.mp3
   const audioPath = `${locals.userId}/${phrase.notebook_id}/${phraseId}`;
   const filesToDelete: string[] = [];
 
@@ -204,6 +234,10 @@ const deletePhrase = async (context: APIContext): Promise<Response> => {
       }
     }
 
+    // The learner's best take lives outside the phrase folder: recordings/{userId}/{phraseId}.{ext}
+    const { data: recordings } = await supabase.from("phrase_recordings").select("path").eq("phrase_id", phraseId);
+    filesToDelete.push(...(recordings || []).map((recording) => recording.path));
+
     // Delete all collected files
     if (filesToDelete.length > 0) {
       const { error: deleteError } = await supabase.storage.from("audio").remove(filesToDelete);
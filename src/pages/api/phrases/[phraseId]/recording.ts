@@ -0,0 +1,238 @@
+import type { APIRoute, APIContext } from "astro";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import type { PhraseRecordingDTO, VoiceSlot } from "../../../../types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { withErrorHandling, requireAuth, ApiErrors } from "../../../../lib/errors";
+import { ensureUserExists, getSupabaseClient, getSupabaseEnvVars } from "../../../../lib/utils";
+import { validateUUID } from "../../../../lib/validation.service";
+
+export const prerender = false;
+
+type Supabase = SupabaseClient<Database>;
+
+// A one-minute take is well below this at the bitrates browsers record speech with
+const MAX_RECORDING_BYTES = 2 * 1024 * 1024;
+const SIGNED_URL_SECONDS = 3600;
+
+// MediaRecorder formats: Chrome/Firefox record WebM or Ogg, Safari records MP4
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+};
+
+const VOICE_SLOTS: VoiceSlot[] = ["EN1", "EN2", "EN3", "PL"];
+
+const RECORDING_COLUMNS = "id, phrase_id, voice_slot, path, content_type, size_bytes, duration_ms, created_at";
+
+/**
+ * Recordings live in the audio bucket, which only the service role can write; without it the
+ * request client is used and storage policies decide.
+ */
+function getStorageClient(context: APIContext, supabase: Supabase): Supabase {
+  const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+  return supabaseUrl && supabaseServiceKey
+    ? createClient<Database>(supabaseUrl, supabaseServiceKey, {
+        auth: { autoRefreshToken: false, persistSession: false },
+      })
+    : supabase;
+}
+
+async function requireOwnedPhrase(supabase: Supabase, phraseId: string, userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("phrases")
+    .select("id, notebook:notebooks!inner(user_id)")
+    .eq("id", phraseId)
+    .maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to fetch phrase");
+  }
+  if (!data || data.notebook.user_id !== userId) {
+    throw ApiErrors.notFound("Phrase not found");
+  }
+}
+
+async function toRecordingDTO(
+  storage: Supabase,
+  row: Omit<PhraseRecordingDTO, "url"> & { path: string }
+): Promise<PhraseRecordingDTO> {
+  const { data, error } = await storage.storage.from("audio").createSignedUrl(row.path, SIGNED_URL_SECONDS);
+  if (error || !data) {
+    throw ApiErrors.internal("Failed to sign recording URL");
+  }
+  return {
+    id: row.id,
+    phrase_id: row.phrase_id,
+    voice_slot: row.voice_slot,
+    content_type: row.content_type,
+    size_bytes: row.size_bytes,
+    duration_ms: row.duration_ms,
+    created_at: row.created_at,
+    url: data.signedUrl,
+  };
+}
+
+// GET /api/phrases/:phraseId/recording - The uploaded best take of the phrase
+const getRecording = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const { phraseId } = context.params as { phraseId: string };
+  validateUUID(phraseId, "Phrase ID");
+
+  const { data, error } = await supabase
+    .from("phrase_recordings")
+    .select(RECORDING_COLUMNS)
+    .eq("phrase_id", phraseId)
+    .eq("user_id", locals.userId)
+    .maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to fetch recording");
+  }
+  if (!data) {
+    throw ApiErrors.notFound("No recording for this phrase");
+  }
+
+  const response = await toRecordingDTO(getStorageClient(context, supabase), data);
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// PUT /api/phrases/:phraseId/recording?slot=EN1&duration_ms=2300 - Upload the best take (raw audio body)
+const putRecording = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const { phraseId } = context.params as { phraseId: string };
+  validateUUID(phraseId, "Phrase ID");
+  await requireOwnedPhrase(supabase, phraseId, locals.userId);
+
+  const slot = context.url.searchParams.get("slot") as VoiceSlot | null;
+  if (!slot || !VOICE_SLOTS.includes(slot)) {
+    throw ApiErrors.validationError(`slot must be one of: ${VOICE_SLOTS.join(", ")}`);
+  }
+  const durationParam = context.url.searchParams.get("duration_ms");
+  const durationMs = durationParam ? Number(durationParam) : null;
+  if (durationMs !== null && (!Number.isInteger(durationMs) || durationMs <= 0)) {
+    throw ApiErrors.validationError("duration_ms must be a positive integer");
+  }
+
+  // Codec parameters ("audio/webm;codecs=opus") are kept for playback but not needed to pick the extension
+  const contentType = context.request.headers.get("content-type") ?? "";
+  const extension = RECORDING_EXTENSIONS[contentType.split(";")[0].trim().toLowerCase()];
+  if (!extension) {
+    throw ApiErrors.validationError(`Content-Type must be one of: ${Object.keys(RECORDING_EXTENSIONS).join(", ")}`);
+  }
+
+  // The declared length rejects an oversized upload before its body is read; the size check after
+  // reading covers bodies sent without it
+  const tooLarge = ApiErrors.limitExceeded(`Recording must be at most ${MAX_RECORDING_BYTES / 1024 / 1024} MB`);
+  if (Number(context.request.headers.get("content-length")) > MAX_RECORDING_BYTES) {
+    throw tooLarge;
+  }
+  const audio = new Uint8Array(await context.request.arrayBuffer());
+  if (audio.length === 0) {
+    throw ApiErrors.validationError("Recording is empty");
+  }
+  if (audio.length > MAX_RECORDING_BYTES) {
+    throw tooLarge;
+  }
+
+  const storage = getStorageClient(context, supabase);
+  const path = `recordings/${locals.userId}/${phraseId}.${extension}`;
+
+  // A take in another container format leaves the old file behind under a different extension
+  const { data: previous } = await supabase
+    .from("phrase_recordings")
+    .select("path")
+    .eq("phrase_id", phraseId)
+    .eq("user_id", locals.userId)
+    .maybeSingle();
+
+  const { error: uploadError } = await storage.storage.from("audio").upload(path, audio, { contentType, upsert: true });
+  if (uploadError) {
+    // eslint-disable-next-line no-console
+    console.error("Storage error:", uploadError);
+    throw ApiErrors.internal("Failed to store recording");
+  }
+  if (previous && previous.path !== path) {
+    await storage.storage.from("audio").remove([previous.path]);
+  }
+
+  const { data, error } = await supabase
+    .from("phrase_recordings")
+    .upsert(
+      {
+        user_id: locals.userId,
+        phrase_id: phraseId,
+        voice_slot: slot,
+        path,
+        content_type: contentType,
+        size_bytes: audio.length,
+        duration_ms: durationMs,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,phrase_id" }
+    )
+    .select(RECORDING_COLUMNS)
+    .single();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to save recording");
+  }
+
+  const response = await toRecordingDTO(storage, data);
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// DELETE /api/phrases/:phraseId/recording - Remove the uploaded take
+const deleteRecording = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const { phraseId } = context.params as { phraseId: string };
+  validateUUID(phraseId, "Phrase ID");
+
+  const { data, error } = await supabase
+    .from("phrase_recordings")
+    .delete()
+    .eq("phrase_id", phraseId)
+    .eq("user_id", locals.userId)
+    .select("path");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to delete recording");
+  }
+  if (!data || data.length === 0) {
+    throw ApiErrors.notFound("No recording for this phrase");
+  }
+
+  await getStorageClient(context, supabase)
+    .storage.from("audio")
+    .remove(data.map((row) => row.path));
+
+  return new Response(null, { status: 204 });
+};
+
+export const GET: APIRoute = withErrorHandling(getRecording);
+export const PUT: APIRoute = withErrorHandling(putRecording);
+export const DELETE: APIRoute = withErrorHandling(deleteRecording);
@@ -0,0 +1,98 @@
+import type { APIRoute, APIContext } from "astro";
+import type { PlaybackProgramDTO, UpdatePlaybackProgramCommand } from "../../../types";
+import type { Json } from "../../../db/database.types";
+import type { LocalsWithAuth } from "../../../lib/types";
+import { withErrorHandling, requireAuth, ApiErrors } from "../../../lib/errors";
+import { getSupabaseClient } from "../../../lib/utils";
+import { validateUUID } from "../../../lib/validation.service";
+import { parsePlaybackProgramSteps, validatePlaybackProgram } from "../../../lib/playback-program";
+
+export const prerender = false;
+
+const PROGRAM_COLUMNS = "id, name, steps, created_at, updated_at";
+
+// PATCH /api/playback-programs/:programId - Rename a program or replace its steps
+const updatePlaybackProgram = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const { programId } = context.params as { programId: string };
+  validateUUID(programId, "Program ID");
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("playback_programs")
+    .select(PROGRAM_COLUMNS)
+    .eq("id", programId)
+    .eq("user_id", locals.userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw ApiErrors.internal("Failed to fetch playback program");
+  }
+  if (!existing) {
+    throw ApiErrors.notFound("Playback program not found");
+  }
+
+  const body: UpdatePlaybackProgramCommand = await context.request.json();
+  const program = validatePlaybackProgram({
+    name: body.name ?? existing.name,
+    steps: body.steps ?? parsePlaybackProgramSteps(existing.steps),
+  });
+
+  const { data, error } = await supabase
+    .from("playback_programs")
+    .update({ name: program.name, steps: program.steps as unknown as Json, updated_at: new Date().toISOString() })
+    .eq("id", programId)
+    .eq("user_id", locals.userId)
+    .select(PROGRAM_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw ApiErrors.conflict(`A playback program named "${program.name}" already exists`);
+    }
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to update playback program");
+  }
+
+  const response: PlaybackProgramDTO = { ...data, steps: program.steps };
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// DELETE /api/playback-programs/:programId - Delete a program (the player falls back to the default sequence)
+const deletePlaybackProgram = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const { programId } = context.params as { programId: string };
+  validateUUID(programId, "Program ID");
+
+  const { data, error } = await supabase
+    .from("playback_programs")
+    .delete()
+    .eq("id", programId)
+    .eq("user_id", locals.userId)
+    .select("id");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to delete playback program");
+  }
+  if (!data || data.length === 0) {
+    throw ApiErrors.notFound("Playback program not found");
+  }
+
+  return new Response(null, { status: 204 });
+};
+
+export const PATCH: APIRoute = withErrorHandling(updatePlaybackProgram);
+export const DELETE: APIRoute = withErrorHandling(deletePlaybackProgram);
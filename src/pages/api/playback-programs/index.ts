@@ -0,0 +1,77 @@
+import type { APIRoute, APIContext } from "astro";
+import type { CreatePlaybackProgramCommand, PlaybackProgramDTO, PlaybackProgramsResponse } from "../../../types";
+import type { Json } from "../../../db/database.types";
+import type { LocalsWithAuth } from "../../../lib/types";
+import { withErrorHandling, requireAuth, ApiErrors } from "../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../lib/utils";
+import { parsePlaybackProgramSteps, validatePlaybackProgram } from "../../../lib/playback-program";
+
+export const prerender = false;
+
+const PROGRAM_COLUMNS = "id, name, steps, created_at, updated_at";
+
+// GET /api/playback-programs - List the user's playback programs and the selected one
+const getPlaybackPrograms = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const [programsResult, userResult] = await Promise.all([
+    supabase.from("playback_programs").select(PROGRAM_COLUMNS).eq("user_id", locals.userId).order("name"),
+    supabase.from("users").select("playback_program_id").eq("id", locals.userId).maybeSingle(),
+  ]);
+
+  if (programsResult.error || userResult.error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", programsResult.error ?? userResult.error);
+    throw ApiErrors.internal("Failed to fetch playback programs");
+  }
+
+  const response: PlaybackProgramsResponse = {
+    items: (programsResult.data || []).map((row) => ({ ...row, steps: parsePlaybackProgramSteps(row.steps) })),
+    selected_program_id: userResult.data?.playback_program_id ?? null,
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// POST /api/playback-programs - Create a playback program
+const createPlaybackProgram = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const body: CreatePlaybackProgramCommand = await context.request.json();
+  const program = validatePlaybackProgram(body);
+
+  const { data, error } = await supabase
+    .from("playback_programs")
+    .insert({ user_id: locals.userId, name: program.name, steps: program.steps as unknown as Json })
+    .select(PROGRAM_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw ApiErrors.conflict(`A playback program named "${program.name}" already exists`);
+    }
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to create playback program");
+  }
+
+  const response: PlaybackProgramDTO = { ...data, steps: program.steps };
+  return new Response(JSON.stringify(response), {
+    status: 201,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+export const GET: APIRoute = withErrorHandling(getPlaybackPrograms);
+export const POST: APIRoute = withErrorHandling(createPlaybackProgram);
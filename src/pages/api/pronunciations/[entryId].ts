@@ -0,0 +1,108 @@
+import type { APIRoute, APIContext } from "astro";
+import type { PronunciationEntryDTO, PronunciationLanguage, UpdatePronunciationEntryCommand } from "../../../types";
+import type { LocalsWithAuth } from "../../../lib/types";
+import { withErrorHandling, requireAuth, ApiErrors } from "../../../lib/errors";
+import { getSupabaseClient } from "../../../lib/utils";
+import { validateUUID } from "../../../lib/validation.service";
+import { validatePronunciationEntry } from "../../../lib/lexicon";
+
+export const prerender = false;
+
+const ENTRY_COLUMNS = "id, language, term, alias, phoneme, created_at, updated_at";
+
+// PATCH /api/pronunciations/:entryId - Update a lexicon entry
+const updatePronunciation = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const { entryId } = context.params as { entryId: string };
+  validateUUID(entryId, "Entry ID");
+
+  const { data: existing, error: fetchError } = await supabase
+    .from("pronunciation_lexicon")
+    .select(ENTRY_COLUMNS)
+    .eq("id", entryId)
+    .eq("user_id", locals.userId)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw ApiErrors.internal("Failed to fetch pronunciation");
+  }
+  if (!existing) {
+    throw ApiErrors.notFound("Pronunciation not found");
+  }
+
+  const body: UpdatePronunciationEntryCommand = await context.request.json();
+  let alias = body.alias !== undefined ? body.alias : existing.alias;
+  let phoneme = body.phoneme !== undefined ? body.phoneme : existing.phoneme;
+  // Setting only one of alias and phoneme switches the entry to that kind
+  if (body.alias != null && body.phoneme === undefined) {
+    phoneme = null;
+  }
+  if (body.phoneme != null && body.alias === undefined) {
+    alias = null;
+  }
+
+  const entry = validatePronunciationEntry({
+    language: body.language ?? (existing.language as PronunciationLanguage),
+    term: body.term ?? existing.term,
+    alias,
+    phoneme,
+  });
+
+  const { data, error } = await supabase
+    .from("pronunciation_lexicon")
+    .update({ ...entry, updated_at: new Date().toISOString() })
+    .eq("id", entryId)
+    .eq("user_id", locals.userId)
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw ApiErrors.conflict(`"${entry.term}" is already in the ${entry.language} lexicon`);
+    }
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to update pronunciation");
+  }
+
+  return new Response(JSON.stringify(data as PronunciationEntryDTO), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// DELETE /api/pronunciations/:entryId - Remove a lexicon entry
+const deletePronunciation = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const { entryId } = context.params as { entryId: string };
+  validateUUID(entryId, "Entry ID");
+
+  const { data, error } = await supabase
+    .from("pronunciation_lexicon")
+    .delete()
+    .eq("id", entryId)
+    .eq("user_id", locals.userId)
+    .select("id");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to delete pronunciation");
+  }
+  if (!data || data.length === 0) {
+    throw ApiErrors.notFound("Pronunciation not found");
+  }
+
+  return new Response(null, { status: 204 });
+};
+
+export const PATCH: APIRoute = withErrorHandling(updatePronunciation);
+export const DELETE: APIRoute = withErrorHandling(deletePronunciation);
@@ -0,0 +1,81 @@
+import type { APIRoute, APIContext } from "astro";
+import type {
+  CreatePronunciationEntryCommand,
+  PronunciationEntryDTO,
+  PronunciationLexiconResponse,
+} from "../../../types";
+import type { LocalsWithAuth } from "../../../lib/types";
+import { withErrorHandling, requireAuth, ApiErrors } from "../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../lib/utils";
+import { validatePronunciationEntry } from "../../../lib/lexicon";
+
+export const prerender = false;
+
+const ENTRY_COLUMNS = "id, language, term, alias, phoneme, created_at, updated_at";
+
+// GET /api/pronunciations - List the user's pronunciation lexicon (?language=en|pl)
+const getPronunciations = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+
+  const language = context.url.searchParams.get("language");
+  if (language && language !== "en" && language !== "pl") {
+    throw ApiErrors.validationError("language must be 'en' or 'pl'");
+  }
+
+  let query = supabase.from("pronunciation_lexicon").select(ENTRY_COLUMNS).eq("user_id", locals.userId);
+  if (language) {
+    query = query.eq("language", language);
+  }
+  const { data, error } = await query.order("language").order("term");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to fetch pronunciation lexicon");
+  }
+
+  const response: PronunciationLexiconResponse = { items: (data || []) as PronunciationEntryDTO[] };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// POST /api/pronunciations - Add a lexicon entry
+const createPronunciation = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const body: CreatePronunciationEntryCommand = await context.request.json();
+  const entry = validatePronunciationEntry(body);
+
+  const { data, error } = await supabase
+    .from("pronunciation_lexicon")
+    .insert({ user_id: locals.userId, ...entry })
+    .select(ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw ApiErrors.conflict(`"${entry.term}" is already in the ${entry.language} lexicon`);
+    }
+    // eslint-disable-next-line no-console
+    console.error("Database error:", error);
+    throw ApiErrors.internal("Failed to add pronunciation");
+  }
+
+  return new Response(JSON.stringify(data as PronunciationEntryDTO), {
+    status: 201,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+export const GET: APIRoute = withErrorHandling(getPronunciations);
+export const POST: APIRoute = withErrorHandling(createPronunciation);
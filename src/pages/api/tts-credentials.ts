@@ -1,6 +1,7 @@
 import type { APIContext } from "astro";
 import { z } from "zod";
 import { ApiErrors } from "../../lib/errors";
+import { GoogleTtsProvider, toTtsApiError, type TtsKeyValidationResult } from "../../lib/tts-provider";
 import type { ApiErrorCode, TtsCredentialsStateDTO } from "../../types";
 import { encrypt, generateKeyFingerprint, setRuntimeEnv } from "../../lib/tts-encryption";
 import { ensureUserExists, getSupabaseClient } from "../../lib/utils";
@@ -32,40 +33,11 @@ function getUserId(context: APIContext): string {
 }
 
 // Helper function to test TTS credentials with Google
-async function testTtsCredentials(apiKey: string): Promise<{ ok: boolean; voice_sampled: string }> {
+async function testTtsCredentials(apiKey: string): Promise<TtsKeyValidationResult> {
   try {
-    // Make a minimal test request to Google TTS API
-    const response = await fetch("https://texttospeech.googleapis.com/v1/voices", {
-      method: "GET",
-      headers: {
-        "X-goog-api-key": apiKey,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 400) {
-        throw ApiErrors.invalidKey("Google TTS key is invalid");
-      }
-      if (response.status === 402) {
-        throw ApiErrors.quotaExceeded("TTS provider quota exhausted");
-      }
-      if (response.status === 504) {
-        throw ApiErrors.ttsTimeout("TTS provider timed out");
-      }
-      throw ApiErrors.internal("TTS test failed");
-    }
-
-    const data = await response.json();
-    const voices = data.voices || [];
-    const voiceSampled = voices.length > 0 ? voices[0].name : "en-US-Standard-A";
-
-    return { ok: true, voice_sampled: voiceSampled };
+    return await new GoogleTtsProvider(apiKey).validateKey();
   } catch (error) {
-    if (error instanceof Error && error.message.includes("timeout")) {
-      throw ApiErrors.ttsTimeout("TTS provider timed out");
-    }
-    throw error;
+    throw toTtsApiError(error);
   }
 }
 
@@ -1,6 +1,7 @@
 import type { APIContext } from "astro";
 import { z } from "zod";
 import { ApiError, ApiErrors } from "../../../lib/errors";
+import { GoogleTtsProvider, toTtsApiError, type TtsKeyValidationResult } from "../../../lib/tts-provider";
 
 export const prerender = false;
 
@@ -20,51 +21,11 @@ function getUserId(context: APIContext): string {
 }
 
 // Helper function to test TTS credentials with Google
-async function testTtsCredentials(apiKey: string): Promise<{ ok: boolean; voice_sampled: string }> {
+async function testTtsCredentials(apiKey: string): Promise<TtsKeyValidationResult> {
   try {
-    // Make a minimal test request to Google TTS API
-    const response = await fetch("https://texttospeech.googleapis.com/v1/voices", {
-      method: "GET",
-      headers: {
-        "X-goog-api-key": apiKey,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      if (response.status === 400) {
-        throw ApiErrors.invalidKey("Google TTS key is invalid");
-      }
-      if (response.status === 401) {
-        throw ApiErrors.invalidKey("Google TTS key is invalid or unauthorized");
-      }
-      if (response.status === 402) {
-        throw ApiErrors.quotaExceeded("TTS provider quota exhausted");
-      }
-      if (response.status === 504) {
-        throw ApiErrors.ttsTimeout("TTS provider timed out");
-      }
-      // Log the actual error for debugging
-      console.error("Google TTS API error:", response.status, response.statusText);
-      throw ApiErrors.internal(`TTS test failed with status ${response.status}`);
-    }
-
-    const data = await response.json();
-    const voices = data.voices || [];
-    const voiceSampled = voices.length > 0 ? voices[0].name : "en-US-Standard-A";
-
-    return { ok: true, voice_sampled: voiceSampled };
+    return await new GoogleTtsProvider(apiKey).validateKey();
   } catch (error) {
-    if (error instanceof Error && error.message.includes("timeout")) {
-      throw ApiErrors.ttsTimeout("TTS provider timed out");
-    }
-    // Re-throw API errors as-is
-    if (error instanceof Error && "code" in error) {
-      throw error;
-    }
-    // Log unexpected errors
-    console.error("Unexpected error in testTtsCredentials:", error);
-    throw ApiErrors.internal("TTS test failed due to unexpected error");
+    throw toTtsApiError(error);
   }
 }
 
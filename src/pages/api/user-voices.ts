@@ -23,7 +23,7 @@ export async function GET(context: APIContext) {
     // Get all voice slots for the user
     const { data: voices, error } = await supabase
       .from("user_voices")
-      .select("id, slot, language, voice_id, created_at")
+      .select("id, slot, language, voice_id, speaking_rate, pitch, volume_gain_db, created_at")
       .eq("user_id", userId)
       .order("slot");
 
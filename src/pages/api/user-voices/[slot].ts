@@ -6,6 +6,7 @@ import type { Database } from "../../../db/database.types";
 import { ApiError, ApiErrors } from "../../../lib/errors";
 import type { UserVoiceDTO } from "../../../types";
 import { ensureUserExists, getSupabaseClient } from "../../../lib/utils";
+import { PITCH_RANGE, SPEAKING_RATE_RANGE, VOLUME_GAIN_DB_RANGE } from "../../../lib/voice-settings";
 
 type SupabaseClient = ReturnType<typeof createClient<Database>>;
 
@@ -16,6 +17,9 @@ const SlotParamSchema = z.enum(["EN1", "EN2", "EN3", "PL"]);
 const UpsertUserVoiceSchema = z.object({
   language: z.string().min(1, "Language is required"),
   voice_id: z.string().min(1, "Voice ID is required"),
+  speaking_rate: z.number().min(SPEAKING_RATE_RANGE.min).max(SPEAKING_RATE_RANGE.max).optional(),
+  pitch: z.number().min(PITCH_RANGE.min).max(PITCH_RANGE.max).optional(),
+  volume_gain_db: z.number().min(VOLUME_GAIN_DB_RANGE.min).max(VOLUME_GAIN_DB_RANGE.max).optional(),
 });
 
 // Helper function to get user ID from context
@@ -87,7 +91,7 @@ export async function PUT(context: APIContext) {
 
     // Parse and validate request body
     const body = await context.request.json();
-    const { language, voice_id } = UpsertUserVoiceSchema.parse(body);
+    const { language, voice_id, speaking_rate, pitch, volume_gain_db } = UpsertUserVoiceSchema.parse(body);
 
     // Validate slot-language consistency
     validateSlotLanguage(validatedSlot, language);
@@ -105,12 +109,16 @@ export async function PUT(context: APIContext) {
           slot: validatedSlot,
           language,
           voice_id,
+          // Omitted settings keep their stored values (or column defaults on insert)
+          ...(speaking_rate !== undefined && { speaking_rate }),
+          ...(pitch !== undefined && { pitch }),
+          ...(volume_gain_db !== undefined && { volume_gain_db }),
         },
         {
           onConflict: "user_id,slot",
         }
       )
-      .select("id, slot, language, voice_id, created_at")
+      .select("id, slot, language, voice_id, speaking_rate, pitch, volume_gain_db, created_at")
       .single();
 
     if (error) {
@@ -0,0 +1,64 @@
+import type { APIRoute, APIContext } from "astro";
+import type { AudioFormatSettingsDTO, UpdateAudioFormatCommand } from "../../../../types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { ApiErrors, withErrorHandling, requireAuth } from "../../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../../lib/utils";
+import { AUDIO_SAMPLE_RATES, loadUserAudioFormat, validateAudioFormat } from "../../../../lib/audio-format";
+
+export const prerender = false;
+
+// GET /api/users/me/audio-format - Output format of generated audio
+const getAudioFormat = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  let format;
+  try {
+    format = await loadUserAudioFormat(supabase, locals.userId);
+  } catch {
+    throw ApiErrors.internal("Failed to fetch audio format");
+  }
+
+  const response: AudioFormatSettingsDTO = {
+    audio_format: format.encoding,
+    audio_sample_rate_hz: format.sampleRateHz,
+    supported_sample_rates: {
+      MP3: [...AUDIO_SAMPLE_RATES.MP3],
+      OGG_OPUS: [...AUDIO_SAMPLE_RATES.OGG_OPUS],
+    },
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// PUT /api/users/me/audio-format - Change the format; audio is regenerated on the next rebuild
+const updateAudioFormat = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const body: UpdateAudioFormatCommand = await context.request.json();
+  const format = validateAudioFormat(body);
+
+  const { error } = await supabase
+    .from("users")
+    .update({ audio_format: format.encoding, audio_sample_rate_hz: format.sampleRateHz })
+    .eq("id", locals.userId);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to update audio format");
+  }
+
+  return getAudioFormat(context);
+};
+
+export const GET: APIRoute = withErrorHandling(getAudioFormat);
+export const PUT: APIRoute = withErrorHandling(updateAudioFormat);
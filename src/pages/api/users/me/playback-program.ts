@@ -0,0 +1,49 @@
+import type { APIRoute, APIContext } from "astro";
+import type { SelectPlaybackProgramCommand } from "../../../../types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { ApiErrors, withErrorHandling, requireAuth } from "../../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../../lib/utils";
+import { validateUUID } from "../../../../lib/validation.service";
+
+export const prerender = false;
+
+// PUT /api/users/me/playback-program - Select the program used by the player and the ZIP export (null = default)
+const selectPlaybackProgram = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const body: SelectPlaybackProgramCommand = await context.request.json();
+  const programId = body.program_id ?? null;
+
+  if (programId !== null) {
+    validateUUID(programId, "Program ID");
+    const { data, error } = await supabase
+      .from("playback_programs")
+      .select("id")
+      .eq("id", programId)
+      .eq("user_id", locals.userId)
+      .maybeSingle();
+    if (error) {
+      throw ApiErrors.internal("Failed to fetch playback program");
+    }
+    if (!data) {
+      throw ApiErrors.notFound("Playback program not found");
+    }
+  }
+
+  const { error } = await supabase.from("users").update({ playback_program_id: programId }).eq("id", locals.userId);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to select playback program");
+  }
+
+  return new Response(JSON.stringify({ program_id: programId } satisfies SelectPlaybackProgramCommand), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+export const PUT: APIRoute = withErrorHandling(selectPlaybackProgram);
@@ -0,0 +1,109 @@
+import type { APIRoute, APIContext } from "astro";
+import type { NotebookStorageUsageDTO, StorageUsageDTO } from "../../../../types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { ApiErrors, withErrorHandling, requireAuth } from "../../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../../lib/utils";
+import { collectRemovablePaths, getBuildRetentionCount, planBuildRetention } from "../../../../lib/build-retention";
+
+export const prerender = false;
+
+// PostgREST caps the rows returned per request
+const SEGMENT_PAGE_SIZE = 1000;
+
+// GET /api/users/me/storage - Audio storage used by the user's notebooks
+const getStorageUsage = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const { data: notebooks, error: notebooksError } = await supabase
+    .from("notebooks")
+    .select("id, name, current_build_id")
+    .eq("user_id", locals.userId)
+    .order("created_at");
+
+  if (notebooksError) {
+    throw ApiErrors.internal("Failed to fetch notebooks");
+  }
+
+  const { data: builds, error: buildsError } = await supabase
+    .from("builds")
+    .select("id, notebook_id, created_at")
+    .in(
+      "notebook_id",
+      (notebooks || []).map((notebook) => notebook.id)
+    );
+
+  if (buildsError) {
+    throw ApiErrors.internal("Failed to fetch builds");
+  }
+
+  const segments: { build_id: string; path: string; status: string; size_bytes: number | null }[] = [];
+  const buildIds = (builds || []).map((build) => build.id);
+  for (let offset = 0; buildIds.length > 0; offset += SEGMENT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("audio_segments")
+      .select("build_id, path, status, size_bytes")
+      .in("build_id", buildIds)
+      .eq("status", "complete")
+      .order("id")
+      .range(offset, offset + SEGMENT_PAGE_SIZE - 1);
+
+    if (error) {
+      throw ApiErrors.internal("Failed to fetch audio segments");
+    }
+    segments.push(...(data || []));
+    if (!data || data.length < SEGMENT_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const retentionBuilds = getBuildRetentionCount(context);
+  const usage: NotebookStorageUsageDTO[] = (notebooks || []).map((notebook) => {
+    const notebookBuilds = (builds || []).filter((build) => build.notebook_id === notebook.id);
+    const notebookBuildIds = new Set(notebookBuilds.map((build) => build.id));
+    const notebookSegments = segments.filter((segment) => notebookBuildIds.has(segment.build_id));
+
+    // Rebuilds overwrite the same object path, so each path is counted once. Shared cache objects
+    // belong to no notebook and expire on their own (see pruneAudioCache), so they are not counted.
+    const pathSizes = new Map<string, number>();
+    for (const segment of notebookSegments) {
+      if (!segment.path.startsWith("cache/")) {
+        pathSizes.set(segment.path, Math.max(pathSizes.get(segment.path) ?? 0, segment.size_bytes ?? 0));
+      }
+    }
+
+    const { remove } = retentionBuilds
+      ? planBuildRetention(notebookBuilds, notebook.current_build_id, retentionBuilds)
+      : { remove: [] };
+    const reclaimable = collectRemovablePaths(notebookSegments, remove);
+
+    return {
+      notebook_id: notebook.id,
+      name: notebook.name,
+      build_count: notebookBuilds.length,
+      object_count: pathSizes.size,
+      bytes: [...pathSizes.values()].reduce((sum, size) => sum + size, 0),
+      reclaimable_bytes: reclaimable.reduce((sum, path) => sum + (pathSizes.get(path) ?? 0), 0),
+    };
+  });
+
+  const response: StorageUsageDTO = {
+    total_bytes: usage.reduce((sum, notebook) => sum + notebook.bytes, 0),
+    object_count: usage.reduce((sum, notebook) => sum + notebook.object_count, 0),
+    reclaimable_bytes: usage.reduce((sum, notebook) => sum + notebook.reclaimable_bytes, 0),
+    retention_builds: retentionBuilds,
+    notebooks: usage,
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+};
+
+export const GET: APIRoute = withErrorHandling(getStorageUsage);
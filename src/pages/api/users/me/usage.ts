@@ -0,0 +1,120 @@
+import type { APIRoute, APIContext } from "astro";
+import type { DailyUsageDTO, TtsUsageDTO, UpdateTtsUsageLimitCommand, VoiceUsageDTO } from "../../../../types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { ApiErrors, withErrorHandling, requireAuth } from "../../../../lib/errors";
+import { ensureUserExists, getSupabaseClient } from "../../../../lib/utils";
+import { estimateTtsCost, getMonthStart, getVoiceTier } from "../../../../lib/tts-usage";
+
+export const prerender = false;
+
+const MAX_MONTHLY_CHAR_LIMIT = 1_000_000_000;
+
+// GET /api/users/me/usage - TTS characters and estimated cost for a month (?month=YYYY-MM, default current)
+const getTtsUsage = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const monthParam = context.url.searchParams.get("month");
+  const match = monthParam ? /^(\d{4})-(0[1-9]|1[0-2])$/.exec(monthParam) : null;
+  if (monthParam && !match) {
+    throw ApiErrors.validationError("month must be in YYYY-MM format");
+  }
+  const monthStart = match
+    ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1))
+    : new Date(getMonthStart(new Date()));
+  const nextMonthStart = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 1));
+
+  const [{ data: user, error: userError }, { data: rows, error: usageError }] = await Promise.all([
+    supabase.from("users").select("tts_monthly_char_limit").eq("id", locals.userId).single(),
+    supabase
+      .from("tts_usage_daily")
+      .select("usage_date, voice_id, characters, requests")
+      .eq("user_id", locals.userId)
+      .gte("usage_date", getMonthStart(monthStart))
+      .lt("usage_date", getMonthStart(nextMonthStart))
+      .order("usage_date"),
+  ]);
+
+  if (userError || !user) {
+    throw ApiErrors.internal("Failed to fetch usage limit");
+  }
+  if (usageError) {
+    throw ApiErrors.internal("Failed to fetch TTS usage");
+  }
+
+  const byVoice = new Map<string, VoiceUsageDTO>();
+  const byDay = new Map<string, DailyUsageDTO>();
+  for (const row of rows || []) {
+    const voice = byVoice.get(row.voice_id) ?? {
+      voice_id: row.voice_id,
+      tier: getVoiceTier(row.voice_id),
+      characters: 0,
+      requests: 0,
+      estimated_cost_usd: 0,
+    };
+    voice.characters += row.characters;
+    voice.requests += row.requests;
+    byVoice.set(row.voice_id, voice);
+
+    const day = byDay.get(row.usage_date) ?? { date: row.usage_date, characters: 0 };
+    day.characters += row.characters;
+    byDay.set(row.usage_date, day);
+  }
+
+  const voices = Array.from(byVoice.values())
+    .map((voice) => ({ ...voice, estimated_cost_usd: estimateTtsCost(voice.voice_id, voice.characters) }))
+    .sort((a, b) => b.characters - a.characters);
+  const totalCharacters = voices.reduce((sum, voice) => sum + voice.characters, 0);
+  const limit = user.tts_monthly_char_limit;
+
+  const response: TtsUsageDTO = {
+    month: getMonthStart(monthStart).slice(0, 7),
+    total_characters: totalCharacters,
+    total_requests: voices.reduce((sum, voice) => sum + voice.requests, 0),
+    estimated_cost_usd: Math.round(voices.reduce((sum, voice) => sum + voice.estimated_cost_usd, 0) * 10_000) / 10_000,
+    monthly_char_limit: limit,
+    remaining_characters: limit === null ? null : Math.max(limit - totalCharacters, 0),
+    by_voice: voices,
+    by_day: Array.from(byDay.values()),
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+// PUT /api/users/me/usage - Set or clear (null) the monthly TTS character cap
+const updateUsageLimit = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const supabase = getSupabaseClient(context);
+  await ensureUserExists(supabase, locals.userId);
+
+  const body = await context.request.json();
+  const { tts_monthly_char_limit: limit }: UpdateTtsUsageLimitCommand = body;
+
+  if (limit === undefined) {
+    throw ApiErrors.validationError("tts_monthly_char_limit is required");
+  }
+  if (limit !== null && (!Number.isInteger(limit) || limit < 1 || limit > MAX_MONTHLY_CHAR_LIMIT)) {
+    throw ApiErrors.validationError(
+      `tts_monthly_char_limit must be null or an integer from 1 to ${MAX_MONTHLY_CHAR_LIMIT}`
+    );
+  }
+
+  const { error } = await supabase.from("users").update({ tts_monthly_char_limit: limit }).eq("id", locals.userId);
+
+  if (error) {
+    throw ApiErrors.internal("Failed to update usage limit");
+  }
+
+  return getTtsUsage(context);
+};
+
+export const GET: APIRoute = withErrorHandling(getTtsUsage);
+export const PUT: APIRoute = withErrorHandling(updateUsageLimit);
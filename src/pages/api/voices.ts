@@ -0,0 +1,90 @@
+import type { APIRoute, APIContext } from "astro";
+import type { VoiceCatalogResponse, VoiceGender, VoiceTier } from "../../types";
+import type { LocalsWithAuth } from "../../lib/types";
+import { ApiErrors, withErrorHandling, requireAuth } from "../../lib/errors";
+import { getSupabaseClient } from "../../lib/utils";
+import { setRuntimeEnv } from "../../lib/tts-encryption";
+import { createTtsProvider, getTtsProviderName, toTtsApiError, type TtsProvider } from "../../lib/tts-provider";
+import { TTS_PRICE_PER_MILLION_CHARS } from "../../lib/tts-usage";
+import { filterVoiceCatalog, getVoiceCatalog } from "../../lib/voice-catalog";
+
+export const prerender = false;
+
+const GENDERS: readonly VoiceGender[] = ["MALE", "FEMALE", "NEUTRAL"];
+
+// Helper function to create the TTS provider with the user's key (the local provider needs none)
+async function createUserTtsProvider(context: APIContext, userId: string): Promise<TtsProvider> {
+  const ttsProviderName = getTtsProviderName(context);
+  if (ttsProviderName !== "google") {
+    return createTtsProvider(ttsProviderName, null);
+  }
+
+  const localsAny = context.locals as unknown as {
+    runtime?: { env?: Record<string, string | undefined> };
+  };
+  if (localsAny.runtime?.env) {
+    setRuntimeEnv(localsAny.runtime.env);
+  }
+
+  const { data: credentials, error } = await getSupabaseClient(context)
+    .from("tts_credentials")
+    .select("encrypted_key, is_configured")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check TTS credentials");
+  }
+  if (!credentials?.is_configured) {
+    throw ApiErrors.validationError("TTS credentials not configured");
+  }
+
+  const { decrypt } = await import("../../lib/tts-encryption");
+  return createTtsProvider(ttsProviderName, await decrypt(credentials.encrypted_key));
+}
+
+// GET /api/voices - Provider voices, optionally filtered by language, gender and pricing tier
+const listVoices = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const params = context.url.searchParams;
+  const language = params.get("language") ?? undefined;
+  const gender = params.get("gender")?.toUpperCase();
+  const tier = params.get("tier")?.toLowerCase();
+
+  if (language !== undefined && !/^[a-z]{2,3}(-[a-z0-9]{2,4})?$/i.test(language)) {
+    throw ApiErrors.validationError("language must be a language or locale code, e.g. en or en-GB");
+  }
+  if (gender !== undefined && !GENDERS.some((value) => value === gender)) {
+    throw ApiErrors.validationError(`gender must be one of ${GENDERS.join(", ")}`);
+  }
+  if (tier !== undefined && !(tier in TTS_PRICE_PER_MILLION_CHARS)) {
+    throw ApiErrors.validationError(`tier must be one of ${Object.keys(TTS_PRICE_PER_MILLION_CHARS).join(", ")}`);
+  }
+
+  const ttsProvider = await createUserTtsProvider(context, locals.userId);
+
+  let catalog: Awaited<ReturnType<typeof getVoiceCatalog>>;
+  try {
+    catalog = await getVoiceCatalog(ttsProvider);
+  } catch (error) {
+    throw toTtsApiError(error, "Failed to fetch voice list");
+  }
+
+  const response: VoiceCatalogResponse = {
+    items: filterVoiceCatalog(catalog.voices, {
+      language,
+      gender: gender as VoiceGender | undefined,
+      tier: tier as VoiceTier | undefined,
+    }),
+    fetched_at: new Date(catalog.fetchedAt).toISOString(),
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+};
+
+export const GET: APIRoute = withErrorHandling(listVoices);
@@ -0,0 +1,106 @@
+import type { APIRoute, APIContext } from "astro";
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "../../../../db/database.types";
+import type { LocalsWithAuth } from "../../../../lib/types";
+import { ApiErrors, withErrorHandling, requireAuth } from "../../../../lib/errors";
+import { getSupabaseClient, getSupabaseEnvVars } from "../../../../lib/utils";
+import { setRuntimeEnv } from "../../../../lib/tts-encryption";
+import { createTtsProvider, getTtsProviderName, toTtsApiError, type TtsProvider } from "../../../../lib/tts-provider";
+import { synthesizeWithCache } from "../../../../lib/audio-cache";
+import { TtsUsageMeter } from "../../../../lib/tts-usage";
+import { getPreviewSample, getVoiceCatalog } from "../../../../lib/voice-catalog";
+
+export const prerender = false;
+
+// Helper function to create the TTS provider with the user's key (the local provider needs none)
+async function createUserTtsProvider(context: APIContext, userId: string): Promise<TtsProvider> {
+  const ttsProviderName = getTtsProviderName(context);
+  if (ttsProviderName !== "google") {
+    return createTtsProvider(ttsProviderName, null);
+  }
+
+  const localsAny = context.locals as unknown as {
+    runtime?: { env?: Record<string, string | undefined> };
+  };
+  if (localsAny.runtime?.env) {
+    setRuntimeEnv(localsAny.runtime.env);
+  }
+
+  const { data: credentials, error } = await getSupabaseClient(context)
+    .from("tts_credentials")
+    .select("encrypted_key, is_configured")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw ApiErrors.internal("Failed to check TTS credentials");
+  }
+  if (!credentials?.is_configured) {
+    throw ApiErrors.validationError("TTS credentials not configured");
+  }
+
+  const { decrypt } = await import("../../../../lib/tts-encryption");
+  return createTtsProvider(ttsProviderName, await decrypt(credentials.encrypted_key));
+}
+
+/**
+ * GET /api/voices/:voiceId/preview - MP3 of a sample sentence read by the voice.
+ * The sample goes through the shared audio cache, so each voice is synthesized (and billed) once.
+ */
+const previewVoice = async (context: APIContext): Promise<Response> => {
+  const locals = context.locals as LocalsWithAuth;
+  requireAuth(locals.userId);
+
+  const { voiceId } = context.params as { voiceId: string };
+  const ttsProvider = await createUserTtsProvider(context, locals.userId);
+
+  let voices: Awaited<ReturnType<typeof getVoiceCatalog>>["voices"];
+  try {
+    ({ voices } = await getVoiceCatalog(ttsProvider));
+  } catch (error) {
+    throw toTtsApiError(error, "Failed to fetch voice list");
+  }
+
+  const voice = voices.find((entry) => entry.voice_id === voiceId);
+  if (!voice) {
+    throw ApiErrors.notFound("Voice not found");
+  }
+
+  // The audio cache and usage counters are written with the service role; without it the
+  // cache is skipped and usage is not recorded
+  const { supabaseUrl, supabaseServiceKey } = getSupabaseEnvVars(context);
+  const supabase =
+    supabaseUrl && supabaseServiceKey
+      ? createClient<Database>(supabaseUrl, supabaseServiceKey, {
+          auth: { autoRefreshToken: false, persistSession: false },
+        })
+      : getSupabaseClient(context);
+
+  const usage = await TtsUsageMeter.load(supabase, locals.userId);
+  if (usage.exceeded) {
+    throw ApiErrors.quotaExceeded(`Monthly TTS limit of ${usage.limit} characters reached`);
+  }
+
+  const sample = getPreviewSample(voice);
+  let audio: Uint8Array;
+  try {
+    const result = await synthesizeWithCache(supabase, ttsProvider, { ...sample, voiceId: voice.voice_id });
+    if (!result.cacheHit) {
+      await usage.record(voice.voice_id, sample.text.length);
+    }
+    audio = result.audio;
+  } catch (error) {
+    throw toTtsApiError(error, "Failed to synthesize voice preview");
+  }
+
+  return new Response(audio, {
+    status: 200,
+    headers: {
+      "Content-Type": "audio/mpeg",
+      "Content-Length": String(audio.length),
+      "Cache-Control": "private, max-age=86400",
+    },
+  });
+};
+
+export const GET: APIRoute = withErrorHandling(previewVoice);
@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const supabaseMock = { from: vi.fn(), storage: { from: vi.fn() } };
+const transcodeMock = vi.fn();
+
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: () => supabaseMock,
+}));
+
+vi.mock("../lib/utils", async () => {
+  const actual = await vi.importActual<typeof import("../lib/utils")>("../lib/utils");
+  return {
+    ...actual,
+    getSupabaseClient: vi.fn(() => supabaseMock),
+    ensureUserExists: vi.fn(async () => undefined),
+  };
+});
+
+vi.mock("../lib/audio-postprocess", async () => {
+  const actual = await vi.importActual<typeof import("../lib/audio-postprocess")>("../lib/audio-postprocess");
+  return {
+    ...actual,
+    transcodeToMp3: (...args: unknown[]) => transcodeMock(...args),
+  };
+});
+
+vi.mock("../lib/playback-program", async () => {
+  const actual = await vi.importActual<typeof import("../lib/playback-program")>("../lib/playback-program");
+  return {
+    ...actual,
+    loadPlaybackProgramSteps: vi.fn(async () => [{ slot: "EN1", repeat: 1, pause_ms: 0 }]),
+  };
+});
+
+import { GET } from "../pages/api/notebooks/[notebookId]/export-zip";
+
+/** Query builder that resolves to `result` however the route chains its filters */
+function createQueryChain(result: { data: unknown; error: null }, selectSpy = vi.fn()) {
+  const chain = {
+    select: vi.fn((columns: string) => {
+      selectSpy(columns);
+      return chain;
+    }),
+    eq: vi.fn(() => chain),
+    in: vi.fn(() => chain),
+    order: vi.fn(() => chain),
+    limit: vi.fn(() => chain),
+    then: (resolve: (value: typeof result) => void) => resolve(result),
+  };
+  return chain;
+}
+
+describe("export-zip", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    transcodeMock.mockResolvedValue(new Uint8Array([0xff, 0xf3, 0x80, 0xc4]));
+  });
+
+  it("transcodes segments of several notebooks at their own sample rate", async () => {
+    const segmentsSelect = vi.fn();
+    supabaseMock.from.mockImplementation((table: string) => {
+      if (table === "notebooks") {
+        const chain = createQueryChain({ data: [], error: null });
+        chain.select.mockImplementation((columns: string) =>
+          createQueryChain({
+            data:
+              columns === "id"
+                ? [{ id: "nb-1" }, { id: "nb-2" }]
+                : [
+                    { id: "nb-1", current_build_id: "build-1" },
+                    { id: "nb-2", current_build_id: "build-2" },
+                  ],
+            error: null,
+          })
+        );
+        return chain;
+      }
+      if (table === "phrases") {
+        return createQueryChain({
+          data: [
+            { id: "phrase-1", position: 1, en_text: "hello", pl_text: "czesc", notebook_id: "nb-1" },
+            { id: "phrase-2", position: 1, en_text: "goodbye", pl_text: "do widzenia", notebook_id: "nb-2" },
+          ],
+          error: null,
+        });
+      }
+      if (table === "audio_segments") {
+        return createQueryChain(
+          {
+            data: [
+              {
+                build_id: "build-1",
+                phrase_id: "phrase-1",
+                voice_slot: "EN1",
+                path: "user-1/nb-1/phrase-1/EN1-build-1.mp3",
+                size_bytes: 4,
+                duration_ms: 500,
+                sample_rate_hz: 22050,
+                status: "complete",
+              },
+              {
+                build_id: "build-2",
+                phrase_id: "phrase-2",
+                voice_slot: "EN1",
+                path: "user-1/nb-2/phrase-2/EN1-build-2.mp3",
+                size_bytes: 4,
+                duration_ms: 500,
+                sample_rate_hz: 24000,
+                status: "complete",
+              },
+            ],
+            error: null,
+          },
+          segmentsSelect
+        );
+      }
+      throw new Error(`Unexpected table ${table}`);
+    });
+    supabaseMock.storage.from.mockReturnValue({
+      download: vi.fn(async () => ({ data: new Blob([new Uint8Array([0xff, 0xf3, 0x80, 0xc4])]), error: null })),
+    });
+
+    const response = await GET({
+      locals: { userId: "user-export-1" },
+      params: { notebookId: "difficulty-easy" },
+      request: new Request("http://localhost/api/notebooks/difficulty-easy/export-zip"),
+    } as never);
+
+    expect(response.status).toBe(200);
+    expect(segmentsSelect).toHaveBeenCalledWith(expect.stringContaining("sample_rate_hz"));
+    // Only the 24 kHz segment differs from the export rate
+    expect(transcodeMock).toHaveBeenCalledTimes(1);
+    expect(transcodeMock).toHaveBeenCalledWith(expect.any(Buffer), "MP3", 24000);
+    const zip = new Uint8Array(await response.arrayBuffer());
+    expect(String.fromCharCode(zip[0], zip[1])).toBe("PK");
+  });
+});
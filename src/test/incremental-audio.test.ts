@@ -38,6 +38,176 @@ function createQueryChain(result: { data?: unknown; error?: unknown }) {
   return chain;
 }
 
+function mockGenerationClient({
+  insertSpy,
+  uploadSpy,
+  upsertSpy = vi.fn(),
+  updateSpy = vi.fn(),
+  rpcSpy = vi.fn(async () => ({ error: null })),
+  removeSpy = vi.fn(async () => ({ error: null })),
+  cacheEntry = null,
+  existingSegments = [],
+  monthlyLimit = null,
+  usedCharacters = [],
+  lexicon = [],
+  jobs = [],
+}: {
+  insertSpy: ReturnType<typeof vi.fn>;
+  uploadSpy: ReturnType<typeof vi.fn>;
+  upsertSpy?: ReturnType<typeof vi.fn>;
+  updateSpy?: ReturnType<typeof vi.fn>;
+  rpcSpy?: ReturnType<typeof vi.fn>;
+  removeSpy?: ReturnType<typeof vi.fn>;
+  cacheEntry?: { path: string; hit_count: number; timepoints: unknown } | null;
+  existingSegments?: { phrase_id: string; voice_slot: string; is_stale: boolean; path?: string }[];
+  monthlyLimit?: number | null;
+  usedCharacters?: number[];
+  lexicon?: { language: string; term: string; alias: string | null; phoneme: string | null }[];
+  jobs?: { id: string; type: string; state: string }[];
+}) {
+  const fromMock = vi.fn((table: string) => {
+    if (table === "notebooks") {
+      return createQueryChain({ data: { id: "nb-1", current_build_id: "build-1" }, error: null });
+    }
+    if (table === "jobs") {
+      let matching = jobs;
+      const chain = {
+        select: vi.fn(() => chain),
+        eq: vi.fn((column: "type", value: string) => {
+          matching = matching.filter((job) => column !== "type" || job.type === value);
+          return chain;
+        }),
+        in: vi.fn((_column: "state", states: string[]) => {
+          matching = matching.filter((job) => states.includes(job.state));
+          return chain;
+        }),
+        limit: vi.fn(async () => ({ data: matching, error: null })),
+      };
+      return chain;
+    }
+    if (table === "tts_credentials") {
+      return createQueryChain({
+        data: { encrypted_key: "encrypted", is_configured: true },
+        error: null,
+      });
+    }
+    if (table === "user_voices") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            order: vi.fn(async () => ({
+              data: [
+                { slot: "EN1", language: "en", voice_id: "en-voice" },
+                { slot: "PL", language: "pl", voice_id: "pl-voice" },
+              ],
+              error: null,
+            })),
+          })),
+        })),
+      };
+    }
+    if (table === "phrases") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            in: vi.fn(() => ({
+              order: vi.fn(async () => ({
+                data: [{ id: "phrase-1", en_text: "hello", pl_text: "czesc" }],
+                error: null,
+              })),
+            })),
+          })),
+        })),
+      };
+    }
+    if (table === "audio_segments") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            in: vi.fn(async () => ({
+              data: existingSegments,
+              error: null,
+            })),
+          })),
+          // Reference check of replaced audio: the stale rows now point at their replacements
+          in: vi.fn(async () => ({ data: [], error: null })),
+        })),
+        insert: insertSpy,
+        upsert: upsertSpy,
+        update: vi.fn((values: unknown) => {
+          const filters: Record<string, unknown> = {};
+          const chain = {
+            eq: vi.fn((column: string, value: unknown) => {
+              filters[column] = value;
+              return chain;
+            }),
+            then: (resolve: (result: { error: null }) => void) => {
+              updateSpy(values, filters);
+              resolve({ error: null });
+            },
+          };
+          return chain;
+        }),
+      };
+    }
+    if (table === "users") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            maybeSingle: vi.fn(async () => ({ data: { tts_monthly_char_limit: monthlyLimit }, error: null })),
+          })),
+        })),
+      };
+    }
+    if (table === "tts_usage_daily") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            gte: vi.fn(async () => ({
+              data: usedCharacters.map((characters) => ({ characters })),
+              error: null,
+            })),
+          })),
+        })),
+      };
+    }
+    if (table === "pronunciation_lexicon") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(async () => ({ data: lexicon, error: null })),
+        })),
+      };
+    }
+    if (table === "audio_cache") {
+      return {
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            maybeSingle: vi.fn(async () => ({ data: cacheEntry, error: null })),
+          })),
+        })),
+        update: vi.fn(() => ({
+          eq: vi.fn(async () => ({ error: null })),
+        })),
+        upsert: vi.fn(async () => ({ error: null })),
+      };
+    }
+
+    throw new Error(`Unexpected table ${table}`);
+  });
+
+  createClientMock.mockReturnValue({
+    from: fromMock,
+    rpc: rpcSpy,
+    storage: {
+      from: vi.fn(() => ({
+        upload: uploadSpy,
+        remove: removeSpy,
+        download: vi.fn(async () => ({ data: new Blob([new Uint8Array([1, 2, 3])]), error: null })),
+      })),
+    },
+  });
+}
+
 describe("incremental audio generation", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -90,82 +260,9 @@ describe("incremental audio generation", () => {
   it("generates and inserts segments only for new phrases", async () => {
     const insertSpy = vi.fn(async () => ({ error: null }));
     const uploadSpy = vi.fn(async () => ({ error: null }));
+    const rpcSpy = vi.fn(async () => ({ error: null }));
 
-    const fromMock = vi.fn((table: string) => {
-      if (table === "notebooks") {
-        return createQueryChain({ data: { id: "nb-1", current_build_id: "build-1" }, error: null });
-      }
-      if (table === "jobs") {
-        return {
-          select: vi.fn(() => ({
-            eq: vi.fn(() => ({
-              in: vi.fn(() => ({
-                limit: vi.fn(async () => ({ data: [], error: null })),
-              })),
-            })),
-          })),
-        };
-      }
-      if (table === "tts_credentials") {
-        return createQueryChain({
-          data: { encrypted_key: "encrypted", is_configured: true },
-          error: null,
-        });
-      }
-      if (table === "user_voices") {
-        return {
-          select: vi.fn(() => ({
-            eq: vi.fn(() => ({
-              order: vi.fn(async () => ({
-                data: [
-                  { slot: "EN1", language: "en", voice_id: "en-voice" },
-                  { slot: "PL", language: "pl", voice_id: "pl-voice" },
-                ],
-                error: null,
-              })),
-            })),
-          })),
-        };
-      }
-      if (table === "phrases") {
-        return {
-          select: vi.fn(() => ({
-            eq: vi.fn(() => ({
-              in: vi.fn(() => ({
-                order: vi.fn(async () => ({
-                  data: [{ id: "phrase-1", en_text: "hello", pl_text: "czesc" }],
-                  error: null,
-                })),
-              })),
-            })),
-          })),
-        };
-      }
-      if (table === "audio_segments") {
-        return {
-          select: vi.fn(() => ({
-            eq: vi.fn(() => ({
-              in: vi.fn(async () => ({
-                data: [],
-                error: null,
-              })),
-            })),
-          })),
-          insert: insertSpy,
-        };
-      }
-
-      throw new Error(`Unexpected table ${table}`);
-    });
-
-    createClientMock.mockReturnValue({
-      from: fromMock,
-      storage: {
-        from: vi.fn(() => ({
-          upload: uploadSpy,
-        })),
-      },
-    });
+    mockGenerationClient({ insertSpy, uploadSpy, rpcSpy });
 
     await runIncrementalAudioGeneration({
       context: {
@@ -179,7 +276,14 @@ describe("incremental audio generation", () => {
     });
 
     expect(decryptMock).toHaveBeenCalledWith("encrypted");
-    expect(uploadSpy).toHaveBeenCalledTimes(2);
+    expect(rpcSpy).toHaveBeenCalledWith("record_tts_usage", {
+      p_user_id: "user-1",
+      p_voice_id: "en-voice",
+      // The SSML sent, "<speak>hello</speak>", without its unbilled <mark> tag
+      p_characters: 20,
+    });
+    // Each synthesized segment is uploaded to its own path and to the shared cache
+    expect(uploadSpy).toHaveBeenCalledTimes(4);
     expect(insertSpy).toHaveBeenCalledTimes(1);
 
     const insertedSegments = insertSpy.mock.calls[0][0] as {
@@ -195,4 +299,217 @@ describe("incremental audio generation", () => {
       ])
     );
   });
+
+  it("copies cached audio instead of calling TTS", async () => {
+    const insertSpy = vi.fn(async () => ({ error: null }));
+    const uploadSpy = vi.fn(async () => ({ error: null }));
+    const rpcSpy = vi.fn(async () => ({ error: null }));
+    mockGenerationClient({
+      insertSpy,
+      uploadSpy,
+      rpcSpy,
+      cacheEntry: { path: "cache/abc.mp3", hit_count: 2, timepoints: [] },
+    });
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "create_phrase",
+    });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(rpcSpy).not.toHaveBeenCalled();
+    // Only the per-user segment objects are written; the cache is not re-populated
+    expect(uploadSpy).toHaveBeenCalledTimes(2);
+    expect(insertSpy).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ voice_slot: "EN1", status: "complete" })])
+    );
+  });
+
+  it("skips generation once the monthly TTS limit is used up", async () => {
+    const insertSpy = vi.fn();
+    const uploadSpy = vi.fn();
+    mockGenerationClient({ insertSpy, uploadSpy, monthlyLimit: 1000, usedCharacters: [600, 400] });
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "create_phrase",
+    });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(insertSpy).not.toHaveBeenCalled();
+    expect(uploadSpy).not.toHaveBeenCalled();
+  });
+
+  it("applies the pronunciation lexicon of the voice language", async () => {
+    const insertSpy = vi.fn(async () => ({ error: null }));
+    const uploadSpy = vi.fn(async () => ({ error: null }));
+    mockGenerationClient({
+      insertSpy,
+      uploadSpy,
+      lexicon: [
+        { language: "en", term: "Hello", alias: "hullo", phoneme: null },
+        { language: "pl", term: "czesc", alias: null, phoneme: "ˈt͡ʂɛɕt͡ɕ" },
+      ],
+    });
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "create_phrase",
+    });
+
+    const ssmlInputs = vi
+      .mocked(fetch)
+      .mock.calls.map(([, init]) => (JSON.parse(String(init?.body)) as { input: { ssml?: string } }).input.ssml);
+    expect(ssmlInputs).toEqual(
+      expect.arrayContaining([
+        '<speak><mark name="t0"/><sub alias="hullo">hello</sub></speak>',
+        '<speak><mark name="t0"/><phoneme alphabet="ipa" ph="ˈt͡ʂɛɕt͡ɕ">czesc</phoneme></speak>',
+      ])
+    );
+    expect(insertSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("is not blocked by a queued job other than a rebuild", async () => {
+    const insertSpy = vi.fn(async () => ({ error: null }));
+    const uploadSpy = vi.fn(async () => ({ error: null }));
+    mockGenerationClient({
+      insertSpy,
+      uploadSpy,
+      jobs: [{ id: "job-cleanup", type: "CLEANUP_BUILDS", state: "queued" }],
+    });
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "create_phrase",
+    });
+
+    expect(insertSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves new phrases to a queued rebuild", async () => {
+    const insertSpy = vi.fn(async () => ({ error: null }));
+    const uploadSpy = vi.fn(async () => ({ error: null }));
+    mockGenerationClient({
+      insertSpy,
+      uploadSpy,
+      jobs: [{ id: "job-rebuild", type: "GENERATE_REBUILD", state: "queued" }],
+    });
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "create_phrase",
+    });
+
+    expect(insertSpy).not.toHaveBeenCalled();
+    expect(uploadSpy).not.toHaveBeenCalled();
+  });
+
+  it("regenerates stale segments of an edited phrase in place", async () => {
+    const insertSpy = vi.fn();
+    const upsertSpy = vi.fn(async () => ({ error: null }));
+    const uploadSpy = vi.fn(async () => ({ error: null }));
+    const removeSpy = vi.fn(async () => ({ error: null }));
+    mockGenerationClient({
+      insertSpy,
+      uploadSpy,
+      upsertSpy,
+      removeSpy,
+      existingSegments: [
+        { phrase_id: "phrase-1", voice_slot: "EN1", is_stale: true, path: "user-1/nb-1/phrase-1/EN1-build-1.mp3" },
+        { phrase_id: "phrase-1", voice_slot: "PL", is_stale: false, path: "user-1/nb-1/phrase-1/PL-build-1.mp3" },
+      ],
+    });
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "update_phrase",
+    });
+
+    expect(insertSpy).not.toHaveBeenCalled();
+    expect(upsertSpy).toHaveBeenCalledWith(
+      [expect.objectContaining({ phrase_id: "phrase-1", voice_slot: "EN1", is_stale: false, status: "complete" })],
+      { onConflict: "phrase_id,voice_slot,build_id" }
+    );
+    // The replacement gets its own object and the stale one is removed once nothing references it
+    const replacementPath = expect.stringMatching(/^user-1\/nb-1\/phrase-1\/EN1-build-1-\w+\.mp3$/);
+    expect(uploadSpy).toHaveBeenCalledWith(replacementPath, expect.anything(), expect.anything());
+    expect(upsertSpy).toHaveBeenCalledWith([expect.objectContaining({ path: replacementPath })], expect.anything());
+    expect(removeSpy).toHaveBeenCalledWith(["user-1/nb-1/phrase-1/EN1-build-1.mp3"]);
+  });
+
+  it("keeps the stale segment playable when its replacement fails", async () => {
+    const insertSpy = vi.fn();
+    const upsertSpy = vi.fn(async () => ({ error: null }));
+    const updateSpy = vi.fn();
+    const uploadSpy = vi.fn(async () => ({ error: null }));
+    mockGenerationClient({
+      insertSpy,
+      uploadSpy,
+      upsertSpy,
+      updateSpy,
+      existingSegments: [
+        { phrase_id: "phrase-1", voice_slot: "EN1", is_stale: true },
+        { phrase_id: "phrase-1", voice_slot: "PL", is_stale: false },
+      ],
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => ({ ok: false, status: 400 }))
+    );
+
+    await runIncrementalAudioGeneration({
+      context: {
+        locals: {},
+        request: new Request("http://localhost/test"),
+      } as never,
+      userId: "user-1",
+      notebookId: "nb-1",
+      phraseIds: ["phrase-1"],
+      source: "update_phrase",
+    });
+
+    expect(upsertSpy).not.toHaveBeenCalled();
+    expect(insertSpy).not.toHaveBeenCalled();
+    expect(updateSpy).toHaveBeenCalledWith(expect.objectContaining({ error_code: "tts_error" }), {
+      build_id: "build-1",
+      phrase_id: "phrase-1",
+      voice_slot: "EN1",
+    });
+  });
 });
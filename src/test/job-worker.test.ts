@@ -132,4 +132,190 @@ describe("JobWorker", () => {
       job_id: "test-job",
     });
   });
+
+  it("marks a timed-out job without activating its partial build by default", async () => {
+    const mockUpdate = vi.fn(() => ({
+      eq: vi.fn(() => ({
+        data: null,
+        error: null,
+      })),
+    }));
+    const mockFrom = vi.fn(() => ({
+      update: mockUpdate,
+    }));
+    (mockSupabase as { from: unknown }).from = mockFrom;
+
+    await (
+      worker as unknown as {
+        finishStoppedJob: (
+          job: { id: string; notebook_id: string; timeout_sec: number | null; keep_partial: boolean },
+          buildId: string,
+          reason: "canceled" | "timeout",
+          producedSegments: number,
+          totalSegments: number
+        ) => Promise<void>;
+      }
+    ).finishStoppedJob(
+      { id: "test-job", notebook_id: "test-notebook", timeout_sec: 60, keep_partial: false },
+      "test-build",
+      "timeout",
+      3,
+      10
+    );
+
+    expect(mockFrom).toHaveBeenCalledTimes(1);
+    expect(mockFrom).toHaveBeenCalledWith("jobs");
+    expect(mockUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ state: "timeout", error: "Job exceeded timeout of 60s" })
+    );
+  });
+
+  it("clears incomplete segments of a resumed build and returns the complete ones", async () => {
+    const mockNeq = vi.fn(() => ({ data: null, error: null }));
+    const mockDelete = vi.fn(() => ({
+      eq: vi.fn(() => ({ neq: mockNeq })),
+    }));
+    const mockSelect = vi.fn(() => ({
+      eq: vi.fn(() => ({
+        eq: vi.fn(() => ({
+          data: [
+            { phrase_id: "phrase-1", voice_slot: "EN1" },
+            { phrase_id: "phrase-2", voice_slot: "PL" },
+          ],
+          error: null,
+        })),
+      })),
+    }));
+    (mockSupabase as { from: unknown }).from = vi.fn(() => ({
+      delete: mockDelete,
+      select: mockSelect,
+    }));
+
+    const checkpointed = await (
+      worker as unknown as { prepareResumedBuild: (buildId: string) => Promise<Set<string>> }
+    ).prepareResumedBuild("test-build");
+
+    expect(mockNeq).toHaveBeenCalledWith("status", "complete");
+    expect([...checkpointed]).toEqual(["phrase-1:EN1", "phrase-2:PL"]);
+  });
+
+  it("refuses to repair a notebook without a current build", async () => {
+    (mockSupabase as { from: unknown }).from = vi.fn(() => ({
+      select: vi.fn(() => ({
+        eq: vi.fn(() => ({
+          single: vi.fn(() => ({ data: { current_build_id: null }, error: null })),
+        })),
+      })),
+    }));
+
+    await expect(
+      (
+        worker as unknown as {
+          repairSegments: (
+            job: unknown,
+            voices: unknown[],
+            ttsProvider: unknown,
+            usage: unknown,
+            lexicon: unknown,
+            audioFormat: unknown,
+            deadline: number
+          ) => Promise<unknown>;
+        }
+      ).repairSegments(
+        {
+          id: "test-job",
+          user_id: "test-user",
+          notebook_id: "test-notebook",
+          target_phrase_id: null,
+          target_slot: null,
+        },
+        [],
+        {},
+        {},
+        { en: [], pl: [] },
+        { encoding: "MP3", sampleRateHz: 22050 },
+        Date.now() + 60_000
+      )
+    ).rejects.toThrow("Notebook has no current build to repair");
+  });
+
+  it("skips a job it cannot claim", async () => {
+    const mockRpc = vi.fn(() => ({ data: null, error: null }));
+    const mockFrom = vi.fn();
+    Object.assign(mockSupabase as object, { rpc: mockRpc, from: mockFrom });
+
+    await worker.processJob("test-job");
+
+    expect(mockRpc).toHaveBeenCalledWith("claim_job", expect.objectContaining({ p_job_id: "test-job" }));
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it("does not close a job once another worker reclaimed it", async () => {
+    const mockLeaseEq = vi.fn(() => ({ data: null, error: null }));
+    const mockUpdate = vi.fn(() => ({ eq: vi.fn(() => ({ eq: mockLeaseEq })) }));
+    (mockSupabase as { from: unknown }).from = vi.fn(() => ({ update: mockUpdate }));
+    const internals = worker as unknown as {
+      leases: Map<string, unknown>;
+      workerId: string;
+      updateJobState: (jobId: string, state: string) => Promise<void>;
+    };
+    internals.leases.set("test-job", {});
+
+    await internals.updateJobState("test-job", "succeeded");
+
+    expect(mockUpdate).toHaveBeenCalledWith({ state: "succeeded", lease_owner: null, lease_expires_at: null });
+    expect(mockLeaseEq).toHaveBeenCalledWith("lease_owner", internals.workerId);
+  });
+
+  it("processes an incremental job triggered while another one held the notebook", async () => {
+    const jobs = [{ id: "job-1", notebook_id: "nb-1", state: "queued", created_at: "2026-01-01T00:00:00Z" }];
+    // claim_job refuses a job while another job of the same notebook is running
+    const mockRpc = vi.fn((name: string, args: { p_job_id?: string }) => {
+      const job = jobs.find((item) => item.id === args.p_job_id);
+      const busy = jobs.some((item) => item.notebook_id === job?.notebook_id && item.state === "running");
+      if (name !== "claim_job" || !job || job.state !== "queued" || busy) {
+        return { data: null, error: null };
+      }
+      job.state = "running";
+      return { data: job.id, error: null };
+    });
+    const mockFrom = vi.fn(() => {
+      const filters: Record<string, string> = {};
+      const query = {
+        select: vi.fn(() => query),
+        eq: vi.fn((column: string, value: string) => {
+          filters[column] = value;
+          return query;
+        }),
+        order: vi.fn(() => query),
+        single: vi.fn(() => ({ data: jobs.find((job) => job.id === filters.id) ?? null, error: null })),
+        limit: vi.fn(() => ({
+          data: jobs.filter((job) => job.notebook_id === filters.notebook_id && job.state === filters.state),
+          error: null,
+        })),
+      };
+      return query;
+    });
+    Object.assign(mockSupabase as object, { rpc: mockRpc, from: mockFrom });
+
+    const processed: string[] = [];
+    const internals = worker as unknown as { runJob: (jobId: string) => Promise<void> };
+    internals.runJob = vi.fn(async (jobId: string) => {
+      if (jobId === "job-1") {
+        // A second phrase is saved while the first incremental job runs
+        jobs.push({ id: "job-2", notebook_id: "nb-1", state: "queued", created_at: "2026-01-01T00:00:01Z" });
+        await worker.processJob("job-2");
+      }
+      processed.push(jobId);
+      const job = jobs.find((item) => item.id === jobId);
+      if (job) {
+        job.state = "succeeded";
+      }
+    });
+
+    await worker.processJob("job-1");
+
+    expect(processed).toEqual(["job-1", "job-2"]);
+    expect(jobs.map((job) => job.state)).toEqual(["succeeded", "succeeded"]);
+  });
 });
@@ -59,6 +59,75 @@ export interface ApiErrorResponse {
 // ------------------------------------
 export type UserDTO = Pick<Tables<"users">, "id" | "created_at">;
 
+export interface NotebookStorageUsageDTO {
+  notebook_id: string;
+  name: string;
+  build_count: number;
+  /** Distinct audio objects referenced by the notebook's builds */
+  object_count: number;
+  bytes: number;
+  /** Bytes referenced only by builds outside the retention policy (freed by cleanup) */
+  reclaimable_bytes: number;
+}
+
+/** Response of GET /api/users/me/storage */
+export interface StorageUsageDTO {
+  total_bytes: number;
+  object_count: number;
+  reclaimable_bytes: number;
+  /** Builds kept per notebook by automatic cleanup; null when disabled */
+  retention_builds: number | null;
+  notebooks: NotebookStorageUsageDTO[];
+}
+
+/** Google Cloud TTS pricing tier of a voice */
+export type VoiceTier = "standard" | "wavenet" | "neural2" | "polyglot" | "news" | "chirp_hd" | "studio";
+
+export interface VoiceUsageDTO {
+  voice_id: string;
+  tier: VoiceTier;
+  characters: number;
+  requests: number;
+  estimated_cost_usd: number;
+}
+
+export interface DailyUsageDTO {
+  date: string;
+  characters: number;
+}
+
+/** Response of GET /api/users/me/usage; cache hits are free and not counted */
+export interface TtsUsageDTO {
+  /** Calendar month (UTC) as `YYYY-MM` */
+  month: string;
+  total_characters: number;
+  total_requests: number;
+  estimated_cost_usd: number;
+  monthly_char_limit: number | null;
+  /** Characters left under the cap this month; null without a cap */
+  remaining_characters: number | null;
+  by_voice: VoiceUsageDTO[];
+  by_day: DailyUsageDTO[];
+}
+
+export type UpdateTtsUsageLimitCommand = Required<Pick<TablesUpdate<"users">, "tts_monthly_char_limit">>;
+
+export type AudioEncoding = "MP3" | "OGG_OPUS";
+
+/** Response of GET/PUT /api/users/me/audio-format */
+export interface AudioFormatSettingsDTO {
+  audio_format: AudioEncoding;
+  audio_sample_rate_hz: number;
+  /** Sample rates accepted for each format */
+  supported_sample_rates: Record<AudioEncoding, number[]>;
+}
+
+export interface UpdateAudioFormatCommand {
+  audio_format: AudioEncoding;
+  /** Defaults to 22050 Hz for MP3 and 24000 Hz for Ogg Opus */
+  audio_sample_rate_hz?: number;
+}
+
 // ------------------------------------
 // Notebooks
 // ------------------------------------
@@ -200,17 +269,69 @@ export interface CreateSnapshotResultDTO {
 // ------------------------------------
 // User Voices (TTS selection)
 // ------------------------------------
-export type UserVoiceDTO = Pick<Tables<"user_voices">, "id" | "slot" | "language" | "voice_id" | "created_at">;
+export type UserVoiceDTO = Pick<
+  Tables<"user_voices">,
+  "id" | "slot" | "language" | "voice_id" | "speaking_rate" | "pitch" | "volume_gain_db" | "created_at"
+>;
 
 export interface UpsertUserVoiceBySlotCommand {
   language: string;
   voice_id: string;
+  speaking_rate?: number;
+  pitch?: number;
+  volume_gain_db?: number;
 }
 
 export interface UserVoicesListResponse {
   slots: UserVoiceDTO[];
 }
 
+// ------------------------------------
+// Voice catalog
+// ------------------------------------
+export type VoiceGender = "MALE" | "FEMALE" | "NEUTRAL";
+
+export interface VoiceCatalogEntryDTO {
+  voice_id: string;
+  language_codes: string[];
+  gender: VoiceGender | null;
+  tier: VoiceTier;
+  natural_sample_rate_hz: number;
+}
+
+/** Response of GET /api/voices */
+export interface VoiceCatalogResponse {
+  items: VoiceCatalogEntryDTO[];
+  /** When the provider's voice list was fetched (the catalog is cached server-side) */
+  fetched_at: string;
+}
+
+// ------------------------------------
+// Pronunciation lexicon
+// ------------------------------------
+export type PronunciationLanguage = "en" | "pl";
+
+export type PronunciationEntryDTO = Pick<
+  Tables<"pronunciation_lexicon">,
+  "id" | "term" | "alias" | "phoneme" | "created_at" | "updated_at"
+> & { language: PronunciationLanguage };
+
+/** What synthesis needs from an entry: exactly one of `alias` and `phoneme` is set */
+export type PronunciationRule = Pick<PronunciationEntryDTO, "term" | "alias" | "phoneme">;
+
+export interface CreatePronunciationEntryCommand {
+  language: PronunciationLanguage;
+  term: string;
+  alias?: string | null;
+  phoneme?: string | null;
+}
+
+export type UpdatePronunciationEntryCommand = Partial<CreatePronunciationEntryCommand>;
+
+export interface PronunciationLexiconResponse {
+  items: PronunciationEntryDTO[];
+}
+
 // ------------------------------------
 // TTS Credentials
 // ------------------------------------
@@ -246,11 +367,78 @@ export type JobDTO = Pick<
   | "ended_at"
   | "timeout_sec"
   | "error"
+  | "cache_hits"
+  | "total_segments"
+  | "completed_segments"
+  | "failed_segments"
+  | "current_phrase_id"
+  | "keep_partial"
+  | "resume_build_id"
+  | "target_phrase_id"
+  | "target_slot"
   | "created_at"
 >;
 
+/** Payload of `progress` events streamed by GET /api/jobs/:jobId/events */
+export type JobProgressDTO = Pick<
+  Tables<"jobs">,
+  | "id"
+  | "state"
+  | "started_at"
+  | "ended_at"
+  | "error"
+  | "total_segments"
+  | "completed_segments"
+  | "failed_segments"
+  | "current_phrase_id"
+>;
+
 export interface GenerateRebuildJobCommand {
   timeout_sec?: number | null;
+  /** Activate the segments produced so far if the job is canceled or times out */
+  keep_partial?: boolean;
+  /** Return a RebuildEstimateDTO instead of queuing the job */
+  dry_run?: boolean;
+}
+
+export interface SlotEstimateDTO {
+  slot: VoiceSlot;
+  voice_id: string;
+  tier: VoiceTier;
+  /** Segments that need a TTS call */
+  segments: number;
+  characters: number;
+  estimated_cost_usd: number;
+}
+
+/** Response of a dry-run generate-rebuild: what a rebuild would synthesize and cost */
+export interface RebuildEstimateDTO {
+  phrase_count: number;
+  total_segments: number;
+  /** Unchanged segments of the current build, reused as they are */
+  reused_segments: number;
+  /** Segments copied from the shared audio cache */
+  cached_segments: number;
+  segments_to_synthesize: number;
+  total_characters: number;
+  estimated_cost_usd: number;
+  slots: SlotEstimateDTO[];
+  monthly_char_limit: number | null;
+  /** Characters left under the monthly cap before this rebuild; null without a cap */
+  remaining_characters: number | null;
+}
+
+export interface RepairSegmentsJobCommand {
+  timeout_sec?: number | null;
+  /** Only repair segments of this phrase */
+  phrase_id?: string;
+  /** Only repair segments of this voice slot */
+  slot?: VoiceSlot;
+}
+
+export interface CleanupBuildsJobCommand {
+  /** Number of newest builds to keep; defaults to BUILD_RETENTION_COUNT */
+  keep_builds?: number;
 }
 
 export interface GenerateRebuildAcceptedDTO {
@@ -269,7 +457,30 @@ export type CancelJobResponseDTO = Pick<Tables<"jobs">, "id" | "state">;
 // ------------------------------------
 export type BuildDTO = Pick<Tables<"builds">, "id" | "job_id" | "notebook_id" | "created_at">;
 
-export type BuildListResponse = Paginated<BuildDTO>;
+export interface BuildVoiceDTO {
+  slot: VoiceSlot;
+  language: string;
+  /** null for builds created before voice snapshots were recorded */
+  voice_id: string | null;
+}
+
+/** Build with what it contains, as shown in the build history */
+export interface BuildSummaryDTO extends BuildDTO {
+  is_current: boolean;
+  voices: BuildVoiceDTO[];
+  complete_segments: number;
+  failed_segments: number;
+  total_duration_ms: number;
+}
+
+export type BuildListResponse = Paginated<BuildSummaryDTO>;
+
+/** Response of POST /api/builds/:buildId/rollback */
+export interface RollbackBuildResponse {
+  notebook_id: string;
+  current_build_id: string;
+  previous_build_id: string | null;
+}
 
 // ------------------------------------
 // Audio Segments
@@ -332,6 +543,12 @@ export interface PlaybackManifestSegment {
   url: string;
   duration_ms?: number | null;
   word_timings?: WordTiming[] | null;
+  /** Phrase text changed since this audio was generated; a replacement is being generated */
+  is_stale?: boolean;
+  /** MIME type of the audio behind `url` (audio/mpeg or audio/ogg) */
+  content_type?: string;
+  /** Size of the audio behind `url`, used to tell a changed file from the cached one */
+  size_bytes?: number | null;
 }
 
 export interface PlaybackManifestItem {
@@ -349,6 +566,73 @@ export interface PlaybackManifestDTO {
   expires_at: string;
 }
 
+// ------------------------------------
+// Playback programs
+// ------------------------------------
+export interface PlaybackProgramStep {
+  slot: VoiceSlot;
+  /** How many times the segment is played in a row (1-10) */
+  repeat: number;
+  /** Silence after each repetition, in ms */
+  pause_ms: number;
+}
+
+export interface PlaybackProgramDTO {
+  id: string;
+  name: string;
+  steps: PlaybackProgramStep[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePlaybackProgramCommand {
+  name: string;
+  steps: PlaybackProgramStep[];
+}
+
+export type UpdatePlaybackProgramCommand = Partial<CreatePlaybackProgramCommand>;
+
+export interface PlaybackProgramsResponse {
+  items: PlaybackProgramDTO[];
+  /** Program used by the player and the ZIP export; null plays EN1 → EN2 → EN3 → PL */
+  selected_program_id: string | null;
+}
+
+export interface SelectPlaybackProgramCommand {
+  program_id: string | null;
+}
+
+// ------------------------------------
+// Phrase recordings (shadowing takes)
+// ------------------------------------
+/** Response of GET/PUT /api/phrases/:phraseId/recording */
+export type PhraseRecordingDTO = Pick<
+  Tables<"phrase_recordings">,
+  "id" | "phrase_id" | "voice_slot" | "content_type" | "size_bytes" | "duration_ms" | "created_at"
+> & {
+  /** Signed URL, valid for an hour */
+  url: string;
+};
+
+// ------------------------------------
+// Playback state (resume position)
+// ------------------------------------
+/** Response of GET/PUT /api/notebooks/:notebookId/playback-state */
+export interface PlaybackStateDTO {
+  notebook_id: UUID;
+  /** Null when the phrase was deleted after the position was saved */
+  phrase_id: UUID | null;
+  voice_slot: VoiceSlot | null;
+  speed: PlaybackSpeed;
+  updated_at: string;
+}
+
+export interface UpdatePlaybackStateCommand {
+  phrase_id: UUID;
+  voice_slot?: VoiceSlot | null;
+  speed: PlaybackSpeed;
+}
+
 // ------------------------------------
 // Auth
 // ------------------------------------
@@ -413,10 +697,23 @@ export interface Segment {
   url: string;
   durationMs?: number | null;
   timings?: Token["timing"][];
+  isStale?: boolean;
+  contentType?: string;
 }
 
 export type PlaybackSpeed = 0.75 | 0.9 | 1 | 1.25;
 
+/** A pause between segments during which the learner repeats aloud (shadowing mode) */
+export interface PlaybackGap {
+  /** Segment that was just played */
+  slot: VoiceSlot;
+  /** Date.now() when the pause started */
+  startedAt: number;
+  durationMs: number;
+  /** Record-and-compare: the learner is being recorded, then hears the take */
+  recording?: boolean;
+}
+
 export interface PlayerState {
   playing: boolean;
   currentPhraseIndex: number;
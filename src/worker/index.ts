@@ -0,0 +1,28 @@
+/* eslint-disable no-console */
+import { JobWorker } from "../lib/job-worker";
+import { getJobPollIntervalMs } from "../lib/job-lease";
+
+/**
+ * Standalone job worker (`npm run worker`): claims queued jobs under a lease and processes them
+ * outside the web server, so jobs survive server restarts. Jobs of a worker that dies are
+ * reclaimed once their lease expires. Stops after the current job on SIGTERM/SIGINT.
+ */
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error("Missing Supabase configuration (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)");
+  process.exit(1);
+}
+
+const controller = new AbortController();
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.once(signal, () => {
+    console.log(`Received ${signal}, stopping after the current job`);
+    controller.abort();
+  });
+}
+
+const worker = new JobWorker(supabaseUrl, supabaseServiceKey);
+await worker.run(controller.signal, getJobPollIntervalMs());
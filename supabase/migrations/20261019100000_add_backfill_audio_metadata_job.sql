@@ -0,0 +1,6 @@
+-- Add a job type that fills in duration, bitrate and sample rate of audio segments
+-- generated before the MP3 metadata was parsed at synthesis time.
+
+ALTER TYPE job_type_enum ADD VALUE IF NOT EXISTS 'BACKFILL_AUDIO_METADATA';
+
+COMMENT ON COLUMN jobs.type IS 'Job type: GENERATE_REBUILD or BACKFILL_AUDIO_METADATA';
@@ -0,0 +1,18 @@
+-- Per-voice audio settings applied during synthesis, and a per-segment fingerprint
+-- of everything that shaped the audio so rebuilds can reuse unchanged segments.
+
+ALTER TABLE user_voices ADD COLUMN speaking_rate real NOT NULL DEFAULT 1.0;
+ALTER TABLE user_voices ADD COLUMN pitch real NOT NULL DEFAULT 0;
+ALTER TABLE user_voices ADD COLUMN volume_gain_db real NOT NULL DEFAULT 0;
+
+ALTER TABLE user_voices ADD CONSTRAINT user_voices_speaking_rate_range CHECK (speaking_rate BETWEEN 0.25 AND 4.0);
+ALTER TABLE user_voices ADD CONSTRAINT user_voices_pitch_range CHECK (pitch BETWEEN -20 AND 20);
+ALTER TABLE user_voices ADD CONSTRAINT user_voices_volume_gain_db_range CHECK (volume_gain_db BETWEEN -96 AND 16);
+
+COMMENT ON COLUMN user_voices.speaking_rate IS 'TTS speaking rate (0.25-4.0, 1.0 = normal)';
+COMMENT ON COLUMN user_voices.pitch IS 'TTS pitch in semitones (-20 to 20)';
+COMMENT ON COLUMN user_voices.volume_gain_db IS 'TTS volume gain in dB (-96 to 16)';
+
+ALTER TABLE audio_segments ADD COLUMN fingerprint text NULL;
+
+COMMENT ON COLUMN audio_segments.fingerprint IS 'SHA-256 of text, voice and audio settings used to synthesize the segment';
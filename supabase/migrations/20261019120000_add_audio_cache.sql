@@ -0,0 +1,24 @@
+-- Content-addressed audio cache shared across notebooks.
+-- Keyed by a hash of the cleaned text, voice, language, audio settings and TTS provider;
+-- each entry points to an immutable object under `cache/` in the audio bucket.
+-- Only the service role (job worker, incremental generation) reads or writes it.
+
+CREATE TABLE audio_cache (
+  cache_key text PRIMARY KEY,
+  path text NOT NULL,
+  size_bytes integer NOT NULL,
+  timepoints jsonb NULL,
+  hit_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_used_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE audio_cache IS 'Synthesized audio reusable by any segment with the same cache key';
+COMMENT ON COLUMN audio_cache.path IS 'storage path: audio/cache/{cache_key}.mp3';
+COMMENT ON COLUMN audio_cache.timepoints IS 'SSML mark timepoints returned with the audio, used to rebuild word_timings';
+
+ALTER TABLE audio_cache ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE jobs ADD COLUMN cache_hits integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN jobs.cache_hits IS 'Segments served from audio_cache instead of calling TTS';
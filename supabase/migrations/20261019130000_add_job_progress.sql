@@ -0,0 +1,13 @@
+-- Live progress of generation jobs, updated by the worker while it runs
+-- and streamed to clients by GET /api/jobs/:jobId/events.
+
+ALTER TABLE jobs ADD COLUMN total_segments integer NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN completed_segments integer NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN failed_segments integer NOT NULL DEFAULT 0;
+ALTER TABLE jobs ADD COLUMN current_phrase_id uuid NULL REFERENCES phrases(id) ON DELETE SET NULL;
+ALTER TABLE jobs ADD COLUMN progress_updated_at timestamptz NULL;
+
+COMMENT ON COLUMN jobs.total_segments IS 'Phrase x voice segments the job will produce';
+COMMENT ON COLUMN jobs.completed_segments IS 'Segments produced so far (synthesized, cached or reused)';
+COMMENT ON COLUMN jobs.failed_segments IS 'Segments that failed so far';
+COMMENT ON COLUMN jobs.current_phrase_id IS 'Phrase most recently picked up by the worker';
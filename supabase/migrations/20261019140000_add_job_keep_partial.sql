@@ -0,0 +1,6 @@
+-- Whether a generation job that is canceled or times out activates the segments
+-- it produced so far as the notebook's build (otherwise they stay inactive).
+
+ALTER TABLE jobs ADD COLUMN keep_partial boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN jobs.keep_partial IS 'Activate partial build when the job is canceled or times out';
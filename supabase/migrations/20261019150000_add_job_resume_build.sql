@@ -0,0 +1,6 @@
+-- Resumable rebuilds: a job created by POST /api/jobs/:jobId/resume continues the build
+-- of a failed or timed-out job instead of starting a new one.
+
+ALTER TABLE jobs ADD COLUMN resume_build_id uuid NULL REFERENCES builds(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN jobs.resume_build_id IS 'Build continued by this job; complete segments in it are not re-synthesized';
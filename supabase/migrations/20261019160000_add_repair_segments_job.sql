@@ -0,0 +1,12 @@
+-- Add a job type that regenerates only failed or missing segments of a notebook's current build,
+-- optionally limited to one phrase and/or voice slot.
+
+ALTER TYPE job_type_enum ADD VALUE IF NOT EXISTS 'REPAIR_SEGMENTS';
+
+ALTER TABLE jobs
+  ADD COLUMN target_phrase_id uuid NULL REFERENCES phrases(id) ON DELETE SET NULL,
+  ADD COLUMN target_slot voice_slot_enum NULL;
+
+COMMENT ON COLUMN jobs.type IS 'Job type: GENERATE_REBUILD, BACKFILL_AUDIO_METADATA or REPAIR_SEGMENTS';
+COMMENT ON COLUMN jobs.target_phrase_id IS 'REPAIR_SEGMENTS: only repair segments of this phrase';
+COMMENT ON COLUMN jobs.target_slot IS 'REPAIR_SEGMENTS: only repair segments of this voice slot';
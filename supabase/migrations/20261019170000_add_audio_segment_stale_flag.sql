@@ -0,0 +1,6 @@
+-- Phrase text edits mark the affected segments of the current build as stale until
+-- incremental generation replaces them; stale audio stays playable in the meantime.
+
+ALTER TABLE audio_segments ADD COLUMN is_stale boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN audio_segments.is_stale IS 'Audio no longer matches the phrase text; regeneration is pending';
@@ -0,0 +1,10 @@
+-- Add a job type that removes old builds of a notebook (keeping the newest N and the current one),
+-- together with their audio_segments rows and storage objects no kept build still references.
+
+ALTER TYPE job_type_enum ADD VALUE IF NOT EXISTS 'CLEANUP_BUILDS';
+
+ALTER TABLE jobs
+  ADD COLUMN keep_builds integer NULL CHECK (keep_builds IS NULL OR keep_builds BETWEEN 1 AND 50);
+
+COMMENT ON COLUMN jobs.type IS 'Job type: GENERATE_REBUILD, BACKFILL_AUDIO_METADATA, REPAIR_SEGMENTS or CLEANUP_BUILDS';
+COMMENT ON COLUMN jobs.keep_builds IS 'CLEANUP_BUILDS: number of newest builds to keep (defaults to BUILD_RETENTION_COUNT)';
@@ -0,0 +1,7 @@
+-- Record the voices a build was generated with, so the build history can show what a rollback restores.
+-- Builds created before this migration have no snapshot (NULL); their voice slots are derived from segments.
+
+ALTER TABLE builds
+  ADD COLUMN voices jsonb NULL;
+
+COMMENT ON COLUMN builds.voices IS 'Snapshot of user voices at build time: [{ slot, language, voice_id }]';
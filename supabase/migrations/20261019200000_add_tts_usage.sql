@@ -0,0 +1,39 @@
+-- Characters sent to the TTS provider per user, voice and day (cache hits are not counted),
+-- and an optional per-user monthly character cap enforced before TTS jobs start.
+-- Usage is written by the service role (job worker, incremental generation) via record_tts_usage.
+
+CREATE TABLE tts_usage_daily (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  usage_date date NOT NULL,
+  voice_id text NOT NULL,
+  characters bigint NOT NULL DEFAULT 0,
+  requests integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, usage_date, voice_id)
+);
+
+COMMENT ON TABLE tts_usage_daily IS 'TTS characters synthesized per user, voice and day (UTC)';
+
+ALTER TABLE tts_usage_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tts_usage_daily_select_own
+  ON tts_usage_daily FOR SELECT
+  TO authenticated
+  USING (user_id = get_current_user_id());
+
+ALTER TABLE users
+  ADD COLUMN tts_monthly_char_limit integer NULL CHECK (tts_monthly_char_limit IS NULL OR tts_monthly_char_limit > 0);
+
+COMMENT ON COLUMN users.tts_monthly_char_limit IS 'Monthly TTS character cap; NULL means unlimited';
+
+-- Adds one synthesis to the day's counters atomically (concurrent segments of a job call this in parallel)
+CREATE OR REPLACE FUNCTION record_tts_usage(p_user_id uuid, p_voice_id text, p_characters integer)
+RETURNS void LANGUAGE plpgsql SECURITY INVOKER AS $$
+BEGIN
+  INSERT INTO tts_usage_daily (user_id, usage_date, voice_id, characters, requests)
+  VALUES (p_user_id, (now() AT TIME ZONE 'utc')::date, p_voice_id, p_characters, 1)
+  ON CONFLICT (user_id, usage_date, voice_id) DO UPDATE
+    SET characters = tts_usage_daily.characters + excluded.characters,
+        requests = tts_usage_daily.requests + 1,
+        updated_at = now();
+END; $$;
@@ -0,0 +1,45 @@
+-- Per-user pronunciation lexicon: a term is spoken as an alias (SSML <sub>) or an IPA
+-- pronunciation (SSML <phoneme>) whenever it appears as a whole word in text of its language.
+
+CREATE TABLE pronunciation_lexicon (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  language text NOT NULL CHECK (language IN ('en', 'pl')),
+  term text NOT NULL CHECK (char_length(term) BETWEEN 1 AND 100 AND term !~ '\s'),
+  alias text NULL CHECK (alias IS NULL OR char_length(alias) BETWEEN 1 AND 200),
+  phoneme text NULL CHECK (phoneme IS NULL OR char_length(phoneme) BETWEEN 1 AND 200),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((alias IS NULL) <> (phoneme IS NULL))
+);
+
+COMMENT ON TABLE pronunciation_lexicon IS 'User-defined pronunciations applied as SSML before synthesis';
+COMMENT ON COLUMN pronunciation_lexicon.alias IS 'Text spoken instead of the term (SSML <sub alias>)';
+COMMENT ON COLUMN pronunciation_lexicon.phoneme IS 'IPA pronunciation of the term (SSML <phoneme alphabet="ipa">)';
+
+-- Terms match case-insensitively, so one entry per spelling
+CREATE UNIQUE INDEX pronunciation_lexicon_user_language_term_key
+  ON pronunciation_lexicon (user_id, language, lower(term));
+
+ALTER TABLE pronunciation_lexicon ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY pronunciation_lexicon_select_own
+  ON pronunciation_lexicon FOR SELECT
+  TO authenticated
+  USING (user_id = get_current_user_id());
+
+CREATE POLICY pronunciation_lexicon_insert_own
+  ON pronunciation_lexicon FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY pronunciation_lexicon_update_own
+  ON pronunciation_lexicon FOR UPDATE
+  TO authenticated
+  USING (user_id = get_current_user_id())
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY pronunciation_lexicon_delete_own
+  ON pronunciation_lexicon FOR DELETE
+  TO authenticated
+  USING (user_id = get_current_user_id());
@@ -0,0 +1,88 @@
+-- Durable job processing: workers claim jobs with a lease that they renew while working (heartbeat).
+-- A running job whose lease expired lost its worker (crash, restart) and is claimed again; after
+-- too many attempts it is failed. Incremental audio for new or edited phrases becomes a job too,
+-- so it survives restarts of the request process.
+
+ALTER TYPE job_type_enum ADD VALUE IF NOT EXISTS 'INCREMENTAL_AUDIO';
+
+ALTER TABLE jobs
+  ADD COLUMN lease_owner text NULL,
+  ADD COLUMN lease_expires_at timestamptz NULL,
+  ADD COLUMN attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN target_phrase_ids uuid[] NULL,
+  ADD COLUMN incremental_source text NULL
+    CHECK (incremental_source IS NULL OR incremental_source IN ('create_phrase', 'append_import', 'update_phrase'));
+
+COMMENT ON COLUMN jobs.type IS 'Job type: GENERATE_REBUILD, BACKFILL_AUDIO_METADATA, REPAIR_SEGMENTS, CLEANUP_BUILDS or INCREMENTAL_AUDIO';
+COMMENT ON COLUMN jobs.lease_owner IS 'Worker currently processing the job';
+COMMENT ON COLUMN jobs.lease_expires_at IS 'The job is reclaimed when its worker stops renewing the lease past this time';
+COMMENT ON COLUMN jobs.attempts IS 'Number of times a worker claimed the job';
+COMMENT ON COLUMN jobs.target_phrase_ids IS 'INCREMENTAL_AUDIO: phrases to generate audio for';
+COMMENT ON COLUMN jobs.incremental_source IS 'INCREMENTAL_AUDIO: create_phrase, append_import or update_phrase';
+
+CREATE INDEX jobs_claimable_idx ON jobs (created_at) WHERE state IN ('queued', 'running');
+
+-- Claims the given job, or the oldest claimable one, for a worker. A job is claimable when queued,
+-- or running under an expired lease. Jobs of a notebook that has another job under a live lease
+-- wait, so each notebook runs one job at a time. Returns the claimed job ID, or NULL.
+CREATE OR REPLACE FUNCTION claim_job(
+  p_worker_id text,
+  p_lease_seconds integer,
+  p_job_id uuid DEFAULT NULL,
+  p_max_attempts integer DEFAULT 3
+)
+RETURNS uuid LANGUAGE plpgsql SECURITY INVOKER AS $$
+DECLARE
+  v_job_id uuid;
+BEGIN
+  -- Serializes claims, so two workers cannot start jobs of the same notebook at once
+  PERFORM pg_advisory_xact_lock(hashtext('claim_job'));
+
+  UPDATE jobs
+    SET state = 'failed',
+        ended_at = now(),
+        error = format('Job abandoned after %s attempts (worker stopped responding)', attempts),
+        lease_owner = NULL,
+        lease_expires_at = NULL
+    WHERE state = 'running' AND lease_expires_at < now() AND attempts >= p_max_attempts;
+
+  SELECT j.id INTO v_job_id
+    FROM jobs j
+    WHERE (j.state = 'queued' OR (j.state = 'running' AND j.lease_expires_at < now()))
+      AND (p_job_id IS NULL OR j.id = p_job_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM jobs other
+        WHERE other.notebook_id = j.notebook_id
+          AND other.id <> j.id
+          AND other.state = 'running'
+          AND other.lease_expires_at >= now()
+      )
+    ORDER BY j.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+  IF v_job_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE jobs
+    SET state = 'running',
+        lease_owner = p_worker_id,
+        lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        started_at = COALESCE(started_at, now())
+    WHERE id = v_job_id;
+
+  RETURN v_job_id;
+END; $$;
+
+-- Heartbeat: extends the lease while the worker still owns the running job.
+-- Returns false once the job was canceled, finished or reclaimed by another worker.
+CREATE OR REPLACE FUNCTION renew_job_lease(p_job_id uuid, p_worker_id text, p_lease_seconds integer)
+RETURNS boolean LANGUAGE plpgsql SECURITY INVOKER AS $$
+BEGIN
+  UPDATE jobs
+    SET lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+    WHERE id = p_job_id AND lease_owner = p_worker_id AND state = 'running';
+  RETURN FOUND;
+END; $$;
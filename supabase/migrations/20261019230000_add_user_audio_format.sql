@@ -0,0 +1,13 @@
+-- Per-user output format of generated audio: MP3 (default, as before) or Ogg Opus, which is
+-- several times smaller at the same quality. The sample rate must be one the encoding supports.
+
+ALTER TABLE users
+  ADD COLUMN audio_format text NOT NULL DEFAULT 'MP3',
+  ADD COLUMN audio_sample_rate_hz integer NOT NULL DEFAULT 22050,
+  ADD CONSTRAINT users_audio_format_check CHECK (
+    (audio_format = 'MP3' AND audio_sample_rate_hz IN (16000, 22050, 24000, 44100))
+    OR (audio_format = 'OGG_OPUS' AND audio_sample_rate_hz IN (16000, 24000, 48000))
+  );
+
+COMMENT ON COLUMN users.audio_format IS 'Encoding requested from the TTS provider: MP3 or OGG_OPUS';
+COMMENT ON COLUMN users.audio_sample_rate_hz IS 'Sample rate requested from the TTS provider';
@@ -0,0 +1,44 @@
+-- User-defined playback programs: the order in which a phrase's segments are played, e.g.
+-- PL → EN1 → EN2 or EN1 three times with 2 s gaps. Each step is {slot, repeat, pause_ms}.
+-- Users without a selected program play the built-in EN1 → EN2 → EN3 → PL sequence.
+
+CREATE TABLE playback_programs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 60),
+  steps jsonb NOT NULL CHECK (jsonb_typeof(steps) = 'array' AND jsonb_array_length(steps) BETWEEN 1 AND 16),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE playback_programs IS 'User-defined segment order for the player and the ZIP export';
+COMMENT ON COLUMN playback_programs.steps IS 'Array of {slot, repeat, pause_ms}; pause_ms is the gap after each repetition';
+
+CREATE UNIQUE INDEX playback_programs_user_name_key ON playback_programs (user_id, lower(name));
+
+ALTER TABLE playback_programs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY playback_programs_select_own
+  ON playback_programs FOR SELECT
+  TO authenticated
+  USING (user_id = get_current_user_id());
+
+CREATE POLICY playback_programs_insert_own
+  ON playback_programs FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY playback_programs_update_own
+  ON playback_programs FOR UPDATE
+  TO authenticated
+  USING (user_id = get_current_user_id())
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY playback_programs_delete_own
+  ON playback_programs FOR DELETE
+  TO authenticated
+  USING (user_id = get_current_user_id());
+
+-- The program used by the player and the ZIP export; NULL plays the built-in sequence
+ALTER TABLE users
+  ADD COLUMN playback_program_id uuid NULL REFERENCES playback_programs(id) ON DELETE SET NULL;
@@ -0,0 +1,42 @@
+-- Best shadowing take per phrase, uploaded from the player's record-and-compare mode.
+-- Takes are recorded and kept in the browser; only the one the learner picks is stored here,
+-- in the audio bucket under recordings/{user_id}/{phrase_id}.{ext}.
+
+CREATE TABLE phrase_recordings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  phrase_id uuid NOT NULL REFERENCES phrases(id) ON DELETE CASCADE,
+  voice_slot voice_slot_enum NOT NULL,
+  path text NOT NULL,
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL CHECK (size_bytes > 0),
+  duration_ms integer NULL CHECK (duration_ms IS NULL OR duration_ms > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, phrase_id)
+);
+
+COMMENT ON TABLE phrase_recordings IS 'Best shadowing take per phrase recorded by the learner';
+COMMENT ON COLUMN phrase_recordings.voice_slot IS 'Segment the learner repeated';
+
+ALTER TABLE phrase_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY phrase_recordings_select_own
+  ON phrase_recordings FOR SELECT
+  TO authenticated
+  USING (user_id = get_current_user_id());
+
+CREATE POLICY phrase_recordings_insert_own
+  ON phrase_recordings FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY phrase_recordings_update_own
+  ON phrase_recordings FOR UPDATE
+  TO authenticated
+  USING (user_id = get_current_user_id())
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY phrase_recordings_delete_own
+  ON phrase_recordings FOR DELETE
+  TO authenticated
+  USING (user_id = get_current_user_id());
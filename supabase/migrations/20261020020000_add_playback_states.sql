@@ -0,0 +1,39 @@
+-- Where the learner left off in each notebook's player, so playback can resume on any device.
+-- Saved periodically by the player; one row per user and notebook.
+
+CREATE TABLE playback_states (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  notebook_id uuid NOT NULL REFERENCES notebooks(id) ON DELETE CASCADE,
+  phrase_id uuid NULL REFERENCES phrases(id) ON DELETE SET NULL,
+  voice_slot voice_slot_enum NULL,
+  speed numeric(3, 2) NOT NULL DEFAULT 1 CHECK (speed IN (0.75, 0.9, 1, 1.25)),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, notebook_id)
+);
+
+COMMENT ON TABLE playback_states IS 'Last playback position per user and notebook';
+COMMENT ON COLUMN playback_states.phrase_id IS 'Phrase being played; NULL once the phrase is deleted';
+COMMENT ON COLUMN playback_states.voice_slot IS 'Segment being played, NULL between segments';
+
+ALTER TABLE playback_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY playback_states_select_own
+  ON playback_states FOR SELECT
+  TO authenticated
+  USING (user_id = get_current_user_id());
+
+CREATE POLICY playback_states_insert_own
+  ON playback_states FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY playback_states_update_own
+  ON playback_states FOR UPDATE
+  TO authenticated
+  USING (user_id = get_current_user_id())
+  WITH CHECK (user_id = get_current_user_id());
+
+CREATE POLICY playback_states_delete_own
+  ON playback_states FOR DELETE
+  TO authenticated
+  USING (user_id = get_current_user_id());
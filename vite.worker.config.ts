@@ -0,0 +1,11 @@
+import { defineConfig } from "vite";
+
+// Bundles the standalone job worker (`npm run worker`) for Node; dependencies stay external
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: "src/worker/index.ts",
+    outDir: "dist/worker",
+    target: "node22",
+  },
+});